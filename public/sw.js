@@ -68,3 +68,42 @@ self.addEventListener("fetch", (event) => {
     }
   }
 });
+
+self.addEventListener("push", (event) => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch {
+    payload = { body: event.data ? event.data.text() : "" };
+  }
+
+  const title = payload.title || "HillSide";
+  event.waitUntil(
+    self.registration.showNotification(title, {
+      body: payload.body || "",
+      icon: payload.icon || "/logo/icon-192.png",
+      badge: "/logo/icon-192.png",
+      tag: payload.tag,
+      // Re-alert when a newer message replaces one with the same tag.
+      renotify: Boolean(payload.tag),
+      timestamp: payload.timestamp,
+      data: { url: payload.url || "/notifications" }
+    })
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const target = new URL(event.notification.data?.url || "/notifications", self.location.origin);
+  if (target.origin !== self.location.origin) return;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windows) => {
+      const existing = windows.find((client) => new URL(client.url).origin === self.location.origin);
+      if (existing) {
+        return existing.focus().then((client) => (client || existing).navigate(target.href));
+      }
+      return self.clients.openWindow(target.href);
+    })
+  );
+});
@@ -0,0 +1,239 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Agent } from '@atproto/api';
+import { logger } from './logger';
+
+type LogEntry = { $type: string; rev?: string; convoId?: string; [key: string]: unknown };
+
+interface ChatEventStream {
+  sessionId: string;
+  agent: Agent;
+  clients: Set<ServerResponse>;
+  cursor?: string;
+  timer?: NodeJS.Timeout;
+  delayMs: number;
+  stopped: boolean;
+}
+
+export interface ChatEventHubOptions {
+  pollIntervalMs: number;
+  maxPollIntervalMs?: number;
+  heartbeatIntervalMs?: number;
+  maxPagesPerPoll?: number;
+  /** Called for every failed getLog call, e.g. to count upstream errors. */
+  onUpstreamError?: (error: unknown) => void;
+}
+
+const LOG_EVENT_NAMES: Record<string, string> = {
+  'chat.bsky.convo.defs#logCreateMessage': 'message',
+  'chat.bsky.convo.defs#logDeleteMessage': 'message-delete',
+  'chat.bsky.convo.defs#logReadMessage': 'read',
+  'chat.bsky.convo.defs#logBeginConvo': 'convo-begin',
+  'chat.bsky.convo.defs#logAcceptConvo': 'convo-accept',
+  'chat.bsky.convo.defs#logLeaveConvo': 'convo-leave',
+  'chat.bsky.convo.defs#logMuteConvo': 'convo-mute',
+  'chat.bsky.convo.defs#logUnmuteConvo': 'convo-unmute',
+  'chat.bsky.convo.defs#logAddReaction': 'reaction-add',
+  'chat.bsky.convo.defs#logRemoveReaction': 'reaction-remove',
+};
+
+const writeEvent = (res: ServerResponse, event: string, data: unknown, id?: string) => {
+  let frame = '';
+  if (id) frame += `id: ${id}\n`;
+  frame += `event: ${event}\n`;
+  frame += `data: ${JSON.stringify(data)}\n\n`;
+  res.write(frame);
+};
+
+const writeLogEntries = (targets: Iterable<ServerResponse>, logs: LogEntry[]) => {
+  for (const entry of logs) {
+    const event = LOG_EVENT_NAMES[entry.$type];
+    if (!event) continue;
+    for (const res of targets) {
+      writeEvent(res, event, entry, entry.rev);
+    }
+  }
+};
+
+const getStatus = (error: unknown) => {
+  const { status, statusCode } = (error ?? {}) as { status?: number; statusCode?: number };
+  return status ?? statusCode;
+};
+
+/**
+ * Fans chat.bsky.convo.getLog out to server-sent event clients. Every chat
+ * session gets a single poller no matter how many tabs are listening, and the
+ * log rev is used as the SSE event id so reconnecting clients can catch up.
+ */
+export const createChatEventHub = ({
+  pollIntervalMs,
+  maxPollIntervalMs = 30_000,
+  heartbeatIntervalMs = 25_000,
+  maxPagesPerPoll = 5,
+  onUpstreamError,
+}: ChatEventHubOptions) => {
+  const streams = new Map<string, ChatEventStream>();
+
+  const fetchLogs = async (agent: Agent, cursor?: string) => {
+    const logs: LogEntry[] = [];
+    let nextCursor = cursor;
+    for (let page = 0; page < maxPagesPerPoll; page += 1) {
+      const response = await agent.chat.bsky.convo.getLog({ cursor: nextCursor });
+      const batch = (response.data.logs ?? []) as LogEntry[];
+      logs.push(...batch);
+      if (response.data.cursor) nextCursor = response.data.cursor;
+      if (batch.length === 0 || !response.data.cursor) break;
+    }
+    return { logs, cursor: nextCursor };
+  };
+
+  const stop = (stream: ChatEventStream) => {
+    stream.stopped = true;
+    if (stream.timer) clearTimeout(stream.timer);
+    if (streams.get(stream.sessionId) === stream) {
+      streams.delete(stream.sessionId);
+    }
+  };
+
+  const closeSession = (sessionId: string, event?: string) => {
+    const stream = streams.get(sessionId);
+    if (!stream) return;
+    stop(stream);
+    for (const res of stream.clients) {
+      if (event) writeEvent(res, event, {});
+      res.end();
+    }
+    stream.clients.clear();
+  };
+
+  const schedule = (stream: ChatEventStream) => {
+    if (stream.stopped) return;
+    stream.timer = setTimeout(() => {
+      void poll(stream);
+    }, stream.delayMs);
+  };
+
+  const poll = async (stream: ChatEventStream) => {
+    if (stream.clients.size === 0) {
+      stop(stream);
+      return;
+    }
+    try {
+      const { logs, cursor } = await fetchLogs(stream.agent, stream.cursor);
+      if (stream.stopped) return;
+      stream.cursor = cursor;
+      writeLogEntries(stream.clients, logs);
+      stream.delayMs = pollIntervalMs;
+    } catch (error) {
+      onUpstreamError?.(error);
+      if (getStatus(error) === 401) {
+        closeSession(stream.sessionId, 'session-expired');
+        return;
+      }
+      logger.warn('Chat event poll failed', { sessionId: stream.sessionId, error });
+      stream.delayMs = Math.min(stream.delayMs * 2, maxPollIntervalMs);
+    }
+    schedule(stream);
+  };
+
+  const ensureStream = async (sessionId: string, agent: Agent) => {
+    const existing = streams.get(sessionId);
+    if (existing) return existing;
+    const stream: ChatEventStream = {
+      sessionId,
+      agent,
+      clients: new Set(),
+      delayMs: pollIntervalMs,
+      stopped: false,
+    };
+    streams.set(sessionId, stream);
+    try {
+      // Without a cursor getLog only tells us where "now" is; start from there.
+      const response = await agent.chat.bsky.convo.getLog({});
+      stream.cursor = response.data.cursor;
+    } catch (error) {
+      onUpstreamError?.(error);
+      stop(stream);
+      throw error;
+    }
+    schedule(stream);
+    return stream;
+  };
+
+  const connect = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+    sessionId: string,
+    agent: Agent,
+    resumeCursor?: string
+  ) => {
+    // Listen before the first await: a client that leaves while we are still
+    // setting up must not be registered afterwards.
+    let stream: ChatEventStream | undefined;
+    let closed = false;
+    req.on('close', () => {
+      closed = true;
+      if (!stream) return;
+      stream.clients.delete(res);
+      if (stream.clients.size === 0) {
+        stop(stream);
+      }
+    });
+    const isGone = () => closed || req.destroyed || res.writableEnded;
+
+    stream = await ensureStream(sessionId, agent);
+    if (isGone()) {
+      if (stream.clients.size === 0) stop(stream);
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.write(`retry: ${pollIntervalMs}\n\n`);
+
+    if (resumeCursor && resumeCursor !== stream.cursor) {
+      try {
+        const { logs } = await fetchLogs(agent, resumeCursor);
+        writeLogEntries([res], logs);
+      } catch (error) {
+        onUpstreamError?.(error);
+        logger.warn('Chat event catch-up failed', { sessionId, error });
+      }
+    }
+
+    if (stream.stopped) {
+      // Every other listener left while we were catching up.
+      try {
+        stream = await ensureStream(sessionId, agent);
+      } catch (error) {
+        logger.error('Chat event stream restart failed', { sessionId, error });
+        res.end();
+        return;
+      }
+    }
+
+    if (isGone()) {
+      if (stream.clients.size === 0) stop(stream);
+      return;
+    }
+
+    writeEvent(res, 'ready', { cursor: stream.cursor ?? null });
+    stream.clients.add(res);
+
+    const heartbeat = setInterval(() => {
+      res.write(': ping\n\n');
+    }, heartbeatIntervalMs);
+    req.on('close', () => clearInterval(heartbeat));
+  };
+
+  return {
+    connect,
+    closeSession,
+    get activeStreams() {
+      return streams.size;
+    },
+  };
+};
@@ -0,0 +1,51 @@
+// Standalone post card served at /embed/:handle/:rkey. It is meant to live in
+// third-party iframes, so everything is inline and no app bundle is loaded.
+
+import { escapeHtml, postHref, postStyles, renderPostArticle } from './html';
+
+type PostView = Record<string, any>;
+
+export interface EmbedPageOptions {
+  siteUrl: string;
+}
+
+const styles = `
+*{box-sizing:border-box}
+body{margin:0;font-family:-apple-system,BlinkMacSystemFont,"Segoe UI",Inter,Roboto,sans-serif;background:transparent}
+.hs-post{max-width:550px;margin:0 auto}
+${postStyles}`;
+
+const renderDocument = (title: string, body: string, canonicalUrl?: string) => `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<meta name="robots" content="noindex" />
+<title>${escapeHtml(title)}</title>
+${canonicalUrl ? `<link rel="canonical" href="${escapeHtml(canonicalUrl)}" />\n` : ''}<base target="_blank" />
+<style>${styles}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+
+export const renderPostEmbedPage = (post: PostView, { siteUrl }: EmbedPageOptions) => {
+  const author = post.author ?? {};
+  const handle = String(author.handle ?? author.did ?? '');
+  const name = String(author.displayName || `@${handle}`);
+  return renderDocument(
+    `Post by ${name}`,
+    renderPostArticle(post, siteUrl, { footerLink: true }),
+    postHref(siteUrl, handle, post.uri)
+  );
+};
+
+export const renderEmbedNotFoundPage = ({ siteUrl }: EmbedPageOptions) =>
+  renderDocument(
+    'Post not found',
+    `<article class="hs-post"><p class="hs-text">This post could not be loaded. It may have been deleted.</p><div class="hs-footer"><span></span><a href="${escapeHtml(
+      siteUrl.replace(/\/$/, '')
+    )}">Open HillSide</a></div></article>`
+  );
@@ -0,0 +1,221 @@
+// Shared markup for the server-rendered views (post embeds and the no-JS
+// snapshots of post and profile pages). Views come straight from the public
+// AppView, so they stay loosely typed like the rest of the server.
+
+type PostView = Record<string, any>;
+
+interface Facet {
+  index: { byteStart: number; byteEnd: number };
+  features: { $type: string; uri?: string; did?: string; tag?: string }[];
+}
+
+export const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const withBreaks = (value: string) => escapeHtml(value).replace(/\r?\n/g, '<br />');
+
+export const formatCount = (value: number) => {
+  if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1).replace(/\.0$/, '')}M`;
+  if (value >= 1_000) return `${(value / 1_000).toFixed(1).replace(/\.0$/, '')}K`;
+  return String(value);
+};
+
+export const formatDate = (value?: string) => {
+  if (!value) return '';
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return '';
+  return date.toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+};
+
+const getRkey = (uri?: string) => uri?.split('/').pop() ?? '';
+
+export const profileHref = (siteUrl: string, handle: string) =>
+  `${siteUrl.replace(/\/$/, '')}/profile/${encodeURIComponent(handle)}`;
+
+export const postHref = (siteUrl: string, handle: string, uri?: string) =>
+  `${profileHref(siteUrl, handle)}/post/${encodeURIComponent(getRkey(uri))}`;
+
+/** Facet indices are UTF-8 byte offsets, so slicing has to happen on the encoded text. */
+export const renderRichText = (text: string, facets: Facet[] | undefined, siteUrl: string) => {
+  if (!facets?.length) return withBreaks(text);
+  const site = siteUrl.replace(/\/$/, '');
+  const bytes = Buffer.from(text, 'utf8');
+  const sorted = [...facets].sort((a, b) => a.index.byteStart - b.index.byteStart);
+  let cursor = 0;
+  let html = '';
+  for (const facet of sorted) {
+    const { byteStart, byteEnd } = facet.index;
+    if (byteStart < cursor || byteEnd > bytes.length || byteEnd <= byteStart) continue;
+    html += withBreaks(bytes.subarray(cursor, byteStart).toString('utf8'));
+    const segment = withBreaks(bytes.subarray(byteStart, byteEnd).toString('utf8'));
+    const feature = facet.features?.[0];
+    let href: string | undefined;
+    let external = false;
+    if (feature?.$type === 'app.bsky.richtext.facet#link' && feature.uri && /^https?:\/\//i.test(feature.uri)) {
+      href = feature.uri;
+      external = true;
+    } else if (feature?.$type === 'app.bsky.richtext.facet#mention' && feature.did) {
+      href = `${site}/profile/${encodeURIComponent(feature.did)}`;
+    } else if (feature?.$type === 'app.bsky.richtext.facet#tag' && feature.tag) {
+      href = `${site}/hashtag/${encodeURIComponent(feature.tag)}`;
+    }
+    html += href
+      ? `<a href="${escapeHtml(href)}"${external ? ' rel="noopener noreferrer nofollow"' : ''}>${segment}</a>`
+      : segment;
+    cursor = byteEnd;
+  }
+  html += withBreaks(bytes.subarray(cursor).toString('utf8'));
+  return html;
+};
+
+const renderImages = (images: any[]) => {
+  const visible = images.slice(0, 4);
+  return `<div class="hs-images hs-images-${visible.length}">${visible
+    .map(
+      (image) =>
+        `<img src="${escapeHtml(String(image.thumb ?? image.fullsize ?? ''))}" alt="${escapeHtml(String(image.alt ?? ''))}" loading="lazy" />`
+    )
+    .join('')}</div>`;
+};
+
+const renderExternal = (external: any) => {
+  // The uri comes straight from the post record, so anything but a web link (javascript:, data:) is dropped.
+  if (typeof external?.uri !== 'string' || !/^https?:\/\//i.test(external.uri)) return '';
+  let host = '';
+  try {
+    host = new URL(external.uri).host;
+  } catch {
+    return '';
+  }
+  return `<a class="hs-external" href="${escapeHtml(external.uri)}" rel="noopener noreferrer nofollow">${
+    external.thumb ? `<img src="${escapeHtml(external.thumb)}" alt="" loading="lazy" />` : ''
+  }<div class="hs-external-body"><strong>${escapeHtml(String(external.title || host))}</strong>${
+    external.description ? `<span>${escapeHtml(String(external.description))}</span>` : ''
+  }<small>${escapeHtml(host)}</small></div></a>`;
+};
+
+const renderQuote = (record: any, siteUrl: string) => {
+  if (record?.$type === 'app.bsky.embed.record#viewNotFound') {
+    return '<div class="hs-quote hs-muted">Quoted post not found.</div>';
+  }
+  if (record?.$type === 'app.bsky.embed.record#viewBlocked') {
+    return '<div class="hs-quote hs-muted">Quoted post is unavailable.</div>';
+  }
+  if (record?.$type !== 'app.bsky.embed.record#viewRecord') return '';
+  const author = record.author ?? {};
+  const handle = String(author.handle ?? author.did ?? '');
+  const text = String(record.value?.text ?? '');
+  const media = record.embeds?.[0];
+  const images = media?.$type === 'app.bsky.embed.images#view' ? renderImages(media.images ?? []) : '';
+  return `<a class="hs-quote" href="${escapeHtml(postHref(siteUrl, handle, record.uri))}"><div class="hs-quote-author">${
+    author.avatar ? `<img src="${escapeHtml(author.avatar)}" alt="" />` : ''
+  }<strong>${escapeHtml(String(author.displayName || handle))}</strong><span>@${escapeHtml(handle)}</span></div>${
+    text ? `<p>${withBreaks(text)}</p>` : ''
+  }${images}</a>`;
+};
+
+export const renderEmbed = (embed: any, siteUrl: string): string => {
+  switch (embed?.$type) {
+    case 'app.bsky.embed.images#view':
+      return renderImages(embed.images ?? []);
+    case 'app.bsky.embed.external#view':
+      return renderExternal(embed.external);
+    case 'app.bsky.embed.video#view':
+      return embed.thumbnail
+        ? `<div class="hs-images hs-images-1"><img src="${escapeHtml(embed.thumbnail)}" alt="${escapeHtml(String(embed.alt ?? 'Video'))}" loading="lazy" /></div>`
+        : '';
+    case 'app.bsky.embed.record#view':
+      return renderQuote(embed.record, siteUrl);
+    case 'app.bsky.embed.recordWithMedia#view':
+      return `${renderEmbed(embed.media, siteUrl)}${renderQuote(embed.record?.record, siteUrl)}`;
+    default:
+      return '';
+  }
+};
+
+export const renderAvatar = (src: string | undefined, className = 'hs-avatar') =>
+  src ? `<img class="${className}" src="${escapeHtml(src)}" alt="" />` : `<div class="${className}"></div>`;
+
+export interface PostArticleOptions {
+  /** Adds the "View on HillSide" footer used by standalone embeds. */
+  footerLink?: boolean;
+}
+
+export const renderPostArticle = (post: PostView, siteUrl: string, { footerLink = false }: PostArticleOptions = {}) => {
+  const author = post.author ?? {};
+  const handle = String(author.handle ?? author.did ?? '');
+  const name = String(author.displayName || `@${handle}`);
+  const href = postHref(siteUrl, handle, post.uri);
+  const record = post.record ?? {};
+  const date = formatDate(record.createdAt);
+  const stats = `<div class="hs-stats"><span><b>${formatCount(post.replyCount ?? 0)}</b> replies</span><span><b>${formatCount(
+    (post.repostCount ?? 0) + (post.quoteCount ?? 0)
+  )}</b> reposts</span><span><b>${formatCount(post.likeCount ?? 0)}</b> likes</span></div>`;
+  const time = `<time datetime="${escapeHtml(String(record.createdAt ?? ''))}">${escapeHtml(date)}</time>`;
+
+  return `<article class="hs-post">
+<a class="hs-author" href="${escapeHtml(profileHref(siteUrl, handle))}">${renderAvatar(author.avatar)}<div><strong>${escapeHtml(
+    name
+  )}</strong><span>@${escapeHtml(handle)}</span></div></a>
+<p class="hs-text">${renderRichText(String(record.text ?? ''), record.facets, siteUrl)}</p>
+${renderEmbed(post.embed, siteUrl)}
+${stats}
+${
+  footerLink
+    ? `<div class="hs-footer">${time}<a href="${escapeHtml(href)}">View on HillSide</a></div>`
+    : `<div class="hs-footer"><a href="${escapeHtml(href)}">${time || 'Open post'}</a></div>`
+}
+</article>`;
+};
+
+export const postStyles = `
+.hs-post{padding:16px;border:1px solid #dfe3df;border-radius:16px;background:#fff;color:#1c1f1d}
+.hs-post a,.hs-page a{color:#224f3a}
+.hs-author{display:flex;align-items:center;gap:12px;text-decoration:none;color:inherit!important}
+.hs-avatar{width:44px;height:44px;border-radius:50%;object-fit:cover;background:#224f3a;flex-shrink:0}
+.hs-author strong{display:block;font-size:15px}
+.hs-author span{display:block;font-size:14px;color:#66706a}
+.hs-text{margin:12px 0 0;font-size:16px;line-height:1.45;word-wrap:break-word}
+.hs-text a{text-decoration:none}
+.hs-images{display:grid;gap:4px;margin-top:12px;border-radius:12px;overflow:hidden}
+.hs-images-2,.hs-images-4{grid-template-columns:1fr 1fr}
+.hs-images-3{grid-template-columns:1fr 1fr 1fr}
+.hs-images img{width:100%;height:100%;max-height:320px;object-fit:cover;display:block}
+.hs-external{display:block;margin-top:12px;border:1px solid #dfe3df;border-radius:12px;overflow:hidden;text-decoration:none;color:inherit!important}
+.hs-external img{width:100%;max-height:240px;object-fit:cover;display:block}
+.hs-external-body{padding:10px 12px;display:flex;flex-direction:column;gap:4px;font-size:14px}
+.hs-external-body span{color:#444c47}
+.hs-external-body small{color:#66706a}
+.hs-quote{display:block;margin-top:12px;padding:12px;border:1px solid #dfe3df;border-radius:12px;text-decoration:none;color:inherit!important}
+.hs-muted{color:#66706a!important;font-size:14px}
+.hs-quote-author{display:flex;align-items:center;gap:6px;font-size:14px}
+.hs-quote-author img{width:20px;height:20px;border-radius:50%}
+.hs-quote-author span{color:#66706a}
+.hs-quote p{margin:6px 0 0;font-size:15px;line-height:1.4}
+.hs-stats{display:flex;flex-wrap:wrap;align-items:center;gap:16px;margin-top:14px;font-size:14px;color:#66706a}
+.hs-stats b{color:#1c1f1d}
+.hs-footer{display:flex;justify-content:space-between;align-items:center;margin-top:12px;padding-top:12px;border-top:1px solid #eef0ee;font-size:14px}
+.hs-footer a{font-weight:600;text-decoration:none}
+@media (prefers-color-scheme:dark){
+.hs-post{background:#151a17;border-color:#2a322d;color:#e8ece9}
+.hs-post a,.hs-page a{color:#6fc39a}
+.hs-external,.hs-quote{border-color:#2a322d}
+.hs-external-body span{color:#c3cbc6}
+.hs-stats b{color:#e8ece9}
+.hs-footer{border-color:#222925}
+}
+`;
+
+/** Serializes data for an inline <script> body; `<` is escaped so strings can't close the tag. */
+export const serializeForScript = (data: unknown) => JSON.stringify(data).replace(/</g, '\\u003c');
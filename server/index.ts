@@ -2,9 +2,61 @@ import { createServer, IncomingMessage, ServerResponse } from 'node:http';
 import { randomUUID } from 'node:crypto';
 import { readFile, stat } from 'node:fs/promises';
 import path from 'node:path';
-import { AtpAgent } from '@atproto/api';
+import { Agent, AtpAgent, AtpSessionData, RichText } from '@atproto/api';
+import { createChatEventHub } from './chatEvents';
+import { createCsrfToken, CSRF_COOKIE, isTrustedOrigin, isValidCsrfToken } from './csrf';
+import { renderEmbedNotFoundPage, renderPostEmbedPage } from './embedPage';
+import { logger, runWithRequestId } from './logger';
+import { createMetricsRegistry, METRICS_CONTENT_TYPE } from './metrics';
+import {
+  createOAuthClient,
+  loadOAuthClientKey,
+  OAUTH_CALLBACK_PATH,
+  OAUTH_CLIENT_METADATA_PATH,
+  OAUTH_JWKS_PATH,
+  OAUTH_STATE_COOKIE,
+  OAUTH_STATE_COOKIE_MAX_AGE_SECONDS,
+  OAuthError,
+  OAuthSessionData,
+} from './oauth';
+import { createOgImageRenderer, OG_IMAGE_HEIGHT, OG_IMAGE_WIDTH } from './ogImage';
+import { createPushSubscriptionStore, DEFAULT_PUSH_SERVICE_HOSTS, parsePushSubscription } from './pushSubscriptions';
+import { createPushWorker } from './pushWorker';
+import {
+  createRateLimiter,
+  getClientIp,
+  mostRestrictive,
+  RateLimitPolicy,
+  retryAfterFromUpstream,
+  setRateLimitHeaders,
+} from './rateLimit';
+import {
+  applyScheduledPostUpdate,
+  createPostScheduler,
+  createScheduledPostStore,
+  MediaInput,
+  parseScheduledPostInput,
+  ScheduledPost,
+  ScheduledPostError,
+  ScheduledPostInput,
+  toScheduledPostView,
+} from './scheduledPosts';
+import { createSessionStoreFromEnv, isSessionExpired, SessionTtl, StoredSession } from './sessionStore';
+import { DEFAULT_PDS_SERVICE, normalizeServiceUrl, resolveIdentity } from '../src/lib/identity';
+import {
+  buildHashtagJsonLd,
+  buildPostJsonLd,
+  buildProfileJsonLd,
+  JsonLd,
+  serializeJsonLd,
+} from '../src/lib/structuredData';
+import { injectSsrSnapshot, SsrPayload } from './ssrPage';
+import { findStaticFile, serveStaticFile } from './staticFiles';
+import { createSwrCache } from './swrCache';
+import { FeedChannel, postsToFeedItems, renderAtomFeed, renderRssFeed } from './syndication';
+import { createGuardedFetch, createUnfurler, LinkPreview, UnfurlError } from './unfurl';
+import { loadVapidKeys } from './webPush';
 
-const BSKY_SERVICE = 'https://bsky.social';
 const PUBLIC_API = 'https://public.api.bsky.app';
 const CHAT_SERVICE_DID = 'did:web:api.bsky.chat';
 const CHAT_SERVICE_TYPE = 'bsky_chat';
@@ -14,6 +66,66 @@ const DEFAULT_OG_IMAGE =
   process.env.DEFAULT_OG_IMAGE ?? `${SITE_URL.replace(/\/$/, '')}/logo/light-mode-logo.png`;
 const COOKIE_DOMAIN = process.env.COOKIE_DOMAIN ?? '';
 const EMOJI_API_ORIGIN = 'https://www.emoji.family';
+const SESSION_IDLE_TTL_MS = Number(process.env.CHAT_SESSION_IDLE_TTL_MS ?? 7 * 24 * 60 * 60 * 1000);
+const SESSION_MAX_AGE_MS = Number(process.env.CHAT_SESSION_MAX_AGE_MS ?? 30 * 24 * 60 * 60 * 1000);
+const SESSION_SWEEP_INTERVAL_MS = Number(process.env.CHAT_SESSION_SWEEP_INTERVAL_MS ?? 10 * 60 * 1000);
+const SESSION_TOUCH_INTERVAL_MS = 60 * 1000;
+const PLC_DIRECTORY_URL = process.env.PLC_DIRECTORY_URL ?? 'https://plc.directory';
+// Lets a local PDS on http://localhost be used during development.
+const ALLOW_INSECURE_PDS = process.env.ALLOW_INSECURE_PDS === 'true';
+const CHAT_EVENTS_POLL_INTERVAL_MS = Number(process.env.CHAT_EVENTS_POLL_INTERVAL_MS ?? 3000);
+const TRUST_PROXY = process.env.TRUST_PROXY === 'true';
+const RATE_LIMITS_DISABLED = process.env.RATE_LIMITS_DISABLED === 'true';
+const META_CACHE_MAX_ENTRIES = Number(process.env.META_CACHE_MAX_ENTRIES ?? 500);
+const META_CACHE_TTL_MS = Number(process.env.META_CACHE_TTL_MS ?? 5 * 60 * 1000);
+const META_CACHE_STALE_MS = Number(process.env.META_CACHE_STALE_MS ?? 60 * 60 * 1000);
+const HANDLE_CACHE_TTL_MS = Number(process.env.HANDLE_CACHE_TTL_MS ?? 60 * 60 * 1000);
+const HANDLE_CACHE_STALE_MS = Number(process.env.HANDLE_CACHE_STALE_MS ?? 24 * 60 * 60 * 1000);
+const FEED_CACHE_TTL_MS = Number(process.env.FEED_CACHE_TTL_MS ?? 10 * 60 * 1000);
+const FEED_ITEM_LIMIT = 30;
+const OG_CACHE_TTL_MS = Number(process.env.OG_CACHE_TTL_MS ?? 6 * 60 * 60 * 1000);
+const EMOJI_CACHE_MAX_ENTRIES = Number(process.env.EMOJI_CACHE_MAX_ENTRIES ?? 1000);
+const EMOJI_CACHE_TTL_MS = Number(process.env.EMOJI_CACHE_TTL_MS ?? 24 * 60 * 60 * 1000);
+const UNFURL_CACHE_TTL_MS = Number(process.env.UNFURL_CACHE_TTL_MS ?? 60 * 60 * 1000);
+const PUSH_POLL_INTERVAL_MS = Number(process.env.PUSH_POLL_INTERVAL_MS ?? 60 * 1000);
+const VAPID_SUBJECT = process.env.VAPID_SUBJECT ?? `mailto:push@${new URL(SITE_URL).hostname}`;
+const PUSH_SERVICE_HOSTS = process.env.PUSH_SERVICE_HOSTS
+  ? process.env.PUSH_SERVICE_HOSTS.split(',').map((host) => host.trim().toLowerCase()).filter(Boolean)
+  : DEFAULT_PUSH_SERVICE_HOSTS;
+const SCHEDULED_POSTS_POLL_INTERVAL_MS = Number(process.env.SCHEDULED_POSTS_POLL_INTERVAL_MS ?? 15 * 1000);
+const MAX_SCHEDULED_POSTS_PER_ACCOUNT = 50;
+// Four 1MB images plus a link thumbnail, base64-encoded.
+const SCHEDULED_POST_MAX_BODY_BYTES = 8 * 1024 * 1024;
+const XRPC_PROXY_PREFIX = '/api/chat/xrpc/';
+// Matches the PDS's own blob upload limit, so video uploads fit.
+const XRPC_PROXY_MAX_BODY_BYTES = 100 * 1024 * 1024;
+const ACCOUNT_FETCH_TIMEOUT_MS = Number(process.env.ACCOUNT_FETCH_TIMEOUT_MS ?? 60 * 1000);
+// PDS, authorization server and did:web hosts come from user input or DID
+// documents, so those requests may not reach private addresses (a local
+// development PDS is the exception). Blobs come back through the XRPC proxy,
+// hence its size limit.
+const accountFetch: typeof fetch = ALLOW_INSECURE_PDS
+  ? fetch
+  : createGuardedFetch({ timeoutMs: ACCOUNT_FETCH_TIMEOUT_MS, maxBytes: XRPC_PROXY_MAX_BODY_BYTES });
+// chat.bsky.convo.sendMessage caps text at 1000 graphemes.
+const MAX_MESSAGE_GRAPHEMES = 1000;
+const MESSAGE_EMBED_URI = /^at:\/\/did:[a-z]+:[a-zA-Z0-9._:%-]+\/app\.bsky\.feed\.post\/[a-zA-Z0-9._~:-]{1,512}$/;
+const METRICS_TOKEN = process.env.METRICS_TOKEN ?? '';
+const READINESS_TIMEOUT_MS = 2000;
+
+const RATE_LIMITS = {
+  login: { ip: { limit: 10, windowMs: 15 * 60 * 1000 } },
+  read: { ip: { limit: 300, windowMs: 60 * 1000 }, session: { limit: 120, windowMs: 60 * 1000 } },
+  write: { ip: { limit: 60, windowMs: 60 * 1000 }, session: { limit: 30, windowMs: 60 * 1000 } },
+  // The whole app's PDS traffic goes through the XRPC proxy for OAuth sessions.
+  xrpc: { ip: { limit: 600, windowMs: 60 * 1000 }, session: { limit: 300, windowMs: 60 * 1000 } },
+  emoji: { ip: { limit: 120, windowMs: 60 * 1000 } },
+  unfurl: { ip: { limit: 30, windowMs: 60 * 1000 } },
+  // Every uncached card is a satori and resvg render.
+  og: { ip: { limit: 60, windowMs: 60 * 1000 } },
+} satisfies Record<string, { ip: RateLimitPolicy; session?: RateLimitPolicy }>;
+
+type RateLimitBudget = keyof typeof RATE_LIMITS;
 
 const DIST_DIR = path.resolve(process.cwd(), 'dist');
 const PUBLIC_DIR = path.resolve(process.cwd(), 'public');
@@ -22,12 +134,25 @@ const allowedOrigins = (process.env.CHAT_ALLOWED_ORIGINS ?? 'http://localhost:80
   .split(',')
   .map((origin) => origin.trim())
   .filter(Boolean);
+const trustedOrigins = Array.from(new Set([...allowedOrigins, new URL(SITE_URL).origin]));
 
 interface SessionRecord {
-  agent: AtpAgent;
+  id: string;
+  agent: Agent;
+  authMethod: 'password' | 'oauth';
   did: string;
   handle?: string;
+  csrfToken: string;
   createdAt: number;
+  lastSeenAt: number;
+}
+
+interface EmojiResponse {
+  status: number;
+  contentType: string;
+  cacheControl: string;
+  retryAfter: string | null;
+  body: Buffer;
 }
 
 interface PageMeta {
@@ -35,11 +160,196 @@ interface PageMeta {
   description: string;
   url: string;
   image?: string;
+  imageWidth?: number;
+  imageHeight?: number;
+  alternates?: { type: string; href: string; title?: string }[];
+  jsonLd?: JsonLd;
   type: 'website' | 'article' | 'profile';
   twitterCard: 'summary' | 'summary_large_image';
 }
 
+// Everything needed to answer an HTML navigation: head tags plus, for public
+// post and profile pages, the data the static snapshot is rendered from.
+interface PageLoad {
+  meta: PageMeta;
+  ssr?: SsrPayload;
+}
+
+const sessionStore = createSessionStoreFromEnv();
+const sessionTtl: SessionTtl = { idleMs: SESSION_IDLE_TTL_MS, absoluteMs: SESSION_MAX_AGE_MS };
+// Hydrated agents for sessions that have been used since this process started.
 const sessions = new Map<string, SessionRecord>();
+const hydratingSessions = new Map<string, Promise<SessionRecord | null>>();
+const metrics = createMetricsRegistry();
+const httpRequests = metrics.counter('hillside_http_requests_total', 'HTTP requests by route, method and status.');
+const httpRequestDuration = metrics.histogram(
+  'hillside_http_request_duration_seconds',
+  'Time until the response finished, by route and method.'
+);
+const upstreamXrpcErrors = metrics.counter(
+  'hillside_upstream_xrpc_errors_total',
+  'Failed calls to Bluesky XRPC services, by caller and upstream status.'
+);
+const chatEvents = createChatEventHub({
+  pollIntervalMs: CHAT_EVENTS_POLL_INTERVAL_MS,
+  onUpstreamError: (error) => recordUpstreamError('chat_events', error),
+});
+const pushDeliveries = metrics.counter(
+  'hillside_push_deliveries_total',
+  'Web Push messages handed to push services, by event kind and result.'
+);
+const pushSubscriptions = createPushSubscriptionStore(
+  path.resolve(process.cwd(), process.env.PUSH_SUBSCRIPTIONS_FILE ?? '.data/push-subscriptions.json')
+);
+const vapidKeys = loadVapidKeys({
+  publicKey: process.env.VAPID_PUBLIC_KEY,
+  privateKey: process.env.VAPID_PRIVATE_KEY,
+  subject: VAPID_SUBJECT,
+  filePath: path.resolve(process.cwd(), process.env.VAPID_KEY_FILE ?? '.data/vapid-keys.json'),
+}).catch((error) => {
+  logger.error('Web Push disabled: VAPID keys are unavailable', { error });
+  return null;
+});
+let pushWorker: ReturnType<typeof createPushWorker> | null = null;
+const oauthClient = loadOAuthClientKey({
+  privateJwk: process.env.OAUTH_PRIVATE_JWK,
+  filePath: path.resolve(process.cwd(), process.env.OAUTH_KEY_FILE ?? '.data/oauth-client-key.json'),
+})
+  .then((clientKey) =>
+    createOAuthClient({
+      siteUrl: SITE_URL,
+      clientName: 'HillSide',
+      clientKey,
+      resolver: {
+        plcDirectory: PLC_DIRECTORY_URL,
+        resolveHandle: (handle) => resolveHandleToDid(handle),
+        allowInsecure: ALLOW_INSECURE_PDS,
+        fetch: accountFetch,
+      },
+      allowInsecure: ALLOW_INSECURE_PDS,
+      fetch: accountFetch,
+    })
+  )
+  .catch((error) => {
+    logger.error('OAuth sign-in disabled: the client key is unavailable', { error });
+    return null;
+  });
+const scheduledPostRuns = metrics.counter(
+  'hillside_scheduled_post_attempts_total',
+  'Scheduled post publish attempts, by outcome.'
+);
+const scheduledPosts = createScheduledPostStore(
+  path.resolve(process.cwd(), process.env.SCHEDULED_POSTS_FILE ?? '.data/scheduled-posts.json'),
+  path.resolve(process.cwd(), process.env.SCHEDULED_POSTS_MEDIA_DIR ?? '.data/scheduled-media')
+);
+const rateLimiter = createRateLimiter();
+const pageCache = createSwrCache<PageLoad>({
+  maxEntries: META_CACHE_MAX_ENTRIES,
+  ttlMs: META_CACHE_TTL_MS,
+  staleMs: META_CACHE_STALE_MS,
+  shouldCache: (page) => page.meta.type !== 'website',
+});
+const handleDidCache = createSwrCache<string | null>({
+  maxEntries: META_CACHE_MAX_ENTRIES,
+  ttlMs: HANDLE_CACHE_TTL_MS,
+  staleMs: HANDLE_CACHE_STALE_MS,
+  shouldCache: (did) => did !== null,
+});
+const feedCache = createSwrCache<FeedChannel | null>({
+  maxEntries: 500,
+  ttlMs: FEED_CACHE_TTL_MS,
+  staleMs: FEED_CACHE_TTL_MS * 6,
+  shouldCache: (channel) => channel !== null,
+});
+const emojiCache = createSwrCache<EmojiResponse>({
+  maxEntries: EMOJI_CACHE_MAX_ENTRIES,
+  ttlMs: EMOJI_CACHE_TTL_MS,
+  staleMs: EMOJI_CACHE_TTL_MS * 7,
+  shouldCache: (response) => response.status === 200,
+});
+const unfurlCache = createSwrCache<LinkPreview>({
+  maxEntries: 1000,
+  ttlMs: UNFURL_CACHE_TTL_MS,
+  staleMs: UNFURL_CACHE_TTL_MS * 24,
+});
+const unfurler = createUnfurler();
+const ogImages = createOgImageRenderer({
+  cacheDir: path.resolve(process.cwd(), process.env.OG_CACHE_DIR ?? '.data/og-cache'),
+  ttlMs: OG_CACHE_TTL_MS,
+  logoPath: path.join(PUBLIC_DIR, 'logo/light-mode-logo.png'),
+  siteHost: new URL(SITE_URL).host,
+});
+let shuttingDown = false;
+
+const swrCaches = {
+  page: pageCache,
+  handle: handleDidCache,
+  feed: feedCache,
+  emoji: emojiCache,
+  unfurl: unfurlCache,
+};
+
+metrics.collect('hillside_chat_sessions_active', 'Unexpired chat sessions in the session store.', 'gauge', async () => {
+  const now = Date.now();
+  return (await sessionStore.list()).filter((record) => !isSessionExpired(record, sessionTtl, now)).length;
+});
+metrics.collect(
+  'hillside_chat_sessions_hydrated',
+  'Chat sessions with a resumed agent in this process.',
+  'gauge',
+  () => sessions.size
+);
+metrics.collect(
+  'hillside_chat_event_streams',
+  'Chat log pollers backing open event stream connections.',
+  'gauge',
+  () => chatEvents.activeStreams
+);
+metrics.collect(
+  'hillside_push_subscriptions',
+  'Stored Web Push subscriptions.',
+  'gauge',
+  async () => (await pushSubscriptions.list()).length
+);
+metrics.collect('hillside_scheduled_posts', 'Scheduled posts by status.', 'gauge', async () => {
+  const counts = { pending: 0, publishing: 0, published: 0, failed: 0 };
+  (await scheduledPosts.list()).forEach((post) => {
+    counts[post.status] += 1;
+  });
+  return Object.entries(counts).map(([status, value]) => ({ labels: { status }, value }));
+});
+metrics.collect('hillside_cache_lookups_total', 'In-memory cache lookups by cache and result.', 'counter', () =>
+  Object.entries(swrCaches).flatMap(([cache, { stats }]) => [
+    { labels: { cache, result: 'hit' }, value: stats.hits },
+    { labels: { cache, result: 'stale' }, value: stats.staleHits },
+    { labels: { cache, result: 'miss' }, value: stats.misses },
+  ])
+);
+metrics.collect('hillside_cache_entries', 'Entries held by each in-memory cache.', 'gauge', () =>
+  Object.entries(swrCaches).map(([cache, { size }]) => ({ labels: { cache }, value: size }))
+);
+metrics.collect(
+  'hillside_emoji_proxy_cache_hit_ratio',
+  'Share of emoji proxy requests answered from cache, fresh or stale.',
+  'gauge',
+  () => {
+    const { hits, staleHits, misses } = emojiCache.stats;
+    const total = hits + staleHits + misses;
+    return total ? (hits + staleHits) / total : 0;
+  }
+);
+metrics.collect('process_resident_memory_bytes', 'Resident memory size in bytes.', 'gauge', () => process.memoryUsage().rss);
+metrics.collect(
+  'process_start_time_seconds',
+  'Start time of the process since unix epoch in seconds.',
+  'gauge',
+  () => Math.round(Date.now() / 1000 - process.uptime())
+);
+
+const recordUpstreamError = (caller: string, error: unknown) => {
+  const { status, statusCode } = (error ?? {}) as { status?: number; statusCode?: number };
+  upstreamXrpcErrors.inc({ caller, status: status ?? statusCode ?? 'network' });
+};
 
 const jsonHeaders = { 'Content-Type': 'application/json; charset=utf-8' } as const;
 
@@ -48,33 +358,55 @@ const sendJson = (res: ServerResponse, status: number, payload: unknown) => {
   res.end(JSON.stringify(payload));
 };
 
-const readJsonBody = async <T = any>(req: IncomingMessage): Promise<T> => {
+const readBody = async (req: IncomingMessage, maxBytes = Infinity) => {
   const chunks: Buffer[] = [];
+  let size = 0;
   for await (const chunk of req) {
-    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+    size += buffer.length;
+    if (size > maxBytes) {
+      throw Object.assign(new Error('Request body is too large.'), { status: 413 });
+    }
+    chunks.push(buffer);
   }
-  const raw = Buffer.concat(chunks).toString('utf8').trim();
+  return Buffer.concat(chunks);
+};
+
+const readJsonBody = async <T = any>(req: IncomingMessage, maxBytes = Infinity): Promise<T> => {
+  const raw = (await readBody(req, maxBytes)).toString('utf8').trim();
   if (!raw) return {} as T;
   return JSON.parse(raw) as T;
 };
 
-const forwardEmojiRequest = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
-  const proxyPath = url.pathname.replace(/^\/api\/emoji/, '/api');
-  const target = new URL(proxyPath, EMOJI_API_ORIGIN);
-  target.search = url.search;
-
-  const response = await fetch(target.toString(), {
+const fetchEmoji = async (target: string, accept: string): Promise<EmojiResponse> => {
+  const response = await fetch(target, {
     method: 'GET',
     headers: {
       'User-Agent': 'HillSideBot/1.0 (+https://hillside.micorp.pro)',
-      Accept: req.headers.accept ?? '*/*',
+      Accept: accept,
     },
   });
+  return {
+    status: response.status,
+    contentType: response.headers.get('content-type') ?? 'application/octet-stream',
+    cacheControl: response.headers.get('cache-control') ?? 'public, max-age=86400',
+    retryAfter: response.headers.get('retry-after'),
+    body: Buffer.from(await response.arrayBuffer()),
+  };
+};
 
-  const contentType = response.headers.get('content-type') ?? 'application/octet-stream';
+const forwardEmojiRequest = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+  const proxyPath = url.pathname.replace(/^\/api\/emoji/, '/api');
+  const target = new URL(proxyPath, EMOJI_API_ORIGIN);
+  target.search = url.search;
+  const accept = req.headers.accept ?? '*/*';
+
+  // Emoji assets never change, so successful responses are kept in memory.
+  const response = await emojiCache.get(`${accept} ${target.toString()}`, () => fetchEmoji(target.toString(), accept));
   res.writeHead(response.status, {
-    'Content-Type': contentType,
-    'Cache-Control': response.headers.get('cache-control') ?? 'public, max-age=86400',
+    'Content-Type': response.contentType,
+    'Cache-Control': response.cacheControl,
+    ...(response.status === 429 && response.retryAfter ? { 'Retry-After': response.retryAfter } : {}),
   });
 
   if (req.method === 'HEAD') {
@@ -82,8 +414,16 @@ const forwardEmojiRequest = async (req: IncomingMessage, res: ServerResponse, ur
     return;
   }
 
-  const buffer = Buffer.from(await response.arrayBuffer());
-  res.end(buffer);
+  res.end(response.body);
+};
+
+/** `decodeURIComponent` that returns null for malformed escapes instead of throwing. */
+const safeDecode = (value: string) => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return null;
+  }
 };
 
 const parseCookies = (req: IncomingMessage) => {
@@ -104,47 +444,378 @@ const setCorsHeaders = (req: IncomingMessage, res: ServerResponse) => {
     res.setHeader('Access-Control-Allow-Credentials', 'true');
     res.setHeader('Vary', 'Origin');
   }
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-CSRF-Token');
+  res.setHeader(
+    'Access-Control-Expose-Headers',
+    'Retry-After, RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset, RateLimit-Policy, X-Request-Id'
+  );
   res.setHeader('Access-Control-Allow-Methods', 'GET,POST,OPTIONS');
 };
 
-const getSession = (req: IncomingMessage) => {
-  const cookies = parseCookies(req);
-  const sessionId = cookies.chat_session;
-  if (!sessionId) return null;
-  return sessions.get(sessionId) ?? null;
+const getSessionId = (req: IncomingMessage) => parseCookies(req).chat_session || null;
+
+const dropSession = async (sessionId: string) => {
+  chatEvents.closeSession(sessionId, 'session-expired');
+  sessions.delete(sessionId);
+  await Promise.all([sessionStore.delete(sessionId), pushSubscriptions.deleteBySession(sessionId)]);
+};
+
+const persistRefreshedSession = async (sessionId: string, sessionData: AtpSessionData) => {
+  const stored = await sessionStore.get(sessionId);
+  if (!stored) return;
+  await sessionStore.set({
+    ...stored,
+    handle: sessionData.handle ?? stored.handle,
+    session: sessionData,
+  });
+};
+
+const persistOAuthSession = async (sessionId: string, oauth: OAuthSessionData) => {
+  const stored = await sessionStore.get(sessionId);
+  if (!stored) return;
+  await sessionStore.set({ ...stored, oauth });
+};
+
+const createOAuthAgent = async (sessionId: string, oauth: OAuthSessionData) => {
+  const client = await oauthClient;
+  if (!client) throw new OAuthError('OAuth sign-in is not available.', 503);
+  return new Agent(
+    client.createSessionManager(oauth, {
+      onUpdate: (next) => persistOAuthSession(sessionId, next),
+      onExpired: () => dropSession(sessionId),
+    })
+  );
+};
+
+const createSessionAgent = (sessionId: string, service = DEFAULT_PDS_SERVICE) =>
+  new AtpAgent({
+    service,
+    fetch: accountFetch,
+    persistSession: (evt, sessionData) => {
+      if (evt === 'expired') {
+        void dropSession(sessionId).catch((error) => logger.error('Failed to drop chat session', { error }));
+        return;
+      }
+      if ((evt === 'create' || evt === 'update') && sessionData) {
+        void persistRefreshedSession(sessionId, sessionData).catch((error) =>
+          logger.error('Failed to persist refreshed chat session', { error })
+        );
+      }
+    },
+  });
+
+/**
+ * The account's own PDS from its DID document wins; the client's hosting
+ * provider is only used when resolution fails, then bsky.social. Either way
+ * the session agent reaches it through `accountFetch`.
+ */
+const resolveSessionService = async (identifier: string, requestedService?: unknown) => {
+  const identity = await resolveIdentity(identifier, {
+    plcDirectory: PLC_DIRECTORY_URL,
+    resolveHandle: resolveHandleToDid,
+    allowInsecure: ALLOW_INSECURE_PDS,
+    fetch: accountFetch,
+  });
+  if (identity) return identity.pds;
+  const requested =
+    typeof requestedService === 'string'
+      ? normalizeServiceUrl(requestedService, { allowInsecure: ALLOW_INSECURE_PDS })
+      : null;
+  return requested ?? DEFAULT_PDS_SERVICE;
+};
+
+const isInvalidSessionError = (error: unknown) => {
+  const { status, statusCode } = (error ?? {}) as { status?: number; statusCode?: number };
+  const code = status ?? statusCode;
+  return code === 400 || code === 401;
+};
+
+// OAuth tokens are refreshed on first use, so only app-password sessions are
+// checked against the PDS up front.
+const resumeStoredSession = async (stored: StoredSession) => {
+  if (stored.oauth) return createOAuthAgent(stored.id, stored.oauth);
+  if (!stored.session) return null;
+  const agent = createSessionAgent(stored.id, stored.service);
+  try {
+    await agent.resumeSession(stored.session);
+  } catch (error) {
+    if (isInvalidSessionError(error)) return null;
+    throw error;
+  }
+  return agent;
+};
+
+const hydrateSession = async (stored: StoredSession): Promise<SessionRecord | null> => {
+  const agent = await resumeStoredSession(stored);
+  if (!agent) {
+    await dropSession(stored.id);
+    return null;
+  }
+  const csrfToken = stored.csrfToken ?? createCsrfToken();
+  if (!stored.csrfToken) {
+    await sessionStore.set({ ...stored, csrfToken });
+  }
+  const record: SessionRecord = {
+    id: stored.id,
+    agent,
+    authMethod: stored.oauth ? 'oauth' : 'password',
+    did: agent.did ?? stored.did,
+    handle: (agent instanceof AtpAgent ? agent.session?.handle : undefined) ?? stored.handle,
+    csrfToken,
+    createdAt: stored.createdAt,
+    lastSeenAt: stored.lastSeenAt,
+  };
+  sessions.set(stored.id, record);
+  return record;
+};
+
+/** `touch: false` resumes a session without extending its idle lifetime, for background work. */
+const loadSession = async (sessionId: string, { touch = true } = {}) => {
+  const stored = await sessionStore.get(sessionId);
+  if (!stored) {
+    sessions.delete(sessionId);
+    return null;
+  }
+
+  const now = Date.now();
+  if (isSessionExpired(stored, sessionTtl, now)) {
+    await dropSession(sessionId);
+    return null;
+  }
+
+  let record = sessions.get(sessionId) ?? null;
+  if (!record) {
+    // Concurrent requests share one resume so they don't race to refresh tokens.
+    let pending = hydratingSessions.get(sessionId);
+    if (!pending) {
+      pending = hydrateSession(stored).finally(() => hydratingSessions.delete(sessionId));
+      hydratingSessions.set(sessionId, pending);
+    }
+    record = await pending;
+    if (!record) return null;
+  }
+
+  if (touch && now - stored.lastSeenAt > SESSION_TOUCH_INTERVAL_MS) {
+    record.lastSeenAt = now;
+    await sessionStore.set({
+      ...stored,
+      session: (record.agent instanceof AtpAgent ? record.agent.session : undefined) ?? stored.session,
+      lastSeenAt: now,
+    });
+  }
+
+  return record;
+};
+
+const getSession = async (req: IncomingMessage) => {
+  const sessionId = getSessionId(req);
+  return sessionId ? loadSession(sessionId) : null;
+};
+
+const setCookie = (
+  res: ServerResponse,
+  name: string,
+  value: string,
+  { httpOnly = true, maxAgeSeconds }: { httpOnly?: boolean; maxAgeSeconds?: number } = {}
+) => {
+  const cookieParts = [`${name}=${encodeURIComponent(value)}`, 'Path=/', 'SameSite=Lax'];
+  if (httpOnly) {
+    cookieParts.push('HttpOnly');
+  }
+  if (maxAgeSeconds !== undefined) {
+    cookieParts.push(`Max-Age=${maxAgeSeconds}`);
+  }
+  if (COOKIE_DOMAIN) {
+    cookieParts.push(`Domain=${COOKIE_DOMAIN.startsWith('.') ? COOKIE_DOMAIN : `.${COOKIE_DOMAIN}`}`);
+  }
+  if (process.env.NODE_ENV === 'production') {
+    cookieParts.push('Secure');
+  }
+  const existing = res.getHeader('Set-Cookie');
+  const cookies = Array.isArray(existing) ? existing : existing ? [String(existing)] : [];
+  res.setHeader('Set-Cookie', [...cookies, cookieParts.join('; ')]);
+};
+
+const sessionCookieMaxAge = () => (SESSION_MAX_AGE_MS > 0 ? Math.floor(SESSION_MAX_AGE_MS / 1000) : undefined);
+
+const setSessionCookies = (res: ServerResponse, sessionId: string, csrfToken: string) => {
+  setCookie(res, 'chat_session', sessionId, { maxAgeSeconds: sessionCookieMaxAge() });
+  setCookie(res, CSRF_COOKIE, csrfToken, { httpOnly: false, maxAgeSeconds: sessionCookieMaxAge() });
+};
+
+const startSession = async (
+  res: ServerResponse,
+  agent: Agent,
+  stored: Pick<StoredSession, 'id' | 'did' | 'handle' | 'service' | 'session' | 'oauth'>
+) => {
+  const now = Date.now();
+  const csrfToken = createCsrfToken();
+  await sessionStore.set({ ...stored, csrfToken, createdAt: now, lastSeenAt: now });
+  sessions.set(stored.id, {
+    id: stored.id,
+    agent,
+    authMethod: stored.oauth ? 'oauth' : 'password',
+    did: stored.did,
+    handle: stored.handle,
+    csrfToken,
+    createdAt: now,
+    lastSeenAt: now,
+  });
+  setSessionCookies(res, stored.id, csrfToken);
+  return csrfToken;
+};
+
+const startPasswordSession = (res: ServerResponse, agent: AtpAgent, sessionId: string) => {
+  const sessionData = agent.session as AtpSessionData;
+  return startSession(res, agent, {
+    id: sessionId,
+    did: sessionData.did,
+    handle: sessionData.handle,
+    service: agent.serviceUrl.toString(),
+    session: sessionData,
+  });
 };
 
-const destroySession = (req: IncomingMessage) => {
-  const cookies = parseCookies(req);
-  const sessionId = cookies.chat_session;
+const destroySession = async (req: IncomingMessage, res: ServerResponse) => {
+  const sessionId = getSessionId(req);
   if (!sessionId) return;
-  sessions.delete(sessionId);
+  const stored = await sessionStore.get(sessionId);
+  if (stored?.oauth) {
+    const client = await oauthClient;
+    await client?.revoke(stored.oauth);
+  }
+  await dropSession(sessionId);
+  setCookie(res, 'chat_session', '', { maxAgeSeconds: 0 });
+  setCookie(res, CSRF_COOKIE, '', { httpOnly: false, maxAgeSeconds: 0 });
+};
+
+const sweepExpiredSessions = async () => {
+  const now = Date.now();
+  const records = await sessionStore.list();
+  const expired = records.filter((record) => isSessionExpired(record, sessionTtl, now));
+  await Promise.all(expired.map((record) => dropSession(record.id)));
+  for (const sessionId of sessions.keys()) {
+    if (!records.some((record) => record.id === sessionId)) {
+      sessions.delete(sessionId);
+    }
+  }
 };
 
 const getChatAgent = (session: SessionRecord) => {
   return session.agent.withProxy(CHAT_SERVICE_TYPE, CHAT_SERVICE_DID);
 };
 
+/** Background jobs act through the account's most recently used live session. */
+const getAgentForDid = async (did: string) => {
+  const now = Date.now();
+  const candidates = (await sessionStore.list())
+    .filter((record) => record.did === did && !isSessionExpired(record, sessionTtl, now))
+    .sort((a, b) => b.lastSeenAt - a.lastSeenAt);
+  for (const candidate of candidates) {
+    const session = await loadSession(candidate.id, { touch: false });
+    if (session) return session.agent;
+  }
+  return null;
+};
+
+const postScheduler = createPostScheduler({
+  store: scheduledPosts,
+  intervalMs: SCHEDULED_POSTS_POLL_INTERVAL_MS,
+  getAgent: getAgentForDid,
+  onOutcome: (outcome, error) => {
+    scheduledPostRuns.inc({ outcome });
+    if (error && !(error instanceof ScheduledPostError)) recordUpstreamError('post_scheduler', error);
+  },
+});
+
+const loadPushSession = async (sessionId: string) => {
+  const session = await loadSession(sessionId, { touch: false });
+  return session ? { did: session.did, agent: session.agent, chatAgent: getChatAgent(session) } : null;
+};
+
 const handleError = (res: ServerResponse, error: any) => {
-  const status = error?.status ?? error?.statusCode ?? 500;
+  // XRPC failures always carry a status; anything without one is our own bug.
+  const upstreamStatus = error?.status ?? error?.statusCode;
+  if (typeof upstreamStatus === 'number') {
+    recordUpstreamError('chat_api', error);
+  }
+  if (typeof upstreamStatus !== 'number' || upstreamStatus >= 500) {
+    logger.error('Request failed', { error });
+  }
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+  const status = upstreamStatus ?? 500;
   if (status === 401) {
     sendJson(res, 401, { error: 'Chat session expired. Please sign in again.' });
     return;
   }
   if (status === 429) {
-    sendJson(res, 429, { error: 'Rate limited by Bluesky. Please retry soon.' });
+    const retryAfter = retryAfterFromUpstream(error?.headers);
+    if (retryAfter) {
+      res.setHeader('Retry-After', String(retryAfter));
+    }
+    sendJson(res, 429, { error: 'Rate limited by Bluesky. Please retry soon.', retryAfter });
+    return;
+  }
+  if (status === 400 || status === 403 || status === 404) {
+    sendJson(res, status, { error: error?.message || 'Chat request was rejected.' });
     return;
   }
   sendJson(res, 500, { error: 'Unexpected chat server error.' });
 };
 
-const requireSession = (req: IncomingMessage, res: ServerResponse) => {
-  const session = getSession(req);
+const getRateLimitBudget = (method: string, pathname: string): RateLimitBudget | null => {
+  if (pathname.startsWith('/api/emoji/')) return 'emoji';
+  if (pathname === '/api/unfurl' || pathname === '/api/unfurl/image') return 'unfurl';
+  if (pathname.startsWith('/og/')) return 'og';
+  if (!pathname.startsWith('/api/chat/')) return null;
+  if (pathname.startsWith(XRPC_PROXY_PREFIX)) return 'xrpc';
+  if (
+    method === 'POST' &&
+    (pathname === '/api/chat/session' ||
+      pathname === '/api/chat/session/restore' ||
+      pathname === OAUTH_AUTHORIZE_ROUTE)
+  ) {
+    return 'login';
+  }
+  if (method === 'GET' || method === 'HEAD') return 'read';
+  if (pathname === '/api/chat/convo/for-members' || pathname === '/api/chat/convo/availability') return 'read';
+  return 'write';
+};
+
+const applyRateLimit = (req: IncomingMessage, res: ServerResponse, budget: RateLimitBudget) => {
+  const policies: { ip: RateLimitPolicy; session?: RateLimitPolicy } = RATE_LIMITS[budget];
+  const results = [rateLimiter.consume(`${budget}:ip:${getClientIp(req, TRUST_PROXY)}`, policies.ip)];
+  const sessionId = getSessionId(req);
+  if (policies.session && sessionId) {
+    results.push(rateLimiter.consume(`${budget}:session:${sessionId}`, policies.session));
+  }
+
+  const result = mostRestrictive(results);
+  setRateLimitHeaders(res, result);
+  if (result.allowed) return true;
+
+  sendJson(res, 429, {
+    error: `Too many requests. Please retry in ${result.retryAfterSeconds}s.`,
+    retryAfter: result.retryAfterSeconds,
+  });
+  return false;
+};
+
+const isMutatingMethod = (method?: string) => method !== 'GET' && method !== 'HEAD' && method !== 'OPTIONS';
+
+const requireSession = async (req: IncomingMessage, res: ServerResponse) => {
+  const session = await getSession(req);
   if (!session) {
     sendJson(res, 401, { error: 'Chat session not found.' });
     return null;
   }
+  if (isMutatingMethod(req.method) && !isValidCsrfToken(req, parseCookies(req), session.csrfToken)) {
+    sendJson(res, 403, { error: 'Invalid or missing CSRF token.', code: 'csrf' });
+    return null;
+  }
   return session;
 };
 
@@ -158,11 +829,13 @@ const escapeHtml = (value: string) =>
 
 const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 
+// Function replacers, because tags can carry post text and `$'` or `$&` in a
+// string replacement would be expanded.
 const replaceOrInsert = (html: string, regex: RegExp, tag: string) => {
   if (regex.test(html)) {
-    return html.replace(regex, tag);
+    return html.replace(regex, () => tag);
   }
-  return html.replace('</head>', `  ${tag}\n</head>`);
+  return html.replace('</head>', () => `  ${tag}\n</head>`);
 };
 
 const upsertMeta = (html: string, attr: string, content: string) => {
@@ -179,9 +852,22 @@ const upsertLink = (html: string, rel: string, href: string) => {
   return replaceOrInsert(html, regex, tag);
 };
 
+const upsertAlternateLink = (html: string, type: string, href: string, title?: string) => {
+  const titleAttr = title ? ` title="${escapeHtml(title)}"` : '';
+  const tag = `<link rel="alternate" type="${type}" href="${escapeHtml(href)}"${titleAttr} />`;
+  const regex = new RegExp(`<link\\s+[^>]*rel=["']alternate["'][^>]*type=["']${escapeRegex(type)}["'][^>]*>`, 'i');
+  return replaceOrInsert(html, regex, tag);
+};
+
+const upsertJsonLd = (html: string, data: JsonLd) => {
+  const tag = `<script type="application/ld+json" id="structured-data">${serializeJsonLd(data)}</script>`;
+  const regex = /<script\s+[^>]*type=["']application\/ld\+json["'][^>]*>[\s\S]*?<\/script>/i;
+  return replaceOrInsert(html, regex, tag);
+};
+
 const upsertTitle = (html: string, title: string) => {
   const safeTitle = escapeHtml(title);
-  return html.replace(/<title>.*?<\/title>/i, `<title>${safeTitle}</title>`);
+  return html.replace(/<title>.*?<\/title>/i, () => `<title>${safeTitle}</title>`);
 };
 
 const applyMetaToHtml = (html: string, meta: PageMeta) => {
@@ -201,39 +887,17 @@ const applyMetaToHtml = (html: string, meta: PageMeta) => {
     next = upsertMeta(next, 'property="og:image"', meta.image);
     next = upsertMeta(next, 'name="twitter:image"', meta.image);
   }
-  return next;
-};
-
-const getContentType = (ext: string) => {
-  switch (ext) {
-    case '.html':
-      return 'text/html; charset=utf-8';
-    case '.js':
-      return 'text/javascript; charset=utf-8';
-    case '.css':
-      return 'text/css; charset=utf-8';
-    case '.svg':
-      return 'image/svg+xml';
-    case '.json':
-      return 'application/json; charset=utf-8';
-    case '.png':
-      return 'image/png';
-    case '.jpg':
-    case '.jpeg':
-      return 'image/jpeg';
-    case '.webp':
-      return 'image/webp';
-    case '.ico':
-      return 'image/x-icon';
-    case '.txt':
-      return 'text/plain; charset=utf-8';
-    case '.xml':
-      return 'application/xml; charset=utf-8';
-    case '.woff2':
-      return 'font/woff2';
-    default:
-      return 'application/octet-stream';
+  if (meta.imageWidth && meta.imageHeight) {
+    next = upsertMeta(next, 'property="og:image:width"', String(meta.imageWidth));
+    next = upsertMeta(next, 'property="og:image:height"', String(meta.imageHeight));
+  }
+  meta.alternates?.forEach((alternate) => {
+    next = upsertAlternateLink(next, alternate.type, alternate.href, alternate.title);
+  });
+  if (meta.jsonLd) {
+    next = upsertJsonLd(next, meta.jsonLd);
   }
+  return next;
 };
 
 const readFileIfExists = async (filePath: string) => {
@@ -246,21 +910,18 @@ const readFileIfExists = async (filePath: string) => {
   }
 };
 
-const resolveStaticPath = (root: string, pathname: string) => {
-  const trimmed = pathname.replace(/^\/+/, '');
-  const resolved = path.resolve(root, trimmed);
-  if (!resolved.startsWith(root)) return null;
-  return resolved;
-};
-
 const fetchJson = async <T>(url: string): Promise<T | null> => {
   try {
     const response = await fetch(url, {
       headers: { 'User-Agent': 'HillSideBot/1.0 (+https://hillside.micorp.pro)' },
     });
-    if (!response.ok) return null;
+    if (!response.ok) {
+      recordUpstreamError('public_api', { status: response.status });
+      return null;
+    }
     return (await response.json()) as T;
-  } catch {
+  } catch (error) {
+    recordUpstreamError('public_api', error);
     return null;
   }
 };
@@ -276,144 +937,881 @@ const getEmbedImage = (embed: any): string | undefined => {
   if (type === 'app.bsky.embed.images#view' && embed.images?.length) {
     return embed.images[0]?.fullsize ?? embed.images[0]?.thumb;
   }
-  if (type === 'app.bsky.embed.external#view') {
-    return embed.external?.thumb ?? undefined;
+  if (type === 'app.bsky.embed.external#view') {
+    return embed.external?.thumb ?? undefined;
+  }
+  if (type === 'app.bsky.embed.video#view') {
+    return embed.thumbnail ?? undefined;
+  }
+  if (type === 'app.bsky.embed.recordWithMedia#view') {
+    return getEmbedImage(embed.media);
+  }
+  return undefined;
+};
+
+const buildDefaultMeta = (pathname: string): PageMeta => {
+  const url = `${SITE_URL.replace(/\/$/, '')}${pathname}`;
+  return {
+    title: 'HillSide - Decentralized Social Platform',
+    description:
+      'HillSide is a decentralized social platform built on the AT Protocol. Own your data, build community, and connect through an open, federated network.',
+    url,
+    image: DEFAULT_OG_IMAGE,
+    type: 'website',
+    twitterCard: 'summary_large_image',
+  };
+};
+
+const resolveHandleToDid = async (handle: string) => {
+  if (handle.startsWith('did:')) return handle;
+  const key = handle.toLowerCase();
+  return handleDidCache.get(key, async () => {
+    const resolve = await fetchJson<{ did?: string }>(
+      `${PUBLIC_API}/xrpc/com.atproto.identity.resolveHandle?handle=${encodeURIComponent(key)}`
+    );
+    return resolve?.did ?? null;
+  });
+};
+
+const fetchPublicProfile = async (handle: string) => {
+  const cleanedHandle = handle.replace(/^@/, '');
+  return fetchJson<any>(
+    `${PUBLIC_API}/xrpc/app.bsky.actor.getProfile?actor=${encodeURIComponent(cleanedHandle)}`
+  );
+};
+
+const fetchPublicThread = async (handle: string, postId: string, depth = 0, parentHeight = 0) => {
+  const cleanedHandle = handle.replace(/^@/, '');
+  const did = await resolveHandleToDid(cleanedHandle);
+  if (!did) return null;
+  const uri = `at://${did}/app.bsky.feed.post/${postId}`;
+  const params = new URLSearchParams({
+    uri,
+    depth: String(depth),
+    parentHeight: String(parentHeight),
+  });
+  const threadData = await fetchJson<any>(
+    `${PUBLIC_API}/xrpc/app.bsky.feed.getPostThread?${params.toString()}`
+  );
+  return threadData?.thread?.post ? threadData.thread : null;
+};
+
+const fetchPublicPost = async (handle: string, postId: string) => {
+  const thread = await fetchPublicThread(handle, postId);
+  return thread?.post ?? null;
+};
+
+const fetchPublicAuthorFeed = async (actor: string, filter = 'posts_no_replies', limit = FEED_ITEM_LIMIT) => {
+  const params = new URLSearchParams({ actor, filter, limit: String(limit) });
+  return fetchJson<{ feed?: any[]; cursor?: string }>(
+    `${PUBLIC_API}/xrpc/app.bsky.feed.getAuthorFeed?${params.toString()}`
+  );
+};
+
+const getOgImageUrl = (kind: 'post' | 'profile', ...segments: string[]) =>
+  `${SITE_URL.replace(/\/$/, '')}/og/${kind}/${segments.map(encodeURIComponent).join('/')}.png`;
+
+const getProfileFeedAlternates = (handle: string, title: string) => {
+  const base = `${SITE_URL.replace(/\/$/, '')}/profile/${encodeURIComponent(handle)}`;
+  return [
+    { type: 'application/rss+xml', href: `${base}/rss`, title: `${title} (RSS)` },
+    { type: 'application/atom+xml', href: `${base}/atom`, title: `${title} (Atom)` },
+  ];
+};
+
+const buildProfileMeta = (profile: any, cleanedHandle: string, pathname: string): PageMeta => {
+  const handle = profile.handle ?? cleanedHandle;
+  const titleBase = profile.displayName || `@${handle}`;
+  const description = profile.description ? truncateText(profile.description, 200) : `@${handle} on HillSide.`;
+  const url = `${SITE_URL.replace(/\/$/, '')}${pathname}`;
+  return {
+    title: titleBase,
+    description,
+    url,
+    image: getOgImageUrl('profile', handle),
+    imageWidth: OG_IMAGE_WIDTH,
+    imageHeight: OG_IMAGE_HEIGHT,
+    alternates: getProfileFeedAlternates(handle, titleBase),
+    jsonLd: buildProfileJsonLd(profile, SITE_URL),
+    type: 'profile',
+    twitterCard: 'summary_large_image',
+  };
+};
+
+const buildPostMeta = (post: any, cleanedHandle: string, postId: string, pathname: string): PageMeta => {
+  const authorHandle = post.author?.handle ?? cleanedHandle;
+  const authorName = post.author?.displayName ?? `@${authorHandle}`;
+  const description = post.record?.text
+    ? truncateText(String(post.record.text), 200)
+    : `Post by @${authorHandle} on HillSide.`;
+  const url = `${SITE_URL.replace(/\/$/, '')}${pathname}`;
+  return {
+    title: `Post by ${authorName}`,
+    description,
+    url,
+    image: getOgImageUrl('post', authorHandle, postId),
+    imageWidth: OG_IMAGE_WIDTH,
+    imageHeight: OG_IMAGE_HEIGHT,
+    alternates: [
+      {
+        type: 'application/json+oembed',
+        href: `${SITE_URL.replace(/\/$/, '')}/oembed?${new URLSearchParams({ url, format: 'json' }).toString()}`,
+        title: `Post by ${authorName}`,
+      },
+    ],
+    jsonLd: buildPostJsonLd({ ...post, author: { ...post.author, handle: authorHandle } }, SITE_URL),
+    type: 'article',
+    twitterCard: 'summary_large_image',
+  };
+};
+
+const normalizePagePath = (pathname: string) => pathname.replace(/\/+$/, '') || '/';
+
+const loadProfilePage = async (handle: string, pathname: string): Promise<PageLoad> => {
+  const cleanedHandle = handle.replace(/^@/, '');
+  const [profile, feed] = await Promise.all([
+    fetchPublicProfile(cleanedHandle),
+    fetchPublicAuthorFeed(cleanedHandle),
+  ]);
+  // A failed lookup gets the site-wide meta, which the page cache skips, so
+  // an upstream error or rate limit is not served as a blank profile.
+  if (!profile) return { meta: buildDefaultMeta(pathname) };
+  return {
+    meta: buildProfileMeta(profile, cleanedHandle, pathname),
+    ssr: {
+      kind: 'profile',
+      path: normalizePagePath(pathname),
+      data: { profile, feed: feed?.feed ?? [], cursor: feed?.cursor },
+    },
+  };
+};
+
+// Same depth and parent height the post page asks for, so the client can use
+// the payload as-is.
+const loadPostPage = async (handle: string, postId: string, pathname: string): Promise<PageLoad> => {
+  const cleanedHandle = handle.replace(/^@/, '');
+  const thread = await fetchPublicThread(cleanedHandle, postId, 3, 2);
+  if (!thread) {
+    return { meta: buildDefaultMeta(pathname) };
+  }
+  return {
+    meta: buildPostMeta(thread.post, cleanedHandle, postId, pathname),
+    ssr: { kind: 'post', path: normalizePagePath(pathname), data: { thread } },
+  };
+};
+
+const renderPostOgImage = async (handle: string, postId: string) => {
+  const post = await fetchPublicPost(handle, postId);
+  if (!post) return null;
+  const authorHandle = post.author?.handle ?? handle.replace(/^@/, '');
+  const embed = post.embed;
+  const media = embed?.$type === 'app.bsky.embed.recordWithMedia#view' ? embed.media : embed;
+  const mediaThumb =
+    media?.$type === 'app.bsky.embed.images#view' ? media.images?.[0]?.thumb : getEmbedImage(embed);
+  return ogImages.renderPost({
+    authorName: post.author?.displayName || `@${authorHandle}`,
+    authorHandle,
+    authorAvatar: post.author?.avatar,
+    text: String(post.record?.text ?? ''),
+    createdAt: post.record?.createdAt,
+    likeCount: post.likeCount ?? 0,
+    repostCount: post.repostCount ?? 0,
+    replyCount: post.replyCount ?? 0,
+    quoteCount: post.quoteCount ?? 0,
+    mediaThumb,
+  });
+};
+
+const renderProfileOgImage = async (handle: string) => {
+  const profile = await fetchPublicProfile(handle);
+  if (!profile) return null;
+  return ogImages.renderProfile({
+    displayName: profile.displayName || `@${profile.handle}`,
+    handle: profile.handle,
+    avatar: profile.avatar,
+    banner: profile.banner,
+    description: profile.description,
+    followersCount: profile.followersCount ?? 0,
+    followsCount: profile.followsCount ?? 0,
+    postsCount: profile.postsCount ?? 0,
+  });
+};
+
+const serveOgImage = async (req: IncomingMessage, res: ServerResponse, pathname: string) => {
+  const postMatch = pathname.match(/^\/og\/post\/([^/]+)\/([^/]+)\.png$/);
+  const profileMatch = pathname.match(/^\/og\/profile\/([^/]+)\.png$/);
+  if (!postMatch && !profileMatch) return false;
+
+  const handle = safeDecode((postMatch ?? profileMatch)![1])?.replace(/^@/, '').toLowerCase();
+  const postId = postMatch ? safeDecode(postMatch[2]) : null;
+  if (!handle || (postMatch && !postId)) {
+    res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
+    res.end('Not found');
+    return true;
+  }
+
+  // Cache by DID so `@Alice.example`, `alice.example` and `did:plc:…` share one card.
+  let png: Buffer | null = null;
+  const did = await resolveHandleToDid(handle);
+  if (did && postId) {
+    png = await ogImages.getOrRender(`post:${did}:${postId}`, () => renderPostOgImage(did, postId));
+  } else if (did) {
+    png = await ogImages.getOrRender(`profile:${did}`, () => renderProfileOgImage(did));
+  }
+
+  if (!png) {
+    res.writeHead(302, { Location: DEFAULT_OG_IMAGE, 'Cache-Control': 'public, max-age=300' });
+    res.end();
+    return true;
+  }
+  res.writeHead(200, {
+    'Content-Type': 'image/png',
+    'Content-Length': String(png.length),
+    'Cache-Control': 'public, max-age=3600',
+  });
+  res.end(req.method === 'HEAD' ? undefined : png);
+  return true;
+};
+
+const loadProfileFeed = async (handle: string): Promise<FeedChannel | null> => {
+  const cleanedHandle = handle.replace(/^@/, '');
+  const [profile, feed] = await Promise.all([
+    fetchPublicProfile(cleanedHandle),
+    fetchPublicAuthorFeed(cleanedHandle),
+  ]);
+  if (!profile || !feed) return null;
+  const site = SITE_URL.replace(/\/$/, '');
+  const profileHandle = profile.handle ?? cleanedHandle;
+  const name = profile.displayName || `@${profileHandle}`;
+  // Reposts show up in the author feed too; the syndicated feed only carries their own posts.
+  const posts = (feed.feed ?? []).filter((item: any) => !item.reason).map((item: any) => item.post);
+  const url = `${site}/profile/${encodeURIComponent(profileHandle)}`;
+  return {
+    title: `${name} on HillSide`,
+    description: profile.description ? truncateText(profile.description, 300) : `Posts by @${profileHandle} on HillSide.`,
+    url,
+    selfUrl: `${url}/rss`,
+    image: profile.avatar,
+    items: postsToFeedItems(posts, SITE_URL),
+  };
+};
+
+const loadHashtagFeed = async (tag: string): Promise<FeedChannel | null> => {
+  const cleanedTag = tag.replace(/^#/, '');
+  const params = new URLSearchParams({ q: `#${cleanedTag}`, sort: 'latest', limit: String(FEED_ITEM_LIMIT) });
+  const result = await fetchJson<any>(`${PUBLIC_API}/xrpc/app.bsky.feed.searchPosts?${params.toString()}`);
+  if (!result) return null;
+  const site = SITE_URL.replace(/\/$/, '');
+  const url = `${site}/hashtag/${encodeURIComponent(cleanedTag)}`;
+  return {
+    title: `#${cleanedTag} on HillSide`,
+    description: `Latest posts tagged #${cleanedTag} on HillSide.`,
+    url,
+    selfUrl: `${url}/rss`,
+    items: postsToFeedItems(result.posts ?? [], SITE_URL),
+  };
+};
+
+const serveFeed = async (req: IncomingMessage, res: ServerResponse, pathname: string) => {
+  const profileMatch = pathname.match(/^\/profile\/([^/]+)\/(rss|atom)\/?$/);
+  const hashtagMatch = pathname.match(/^\/hashtag\/([^/]+)\/rss\/?$/);
+  let channel: FeedChannel | null = null;
+  let format: 'rss' | 'atom' = 'rss';
+  if (profileMatch) {
+    const handle = safeDecode(profileMatch[1])?.replace(/^@/, '').toLowerCase();
+    format = profileMatch[2] as 'rss' | 'atom';
+    channel = handle ? await feedCache.get(`profile:${handle}`, () => loadProfileFeed(handle)) : null;
+    if (channel) channel = { ...channel, selfUrl: `${channel.url}/${format}` };
+  } else if (hashtagMatch) {
+    const tag = safeDecode(hashtagMatch[1])?.replace(/^#/, '');
+    channel = tag ? await feedCache.get(`hashtag:${tag.toLowerCase()}`, () => loadHashtagFeed(tag)) : null;
+  } else {
+    return false;
+  }
+
+  if (!channel) {
+    res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
+    res.end('Feed not found');
+    return true;
+  }
+  const body = format === 'atom' ? renderAtomFeed(channel) : renderRssFeed(channel);
+  res.writeHead(200, {
+    'Content-Type': format === 'atom' ? 'application/atom+xml; charset=utf-8' : 'application/rss+xml; charset=utf-8',
+    'Cache-Control': `public, max-age=${Math.round(FEED_CACHE_TTL_MS / 1000)}`,
+  });
+  res.end(req.method === 'HEAD' ? undefined : body);
+  return true;
+};
+
+const OEMBED_DEFAULT_WIDTH = 550;
+const OEMBED_MIN_WIDTH = 220;
+const OEMBED_CACHE_AGE_SECONDS = 3600;
+
+const formatEmbedText = (text: string) => escapeHtml(text).replace(/\r?\n/g, '<br />');
+
+const buildPostOembed = async (targetUrl: string, maxWidth: number | undefined, requestHost?: string) => {
+  let parsed: URL;
+  try {
+    parsed = new URL(targetUrl);
+  } catch {
+    return null;
+  }
+  const allowedHosts = [new URL(SITE_URL).host, requestHost].filter(Boolean);
+  if (!allowedHosts.includes(parsed.host)) return null;
+  const match = parsed.pathname.match(/^\/profile\/([^/]+)\/post\/([^/]+)\/?$/);
+  if (!match) return null;
+
+  const handle = safeDecode(match[1])?.replace(/^@/, '');
+  const postId = safeDecode(match[2]);
+  if (!handle || !postId) return null;
+  const post = await fetchPublicPost(handle, postId);
+  if (!post) return null;
+
+  const site = SITE_URL.replace(/\/$/, '');
+  const authorHandle = post.author?.handle ?? handle;
+  const authorName = post.author?.displayName || `@${authorHandle}`;
+  const postUrl = `${site}/profile/${encodeURIComponent(authorHandle)}/post/${encodeURIComponent(postId)}`;
+  const authorUrl = `${site}/profile/${encodeURIComponent(authorHandle)}`;
+  const createdAt = post.record?.createdAt ? new Date(post.record.createdAt) : null;
+  const dateLabel =
+    createdAt && !Number.isNaN(createdAt.getTime())
+      ? createdAt.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })
+      : 'View on HillSide';
+  const text = String(post.record?.text ?? '');
+  const width = Math.max(OEMBED_MIN_WIDTH, Math.min(maxWidth ?? OEMBED_DEFAULT_WIDTH, OEMBED_DEFAULT_WIDTH));
+
+  const html = [
+    `<blockquote class="hillside-embed" data-hillside-uri="${escapeHtml(post.uri ?? '')}" cite="${escapeHtml(postUrl)}" style="max-width:${width}px">`,
+    text ? `<p>${formatEmbedText(text)}</p>` : '',
+    `&mdash; ${escapeHtml(authorName)} (<a href="${escapeHtml(authorUrl)}">@${escapeHtml(authorHandle)}</a>) `,
+    `<a href="${escapeHtml(postUrl)}">${escapeHtml(dateLabel)}</a>`,
+    '</blockquote>',
+  ].join('');
+
+  return {
+    version: '1.0',
+    type: 'rich',
+    provider_name: 'HillSide',
+    provider_url: `${site}/`,
+    author_name: authorName,
+    author_url: authorUrl,
+    title: `Post by ${authorName}`,
+    html,
+    width,
+    height: null,
+    cache_age: OEMBED_CACHE_AGE_SECONDS,
+    thumbnail_url: getOgImageUrl('post', authorHandle, postId),
+    thumbnail_width: OG_IMAGE_WIDTH,
+    thumbnail_height: OG_IMAGE_HEIGHT,
+  };
+};
+
+const loadPageForPath = async (pathname: string): Promise<PageLoad> => {
+  const postMatch = pathname.match(/^\/profile\/([^/]+)\/post\/([^/]+)\/?$/);
+  const handle = postMatch && safeDecode(postMatch[1]);
+  const postId = postMatch && safeDecode(postMatch[2]);
+  if (handle && postId) {
+    return loadPostPage(handle, postId, pathname);
+  }
+  const profileMatch = pathname.match(/^\/profile\/([^/]+)\/?$/);
+  const profileHandle = profileMatch && safeDecode(profileMatch[1]);
+  if (profileHandle) {
+    return loadProfilePage(profileHandle, pathname);
+  }
+  const hashtagMatch = pathname.match(/^\/hashtag\/([^/]+)\/?$/);
+  const tag = hashtagMatch && safeDecode(hashtagMatch[1]);
+  if (tag) {
+    const url = `${SITE_URL.replace(/\/$/, '')}${pathname}`;
+    const meta: PageMeta = {
+      title: `#${tag} on HillSide`,
+      description: `Latest posts tagged #${tag} on HillSide.`,
+      url,
+      image: DEFAULT_OG_IMAGE,
+      alternates: [
+        {
+          type: 'application/rss+xml',
+          href: `${SITE_URL.replace(/\/$/, '')}/hashtag/${encodeURIComponent(tag)}/rss`,
+          title: `#${tag} on HillSide (RSS)`,
+        },
+      ],
+      jsonLd: buildHashtagJsonLd(tag, SITE_URL),
+      type: 'website',
+      twitterCard: 'summary_large_image',
+    };
+    return { meta };
+  }
+  return { meta: buildDefaultMeta(pathname) };
+};
+
+// Only profile and post pages hit the network. Their fallbacks are typed
+// 'website', so failed lookups are retried instead of cached.
+const getCachedPageForPath = (pathname: string) => {
+  if (!pathname.startsWith('/profile/')) return loadPageForPath(pathname);
+  return pageCache.get(normalizePagePath(pathname), () => loadPageForPath(pathname));
+};
+
+const getIndexTemplate = async () => {
+  const distIndex = path.join(DIST_DIR, 'index.html');
+  const template = await readFileIfExists(distIndex);
+  if (template) return template.toString('utf8');
+  const fallback = await readFile(path.join(process.cwd(), 'index.html'));
+  return fallback.toString('utf8');
+};
+
+const serveUnfurl = async (res: ServerResponse, pathname: string, target: string | null) => {
+  if (!target) {
+    sendJson(res, 400, { error: 'Missing url parameter.' });
+    return;
+  }
+  try {
+    if (pathname === '/api/unfurl/image') {
+      const image = await unfurler.fetchImage(target);
+      res.writeHead(200, {
+        'Content-Type': image.contentType,
+        'Content-Length': String(image.body.length),
+        'Cache-Control': 'private, max-age=3600',
+        'X-Content-Type-Options': 'nosniff',
+        'Content-Security-Policy': "default-src 'none'",
+      });
+      res.end(image.body);
+      return;
+    }
+    const preview = await unfurlCache.get(target, () => unfurler.unfurl(target));
+    res.writeHead(200, { ...jsonHeaders, 'Cache-Control': 'private, max-age=600' });
+    res.end(JSON.stringify(preview));
+  } catch (error) {
+    if (error instanceof UnfurlError) {
+      sendJson(res, error.status, { error: error.message });
+      return;
+    }
+    throw error;
+  }
+};
+
+const SCHEDULED_POSTS_ROUTE = '/api/chat/scheduled-posts';
+
+const findOwnScheduledPost = async (did: string, id: unknown) => {
+  const post = typeof id === 'string' ? await scheduledPosts.get(id) : null;
+  if (!post || post.did !== did) throw new ScheduledPostError('Scheduled post not found.', 404);
+  return post;
+};
+
+const saveScheduledPost = async (did: string, input: ScheduledPostInput) => {
+  const id = randomUUID();
+  const saveMedia = async ({ bytes, mimeType, alt, aspectRatio }: MediaInput, file: string) => {
+    await scheduledPosts.writeMedia(id, file, bytes);
+    return { file, mimeType, alt, ...(aspectRatio ? { aspectRatio } : {}) };
+  };
+  const images = await Promise.all(input.images.map((image, index) => saveMedia(image, `image-${index}`)));
+  const thumb = input.external?.thumb ? await saveMedia(input.external.thumb, 'thumb') : undefined;
+  const now = Date.now();
+  const post: ScheduledPost = {
+    id,
+    did,
+    text: input.text,
+    langs: input.langs,
+    images,
+    external: input.external
+      ? {
+          uri: input.external.uri,
+          title: input.external.title,
+          description: input.external.description,
+          ...(thumb ? { thumb } : {}),
+        }
+      : undefined,
+    interaction: input.interaction,
+    scheduledAt: input.scheduledAt,
+    createdAt: now,
+    updatedAt: now,
+    status: 'pending',
+    attempts: 0,
+  };
+  await scheduledPosts.set(post);
+  return post;
+};
+
+const assertNotPublishing = (post: ScheduledPost) => {
+  if (post.status === 'publishing') {
+    throw new ScheduledPostError('This post is being published right now.', 409);
+  }
+};
+
+const serveScheduledPosts = async (req: IncomingMessage, res: ServerResponse, pathname: string, url: URL) => {
+  const session = await requireSession(req, res);
+  if (!session) return;
+
+  try {
+    if (req.method === 'GET' && pathname === SCHEDULED_POSTS_ROUTE) {
+      const posts = (await scheduledPosts.list())
+        .filter((post) => post.did === session.did)
+        .sort((a, b) => a.scheduledAt - b.scheduledAt);
+      sendJson(res, 200, { posts: posts.map(toScheduledPostView) });
+      return;
+    }
+
+    if (req.method === 'GET' && pathname === `${SCHEDULED_POSTS_ROUTE}/media`) {
+      const post = await findOwnScheduledPost(session.did, url.searchParams.get('id'));
+      const index = url.searchParams.get('index');
+      const media = index === 'thumb' ? post.external?.thumb : post.images[Number(index)];
+      if (!media || post.status === 'published') throw new ScheduledPostError('Media not found.', 404);
+      const body = await scheduledPosts.readMedia(post.id, media.file);
+      res.writeHead(200, {
+        'Content-Type': media.mimeType,
+        'Content-Length': String(body.length),
+        'Cache-Control': 'private, max-age=3600',
+        'X-Content-Type-Options': 'nosniff',
+        'Content-Security-Policy': "default-src 'none'",
+      });
+      res.end(body);
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      sendJson(res, 405, { error: 'Method not allowed.' });
+      return;
+    }
+    const body = await readJsonBody<Record<string, unknown>>(req, SCHEDULED_POST_MAX_BODY_BYTES);
+
+    if (pathname === SCHEDULED_POSTS_ROUTE) {
+      const queued = (await scheduledPosts.list()).filter(
+        (post) => post.did === session.did && post.status !== 'published'
+      );
+      if (queued.length >= MAX_SCHEDULED_POSTS_PER_ACCOUNT) {
+        throw new ScheduledPostError(`You can have at most ${MAX_SCHEDULED_POSTS_PER_ACCOUNT} scheduled posts.`, 409);
+      }
+      const post = await saveScheduledPost(session.did, parseScheduledPostInput(body));
+      sendJson(res, 201, { post: toScheduledPostView(post) });
+      return;
+    }
+
+    const post = await findOwnScheduledPost(session.did, body.id);
+    assertNotPublishing(post);
+
+    if (pathname === `${SCHEDULED_POSTS_ROUTE}/update`) {
+      if (post.status === 'published') throw new ScheduledPostError('This post has already been published.', 409);
+      // Editing a failed post puts it back in the queue with a fresh set of attempts.
+      const updated: ScheduledPost = {
+        ...applyScheduledPostUpdate(post, body),
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: undefined,
+        lastError: undefined,
+      };
+      await scheduledPosts.set(updated);
+      sendJson(res, 200, { post: toScheduledPostView(updated) });
+      return;
+    }
+
+    if (pathname === `${SCHEDULED_POSTS_ROUTE}/retry`) {
+      if (post.status !== 'failed') throw new ScheduledPostError('Only failed posts can be retried.', 409);
+      const retried: ScheduledPost = {
+        ...post,
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: undefined,
+        updatedAt: Date.now(),
+      };
+      await scheduledPosts.set(retried);
+      sendJson(res, 200, { post: toScheduledPostView(retried) });
+      return;
+    }
+
+    // Cancelling a published entry only removes it from the list; the post itself stays up.
+    await scheduledPosts.delete(post.id);
+    sendJson(res, 200, { success: true });
+  } catch (error) {
+    const status = (error as { status?: number })?.status;
+    if (error instanceof ScheduledPostError || status === 413) {
+      sendJson(res, status ?? 400, { error: (error as Error).message });
+      return;
+    }
+    throw error;
+  }
+};
+
+const OAUTH_AUTHORIZE_ROUTE = '/api/chat/oauth/authorize';
+
+const OAUTH_ROUTES = new Set([OAUTH_CLIENT_METADATA_PATH, OAUTH_JWKS_PATH, OAUTH_AUTHORIZE_ROUTE, OAUTH_CALLBACK_PATH]);
+
+const redirectTo = (res: ServerResponse, location: string) => {
+  res.writeHead(302, { Location: location, 'Cache-Control': 'no-store' });
+  res.end();
+};
+
+const serveOAuth = async (req: IncomingMessage, res: ServerResponse, pathname: string, url: URL) => {
+  const client = await oauthClient;
+  if (!client) {
+    sendJson(res, 503, { error: 'OAuth sign-in is not available.' });
+    return;
+  }
+
+  if (req.method === 'GET' && (pathname === OAUTH_CLIENT_METADATA_PATH || pathname === OAUTH_JWKS_PATH)) {
+    const document = pathname === OAUTH_JWKS_PATH ? client.jwks() : client.clientMetadata();
+    res.writeHead(200, { ...jsonHeaders, 'Cache-Control': 'public, max-age=600' });
+    res.end(JSON.stringify(document));
+    return;
+  }
+
+  if (req.method === 'POST' && pathname === OAUTH_AUTHORIZE_ROUTE) {
+    const body = await readJsonBody<{ identifier?: unknown; service?: unknown }>(req);
+    try {
+      const { url: authorizationUrl, stateCookie } = await client.authorize({
+        identifier: typeof body.identifier === 'string' ? body.identifier : undefined,
+        service: typeof body.service === 'string' ? body.service : undefined,
+      });
+      setCookie(res, OAUTH_STATE_COOKIE, stateCookie, { maxAgeSeconds: OAUTH_STATE_COOKIE_MAX_AGE_SECONDS });
+      sendJson(res, 200, { url: authorizationUrl });
+    } catch (error) {
+      if (!(error instanceof OAuthError)) throw error;
+      sendJson(res, error.status, { error: error.message });
+    }
+    return;
+  }
+
+  if (req.method === 'GET' && pathname === OAUTH_CALLBACK_PATH) {
+    // The redirect URI is on the app's origin, so the session cookie set here
+    // is the one the app will send.
+    const appOrigin = new URL(client.redirectUri).origin;
+    const stateCookie = parseCookies(req)[OAUTH_STATE_COOKIE];
+    setCookie(res, OAUTH_STATE_COOKIE, '', { maxAgeSeconds: 0 });
+    try {
+      const oauth = await client.callback(url.searchParams, stateCookie);
+      const sessionId = randomUUID();
+      const agent = await createOAuthAgent(sessionId, oauth);
+      const { data } = await agent.com.atproto.server.getSession();
+      await startSession(res, agent, { id: sessionId, did: oauth.did, handle: data.handle, service: oauth.pds, oauth });
+      redirectTo(res, `${appOrigin}/feed`);
+    } catch (error) {
+      if (error instanceof OAuthError) {
+        logger.warn('OAuth sign-in failed', { error });
+      } else {
+        recordUpstreamError('oauth_callback', error);
+        logger.error('OAuth sign-in failed', { error });
+      }
+      const message = error instanceof OAuthError ? error.message : 'Sign-in failed. Please try again.';
+      redirectTo(res, `${appOrigin}/auth?${new URLSearchParams({ oauthError: message })}`);
+    }
+    return;
+  }
+
+  sendJson(res, 405, { error: 'Method not allowed.' });
+};
+
+const XRPC_NSID = /^[a-zA-Z][a-zA-Z0-9-]*(\.[a-zA-Z0-9-]+){2,}$/;
+const FORWARDED_XRPC_REQUEST_HEADERS = ['content-type', 'atproto-proxy', 'atproto-accept-labelers', 'accept-language'];
+const FORWARDED_XRPC_RESPONSE_HEADERS = [
+  'content-type',
+  'atproto-content-labelers',
+  'retry-after',
+  'ratelimit-limit',
+  'ratelimit-remaining',
+  'ratelimit-reset',
+];
+
+/** Forwards the app's XRPC calls to the account's PDS with the session's own credentials. */
+const proxyXrpc = async (req: IncomingMessage, res: ServerResponse, pathname: string, url: URL) => {
+  const nsid = pathname.slice(XRPC_PROXY_PREFIX.length);
+  if (!XRPC_NSID.test(nsid) || (req.method !== 'GET' && req.method !== 'POST')) {
+    sendJson(res, 400, { error: 'InvalidRequest', message: 'Unsupported XRPC request.' });
+    return;
+  }
+  const session = await requireSession(req, res);
+  if (!session) return;
+
+  const headers = new Headers();
+  for (const name of FORWARDED_XRPC_REQUEST_HEADERS) {
+    const value = req.headers[name];
+    if (typeof value === 'string') headers.set(name, value);
   }
-  if (type === 'app.bsky.embed.video#view') {
-    return embed.thumbnail ?? undefined;
+  let body: Buffer | undefined;
+  if (req.method === 'POST') {
+    try {
+      body = await readBody(req, XRPC_PROXY_MAX_BODY_BYTES);
+    } catch (error) {
+      if ((error as { status?: number })?.status !== 413) throw error;
+      sendJson(res, 413, { error: 'PayloadTooLarge', message: 'Request body is too large.' });
+      return;
+    }
   }
-  if (type === 'app.bsky.embed.recordWithMedia#view') {
-    return getEmbedImage(embed.media);
+
+  const response = await session.agent.sessionManager.fetchHandler(`/xrpc/${nsid}${url.search}`, {
+    method: req.method,
+    headers,
+    body,
+  });
+  if (response.status === 429 || response.status >= 500) {
+    recordUpstreamError('xrpc_proxy', { status: response.status });
   }
-  return undefined;
+  const responseHeaders: Record<string, string> = { 'Cache-Control': 'no-store' };
+  for (const name of FORWARDED_XRPC_RESPONSE_HEADERS) {
+    const value = response.headers.get(name);
+    if (value) responseHeaders[name] = value;
+  }
+  res.writeHead(response.status, responseHeaders);
+  res.end(Buffer.from(await response.arrayBuffer()));
 };
 
-const buildDefaultMeta = (pathname: string): PageMeta => {
-  const url = `${SITE_URL.replace(/\/$/, '')}${pathname}`;
-  return {
-    title: 'HillSide - Decentralized Social Platform',
-    description:
-      'HillSide is a decentralized social platform built on the AT Protocol. Own your data, build community, and connect through an open, federated network.',
-    url,
-    image: DEFAULT_OG_IMAGE,
-    type: 'website',
-    twitterCard: 'summary_large_image',
-  };
+const SCHEDULED_POST_ROUTES = new Set([
+  SCHEDULED_POSTS_ROUTE,
+  `${SCHEDULED_POSTS_ROUTE}/media`,
+  `${SCHEDULED_POSTS_ROUTE}/update`,
+  `${SCHEDULED_POSTS_ROUTE}/cancel`,
+  `${SCHEDULED_POSTS_ROUTE}/retry`,
+]);
+
+// Metric labels must stay low-cardinality, so paths are collapsed to the
+// route that served them and anything unknown shares a single label.
+const EXACT_ROUTES = new Set([
+  '/healthz',
+  '/readyz',
+  '/metrics',
+  '/oembed',
+  '/api/unfurl',
+  '/api/unfurl/image',
+  '/api/chat/session',
+  '/api/chat/session/restore',
+  '/api/chat/delete-session',
+  '/api/chat/convos',
+  '/api/chat/convo',
+  '/api/chat/convo/for-members',
+  '/api/chat/convo/availability',
+  '/api/chat/messages',
+  '/api/chat/message',
+  '/api/chat/delete-message',
+  '/api/chat/leave-convo',
+  '/api/chat/accept-convo',
+  '/api/chat/mute-convo',
+  '/api/chat/unmute-convo',
+  '/api/chat/mark-read',
+  '/api/chat/mark-all-read',
+  '/api/chat/add-reaction',
+  '/api/chat/remove-reaction',
+  '/api/chat/events',
+  '/api/chat/log',
+  '/api/chat/push/key',
+  '/api/chat/push/subscribe',
+  '/api/chat/push/unsubscribe',
+  ...SCHEDULED_POST_ROUTES,
+  ...OAUTH_ROUTES,
+]);
+
+const ROUTE_PATTERNS: [RegExp, string][] = [
+  [/^\/api\/chat\/xrpc\//, '/api/chat/xrpc/:nsid'],
+  [/^\/api\/emoji\//, '/api/emoji/*'],
+  [/^\/og\/post\//, '/og/post/:handle/:rkey'],
+  [/^\/og\/profile\//, '/og/profile/:handle'],
+  [/^\/embed\/[^/]+\/[^/]+\/?$/, '/embed/:handle/:rkey'],
+  [/^\/profile\/[^/]+\/(rss|atom)\/?$/, '/profile/:handle/feed'],
+  [/^\/hashtag\/[^/]+\/rss\/?$/, '/hashtag/:tag/rss'],
+  [/^\/profile\/[^/]+\/post\/[^/]+\/?$/, '/profile/:handle/post/:rkey'],
+  [/^\/profile\/[^/]+\/?$/, '/profile/:handle'],
+  [/^\/hashtag\/[^/]+\/?$/, '/hashtag/:tag'],
+];
+
+const KNOWN_METHODS = new Set(['GET', 'HEAD', 'POST', 'OPTIONS']);
+
+const getRouteLabel = (pathname: string) => {
+  if (EXACT_ROUTES.has(pathname)) return pathname;
+  const match = ROUTE_PATTERNS.find(([pattern]) => pattern.test(pathname));
+  if (match) return match[1];
+  return pathname.startsWith('/api/') ? '/api/*' : 'page';
 };
 
-const buildProfileMeta = async (handle: string, pathname: string): Promise<PageMeta> => {
-  const cleanedHandle = handle.replace(/^@/, '');
-  const profile = await fetchJson<any>(
-    `${PUBLIC_API}/xrpc/app.bsky.actor.getProfile?actor=${encodeURIComponent(cleanedHandle)}`
-  );
-  const titleBase = profile?.displayName || `@${profile?.handle ?? cleanedHandle}`;
-  const description = profile?.description
-    ? truncateText(profile.description, 200)
-    : `@${profile?.handle ?? cleanedHandle} on HillSide.`;
-  const url = `${SITE_URL.replace(/\/$/, '')}${pathname}`;
-  return {
-    title: titleBase,
-    description,
-    url,
-    image: profile?.avatar ?? DEFAULT_OG_IMAGE,
-    type: 'profile',
-    twitterCard: profile?.avatar ? 'summary' : 'summary_large_image',
-  };
+// Load balancers may already have assigned an id; reuse it if it looks sane.
+const getIncomingRequestId = (req: IncomingMessage) => {
+  const header = req.headers['x-request-id'];
+  const value = Array.isArray(header) ? header[0] : header;
+  return value && /^[\w.:-]{1,128}$/.test(value) ? value : randomUUID();
 };
 
-const buildPostMeta = async (
-  handle: string,
-  postId: string,
-  pathname: string
-): Promise<PageMeta> => {
-  const cleanedHandle = handle.replace(/^@/, '');
-  const resolve = await fetchJson<{ did?: string }>(
-    `${PUBLIC_API}/xrpc/com.atproto.identity.resolveHandle?handle=${encodeURIComponent(cleanedHandle)}`
-  );
-  const did = resolve?.did;
-  if (!did) {
-    return buildDefaultMeta(pathname);
-  }
-  const uri = `at://${did}/app.bsky.feed.post/${postId}`;
-  const params = new URLSearchParams({
-    uri,
-    depth: '0',
-    parentHeight: '0',
+const PROBE_ROUTES = new Set(['/healthz', '/readyz', '/metrics']);
+
+const trackRequest = (req: IncomingMessage, res: ServerResponse, route: { label: string }) => {
+  const startedAt = process.hrtime.bigint();
+  const method = KNOWN_METHODS.has(req.method ?? '') ? (req.method as string) : 'OTHER';
+  res.once('close', () => {
+    const seconds = Number(process.hrtime.bigint() - startedAt) / 1e9;
+    // 499 mirrors nginx: the client went away before we finished answering.
+    const status = res.writableFinished ? res.statusCode : 499;
+    httpRequests.inc({ route: route.label, method, status });
+    httpRequestDuration.observe({ route: route.label, method }, seconds);
+    const fields = {
+      method: req.method,
+      // Only the path: query strings can carry OAuth codes and state.
+      path: new URL(req.url ?? '/', 'http://localhost').pathname,
+      route: route.label,
+      status,
+      durationMs: Math.round(seconds * 1000),
+    };
+    if (PROBE_ROUTES.has(route.label)) {
+      logger.debug('Request completed', fields);
+    } else {
+      logger.info('Request completed', fields);
+    }
   });
-  const threadData = await fetchJson<any>(
-    `${PUBLIC_API}/xrpc/app.bsky.feed.getPostThread?${params.toString()}`
-  );
-  const post = threadData?.thread?.post ?? threadData?.post;
-  if (!post) {
-    return buildDefaultMeta(pathname);
-  }
-  const authorHandle = post.author?.handle ?? cleanedHandle;
-  const authorName = post.author?.displayName ?? `@${authorHandle}`;
-  const description = post.record?.text
-    ? truncateText(String(post.record.text), 200)
-    : `Post by @${authorHandle} on HillSide.`;
-  const image = getEmbedImage(post.embed) ?? post.author?.avatar ?? DEFAULT_OG_IMAGE;
-  const url = `${SITE_URL.replace(/\/$/, '')}${pathname}`;
-  return {
-    title: `Post by ${authorName}`,
-    description,
-    url,
-    image,
-    type: 'article',
-    twitterCard: image ? 'summary_large_image' : 'summary',
+};
+
+const withTimeout = <T>(promise: Promise<T>, ms: number) =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Timed out after ${ms}ms`)), ms);
+    promise.then(resolve, reject).finally(() => clearTimeout(timer));
+  });
+
+const runReadinessChecks = async () => {
+  const check = async (run: () => Promise<unknown>) => {
+    try {
+      await withTimeout(run(), READINESS_TIMEOUT_MS);
+      return 'ok';
+    } catch (error) {
+      logger.warn('Readiness check failed', { error });
+      return 'failed';
+    }
   };
+  const [store, template] = await Promise.all([
+    check(() => sessionStore.get('readiness-probe')),
+    check(() => getIndexTemplate()),
+  ]);
+  const checks = { shutdown: shuttingDown ? 'failed' : 'ok', sessionStore: store, indexTemplate: template };
+  return { ready: Object.values(checks).every((result) => result === 'ok'), checks };
 };
 
-const buildMetaForPath = async (pathname: string): Promise<PageMeta> => {
-  const postMatch = pathname.match(/^\/profile\/([^/]+)\/post\/([^/]+)\/?$/);
-  if (postMatch) {
-    return buildPostMeta(decodeURIComponent(postMatch[1]), decodeURIComponent(postMatch[2]), pathname);
-  }
-  const profileMatch = pathname.match(/^\/profile\/([^/]+)\/?$/);
-  if (profileMatch) {
-    return buildProfileMeta(decodeURIComponent(profileMatch[1]), pathname);
-  }
-  const hashtagMatch = pathname.match(/^\/hashtag\/([^/]+)\/?$/);
-  if (hashtagMatch) {
-    const tag = decodeURIComponent(hashtagMatch[1]);
-    const url = `${SITE_URL.replace(/\/$/, '')}${pathname}`;
-    return {
-      title: `#${tag} on HillSide`,
-      description: `Latest posts tagged #${tag} on HillSide.`,
-      url,
-      image: DEFAULT_OG_IMAGE,
-      type: 'website',
-      twitterCard: 'summary_large_image',
-    };
+const isMetricsRequestAuthorized = (req: IncomingMessage) =>
+  !METRICS_TOKEN || req.headers.authorization === `Bearer ${METRICS_TOKEN}`;
+
+const serveOperationalEndpoint = async (req: IncomingMessage, res: ServerResponse, pathname: string) => {
+  if (req.method !== 'GET' && req.method !== 'HEAD') return false;
+  const noStore = { 'Cache-Control': 'no-store' };
+
+  if (pathname === '/healthz') {
+    res.writeHead(200, { ...jsonHeaders, ...noStore });
+    const body = JSON.stringify({ status: 'ok', uptimeSeconds: Math.round(process.uptime()) });
+    res.end(req.method === 'HEAD' ? undefined : body);
+    return true;
   }
-  return buildDefaultMeta(pathname);
-};
 
-const getIndexTemplate = async () => {
-  const distIndex = path.join(DIST_DIR, 'index.html');
-  const template = await readFileIfExists(distIndex);
-  if (template) return template.toString('utf8');
-  const fallback = await readFile(path.join(process.cwd(), 'index.html'));
-  return fallback.toString('utf8');
-};
+  if (pathname === '/readyz') {
+    const { ready, checks } = await runReadinessChecks();
+    res.writeHead(ready ? 200 : 503, { ...jsonHeaders, ...noStore });
+    res.end(req.method === 'HEAD' ? undefined : JSON.stringify({ status: ready ? 'ok' : 'unavailable', checks }));
+    return true;
+  }
 
-const serveStaticFile = async (res: ServerResponse, filePath: string, method: string) => {
-  const buffer = await readFileIfExists(filePath);
-  if (!buffer) return false;
-  const ext = path.extname(filePath).toLowerCase();
-  res.writeHead(200, {
-    'Content-Type': getContentType(ext),
-    'Cache-Control': ext === '.html' ? 'no-cache' : 'public, max-age=31536000, immutable',
-  });
-  if (method === 'HEAD') {
-    res.end();
+  if (pathname === '/metrics') {
+    if (!isMetricsRequestAuthorized(req)) {
+      res.writeHead(401, { 'Content-Type': 'text/plain; charset=utf-8', 'WWW-Authenticate': 'Bearer' });
+      res.end('Unauthorized');
+      return true;
+    }
+    const body = await metrics.render();
+    res.writeHead(200, { 'Content-Type': METRICS_CONTENT_TYPE, ...noStore });
+    res.end(req.method === 'HEAD' ? undefined : body);
     return true;
   }
-  res.end(buffer);
-  return true;
+
+  return false;
 };
 
-const server = createServer(async (req, res) => {
+const handleRequest = async (req: IncomingMessage, res: ServerResponse, route: { label: string }) => {
   setCorsHeaders(req, res);
 
   if (req.method === 'OPTIONS') {
@@ -425,14 +1823,39 @@ const server = createServer(async (req, res) => {
   const url = new URL(req.url ?? '/', `http://${req.headers.host}`);
   const pathname = url.pathname;
 
+  if (await serveOperationalEndpoint(req, res, pathname)) return;
+
+  const rateLimitBudget = RATE_LIMITS_DISABLED ? null : getRateLimitBudget(req.method ?? 'GET', pathname);
+  if (rateLimitBudget && !applyRateLimit(req, res, rateLimitBudget)) return;
+
+  if (pathname.startsWith('/api/chat/') && isMutatingMethod(req.method) && !isTrustedOrigin(req, trustedOrigins)) {
+    sendJson(res, 403, { error: 'Request origin is not allowed.', code: 'origin' });
+    return;
+  }
+
   try {
     if ((req.method === 'GET' || req.method === 'HEAD') && pathname.startsWith('/api/emoji/')) {
       await forwardEmojiRequest(req, res, url);
       return;
     }
 
+    if (req.method === 'GET' && (pathname === '/api/unfurl' || pathname === '/api/unfurl/image')) {
+      await serveUnfurl(res, pathname, url.searchParams.get('url'));
+      return;
+    }
+
+    if (OAUTH_ROUTES.has(pathname)) {
+      await serveOAuth(req, res, pathname, url);
+      return;
+    }
+
+    if (pathname.startsWith(XRPC_PROXY_PREFIX)) {
+      await proxyXrpc(req, res, pathname, url);
+      return;
+    }
+
     if (req.method === 'POST' && pathname === '/api/chat/session') {
-      const body = await readJsonBody<{ identifier?: string; appPassword?: string }>(req);
+      const body = await readJsonBody<{ identifier?: string; appPassword?: string; service?: string }>(req);
       const identifier = body.identifier?.trim();
       const appPassword = body.appPassword?.trim();
 
@@ -441,7 +1864,8 @@ const server = createServer(async (req, res) => {
         return;
       }
 
-      const agent = new AtpAgent({ service: BSKY_SERVICE });
+      const sessionId = randomUUID();
+      const agent = createSessionAgent(sessionId, await resolveSessionService(identifier, body.service));
       const response = await agent.login({
         identifier: identifier.startsWith('@') ? identifier.slice(1) : identifier,
         password: appPassword,
@@ -452,28 +1876,13 @@ const server = createServer(async (req, res) => {
         return;
       }
 
-      const sessionId = randomUUID();
-      sessions.set(sessionId, {
-        agent,
-        did: agent.did,
-        handle: agent.session?.handle,
-        createdAt: Date.now(),
-      });
-
-      const cookieParts = [`chat_session=${encodeURIComponent(sessionId)}`, 'HttpOnly', 'Path=/', 'SameSite=Lax'];
-      if (COOKIE_DOMAIN) {
-        cookieParts.push(`Domain=${COOKIE_DOMAIN.startsWith('.') ? COOKIE_DOMAIN : `.${COOKIE_DOMAIN}`}`);
-      }
-      if (process.env.NODE_ENV === 'production') {
-        cookieParts.push('Secure');
-      }
-      res.setHeader('Set-Cookie', cookieParts.join('; '));
-      sendJson(res, 200, { success: true, did: agent.did, handle: agent.session?.handle });
+      const csrfToken = await startPasswordSession(res, agent, sessionId);
+      sendJson(res, 200, { success: true, did: agent.did, handle: agent.session?.handle, csrfToken });
       return;
     }
 
     if (req.method === 'POST' && pathname === '/api/chat/session/restore') {
-      const body = await readJsonBody<{ session?: any }>(req);
+      const body = await readJsonBody<{ session?: any; service?: string }>(req);
       const sessionData = body.session;
 
       if (!sessionData?.accessJwt || !sessionData?.refreshJwt || !sessionData?.did) {
@@ -481,7 +1890,8 @@ const server = createServer(async (req, res) => {
         return;
       }
 
-      const agent = new AtpAgent({ service: BSKY_SERVICE });
+      const sessionId = randomUUID();
+      const agent = createSessionAgent(sessionId, await resolveSessionService(sessionData.did, body.service));
       await agent.resumeSession(sessionData);
 
       if (!agent.did) {
@@ -489,35 +1899,27 @@ const server = createServer(async (req, res) => {
         return;
       }
 
-      const sessionId = randomUUID();
-      sessions.set(sessionId, {
-        agent,
-        did: agent.did,
-        handle: agent.session?.handle,
-        createdAt: Date.now(),
-      });
-
-      const cookieParts = [`chat_session=${encodeURIComponent(sessionId)}`, 'HttpOnly', 'Path=/', 'SameSite=Lax'];
-      if (COOKIE_DOMAIN) {
-        cookieParts.push(`Domain=${COOKIE_DOMAIN.startsWith('.') ? COOKIE_DOMAIN : `.${COOKIE_DOMAIN}`}`);
-      }
-      if (process.env.NODE_ENV === 'production') {
-        cookieParts.push('Secure');
-      }
-      res.setHeader('Set-Cookie', cookieParts.join('; '));
-      sendJson(res, 200, { success: true, did: agent.did, handle: agent.session?.handle });
+      const csrfToken = await startPasswordSession(res, agent, sessionId);
+      sendJson(res, 200, { success: true, did: agent.did, handle: agent.session?.handle, csrfToken });
       return;
     }
 
     if (req.method === 'GET' && pathname === '/api/chat/session') {
-      const session = requireSession(req, res);
+      const session = await requireSession(req, res);
       if (!session) return;
-      sendJson(res, 200, { active: true, did: session.did, handle: session.handle });
+      setSessionCookies(res, session.id, session.csrfToken);
+      sendJson(res, 200, {
+        active: true,
+        did: session.did,
+        handle: session.handle,
+        authMethod: session.authMethod,
+        csrfToken: session.csrfToken,
+      });
       return;
     }
 
     if (req.method === 'GET' && pathname === '/api/chat/convos') {
-      const session = requireSession(req, res);
+      const session = await requireSession(req, res);
       if (!session) return;
       const chatAgent = getChatAgent(session);
       const limit = url.searchParams.get('limit');
@@ -537,7 +1939,7 @@ const server = createServer(async (req, res) => {
     }
 
     if (req.method === 'POST' && pathname === '/api/chat/convo/for-members') {
-      const session = requireSession(req, res);
+      const session = await requireSession(req, res);
       if (!session) return;
       const chatAgent = getChatAgent(session);
       const body = await readJsonBody<{ members?: string[] }>(req);
@@ -556,7 +1958,7 @@ const server = createServer(async (req, res) => {
     }
 
     if (req.method === 'POST' && pathname === '/api/chat/convo/availability') {
-      const session = requireSession(req, res);
+      const session = await requireSession(req, res);
       if (!session) return;
       const chatAgent = getChatAgent(session);
       const body = await readJsonBody<{ members?: string[] }>(req);
@@ -575,7 +1977,7 @@ const server = createServer(async (req, res) => {
     }
 
     if (req.method === 'GET' && pathname === '/api/chat/convo') {
-      const session = requireSession(req, res);
+      const session = await requireSession(req, res);
       if (!session) return;
       const chatAgent = getChatAgent(session);
       const convoId = url.searchParams.get('convoId');
@@ -591,7 +1993,7 @@ const server = createServer(async (req, res) => {
     }
 
     if (req.method === 'GET' && pathname === '/api/chat/messages') {
-      const session = requireSession(req, res);
+      const session = await requireSession(req, res);
       if (!session) return;
       const chatAgent = getChatAgent(session);
       const convoId = url.searchParams.get('convoId');
@@ -614,20 +2016,44 @@ const server = createServer(async (req, res) => {
     }
 
     if (req.method === 'POST' && pathname === '/api/chat/message') {
-      const session = requireSession(req, res);
+      const session = await requireSession(req, res);
       if (!session) return;
       const chatAgent = getChatAgent(session);
-      const body = await readJsonBody<{ convoId?: string; text?: string }>(req);
-
-      if (!body.convoId || !body.text?.trim()) {
+      const body = await readJsonBody<{ convoId?: string; text?: string; embed?: { uri?: unknown; cid?: unknown } }>(
+        req
+      );
+      const embed = body.embed
+        ? typeof body.embed.uri === 'string' &&
+          MESSAGE_EMBED_URI.test(body.embed.uri) &&
+          typeof body.embed.cid === 'string' &&
+          body.embed.cid
+          ? { uri: body.embed.uri, cid: body.embed.cid }
+          : null
+        : undefined;
+      const text = typeof body.text === 'string' ? body.text.trim() : '';
+
+      if (!body.convoId || (!text && !embed)) {
         sendJson(res, 400, { error: 'Missing convoId or text.' });
         return;
       }
+      if (embed === null) {
+        sendJson(res, 400, { error: 'Embedded posts need an at:// post URI and a CID.' });
+        return;
+      }
+
+      const richText = new RichText({ text });
+      if (richText.graphemeLength > MAX_MESSAGE_GRAPHEMES) {
+        sendJson(res, 400, { error: `Messages are limited to ${MAX_MESSAGE_GRAPHEMES} characters.` });
+        return;
+      }
+      await richText.detectFacets(session.agent);
 
       const response = await chatAgent.chat.bsky.convo.sendMessage({
         convoId: body.convoId,
         message: {
-          text: body.text.trim(),
+          text: richText.text,
+          facets: richText.facets,
+          embed: embed ? { $type: 'app.bsky.embed.record', record: embed } : undefined,
         },
       });
 
@@ -636,7 +2062,7 @@ const server = createServer(async (req, res) => {
     }
 
     if (req.method === 'POST' && pathname === '/api/chat/delete-message') {
-      const session = requireSession(req, res);
+      const session = await requireSession(req, res);
       if (!session) return;
       const chatAgent = getChatAgent(session);
       const body = await readJsonBody<{ convoId?: string; messageId?: string }>(req);
@@ -646,7 +2072,7 @@ const server = createServer(async (req, res) => {
         return;
       }
 
-      const response = await chatAgent.chat.bsky.convo.deleteMessage({
+      const response = await chatAgent.chat.bsky.convo.deleteMessageForSelf({
         convoId: body.convoId,
         messageId: body.messageId,
       });
@@ -656,7 +2082,7 @@ const server = createServer(async (req, res) => {
     }
 
     if (req.method === 'POST' && pathname === '/api/chat/leave-convo') {
-      const session = requireSession(req, res);
+      const session = await requireSession(req, res);
       if (!session) return;
       const chatAgent = getChatAgent(session);
       const body = await readJsonBody<{ convoId?: string }>(req);
@@ -674,42 +2100,254 @@ const server = createServer(async (req, res) => {
       return;
     }
 
+    if (req.method === 'POST' && pathname === '/api/chat/accept-convo') {
+      const session = await requireSession(req, res);
+      if (!session) return;
+      const chatAgent = getChatAgent(session);
+      const body = await readJsonBody<{ convoId?: string }>(req);
+
+      if (!body.convoId) {
+        sendJson(res, 400, { error: 'Missing convoId.' });
+        return;
+      }
+
+      const response = await chatAgent.chat.bsky.convo.acceptConvo({
+        convoId: body.convoId,
+      });
+
+      sendJson(res, 200, response.data);
+      return;
+    }
+
+    if (req.method === 'POST' && (pathname === '/api/chat/mute-convo' || pathname === '/api/chat/unmute-convo')) {
+      const session = await requireSession(req, res);
+      if (!session) return;
+      const chatAgent = getChatAgent(session);
+      const body = await readJsonBody<{ convoId?: string }>(req);
+
+      if (!body.convoId) {
+        sendJson(res, 400, { error: 'Missing convoId.' });
+        return;
+      }
+
+      const response =
+        pathname === '/api/chat/mute-convo'
+          ? await chatAgent.chat.bsky.convo.muteConvo({ convoId: body.convoId })
+          : await chatAgent.chat.bsky.convo.unmuteConvo({ convoId: body.convoId });
+
+      sendJson(res, 200, response.data);
+      return;
+    }
+
     if (req.method === 'POST' && pathname === '/api/chat/mark-read') {
-      const session = requireSession(req, res);
+      const session = await requireSession(req, res);
       if (!session) return;
       const chatAgent = getChatAgent(session);
       const body = await readJsonBody<{ convoId?: string; messageId?: string }>(req);
 
-      if (!body.convoId || !body.messageId) {
-        sendJson(res, 400, { error: 'Missing convoId or messageId.' });
+      if (!body.convoId) {
+        sendJson(res, 400, { error: 'Missing convoId.' });
         return;
       }
 
       const response = await chatAgent.chat.bsky.convo.updateRead({
         convoId: body.convoId,
-        messageId: body.messageId,
+        messageId: body.messageId || undefined,
+      });
+
+      sendJson(res, 200, response.data);
+      return;
+    }
+
+    if (req.method === 'POST' && pathname === '/api/chat/mark-all-read') {
+      const session = await requireSession(req, res);
+      if (!session) return;
+      const chatAgent = getChatAgent(session);
+      const body = await readJsonBody<{ status?: string }>(req);
+
+      const response = await chatAgent.chat.bsky.convo.updateAllRead({
+        status: body.status || undefined,
+      });
+
+      sendJson(res, 200, response.data);
+      return;
+    }
+
+    if (req.method === 'POST' && (pathname === '/api/chat/add-reaction' || pathname === '/api/chat/remove-reaction')) {
+      const session = await requireSession(req, res);
+      if (!session) return;
+      const chatAgent = getChatAgent(session);
+      const body = await readJsonBody<{ convoId?: string; messageId?: string; value?: string }>(req);
+
+      if (!body.convoId || !body.messageId || !body.value) {
+        sendJson(res, 400, { error: 'Missing convoId, messageId or value.' });
+        return;
+      }
+
+      const input = { convoId: body.convoId, messageId: body.messageId, value: body.value };
+      const response =
+        pathname === '/api/chat/add-reaction'
+          ? await chatAgent.chat.bsky.convo.addReaction(input)
+          : await chatAgent.chat.bsky.convo.removeReaction(input);
+
+      sendJson(res, 200, response.data);
+      return;
+    }
+
+    if (req.method === 'GET' && pathname === '/api/chat/events') {
+      const session = await requireSession(req, res);
+      if (!session) return;
+      const lastEventId = req.headers['last-event-id'];
+      const resumeCursor =
+        (Array.isArray(lastEventId) ? lastEventId[0] : lastEventId) || url.searchParams.get('cursor') || undefined;
+      await chatEvents.connect(req, res, session.id, getChatAgent(session), resumeCursor);
+      return;
+    }
+
+    if (req.method === 'GET' && pathname === '/api/chat/log') {
+      const session = await requireSession(req, res);
+      if (!session) return;
+      const chatAgent = getChatAgent(session);
+      const cursor = url.searchParams.get('cursor') ?? undefined;
+
+      const response = await chatAgent.chat.bsky.convo.getLog({
+        cursor: cursor || undefined,
       });
 
       sendJson(res, 200, response.data);
       return;
     }
 
+    if (SCHEDULED_POST_ROUTES.has(pathname)) {
+      await serveScheduledPosts(req, res, pathname, url);
+      return;
+    }
+
+    if (req.method === 'GET' && pathname === '/api/chat/push/key') {
+      const vapid = await vapidKeys;
+      if (!vapid) {
+        sendJson(res, 503, { error: 'Push notifications are not available.' });
+        return;
+      }
+      sendJson(res, 200, { publicKey: vapid.publicKey });
+      return;
+    }
+
+    if (req.method === 'POST' && pathname === '/api/chat/push/subscribe') {
+      const session = await requireSession(req, res);
+      if (!session) return;
+      const body = await readJsonBody<{ subscription?: unknown }>(req);
+      const subscription = parsePushSubscription(body.subscription, PUSH_SERVICE_HOSTS);
+      if (!subscription) {
+        sendJson(res, 400, { error: 'Invalid push subscription.' });
+        return;
+      }
+      await pushSubscriptions.set({ ...subscription, did: session.did, sessionId: session.id, createdAt: Date.now() });
+      sendJson(res, 200, { success: true });
+      return;
+    }
+
+    if (req.method === 'POST' && pathname === '/api/chat/push/unsubscribe') {
+      const session = await requireSession(req, res);
+      if (!session) return;
+      const body = await readJsonBody<{ endpoint?: string }>(req);
+      const existing = (await pushSubscriptions.list()).find((record) => record.endpoint === body.endpoint);
+      if (existing && existing.did === session.did) {
+        await pushSubscriptions.delete(existing.endpoint);
+      }
+      sendJson(res, 200, { success: true });
+      return;
+    }
+
     if (req.method === 'POST' && pathname === '/api/chat/delete-session') {
-      destroySession(req);
+      const session = await getSession(req);
+      if (session && !isValidCsrfToken(req, parseCookies(req), session.csrfToken)) {
+        sendJson(res, 403, { error: 'Invalid or missing CSRF token.', code: 'csrf' });
+        return;
+      }
+      await destroySession(req, res);
       sendJson(res, 200, { success: true });
       return;
     }
 
-    if (req.method === 'GET' || req.method === 'HEAD') {
-      const distPath = resolveStaticPath(DIST_DIR, pathname);
-      if (distPath && (await serveStaticFile(res, distPath, req.method))) return;
+    if ((req.method === 'GET' || req.method === 'HEAD') && pathname === '/oembed') {
+      const targetUrl = url.searchParams.get('url');
+      if (!targetUrl) {
+        sendJson(res, 400, { error: 'Missing url parameter' });
+        return;
+      }
+      const format = url.searchParams.get('format') ?? 'json';
+      if (format !== 'json') {
+        res.writeHead(501, { 'Content-Type': 'text/plain; charset=utf-8' });
+        res.end('Only the json format is supported');
+        return;
+      }
+      const maxWidth = Number(url.searchParams.get('maxwidth'));
+      // The spec forbids answering wider than maxwidth, and posts can't be laid out narrower.
+      if (Number.isFinite(maxWidth) && maxWidth > 0 && maxWidth < OEMBED_MIN_WIDTH) {
+        res.writeHead(501, { 'Content-Type': 'text/plain; charset=utf-8' });
+        res.end(`maxwidth must be at least ${OEMBED_MIN_WIDTH}`);
+        return;
+      }
+      const oembed = await buildPostOembed(
+        targetUrl,
+        Number.isFinite(maxWidth) && maxWidth > 0 ? maxWidth : undefined,
+        req.headers.host
+      );
+      if (!oembed) {
+        sendJson(res, 404, { error: 'No embeddable post found for that url' });
+        return;
+      }
+      res.writeHead(200, {
+        ...jsonHeaders,
+        'Cache-Control': `public, max-age=${OEMBED_CACHE_AGE_SECONDS}`,
+      });
+      res.end(req.method === 'HEAD' ? undefined : JSON.stringify(oembed));
+      return;
+    }
+
+    const embedMatch = pathname.match(/^\/embed\/([^/]+)\/([^/]+)\/?$/);
+    if ((req.method === 'GET' || req.method === 'HEAD') && embedMatch) {
+      const handle = safeDecode(embedMatch[1]);
+      const postId = safeDecode(embedMatch[2]);
+      const post = handle && postId ? await fetchPublicPost(handle, postId) : null;
+      const html = post
+        ? renderPostEmbedPage(post, { siteUrl: SITE_URL })
+        : renderEmbedNotFoundPage({ siteUrl: SITE_URL });
+      // Embeds are meant to be framed anywhere, so no X-Frame-Options here.
+      res.writeHead(post ? 200 : 404, {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Cache-Control': post ? 'public, max-age=300' : 'no-cache',
+        'Content-Security-Policy':
+          "default-src 'none'; img-src https: data:; style-src 'unsafe-inline'; frame-ancestors *",
+      });
+      res.end(req.method === 'HEAD' ? undefined : html);
+      return;
+    }
+
+    if ((req.method === 'GET' || req.method === 'HEAD') && /\/(rss|atom)\/?$/.test(pathname)) {
+      if (await serveFeed(req, res, pathname)) return;
+    }
+
+    if ((req.method === 'GET' || req.method === 'HEAD') && pathname.startsWith('/og/')) {
+      if (await serveOgImage(req, res, pathname)) return;
+    }
 
-      const publicPath = resolveStaticPath(PUBLIC_DIR, pathname);
-      if (publicPath && (await serveStaticFile(res, publicPath, req.method))) return;
+    if (req.method === 'GET' || req.method === 'HEAD') {
+      const staticFile = (await findStaticFile(DIST_DIR, pathname)) ?? (await findStaticFile(PUBLIC_DIR, pathname));
+      if (staticFile) {
+        // Label before sending: the metric is recorded when the response closes.
+        route.label = 'static';
+        await serveStaticFile(req, res, staticFile);
+        return;
+      }
 
       const template = await getIndexTemplate();
-      const meta = await buildMetaForPath(pathname);
-      const html = applyMetaToHtml(template, meta);
+      const page = await getCachedPageForPath(pathname);
+      let html = applyMetaToHtml(template, page.meta);
+      if (page.ssr) {
+        html = injectSsrSnapshot(html, page.ssr, SITE_URL);
+      }
 
       res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
       if (req.method === 'HEAD') {
@@ -725,8 +2363,59 @@ const server = createServer(async (req, res) => {
   } catch (error) {
     handleError(res, error);
   }
+};
+
+const server = createServer((req, res) => {
+  const requestId = getIncomingRequestId(req);
+  const route = { label: getRouteLabel(new URL(req.url ?? '/', 'http://localhost').pathname) };
+  res.setHeader('X-Request-Id', requestId);
+  runWithRequestId(requestId, () => {
+    trackRequest(req, res, route);
+    void handleRequest(req, res, route);
+  });
 });
 
+const sweepTimer = setInterval(() => {
+  sweepExpiredSessions().catch((error) => logger.error('Chat session sweep failed', { error }));
+  rateLimiter.sweep();
+  ogImages.sweep().catch((error) => logger.warn('OG image cache sweep failed', { error }));
+}, SESSION_SWEEP_INTERVAL_MS);
+sweepTimer.unref();
+
+const shutdown = (signal: string) => {
+  logger.info('Shutting down', { signal });
+  // Fail readiness first so the load balancer stops routing here while we drain.
+  shuttingDown = true;
+  clearInterval(sweepTimer);
+  pushWorker?.stop();
+  server.close(() => {
+    Promise.all([
+      sessionStore.close?.(),
+      pushSubscriptions.close(),
+      postScheduler.stop().then(() => scheduledPosts.close()),
+    ])
+      .catch((error) => logger.error('Failed to close session stores', { error }))
+      .finally(() => process.exit(0));
+  });
+};
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
+
 server.listen(PORT, () => {
-  console.log(`Server running on http://localhost:${PORT}`);
+  logger.info('Server listening', { port: PORT, url: `http://localhost:${PORT}` });
+  sweepExpiredSessions().catch((error) => logger.error('Chat session sweep failed', { error }));
+  postScheduler.start().catch((error) => logger.error('Failed to start post scheduler', { error }));
+  void vapidKeys.then((vapid) => {
+    if (!vapid || shuttingDown) return;
+    pushWorker = createPushWorker({
+      intervalMs: PUSH_POLL_INTERVAL_MS,
+      store: pushSubscriptions,
+      vapid,
+      loadSession: loadPushSession,
+      onUpstreamError: (error) => recordUpstreamError('push_worker', error),
+      onDelivery: (kind, result) => pushDeliveries.inc({ kind, result }),
+    });
+    pushWorker.start();
+  });
 });
@@ -0,0 +1,91 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  child(bindings: LogFields): Logger;
+}
+
+export interface LoggerOptions {
+  level?: LogLevel;
+  bindings?: LogFields;
+  write?: (level: LogLevel, line: string) => void;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const requestContext = new AsyncLocalStorage<{ requestId: string }>();
+
+/** Everything logged inside `run`, including from awaited callbacks, carries `requestId`. */
+export const runWithRequestId = <T>(requestId: string, run: () => T) => requestContext.run({ requestId }, run);
+
+export const getRequestId = () => requestContext.getStore()?.requestId;
+
+export const parseLogLevel = (value: string | undefined, fallback: LogLevel = 'info'): LogLevel =>
+  value && value in LEVEL_ORDER ? (value as LogLevel) : fallback;
+
+const serializeError = (error: unknown) => {
+  if (!(error instanceof Error)) return { message: String(error) };
+  const { status, statusCode, error: code } = error as Error & { status?: number; statusCode?: number; error?: string };
+  return {
+    name: error.name,
+    message: error.message,
+    ...(status ?? statusCode ? { status: status ?? statusCode } : {}),
+    ...(typeof code === 'string' ? { code } : {}),
+    stack: error.stack,
+  };
+};
+
+const defaultWrite = (level: LogLevel, line: string) => {
+  if (level === 'error' || level === 'warn') {
+    process.stderr.write(`${line}\n`);
+  } else {
+    process.stdout.write(`${line}\n`);
+  }
+};
+
+/**
+ * One JSON object per line. An `error` field is expanded into name, message,
+ * status and stack so upstream XRPC failures stay searchable.
+ */
+export const createLogger = ({ level = 'info', bindings = {}, write = defaultWrite }: LoggerOptions = {}): Logger => {
+  const threshold = LEVEL_ORDER[level];
+
+  const log = (entryLevel: LogLevel, message: string, fields: LogFields = {}) => {
+    if (LEVEL_ORDER[entryLevel] < threshold) return;
+    const requestId = getRequestId();
+    const { error, ...rest } = fields;
+    const entry = {
+      time: new Date().toISOString(),
+      level: entryLevel,
+      msg: message,
+      ...(requestId ? { requestId } : {}),
+      ...bindings,
+      ...rest,
+      ...(error !== undefined ? { error: serializeError(error) } : {}),
+    };
+    let line: string;
+    try {
+      line = JSON.stringify(entry);
+    } catch {
+      line = JSON.stringify({ time: entry.time, level: entryLevel, msg: message, requestId });
+    }
+    write(entryLevel, line);
+  };
+
+  return {
+    debug: (message, fields) => log('debug', message, fields),
+    info: (message, fields) => log('info', message, fields),
+    warn: (message, fields) => log('warn', message, fields),
+    error: (message, fields) => log('error', message, fields),
+    child: (childBindings) => createLogger({ level, bindings: { ...bindings, ...childBindings }, write }),
+  };
+};
+
+export const logger = createLogger({ level: parseLogLevel(process.env.LOG_LEVEL) });
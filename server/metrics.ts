@@ -0,0 +1,150 @@
+// Minimal Prometheus registry: counters, histograms and metrics computed at
+// scrape time, rendered in the text exposition format (version 0.0.4).
+
+export type Labels = Record<string, string | number>;
+
+export interface Sample {
+  labels?: Labels;
+  value: number;
+}
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+interface MetricFamily {
+  name: string;
+  help: string;
+  type: MetricType;
+  render: () => Promise<string[]> | string[];
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/** Seconds; tuned for HTTP handlers that mostly answer within a second. */
+export const DEFAULT_DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+const escapeLabelValue = (value: string) => value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+const formatLabels = (labels: Labels = {}) => {
+  const keys = Object.keys(labels).sort();
+  if (!keys.length) return '';
+  return `{${keys.map((key) => `${key}="${escapeLabelValue(String(labels[key]))}"`).join(',')}}`;
+};
+
+const formatValue = (value: number) => {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+};
+
+const seriesKey = (labels: Labels = {}) => formatLabels(labels);
+
+export const createMetricsRegistry = () => {
+  const families: MetricFamily[] = [];
+
+  const register = (family: MetricFamily) => {
+    if (families.some((existing) => existing.name === family.name)) {
+      throw new Error(`Metric ${family.name} is already registered.`);
+    }
+    families.push(family);
+  };
+
+  const counter = (name: string, help: string) => {
+    const series = new Map<string, Sample>();
+    register({
+      name,
+      help,
+      type: 'counter',
+      render: () =>
+        Array.from(series.values(), ({ labels, value }) => `${name}${formatLabels(labels)} ${formatValue(value)}`),
+    });
+    return {
+      inc: (labels: Labels = {}, by = 1) => {
+        const key = seriesKey(labels);
+        const existing = series.get(key);
+        if (existing) {
+          existing.value += by;
+        } else {
+          series.set(key, { labels, value: by });
+        }
+      },
+    };
+  };
+
+  const histogram = (name: string, help: string, buckets = DEFAULT_DURATION_BUCKETS) => {
+    const bounds = [...buckets].sort((a, b) => a - b);
+    const series = new Map<string, HistogramSeries>();
+    register({
+      name,
+      help,
+      type: 'histogram',
+      render: () =>
+        Array.from(series.values()).flatMap(({ labels, counts, sum, count }) => [
+          ...bounds.map(
+            (bound, index) => `${name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${counts[index]}`
+          ),
+          `${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+          `${name}_sum${formatLabels(labels)} ${formatValue(sum)}`,
+          `${name}_count${formatLabels(labels)} ${count}`,
+        ]),
+    });
+    return {
+      observe: (labels: Labels, value: number) => {
+        const key = seriesKey(labels);
+        const entry = series.get(key) ?? { labels, counts: bounds.map(() => 0), sum: 0, count: 0 };
+        series.set(key, entry);
+        // Buckets are cumulative: a value counts towards every bound it fits under.
+        bounds.forEach((bound, index) => {
+          if (value <= bound) entry.counts[index] += 1;
+        });
+        entry.sum += value;
+        entry.count += 1;
+      },
+    };
+  };
+
+  /** Registers a metric whose samples are read from live state on every scrape. */
+  const collect = (
+    name: string,
+    help: string,
+    type: Exclude<MetricType, 'histogram'>,
+    read: () => Sample[] | number | Promise<Sample[] | number>
+  ) => {
+    register({
+      name,
+      help,
+      type,
+      render: async () => {
+        const result = await read();
+        const samples = typeof result === 'number' ? [{ value: result }] : result;
+        return samples.map(({ labels, value }) => `${name}${formatLabels(labels)} ${formatValue(value)}`);
+      },
+    });
+  };
+
+  const render = async () => {
+    const blocks = await Promise.all(
+      families.map(async (family) => {
+        let lines: string[];
+        try {
+          lines = await family.render();
+        } catch {
+          // One failing collector shouldn't take the whole scrape down.
+          lines = [];
+        }
+        const help = family.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+        return [`# HELP ${family.name} ${help}`, `# TYPE ${family.name} ${family.type}`, ...lines].join('\n');
+      })
+    );
+    return `${blocks.join('\n')}\n`;
+  };
+
+  return { counter, histogram, collect, render };
+};
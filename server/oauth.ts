@@ -0,0 +1,602 @@
+// atproto OAuth (https://atproto.com/specs/oauth) as a confidential client:
+// pushed authorization requests, PKCE and DPoP-bound tokens. Tokens stay on
+// the server; the browser reaches the PDS through the session's XRPC proxy.
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  JsonWebKey,
+  KeyObject,
+  randomBytes,
+  randomUUID,
+  sign,
+  timingSafeEqual,
+} from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import {
+  getPdsEndpoint,
+  IdentityResolverOptions,
+  isDid,
+  normalizeIdentifier,
+  normalizeServiceUrl,
+  resolveDidDocument,
+  resolveIdentity,
+} from '../src/lib/identity';
+import { logger } from './logger';
+
+export const OAUTH_SCOPE = 'atproto transition:generic transition:chat.bsky';
+export const OAUTH_CALLBACK_PATH = '/api/chat/oauth/callback';
+export const OAUTH_CLIENT_METADATA_PATH = '/oauth/client-metadata.json';
+export const OAUTH_JWKS_PATH = '/oauth/jwks.json';
+/** Holds a hash of the pending `state`, tying the callback to the browser that started sign-in. */
+export const OAUTH_STATE_COOKIE = 'oauth_state';
+
+export interface OAuthClientKey {
+  kid: string;
+  /** Private ES256 key as a JWK. */
+  privateJwk: JsonWebKey;
+}
+
+export interface OAuthSessionData {
+  did: string;
+  /** The PDS the access token is bound to. */
+  pds: string;
+  issuer: string;
+  tokenEndpoint: string;
+  revocationEndpoint?: string;
+  accessToken: string;
+  refreshToken?: string;
+  /** Epoch milliseconds. */
+  expiresAt?: number;
+  scope: string;
+  /** Private ES256 JWK every proof for this session is signed with. */
+  dpopKey: JsonWebKey;
+}
+
+/** Structurally the session manager `new Agent(...)` accepts. */
+export interface OAuthSessionManager {
+  readonly did: string;
+  fetchHandler(path: string, init: RequestInit): Promise<Response>;
+}
+
+export interface OAuthSessionHooks {
+  onUpdate: (session: OAuthSessionData) => Promise<void>;
+  /** The refresh token was rejected; the session can't be used any more. */
+  onExpired: () => Promise<void>;
+}
+
+export class OAuthError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'OAuthError';
+    this.status = status;
+  }
+}
+
+interface AuthorizationServerMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  pushed_authorization_request_endpoint: string;
+  revocation_endpoint?: string;
+  scopes_supported?: string[];
+  dpop_signing_alg_values_supported?: string[];
+  authorization_response_iss_parameter_supported?: boolean;
+}
+
+interface TokenResponse {
+  access_token?: string;
+  token_type?: string;
+  refresh_token?: string;
+  expires_in?: number;
+  scope?: string;
+  sub?: string;
+}
+
+interface PendingAuthorization {
+  issuer: string;
+  tokenEndpoint: string;
+  revocationEndpoint?: string;
+  requireIss: boolean;
+  codeVerifier: string;
+  dpopKey: JsonWebKey;
+  expectedDid?: string;
+  expiresAt: number;
+}
+
+type TokenEndpoint = Pick<OAuthSessionData, 'issuer' | 'tokenEndpoint' | 'dpopKey'>;
+
+const FETCH_TIMEOUT_MS = 10_000;
+const PENDING_TTL_MS = 10 * 60 * 1000;
+export const OAUTH_STATE_COOKIE_MAX_AGE_SECONDS = PENDING_TTL_MS / 1000;
+const MAX_PENDING_AUTHORIZATIONS = 1000;
+const CLIENT_ASSERTION_TTL_SECONDS = 60;
+// Refresh a little early so a request never races the token's expiry.
+const REFRESH_LEEWAY_MS = 60 * 1000;
+const LOOPBACK_HOSTS = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+const toBase64Url = (value: Buffer | string) => Buffer.from(value).toString('base64url');
+const sha256 = (value: string) => createHash('sha256').update(value).digest('base64url');
+
+const safeEqual = (a: string, b: string) => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+};
+
+const signJwt = (header: Record<string, unknown>, claims: Record<string, unknown>, key: KeyObject) => {
+  const input = `${toBase64Url(JSON.stringify(header))}.${toBase64Url(JSON.stringify(claims))}`;
+  const signature = sign('sha256', Buffer.from(input), { key, dsaEncoding: 'ieee-p1363' });
+  return `${input}.${toBase64Url(signature)}`;
+};
+
+const generateEs256Jwk = () =>
+  generateKeyPairSync('ec', { namedCurve: 'prime256v1' }).privateKey.export({ format: 'jwk' });
+
+const toPublicJwk = (key: KeyObject) => {
+  const { kty, crv, x, y } = createPublicKey(key).export({ format: 'jwk' });
+  return { kty, crv, x, y };
+};
+
+const isEs256PrivateJwk = (jwk: unknown): jwk is JsonWebKey => {
+  const { kty, crv, d } = (jwk ?? {}) as JsonWebKey;
+  return kty === 'EC' && crv === 'P-256' && typeof d === 'string';
+};
+
+/**
+ * The client key from the environment wins. Otherwise one is generated once
+ * and kept in `filePath`; the authorization server pins it through our JWKS,
+ * so rotating it ends every OAuth session.
+ */
+export const loadOAuthClientKey = async ({
+  privateJwk,
+  filePath,
+}: {
+  privateJwk?: string;
+  filePath: string;
+}): Promise<OAuthClientKey> => {
+  const toClientKey = (jwk: JsonWebKey): OAuthClientKey => ({
+    kid: sha256(JSON.stringify(toPublicJwk(createPrivateKey({ key: jwk, format: 'jwk' })))).slice(0, 16),
+    privateJwk: jwk,
+  });
+
+  if (privateJwk) {
+    const parsed = JSON.parse(privateJwk) as unknown;
+    if (!isEs256PrivateJwk(parsed)) throw new Error('OAUTH_PRIVATE_JWK must be a private ES256 (P-256) JWK.');
+    return toClientKey(parsed);
+  }
+
+  try {
+    const stored = JSON.parse(await readFile(filePath, 'utf8')) as unknown;
+    if (isEs256PrivateJwk(stored)) return toClientKey(stored);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException)?.code !== 'ENOENT') {
+      logger.error('Failed to read OAuth client key file', { filePath, error });
+    }
+  }
+
+  const jwk = generateEs256Jwk();
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFile(filePath, JSON.stringify(jwk), { mode: 0o600 });
+  logger.warn('Generated a new OAuth client key; set OAUTH_PRIVATE_JWK to pin it', { filePath });
+  return toClientKey(jwk);
+};
+
+const fetchWithTimeout = async (fetchImpl: typeof fetch, url: string, init: RequestInit = {}) => {
+  try {
+    return await fetchImpl(url, { ...init, redirect: 'error', signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+  } catch (error) {
+    logger.warn('OAuth request failed', { url, error });
+    throw new OAuthError(`Could not reach ${new URL(url).host}.`, 502);
+  }
+};
+
+const readJson = async <T>(response: Response): Promise<T | null> => {
+  try {
+    return (await response.json()) as T;
+  } catch {
+    return null;
+  }
+};
+
+const getAuthenticateError = (response: Response) =>
+  /error="([^"]+)"/.exec(response.headers.get('www-authenticate') ?? '')?.[1];
+
+export interface OAuthClientOptions {
+  /** Public origin of the app; the client id and redirect URI live here. */
+  siteUrl: string;
+  clientName: string;
+  clientKey: OAuthClientKey;
+  resolver: IdentityResolverOptions;
+  allowInsecure?: boolean;
+  /**
+   * Used for every request to a PDS or authorization server, since their
+   * addresses come from user input and DID documents.
+   */
+  fetch?: typeof fetch;
+}
+
+export const createOAuthClient = ({
+  siteUrl,
+  clientName,
+  clientKey,
+  resolver,
+  allowInsecure = false,
+  fetch: fetchImpl = fetch,
+}: OAuthClientOptions) => {
+  const site = new URL(siteUrl);
+  // Authorization servers accept a `http://localhost` client without a
+  // metadata document for development. It is a public client, and its
+  // redirect must use the loopback IP, so open the app on 127.0.0.1 too.
+  const isLoopback = LOOPBACK_HOSTS.has(site.hostname);
+  const redirectUri = isLoopback
+    ? `http://127.0.0.1${site.port ? `:${site.port}` : ''}${OAUTH_CALLBACK_PATH}`
+    : `${site.origin}${OAUTH_CALLBACK_PATH}`;
+  const clientId = isLoopback
+    ? `http://localhost?${new URLSearchParams({ redirect_uri: redirectUri, scope: OAUTH_SCOPE })}`
+    : `${site.origin}${OAUTH_CLIENT_METADATA_PATH}`;
+  const signingKey = createPrivateKey({ key: clientKey.privateJwk, format: 'jwk' });
+  const pending = new Map<string, PendingAuthorization>();
+  // Servers rotate DPoP nonces; the latest one per origin is reused until refused.
+  const nonces = new Map<string, string>();
+  const dpopKeys = new WeakMap<JsonWebKey, KeyObject>();
+
+  const getDpopKey = (jwk: JsonWebKey) => {
+    let key = dpopKeys.get(jwk);
+    if (!key) {
+      key = createPrivateKey({ key: jwk, format: 'jwk' });
+      dpopKeys.set(jwk, key);
+    }
+    return key;
+  };
+
+  const createDpopProof = (jwk: JsonWebKey, method: string, url: URL, accessToken?: string) => {
+    const key = getDpopKey(jwk);
+    const nonce = nonces.get(url.origin);
+    return signJwt(
+      { typ: 'dpop+jwt', alg: 'ES256', jwk: toPublicJwk(key) },
+      {
+        jti: randomUUID(),
+        htm: method,
+        htu: `${url.origin}${url.pathname}`,
+        iat: Math.floor(Date.now() / 1000),
+        ...(nonce ? { nonce } : {}),
+        ...(accessToken ? { ath: sha256(accessToken) } : {}),
+      },
+      key
+    );
+  };
+
+  const rememberNonce = (url: URL, response: Response) => {
+    const nonce = response.headers.get('dpop-nonce');
+    if (nonce) nonces.set(url.origin, nonce);
+  };
+
+  const clientAuthentication = (issuer: string): Record<string, string> => {
+    if (isLoopback) return { client_id: clientId };
+    const iat = Math.floor(Date.now() / 1000);
+    return {
+      client_id: clientId,
+      client_assertion_type: 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer',
+      client_assertion: signJwt(
+        { alg: 'ES256', kid: clientKey.kid },
+        { iss: clientId, sub: clientId, aud: issuer, jti: randomUUID(), iat, exp: iat + CLIENT_ASSERTION_TTL_SECONDS },
+        signingKey
+      ),
+    };
+  };
+
+  /** Form POST to an authorization server endpoint, retrying once with a fresh DPoP nonce. */
+  const postToAuthorizationServer = async <T>(
+    endpoint: string,
+    issuer: string,
+    dpopKey: JsonWebKey,
+    params: Record<string, string>,
+    retryOnNonce = true
+  ): Promise<T> => {
+    const url = new URL(endpoint);
+    const response = await fetchWithTimeout(fetchImpl, endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Accept: 'application/json',
+        DPoP: createDpopProof(dpopKey, 'POST', url),
+      },
+      body: new URLSearchParams({ ...params, ...clientAuthentication(issuer) }),
+    });
+    rememberNonce(url, response);
+    const data = await readJson<T & { error?: string; error_description?: string }>(response);
+    if (response.ok && data) return data;
+    if (data?.error === 'use_dpop_nonce' && retryOnNonce) {
+      return postToAuthorizationServer<T>(endpoint, issuer, dpopKey, params, false);
+    }
+    // A rejected grant means the user has to sign in again, like an expired session.
+    const status = data?.error === 'invalid_grant' ? 401 : response.status >= 500 ? 502 : 400;
+    throw new OAuthError(data?.error_description || data?.error || 'The authorization server refused the request.', status);
+  };
+
+  const getIssuerForPds = async (pds: string) => {
+    const response = await fetchWithTimeout(fetchImpl, `${pds}/.well-known/oauth-protected-resource`, {
+      headers: { Accept: 'application/json' },
+    });
+    const metadata = response.ok
+      ? await readJson<{ resource?: string; authorization_servers?: string[] }>(response)
+      : null;
+    const issuer = metadata?.authorization_servers?.[0];
+    const normalized = issuer ? normalizeServiceUrl(issuer, { allowInsecure }) : null;
+    if (!normalized || normalized !== issuer?.replace(/\/$/, '')) {
+      throw new OAuthError('This hosting provider does not support OAuth sign-in.', 400);
+    }
+    return normalized;
+  };
+
+  const getAuthorizationServerMetadata = async (issuer: string) => {
+    const response = await fetchWithTimeout(fetchImpl, `${issuer}/.well-known/oauth-authorization-server`, {
+      headers: { Accept: 'application/json' },
+    });
+    const metadata = response.ok ? await readJson<AuthorizationServerMetadata>(response) : null;
+    const endpoints = metadata
+      ? [metadata.authorization_endpoint, metadata.token_endpoint, metadata.pushed_authorization_request_endpoint]
+      : [];
+    if (
+      !metadata ||
+      metadata.issuer !== issuer ||
+      !endpoints.every((endpoint) => typeof endpoint === 'string' && normalizeServiceUrl(endpoint, { allowInsecure })) ||
+      !metadata.scopes_supported?.includes('atproto') ||
+      !metadata.dpop_signing_alg_values_supported?.includes('ES256')
+    ) {
+      throw new OAuthError('The authorization server metadata is missing or invalid.', 502);
+    }
+    return metadata;
+  };
+
+  const toSessionTokens = (token: TokenResponse) => {
+    if (
+      !token.access_token ||
+      token.token_type?.toLowerCase() !== 'dpop' ||
+      !token.sub ||
+      !isDid(token.sub) ||
+      !token.scope?.split(' ').includes('atproto')
+    ) {
+      throw new OAuthError('The authorization server returned an unusable token.', 502);
+    }
+    return {
+      did: token.sub,
+      accessToken: token.access_token,
+      refreshToken: token.refresh_token,
+      expiresAt: token.expires_in ? Date.now() + token.expires_in * 1000 : undefined,
+      scope: token.scope,
+    };
+  };
+
+  const requestToken = async (session: TokenEndpoint, params: Record<string, string>) =>
+    toSessionTokens(
+      await postToAuthorizationServer<TokenResponse>(session.tokenEndpoint, session.issuer, session.dpopKey, params)
+    );
+
+  const sweepPending = () => {
+    const now = Date.now();
+    for (const [state, entry] of pending) {
+      if (entry.expiresAt <= now) pending.delete(state);
+    }
+  };
+
+  return {
+    clientId,
+    redirectUri,
+
+    clientMetadata() {
+      return {
+        client_id: clientId,
+        client_name: clientName,
+        client_uri: site.origin,
+        redirect_uris: [redirectUri],
+        grant_types: ['authorization_code', 'refresh_token'],
+        response_types: ['code'],
+        scope: OAUTH_SCOPE,
+        application_type: 'web',
+        token_endpoint_auth_method: 'private_key_jwt',
+        token_endpoint_auth_signing_alg: 'ES256',
+        jwks_uri: `${site.origin}${OAUTH_JWKS_PATH}`,
+        dpop_bound_access_tokens: true,
+      };
+    },
+
+    jwks() {
+      return { keys: [{ ...toPublicJwk(signingKey), kid: clientKey.kid, alg: 'ES256', use: 'sig' }] };
+    },
+
+    /**
+     * Starts a sign-in and returns the URL to send the browser to, along with
+     * the value for the state cookie. A handle or DID is resolved to its PDS;
+     * without one, `service` may name a PDS or an authorization server directly.
+     */
+    async authorize({ identifier, service }: { identifier?: string; service?: string }) {
+      let issuer: string;
+      let expectedDid: string | undefined;
+      let loginHint: string | undefined;
+
+      if (identifier?.trim()) {
+        const identity = await resolveIdentity(identifier, resolver);
+        if (!identity) throw new OAuthError('Could not find that account. Check the handle and try again.', 400);
+        expectedDid = identity.did;
+        loginHint = normalizeIdentifier(identifier);
+        issuer = await getIssuerForPds(identity.pds);
+      } else {
+        const origin = service ? normalizeServiceUrl(service, { allowInsecure }) : null;
+        if (!origin) throw new OAuthError('Enter your handle or a hosting provider address.', 400);
+        issuer = await getIssuerForPds(origin).catch(() => origin);
+      }
+
+      const metadata = await getAuthorizationServerMetadata(issuer);
+      const state = randomBytes(16).toString('base64url');
+      const codeVerifier = randomBytes(32).toString('base64url');
+      const dpopKey = generateEs256Jwk();
+      const { request_uri: requestUri } = await postToAuthorizationServer<{ request_uri?: string }>(
+        metadata.pushed_authorization_request_endpoint,
+        issuer,
+        dpopKey,
+        {
+          response_type: 'code',
+          redirect_uri: redirectUri,
+          scope: OAUTH_SCOPE,
+          state,
+          code_challenge: sha256(codeVerifier),
+          code_challenge_method: 'S256',
+          ...(loginHint ? { login_hint: loginHint } : {}),
+        }
+      );
+      if (!requestUri) throw new OAuthError('The authorization server did not accept the sign-in request.', 502);
+
+      sweepPending();
+      if (pending.size >= MAX_PENDING_AUTHORIZATIONS) {
+        throw new OAuthError('Too many sign-ins in progress. Please retry shortly.', 503);
+      }
+      pending.set(state, {
+        issuer,
+        tokenEndpoint: metadata.token_endpoint,
+        revocationEndpoint: metadata.revocation_endpoint,
+        requireIss: metadata.authorization_response_iss_parameter_supported === true,
+        codeVerifier,
+        dpopKey,
+        expectedDid,
+        expiresAt: Date.now() + PENDING_TTL_MS,
+      });
+
+      const url = new URL(metadata.authorization_endpoint);
+      url.search = new URLSearchParams({ client_id: clientId, request_uri: requestUri }).toString();
+      return { url: url.toString(), stateCookie: sha256(state) };
+    },
+
+    /**
+     * Completes a sign-in from the redirect's query parameters. `stateCookie`
+     * is the browser's state cookie; a callback opened anywhere else (a link
+     * from another account's sign-in) is rejected.
+     */
+    async callback(params: URLSearchParams, stateCookie: string | undefined): Promise<OAuthSessionData> {
+      const state = params.get('state') ?? '';
+      if (!state || !stateCookie || !safeEqual(stateCookie, sha256(state))) {
+        throw new OAuthError('This sign-in was started in a different browser. Please try again.', 400);
+      }
+      const entry = pending.get(state);
+      pending.delete(state);
+      if (!entry || entry.expiresAt <= Date.now()) {
+        throw new OAuthError('This sign-in attempt has expired. Please try again.', 400);
+      }
+      const error = params.get('error');
+      if (error) {
+        throw new OAuthError(params.get('error_description') || 'Sign-in was cancelled.', 400);
+      }
+      const iss = params.get('iss');
+      if ((iss ?? (entry.requireIss ? '' : entry.issuer)) !== entry.issuer) {
+        throw new OAuthError('The sign-in response came from an unexpected server.', 400);
+      }
+      const code = params.get('code');
+      if (!code) throw new OAuthError('The sign-in response is missing its code.', 400);
+
+      const tokens = await requestToken(entry, {
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: redirectUri,
+        code_verifier: entry.codeVerifier,
+      });
+      if (entry.expectedDid && tokens.did !== entry.expectedDid) {
+        throw new OAuthError('Signed in as a different account than requested.', 400);
+      }
+
+      // The token's subject is only trusted once its own DID document points
+      // at a PDS that delegates to the issuer we just talked to.
+      const document = await resolveDidDocument(tokens.did, resolver);
+      const pds = document ? getPdsEndpoint(document, { allowInsecure }) : null;
+      if (!pds || (await getIssuerForPds(pds)) !== entry.issuer) {
+        throw new OAuthError('That account is not hosted by this authorization server.', 400);
+      }
+
+      return {
+        ...tokens,
+        pds,
+        issuer: entry.issuer,
+        tokenEndpoint: entry.tokenEndpoint,
+        revocationEndpoint: entry.revocationEndpoint,
+        dpopKey: entry.dpopKey,
+      };
+    },
+
+    /** Best effort: the session is dropped locally whether or not this succeeds. */
+    async revoke(session: OAuthSessionData) {
+      if (!session.revocationEndpoint) return;
+      try {
+        await postToAuthorizationServer(session.revocationEndpoint, session.issuer, session.dpopKey, {
+          token: session.refreshToken ?? session.accessToken,
+        });
+      } catch (error) {
+        logger.warn('Failed to revoke OAuth session', { did: session.did, error });
+      }
+    },
+
+    /** A session manager for `new Agent(...)` that signs every request with the session's DPoP key. */
+    createSessionManager(data: OAuthSessionData, hooks: OAuthSessionHooks): OAuthSessionManager {
+      let current = data;
+      let refreshing: Promise<void> | null = null;
+
+      const refresh = () => {
+        if (!refreshing) {
+          refreshing = (async () => {
+            if (!current.refreshToken) throw new OAuthError('OAuth session expired.', 401);
+            const tokens = await requestToken(current, {
+              grant_type: 'refresh_token',
+              refresh_token: current.refreshToken,
+            });
+            if (tokens.did !== current.did) throw new OAuthError('OAuth session changed accounts.', 401);
+            current = { ...current, ...tokens, refreshToken: tokens.refreshToken ?? current.refreshToken };
+            await hooks.onUpdate(current);
+          })()
+            .catch(async (error) => {
+              if (error instanceof OAuthError && error.status === 401) await hooks.onExpired();
+              throw error;
+            })
+            .finally(() => {
+              refreshing = null;
+            });
+        }
+        return refreshing;
+      };
+
+      const send = async (url: URL, init: RequestInit, retryOnNonce = true): Promise<Response> => {
+        const headers = new Headers(init.headers);
+        headers.set('Authorization', `DPoP ${current.accessToken}`);
+        headers.set('DPoP', createDpopProof(current.dpopKey, init.method ?? 'GET', url, current.accessToken));
+        const response = await fetchImpl(url, { ...init, headers });
+        rememberNonce(url, response);
+        if (response.status === 401 && retryOnNonce && getAuthenticateError(response) === 'use_dpop_nonce') {
+          await response.body?.cancel();
+          return send(url, init, false);
+        }
+        return response;
+      };
+
+      return {
+        get did() {
+          return current.did;
+        },
+        async fetchHandler(path: string, init: RequestInit) {
+          if (current.expiresAt && current.expiresAt - REFRESH_LEEWAY_MS <= Date.now()) await refresh();
+          const url = new URL(path, current.pds);
+          const response = await send(url, init);
+          if (response.status !== 401 || getAuthenticateError(response) !== 'invalid_token' || !current.refreshToken) {
+            return response;
+          }
+          await response.body?.cancel();
+          await refresh();
+          return send(url, init);
+        },
+      };
+    },
+  };
+};
+
+export type OAuthClient = ReturnType<typeof createOAuthClient>;
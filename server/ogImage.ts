@@ -0,0 +1,352 @@
+import { createHash } from 'node:crypto';
+import { createRequire } from 'node:module';
+import { mkdir, readdir, readFile, rename, stat, unlink, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import satori from 'satori';
+import { Resvg } from '@resvg/resvg-js';
+import { logger } from './logger';
+
+const require = createRequire(import.meta.url);
+
+export const OG_IMAGE_WIDTH = 1200;
+export const OG_IMAGE_HEIGHT = 630;
+
+const MAX_REMOTE_IMAGE_BYTES = 5 * 1024 * 1024;
+const REMOTE_IMAGE_TIMEOUT_MS = 4000;
+
+const palette = {
+  background: '#f7f9fc',
+  text: '#0f172a',
+  muted: '#64748b',
+  accent: '#1d9bf0',
+};
+
+export interface OgPostCard {
+  authorName: string;
+  authorHandle: string;
+  authorAvatar?: string;
+  text: string;
+  createdAt?: string;
+  likeCount: number;
+  repostCount: number;
+  replyCount: number;
+  quoteCount: number;
+  mediaThumb?: string;
+}
+
+export interface OgProfileCard {
+  displayName: string;
+  handle: string;
+  avatar?: string;
+  banner?: string;
+  description?: string;
+  followersCount: number;
+  followsCount: number;
+  postsCount: number;
+}
+
+type OgNode = { type: string; props: Record<string, unknown> };
+
+const h = (type: string, style: Record<string, unknown>, children?: unknown, extra: Record<string, unknown> = {}): OgNode => ({
+  type,
+  props: { style, children, ...extra },
+});
+
+const truncate = (text: string, maxLength: number) =>
+  text.length <= maxLength ? text : `${text.slice(0, Math.max(0, maxLength - 1)).trimEnd()}…`;
+
+const formatCount = (value: number) => {
+  if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1).replace(/\.0$/, '')}M`;
+  if (value >= 1_000) return `${(value / 1_000).toFixed(1).replace(/\.0$/, '')}K`;
+  return String(value);
+};
+
+const statItem = (value: number, label: string) =>
+  h('div', { display: 'flex', alignItems: 'baseline', marginRight: 36 }, [
+    h('span', { fontSize: 30, fontWeight: 700, color: palette.text, marginRight: 10 }, formatCount(value)),
+    h('span', { fontSize: 26, color: palette.muted }, label),
+  ]);
+
+const avatarNode = (src: string | undefined, name: string, size: number) =>
+  src
+    ? h('img', { width: size, height: size, borderRadius: size / 2, objectFit: 'cover' }, undefined, {
+        src,
+        width: size,
+        height: size,
+      })
+    : h(
+        'div',
+        {
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          width: size,
+          height: size,
+          borderRadius: size / 2,
+          backgroundColor: palette.accent,
+          color: '#ffffff',
+          fontSize: size / 2,
+          fontWeight: 700,
+        },
+        (name.replace(/^@/, '')[0] ?? 'H').toUpperCase()
+      );
+
+export interface OgImageRendererOptions {
+  cacheDir: string;
+  ttlMs: number;
+  /** Oldest cards beyond this count are deleted by `sweep`. */
+  maxFiles?: number;
+  logoPath: string;
+  siteHost: string;
+}
+
+/**
+ * Renders branded 1200x630 share cards with satori + resvg and keeps the
+ * resulting PNGs on disk, so crawlers hitting the same link reuse one render.
+ */
+export const createOgImageRenderer = ({
+  cacheDir,
+  ttlMs,
+  maxFiles = 5000,
+  logoPath,
+  siteHost,
+}: OgImageRendererOptions) => {
+  let fontsPromise: Promise<{ name: string; data: Buffer; weight: 400 | 700; style: 'normal' }[]> | null = null;
+  let logoPromise: Promise<string | undefined> | null = null;
+  const inFlight = new Map<string, Promise<Buffer | null>>();
+
+  const loadFonts = () => {
+    if (!fontsPromise) {
+      fontsPromise = Promise.all(
+        ([400, 700] as const).map(async (weight) => ({
+          name: 'Inter',
+          data: await readFile(require.resolve(`@fontsource/inter/files/inter-latin-${weight}-normal.woff`)),
+          weight,
+          style: 'normal' as const,
+        }))
+      );
+    }
+    return fontsPromise;
+  };
+
+  const loadLogo = () => {
+    if (!logoPromise) {
+      logoPromise = readFile(logoPath)
+        .then((data) => `data:image/png;base64,${data.toString('base64')}`)
+        .catch(() => undefined);
+    }
+    return logoPromise;
+  };
+
+  // Satori can only embed formats resvg decodes, so remote images are inlined
+  // up front with a size and time budget instead of letting satori fetch them.
+  const fetchImageDataUri = async (url?: string) => {
+    if (!url) return undefined;
+    try {
+      const response = await fetch(url, {
+        headers: { 'User-Agent': 'HillSideBot/1.0 (+https://hillside.micorp.pro)' },
+        signal: AbortSignal.timeout(REMOTE_IMAGE_TIMEOUT_MS),
+      });
+      if (!response.ok) return undefined;
+      const contentType = response.headers.get('content-type')?.split(';')[0] ?? '';
+      if (contentType !== 'image/jpeg' && contentType !== 'image/png') return undefined;
+      const buffer = Buffer.from(await response.arrayBuffer());
+      if (buffer.length > MAX_REMOTE_IMAGE_BYTES) return undefined;
+      return `data:${contentType};base64,${buffer.toString('base64')}`;
+    } catch {
+      return undefined;
+    }
+  };
+
+  const footer = (logo: string | undefined) =>
+    h('div', { display: 'flex', alignItems: 'center', justifyContent: 'space-between', width: '100%' }, [
+      logo
+        ? h('img', { height: 48 }, undefined, { src: logo, height: 48, width: 78 })
+        : h('span', { fontSize: 30, fontWeight: 700, color: palette.accent }, 'HillSide'),
+      h('span', { fontSize: 24, color: palette.muted }, siteHost),
+    ]);
+
+  const toPng = async (node: OgNode) => {
+    const svg = await satori(node as unknown as Parameters<typeof satori>[0], {
+      width: OG_IMAGE_WIDTH,
+      height: OG_IMAGE_HEIGHT,
+      fonts: await loadFonts(),
+    });
+    return new Resvg(svg, { fitTo: { mode: 'width', value: OG_IMAGE_WIDTH } }).render().asPng();
+  };
+
+  const renderPost = async (post: OgPostCard) => {
+    const [logo, avatar, media] = await Promise.all([
+      loadLogo(),
+      fetchImageDataUri(post.authorAvatar),
+      fetchImageDataUri(post.mediaThumb),
+    ]);
+    const excerpt = truncate(post.text.trim() || 'Shared a post on HillSide.', media ? 220 : 300);
+    const textSize = excerpt.length > 180 ? 32 : excerpt.length > 90 ? 38 : 46;
+
+    const body = h('div', { display: 'flex', flex: 1, width: '100%', marginTop: 28, marginBottom: 28 }, [
+      h('div', { display: 'flex', flexDirection: 'column', flex: 1, justifyContent: 'space-between' }, [
+        h('div', { display: 'flex', fontSize: textSize, lineHeight: 1.35, color: palette.text }, excerpt),
+        h('div', { display: 'flex', marginTop: 24 }, [
+          statItem(post.replyCount, 'replies'),
+          statItem(post.repostCount + post.quoteCount, 'reposts'),
+          statItem(post.likeCount, 'likes'),
+        ]),
+      ]),
+      media
+        ? h('img', { width: 320, height: 320, borderRadius: 24, objectFit: 'cover', marginLeft: 40 }, undefined, {
+            src: media,
+            width: 320,
+            height: 320,
+          })
+        : null,
+    ]);
+
+    return toPng(
+      h(
+        'div',
+        {
+          display: 'flex',
+          flexDirection: 'column',
+          width: '100%',
+          height: '100%',
+          padding: 56,
+          backgroundColor: palette.background,
+          borderTop: `12px solid ${palette.accent}`,
+          fontFamily: 'Inter',
+        },
+        [
+          h('div', { display: 'flex', alignItems: 'center' }, [
+            avatarNode(avatar, post.authorName, 88),
+            h('div', { display: 'flex', flexDirection: 'column', marginLeft: 24 }, [
+              h('span', { fontSize: 36, fontWeight: 700, color: palette.text }, truncate(post.authorName, 40)),
+              h('span', { fontSize: 26, color: palette.muted }, `@${truncate(post.authorHandle, 48)}`),
+            ]),
+          ]),
+          body,
+          footer(logo),
+        ]
+      )
+    );
+  };
+
+  const renderProfile = async (profile: OgProfileCard) => {
+    const [logo, avatar, banner] = await Promise.all([
+      loadLogo(),
+      fetchImageDataUri(profile.avatar),
+      fetchImageDataUri(profile.banner),
+    ]);
+
+    return toPng(
+      h(
+        'div',
+        {
+          display: 'flex',
+          flexDirection: 'column',
+          width: '100%',
+          height: '100%',
+          backgroundColor: palette.background,
+          fontFamily: 'Inter',
+        },
+        [
+          banner
+            ? h('img', { width: OG_IMAGE_WIDTH, height: 200, objectFit: 'cover' }, undefined, {
+                src: banner,
+                width: OG_IMAGE_WIDTH,
+                height: 200,
+              })
+            : h('div', { display: 'flex', width: '100%', height: 200, backgroundColor: palette.accent }),
+          h('div', { display: 'flex', flexDirection: 'column', flex: 1, padding: '0 56px 48px 56px' }, [
+            h('div', { display: 'flex', alignItems: 'flex-end', marginTop: -70 }, [
+              h('div', { display: 'flex', borderRadius: 80, border: `6px solid ${palette.background}` }, [
+                avatarNode(avatar, profile.displayName, 140),
+              ]),
+              h('div', { display: 'flex', flexDirection: 'column', marginLeft: 28, marginBottom: 8 }, [
+                h('span', { fontSize: 44, fontWeight: 700, color: palette.text }, truncate(profile.displayName, 36)),
+                h('span', { fontSize: 28, color: palette.muted }, `@${truncate(profile.handle, 48)}`),
+              ]),
+            ]),
+            h(
+              'div',
+              { display: 'flex', flex: 1, marginTop: 24, fontSize: 30, lineHeight: 1.4, color: palette.text },
+              truncate(profile.description?.trim() || `@${profile.handle} on HillSide.`, 160)
+            ),
+            h('div', { display: 'flex', marginBottom: 24 }, [
+              statItem(profile.followersCount, 'followers'),
+              statItem(profile.followsCount, 'following'),
+              statItem(profile.postsCount, 'posts'),
+            ]),
+            footer(logo),
+          ]),
+        ]
+      )
+    );
+  };
+
+  const cachePathFor = (key: string) =>
+    path.join(cacheDir, `${createHash('sha1').update(key).digest('hex')}.png`);
+
+  const readCached = async (filePath: string) => {
+    try {
+      const info = await stat(filePath);
+      if (Date.now() - info.mtimeMs > ttlMs) return null;
+      return await readFile(filePath);
+    } catch {
+      return null;
+    }
+  };
+
+  /** Returns the cached card for `key`, rendering it with `render` when stale or missing. */
+  const getOrRender = (key: string, render: () => Promise<Buffer | null>) => {
+    const pending = inFlight.get(key);
+    if (pending) return pending;
+
+    const task = (async () => {
+      const filePath = cachePathFor(key);
+      const cached = await readCached(filePath);
+      if (cached) return cached;
+      const png = await render();
+      if (!png) return null;
+      try {
+        await mkdir(cacheDir, { recursive: true });
+        const tmpPath = `${filePath}.${process.pid}.tmp`;
+        await writeFile(tmpPath, png);
+        await rename(tmpPath, filePath);
+      } catch (error) {
+        logger.warn('Failed to cache OG image', { error });
+      }
+      return png;
+    })().finally(() => inFlight.delete(key));
+
+    inFlight.set(key, task);
+    return task;
+  };
+
+  /** Deletes expired cards, then the oldest ones while the cache holds more than `maxFiles`. */
+  const sweep = async (now = Date.now()) => {
+    let names: string[];
+    try {
+      names = await readdir(cacheDir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+    const files = (
+      await Promise.all(
+        names
+          .filter((name) => name.endsWith('.png'))
+          .map(async (name) => {
+            const filePath = path.join(cacheDir, name);
+            const info = await stat(filePath).catch(() => null);
+            return info ? { filePath, mtimeMs: info.mtimeMs } : null;
+          })
+      )
+    ).filter((file): file is { filePath: string; mtimeMs: number } => file !== null);
+
+    files.sort((a, b) => b.mtimeMs - a.mtimeMs);
+    const doomed = files.filter((file, index) => index >= maxFiles || now - file.mtimeMs > ttlMs);
+    await Promise.all(doomed.map((file) => unlink(file.filePath).catch(() => undefined)));
+  };
+
+  return { renderPost, renderProfile, getOrRender, sweep };
+};
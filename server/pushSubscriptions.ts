@@ -0,0 +1,116 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { logger } from './logger';
+import type { WebPushTarget } from './webPush';
+
+export interface StoredPushSubscription extends WebPushTarget {
+  did: string;
+  /** Chat session whose agent polls on the account's behalf; signing out removes the subscription. */
+  sessionId: string;
+  createdAt: number;
+}
+
+export interface PushSubscriptionStore {
+  list(): Promise<StoredPushSubscription[]>;
+  set(record: StoredPushSubscription): Promise<void>;
+  delete(endpoint: string): Promise<void>;
+  deleteBySession(sessionId: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+// Push services are the only hosts we ever POST to on a subscriber's behalf.
+export const DEFAULT_PUSH_SERVICE_HOSTS = [
+  'fcm.googleapis.com',
+  'push.services.mozilla.com',
+  'notify.windows.com',
+  'push.apple.com',
+];
+
+export const parsePushSubscription = (input: unknown, allowedHosts = DEFAULT_PUSH_SERVICE_HOSTS) => {
+  const { endpoint, keys } = (input ?? {}) as { endpoint?: unknown; keys?: { p256dh?: unknown; auth?: unknown } };
+  if (typeof endpoint !== 'string' || typeof keys?.p256dh !== 'string' || typeof keys?.auth !== 'string') {
+    return null;
+  }
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'https:' || url.port || url.username || url.password) return null;
+  const host = url.hostname.toLowerCase();
+  if (!allowedHosts.some((allowed) => host === allowed || host.endsWith(`.${allowed}`))) return null;
+  if (!/^[\w-]{80,100}$/.test(keys.p256dh) || !/^[\w-]{16,32}$/.test(keys.auth)) return null;
+  return { endpoint: url.toString(), keys: { p256dh: keys.p256dh, auth: keys.auth } } satisfies WebPushTarget;
+};
+
+export const createPushSubscriptionStore = (filePath: string): PushSubscriptionStore => {
+  const records = new Map<string, StoredPushSubscription>();
+  let loaded: Promise<void> | null = null;
+  let writeQueue: Promise<void> = Promise.resolve();
+
+  const load = () => {
+    if (!loaded) {
+      loaded = (async () => {
+        try {
+          const parsed = JSON.parse(await readFile(filePath, 'utf8')) as StoredPushSubscription[];
+          if (Array.isArray(parsed)) {
+            parsed.forEach((record) => {
+              if (record?.endpoint && record?.did && record?.sessionId) records.set(record.endpoint, record);
+            });
+          }
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException)?.code !== 'ENOENT') {
+            logger.error('Failed to read push subscription file', { filePath, error });
+          }
+        }
+      })();
+    }
+    return loaded;
+  };
+
+  const flush = () => {
+    writeQueue = writeQueue
+      .then(async () => {
+        await mkdir(path.dirname(filePath), { recursive: true });
+        const tmpPath = `${filePath}.tmp`;
+        await writeFile(tmpPath, JSON.stringify(Array.from(records.values())), { mode: 0o600 });
+        await rename(tmpPath, filePath);
+      })
+      .catch((error) => {
+        logger.error('Failed to write push subscription file', { filePath, error });
+      });
+    return writeQueue;
+  };
+
+  return {
+    async list() {
+      await load();
+      return Array.from(records.values());
+    },
+    async set(record) {
+      await load();
+      records.set(record.endpoint, record);
+      await flush();
+    },
+    async delete(endpoint) {
+      await load();
+      if (!records.delete(endpoint)) return;
+      await flush();
+    },
+    async deleteBySession(sessionId) {
+      await load();
+      let changed = false;
+      for (const [endpoint, record] of records) {
+        if (record.sessionId === sessionId) {
+          records.delete(endpoint);
+          changed = true;
+        }
+      }
+      if (changed) await flush();
+    },
+    async close() {
+      await writeQueue;
+    },
+  };
+};
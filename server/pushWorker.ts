@@ -0,0 +1,260 @@
+import type { Agent } from '@atproto/api';
+import { logger } from './logger';
+import type { PushSubscriptionStore, StoredPushSubscription } from './pushSubscriptions';
+import { isExpiredSubscriptionError, sendWebPush, VapidKeys } from './webPush';
+
+export type PushEventKind = 'mention' | 'reply' | 'quote' | 'message';
+
+export type PushDeliveryResult = 'sent' | 'expired' | 'failed';
+
+/** What the service worker receives; `url` is an in-app path to open on click. */
+export interface PushMessage {
+  kind: PushEventKind;
+  title: string;
+  body: string;
+  url: string;
+  tag: string;
+  icon?: string;
+  timestamp: number;
+}
+
+export interface PushWorkerSession {
+  did: string;
+  agent: Agent;
+  chatAgent: Agent;
+}
+
+export interface PushWorkerOptions {
+  intervalMs: number;
+  store: PushSubscriptionStore;
+  vapid: VapidKeys;
+  /** Resumes a chat session without counting as user activity; null once it is gone. */
+  loadSession: (sessionId: string) => Promise<PushWorkerSession | null>;
+  onUpstreamError?: (error: unknown) => void;
+  onDelivery?: (kind: PushEventKind, result: PushDeliveryResult) => void;
+  maxMessagesPerPoll?: number;
+}
+
+interface AccountState {
+  /** Newest notification indexedAt already considered, in ms. */
+  notificationsSeenAt?: number;
+  chatCursor?: string;
+}
+
+type LogEntry = {
+  $type: string;
+  convoId?: string;
+  message?: { id?: string; text?: string; sentAt?: string; sender?: { did?: string } };
+};
+
+const NOTIFICATION_TITLES: Record<string, (name: string) => string> = {
+  mention: (name) => `${name} mentioned you`,
+  reply: (name) => `${name} replied to you`,
+  quote: (name) => `${name} quoted your post`,
+};
+
+const MAX_BODY_LENGTH = 180;
+const MAX_LOG_PAGES = 5;
+
+const truncate = (text: string) =>
+  text.length > MAX_BODY_LENGTH ? `${text.slice(0, MAX_BODY_LENGTH - 1).trimEnd()}…` : text;
+
+const postPath = (uri: string, handle: string) => {
+  const rkey = uri.split('/').pop();
+  return rkey ? `/profile/${encodeURIComponent(handle)}/post/${encodeURIComponent(rkey)}` : '/notifications';
+};
+
+const displayName = (profile: { handle?: string; displayName?: string } | undefined) =>
+  profile?.displayName?.trim() || (profile?.handle ? `@${profile.handle}` : 'Someone');
+
+/**
+ * Polls notifications and the chat log for every account with a push
+ * subscription and fans new mentions, replies, quotes and DMs out to all of
+ * the account's devices. Cursors live in memory: after a restart the first
+ * poll only records where "now" is, so nothing old is pushed twice.
+ */
+export const createPushWorker = ({
+  intervalMs,
+  store,
+  vapid,
+  loadSession,
+  onUpstreamError,
+  onDelivery,
+  maxMessagesPerPoll = 10,
+}: PushWorkerOptions) => {
+  const accounts = new Map<string, AccountState>();
+  let timer: NodeJS.Timeout | undefined;
+  let stopped = true;
+
+  const pollNotifications = async (session: PushWorkerSession, state: AccountState) => {
+    const response = await session.agent.app.bsky.notification.listNotifications({ limit: 50 });
+    const notifications = response.data.notifications;
+    const newest = Math.max(0, ...notifications.map((item) => Date.parse(item.indexedAt) || 0));
+    const seenAt = state.notificationsSeenAt;
+    state.notificationsSeenAt = Math.max(seenAt ?? Date.now(), newest);
+    if (seenAt === undefined) return [];
+
+    return notifications
+      .filter((item) => NOTIFICATION_TITLES[item.reason] && !item.isRead && Date.parse(item.indexedAt) > seenAt)
+      .map(
+        (item): PushMessage => ({
+          kind: item.reason as PushEventKind,
+          title: NOTIFICATION_TITLES[item.reason](displayName(item.author)),
+          body: truncate(String((item.record as { text?: unknown })?.text ?? '')),
+          url: postPath(item.uri, item.author.handle),
+          tag: item.uri,
+          icon: item.author.avatar,
+          timestamp: Date.parse(item.indexedAt),
+        })
+      );
+  };
+
+  const pollChat = async (session: PushWorkerSession, state: AccountState) => {
+    const chat = session.chatAgent.chat.bsky.convo;
+    if (state.chatCursor === undefined) {
+      // Without a cursor getLog only tells us where "now" is.
+      state.chatCursor = (await chat.getLog({})).data.cursor ?? '';
+      return [];
+    }
+
+    const entries: LogEntry[] = [];
+    for (let page = 0; page < MAX_LOG_PAGES; page += 1) {
+      const response = await chat.getLog({ cursor: state.chatCursor || undefined });
+      const batch = (response.data.logs ?? []) as LogEntry[];
+      entries.push(...batch);
+      if (response.data.cursor) state.chatCursor = response.data.cursor;
+      if (batch.length === 0 || !response.data.cursor) break;
+    }
+
+    const incoming = entries.filter(
+      (entry) =>
+        entry.$type === 'chat.bsky.convo.defs#logCreateMessage' &&
+        entry.convoId &&
+        entry.message?.sender?.did &&
+        entry.message.sender.did !== session.did
+    );
+    const convos = new Map<string, Awaited<ReturnType<typeof chat.getConvo>>['data']['convo'] | null>();
+    const messages: PushMessage[] = [];
+    for (const entry of incoming) {
+      const convoId = entry.convoId as string;
+      if (!convos.has(convoId)) {
+        convos.set(convoId, await chat.getConvo({ convoId }).then((response) => response.data.convo, () => null));
+      }
+      const convo = convos.get(convoId);
+      if (convo?.muted) continue;
+      const sender = convo?.members.find((member) => member.did === entry.message?.sender?.did);
+      messages.push({
+        kind: 'message',
+        title: displayName(sender),
+        body: truncate(entry.message?.text || 'Sent you a message'),
+        url: `/chat/${encodeURIComponent(convoId)}`,
+        // One notification per conversation; newer messages replace it.
+        tag: `convo:${convoId}`,
+        icon: sender?.avatar,
+        timestamp: Date.parse(entry.message?.sentAt ?? '') || Date.now(),
+      });
+    }
+    return messages;
+  };
+
+  const deliver = async (subscriptions: StoredPushSubscription[], message: PushMessage) => {
+    for (const subscription of subscriptions) {
+      try {
+        await sendWebPush(subscription, message, vapid, { urgency: message.kind === 'message' ? 'high' : 'normal' });
+        onDelivery?.(message.kind, 'sent');
+      } catch (error) {
+        if (isExpiredSubscriptionError(error)) {
+          onDelivery?.(message.kind, 'expired');
+          await store.delete(subscription.endpoint);
+          continue;
+        }
+        onDelivery?.(message.kind, 'failed');
+        logger.warn('Push delivery failed', { did: subscription.did, error });
+      }
+    }
+  };
+
+  const collect = async (
+    label: string,
+    did: string,
+    poll: () => Promise<PushMessage[]>
+  ): Promise<PushMessage[]> => {
+    try {
+      return await poll();
+    } catch (error) {
+      onUpstreamError?.(error);
+      logger.warn('Push poll failed', { source: label, did, error });
+      return [];
+    }
+  };
+
+  const pollAccount = async (did: string, subscriptions: StoredPushSubscription[]) => {
+    // Any of the account's sessions can poll; the ones that have ended take their devices with them.
+    let session: PushWorkerSession | null = null;
+    const endedSessions = new Set<string>();
+    for (const sessionId of new Set(subscriptions.map((subscription) => subscription.sessionId))) {
+      session = await loadSession(sessionId);
+      if (session) break;
+      endedSessions.add(sessionId);
+      await store.deleteBySession(sessionId);
+    }
+    if (!session) return;
+
+    const state = accounts.get(did) ?? {};
+    accounts.set(did, state);
+    const activeSession = session;
+    const messages = [
+      ...(await collect('notifications', did, () => pollNotifications(activeSession, state))),
+      ...(await collect('chat', did, () => pollChat(activeSession, state))),
+    ]
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .slice(-maxMessagesPerPoll);
+
+    const devices = subscriptions.filter((subscription) => !endedSessions.has(subscription.sessionId));
+    for (const message of messages) {
+      await deliver(devices, message);
+    }
+  };
+
+  const tick = async () => {
+    const byDid = new Map<string, StoredPushSubscription[]>();
+    for (const subscription of await store.list()) {
+      byDid.set(subscription.did, [...(byDid.get(subscription.did) ?? []), subscription]);
+    }
+    for (const did of accounts.keys()) {
+      if (!byDid.has(did)) accounts.delete(did);
+    }
+    // Accounts are polled one after another to keep the upstream load flat.
+    for (const [did, subscriptions] of byDid) {
+      if (stopped) return;
+      try {
+        await pollAccount(did, subscriptions);
+      } catch (error) {
+        logger.error('Push poll failed', { did, error });
+      }
+    }
+  };
+
+  const schedule = () => {
+    if (stopped) return;
+    timer = setTimeout(() => {
+      void tick().finally(schedule);
+    }, intervalMs);
+    timer.unref();
+  };
+
+  return {
+    start() {
+      if (!stopped) return;
+      stopped = false;
+      schedule();
+    },
+    stop() {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+    },
+    get trackedAccounts() {
+      return accounts.size;
+    },
+  };
+};
@@ -0,0 +1,103 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+
+export interface RateLimitPolicy {
+  /** Bucket size, i.e. the burst a client may spend at once. */
+  limit: number;
+  /** Time it takes an empty bucket to refill completely. */
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Seconds until the bucket is full again. */
+  resetSeconds: number;
+  /** Seconds until the next request would be allowed; 0 when allowed. */
+  retryAfterSeconds: number;
+  windowSeconds: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export const createRateLimiter = ({ idleEvictMs = 60 * 60 * 1000 } = {}) => {
+  const buckets = new Map<string, Bucket>();
+
+  const consume = (key: string, policy: RateLimitPolicy, cost = 1, now = Date.now()): RateLimitResult => {
+    const refillPerMs = policy.limit / policy.windowMs;
+    const bucket = buckets.get(key) ?? { tokens: policy.limit, updatedAt: now };
+    bucket.tokens = Math.min(policy.limit, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+
+    const allowed = bucket.tokens >= cost;
+    if (allowed) {
+      bucket.tokens -= cost;
+    }
+    buckets.set(key, bucket);
+
+    return {
+      allowed,
+      limit: policy.limit,
+      remaining: Math.max(0, Math.floor(bucket.tokens)),
+      resetSeconds: Math.ceil((policy.limit - bucket.tokens) / refillPerMs / 1000),
+      retryAfterSeconds: allowed ? 0 : Math.max(1, Math.ceil((cost - bucket.tokens) / refillPerMs / 1000)),
+      windowSeconds: Math.ceil(policy.windowMs / 1000),
+    };
+  };
+
+  const sweep = (now = Date.now()) => {
+    for (const [key, bucket] of buckets) {
+      if (now - bucket.updatedAt > idleEvictMs) {
+        buckets.delete(key);
+      }
+    }
+  };
+
+  return {
+    consume,
+    sweep,
+    get size() {
+      return buckets.size;
+    },
+  };
+};
+
+/** Picks the result that should be reported when several buckets apply to one request. */
+export const mostRestrictive = (results: RateLimitResult[]) =>
+  results.reduce((worst, result) => {
+    if (worst.allowed !== result.allowed) return result.allowed ? worst : result;
+    if (!result.allowed) return result.retryAfterSeconds > worst.retryAfterSeconds ? result : worst;
+    return result.remaining < worst.remaining ? result : worst;
+  });
+
+export const setRateLimitHeaders = (res: ServerResponse, result: RateLimitResult) => {
+  res.setHeader('RateLimit-Limit', String(result.limit));
+  res.setHeader('RateLimit-Remaining', String(result.remaining));
+  res.setHeader('RateLimit-Reset', String(result.resetSeconds));
+  res.setHeader('RateLimit-Policy', `${result.limit};w=${result.windowSeconds}`);
+  if (!result.allowed) {
+    res.setHeader('Retry-After', String(result.retryAfterSeconds));
+  }
+};
+
+export const getClientIp = (req: IncomingMessage, trustProxy: boolean) => {
+  if (trustProxy) {
+    const forwarded = req.headers['x-forwarded-for'];
+    const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0]?.trim();
+    if (first) return first;
+  }
+  return req.socket.remoteAddress ?? 'unknown';
+};
+
+/**
+ * Converts an upstream `ratelimit-reset` header (epoch seconds, as sent by
+ * Bluesky services) into a Retry-After delay.
+ */
+export const retryAfterFromUpstream = (headers: Record<string, string> | undefined, now = Date.now()) => {
+  const reset = Number(headers?.['ratelimit-reset']);
+  if (!Number.isFinite(reset) || reset <= 0) return undefined;
+  return Math.max(1, Math.ceil(reset - now / 1000));
+};
@@ -0,0 +1,539 @@
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { Agent, RichText } from '@atproto/api';
+import { logger } from './logger';
+import { buildGateRecords, PostInteraction, REPLY_SETTINGS, ReplySetting } from '../src/lib/postInteraction';
+
+export type ScheduledPostStatus = 'pending' | 'publishing' | 'published' | 'failed';
+
+export interface ScheduledPostImage {
+  /** File name inside the post's media directory. */
+  file: string;
+  mimeType: string;
+  alt: string;
+  aspectRatio?: { width: number; height: number };
+}
+
+export interface ScheduledPost {
+  id: string;
+  did: string;
+  text: string;
+  langs?: string[];
+  images: ScheduledPostImage[];
+  external?: { uri: string; title: string; description: string; thumb?: ScheduledPostImage };
+  interaction?: PostInteraction;
+  scheduledAt: number;
+  createdAt: number;
+  updatedAt: number;
+  status: ScheduledPostStatus;
+  attempts: number;
+  nextAttemptAt?: number;
+  lastError?: string;
+  /** Picked before the first attempt so a retry can tell whether the post already went out. */
+  rkey?: string;
+  publishedUri?: string;
+  publishedAt?: number;
+}
+
+export interface ScheduledPostStore {
+  list(): Promise<ScheduledPost[]>;
+  get(id: string): Promise<ScheduledPost | null>;
+  set(record: ScheduledPost): Promise<void>;
+  /** Removes the record and its media. */
+  delete(id: string): Promise<void>;
+  writeMedia(id: string, file: string, bytes: Buffer): Promise<void>;
+  readMedia(id: string, file: string): Promise<Buffer>;
+  deleteMedia(id: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+export interface MediaInput {
+  bytes: Buffer;
+  mimeType: string;
+  alt: string;
+  aspectRatio?: { width: number; height: number };
+}
+
+export interface ScheduledPostInput {
+  text: string;
+  langs?: string[];
+  scheduledAt: number;
+  interaction?: PostInteraction;
+  images: MediaInput[];
+  external?: { uri: string; title: string; description: string; thumb?: MediaInput };
+}
+
+export class ScheduledPostError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ScheduledPostError';
+    this.status = status;
+  }
+}
+
+const MAX_GRAPHEMES = 300;
+const MAX_IMAGES = 4;
+// The PDS rejects image blobs over about 1MB.
+const MAX_IMAGE_BYTES = 1_000_000;
+const MAX_ALT_LENGTH = 2000;
+const MAX_LANGS = 3;
+const MAX_LIST_RULES = 5;
+const MAX_SCHEDULE_AHEAD_MS = 365 * 24 * 60 * 60 * 1000;
+const IMAGE_TYPES = new Set(['image/jpeg', 'image/png', 'image/gif', 'image/webp']);
+const RETRY_DELAYS_MS = [60_000, 5 * 60_000, 15 * 60_000, 60 * 60_000];
+
+const invalid = (message: string): never => {
+  throw new ScheduledPostError(message, 400);
+};
+
+const parseText = (value: unknown) => {
+  const text = typeof value === 'string' ? value : '';
+  if (new RichText({ text }).graphemeLength > MAX_GRAPHEMES) invalid(`Posts are limited to ${MAX_GRAPHEMES} characters.`);
+  return text;
+};
+
+const parseLangs = (value: unknown) => {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value) || value.length > MAX_LANGS) return invalid('Invalid post languages.');
+  if (!value.every((lang) => typeof lang === 'string' && /^[a-z]{2,3}(-[A-Za-z0-9]{1,8})*$/.test(lang))) {
+    invalid('Invalid post languages.');
+  }
+  return value.length ? (value as string[]) : undefined;
+};
+
+const parseScheduledAt = (value: unknown, now: number) => {
+  const scheduledAt = typeof value === 'string' || typeof value === 'number' ? new Date(value).getTime() : NaN;
+  if (!Number.isFinite(scheduledAt)) return invalid('Missing or invalid scheduled time.');
+  if (scheduledAt <= now) invalid('Scheduled time must be in the future.');
+  if (scheduledAt - now > MAX_SCHEDULE_AHEAD_MS) invalid('Posts can be scheduled at most a year ahead.');
+  return scheduledAt;
+};
+
+const parseInteraction = (value: unknown): PostInteraction | undefined => {
+  if (value === undefined || value === null) return undefined;
+  const { reply, listUris, allowQuotePosts } = value as Record<string, unknown>;
+  if (reply !== undefined && !REPLY_SETTINGS.includes(reply as ReplySetting)) invalid('Invalid reply setting.');
+  if (
+    listUris !== undefined &&
+    (!Array.isArray(listUris) ||
+      listUris.length > MAX_LIST_RULES ||
+      !listUris.every((uri) => typeof uri === 'string' && uri.startsWith('at://')))
+  ) {
+    invalid('Invalid reply lists.');
+  }
+  if (allowQuotePosts !== undefined && typeof allowQuotePosts !== 'boolean') invalid('Invalid quote setting.');
+  return {
+    reply: reply as ReplySetting | undefined,
+    listUris: listUris as string[] | undefined,
+    allowQuotePosts: allowQuotePosts as boolean | undefined,
+  };
+};
+
+const parseMedia = (value: unknown): MediaInput => {
+  const { data, mimeType, alt, aspectRatio } = (value ?? {}) as {
+    data?: unknown;
+    mimeType?: unknown;
+    alt?: unknown;
+    aspectRatio?: { width?: unknown; height?: unknown };
+  };
+  if (typeof data !== 'string' || typeof mimeType !== 'string' || !IMAGE_TYPES.has(mimeType)) {
+    return invalid('Only JPEG, PNG, GIF and WebP images can be scheduled.');
+  }
+  const bytes = Buffer.from(data, 'base64');
+  if (!bytes.length) invalid('Image data is empty.');
+  if (bytes.length > MAX_IMAGE_BYTES) invalid('Images must be 1MB or smaller.');
+  if (alt !== undefined && (typeof alt !== 'string' || alt.length > MAX_ALT_LENGTH)) invalid('Invalid alt text.');
+  const { width, height } = aspectRatio ?? {};
+  const validRatio = Number.isInteger(width) && Number.isInteger(height) && Number(width) > 0 && Number(height) > 0;
+  return {
+    bytes,
+    mimeType,
+    alt: typeof alt === 'string' ? alt : '',
+    ...(validRatio ? { aspectRatio: { width: Number(width), height: Number(height) } } : {}),
+  };
+};
+
+const parseExternal = (value: unknown): ScheduledPostInput['external'] => {
+  if (value === undefined || value === null) return undefined;
+  const { uri, title, description, thumb } = value as Record<string, unknown>;
+  let url: URL | null = null;
+  try {
+    url = typeof uri === 'string' ? new URL(uri) : null;
+  } catch {
+    url = null;
+  }
+  if (!url || (url.protocol !== 'https:' && url.protocol !== 'http:')) return invalid('Invalid link card URL.');
+  return {
+    uri: url.toString(),
+    title: typeof title === 'string' ? title.slice(0, 300) : '',
+    description: typeof description === 'string' ? description.slice(0, 1000) : '',
+    ...(thumb ? { thumb: parseMedia(thumb) } : {}),
+  };
+};
+
+export const parseScheduledPostInput = (body: Record<string, unknown>, now = Date.now()): ScheduledPostInput => {
+  const text = parseText(body.text);
+  const images = body.images === undefined ? [] : Array.isArray(body.images) ? body.images : invalid('Invalid images.');
+  if (images.length > MAX_IMAGES) invalid(`Posts can have at most ${MAX_IMAGES} images.`);
+  if (!text.trim() && images.length === 0) invalid('Scheduled posts need text or images.');
+  return {
+    text,
+    langs: parseLangs(body.langs),
+    scheduledAt: parseScheduledAt(body.scheduledAt, now),
+    interaction: parseInteraction(body.interaction),
+    images: images.map(parseMedia),
+    // Posts carry a single embed, so images win over a link card.
+    external: images.length ? undefined : parseExternal(body.external),
+  };
+};
+
+/** Edits keep the attached media; only text, languages, time and interaction settings change. */
+export const applyScheduledPostUpdate = (
+  post: ScheduledPost,
+  body: Record<string, unknown>,
+  now = Date.now()
+): ScheduledPost => {
+  const text = body.text === undefined ? post.text : parseText(body.text);
+  if (!text.trim() && post.images.length === 0) invalid('Scheduled posts need text or images.');
+  return {
+    ...post,
+    text,
+    langs: body.langs === undefined ? post.langs : parseLangs(body.langs),
+    scheduledAt: body.scheduledAt === undefined ? post.scheduledAt : parseScheduledAt(body.scheduledAt, now),
+    interaction: body.interaction === undefined ? post.interaction : parseInteraction(body.interaction),
+    updatedAt: now,
+  };
+};
+
+/** What the API returns: media is referenced by index instead of by file. */
+export const toScheduledPostView = (post: ScheduledPost) => ({
+  id: post.id,
+  text: post.text,
+  langs: post.langs ?? [],
+  interaction: post.interaction ?? {},
+  images: post.images.map(({ alt, aspectRatio }, index) => ({ index, alt, aspectRatio })),
+  external: post.external
+    ? {
+        uri: post.external.uri,
+        title: post.external.title,
+        description: post.external.description,
+        hasThumb: Boolean(post.external.thumb),
+      }
+    : undefined,
+  scheduledAt: new Date(post.scheduledAt).toISOString(),
+  createdAt: new Date(post.createdAt).toISOString(),
+  status: post.status,
+  attempts: post.attempts,
+  nextAttemptAt: post.nextAttemptAt ? new Date(post.nextAttemptAt).toISOString() : undefined,
+  lastError: post.lastError,
+  publishedUri: post.publishedUri,
+});
+
+export const createScheduledPostStore = (filePath: string, mediaDir: string): ScheduledPostStore => {
+  const records = new Map<string, ScheduledPost>();
+  let loaded: Promise<void> | null = null;
+  let writeQueue: Promise<void> = Promise.resolve();
+
+  const load = () => {
+    if (!loaded) {
+      loaded = (async () => {
+        try {
+          const parsed = JSON.parse(await readFile(filePath, 'utf8')) as ScheduledPost[];
+          if (Array.isArray(parsed)) {
+            parsed.forEach((record) => {
+              if (record?.id && record?.did) records.set(record.id, record);
+            });
+          }
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException)?.code !== 'ENOENT') {
+            logger.error('Failed to read scheduled post file', { filePath, error });
+          }
+        }
+      })();
+    }
+    return loaded;
+  };
+
+  const flush = () => {
+    writeQueue = writeQueue
+      .then(async () => {
+        await mkdir(path.dirname(filePath), { recursive: true });
+        const tmpPath = `${filePath}.tmp`;
+        await writeFile(tmpPath, JSON.stringify(Array.from(records.values())), { mode: 0o600 });
+        await rename(tmpPath, filePath);
+      })
+      .catch((error) => {
+        logger.error('Failed to write scheduled post file', { filePath, error });
+      });
+    return writeQueue;
+  };
+
+  // Ids are server-generated UUIDs and file names are ours, but never trust a path blindly.
+  const mediaPath = (id: string, file = '') => {
+    const target = path.resolve(mediaDir, id, file);
+    if (!target.startsWith(`${path.resolve(mediaDir)}${path.sep}`)) throw new Error('Invalid media path.');
+    return target;
+  };
+
+  const deleteMedia = async (id: string) => {
+    await rm(mediaPath(id), { recursive: true, force: true });
+  };
+
+  return {
+    async list() {
+      await load();
+      return Array.from(records.values());
+    },
+    async get(id) {
+      await load();
+      return records.get(id) ?? null;
+    },
+    async set(record) {
+      await load();
+      records.set(record.id, record);
+      await flush();
+    },
+    async delete(id) {
+      await load();
+      await deleteMedia(id);
+      if (!records.delete(id)) return;
+      await flush();
+    },
+    async writeMedia(id, file, bytes) {
+      await mkdir(mediaPath(id), { recursive: true });
+      await writeFile(mediaPath(id, file), bytes, { mode: 0o600 });
+    },
+    async readMedia(id, file) {
+      return readFile(mediaPath(id, file));
+    },
+    deleteMedia,
+    async close() {
+      await writeQueue;
+    },
+  };
+};
+
+const TID_ALPHABET = '234567abcdefghijklmnopqrstuvwxyz';
+const TID_CLOCK_ID = BigInt(Math.floor(Math.random() * 1024));
+let lastTidMicros = 0;
+
+/** Record key in the atproto TID format: microseconds since epoch plus a clock id, base32-sortable. */
+export const createTid = () => {
+  const micros = Math.max(Date.now() * 1000, lastTidMicros + 1);
+  lastTidMicros = micros;
+  let value = (BigInt(micros) << 10n) | TID_CLOCK_ID;
+  let tid = '';
+  for (let index = 0; index < 13; index += 1) {
+    tid = TID_ALPHABET[Number(value & 31n)] + tid;
+    value >>= 5n;
+  }
+  return tid;
+};
+
+const getStatus = (error: unknown) => {
+  const { status, statusCode } = (error ?? {}) as { status?: number; statusCode?: number };
+  return status ?? statusCode;
+};
+
+const postExists = async (agent: Agent, repo: string, rkey: string) => {
+  try {
+    await agent.com.atproto.repo.getRecord({ repo, collection: 'app.bsky.feed.post', rkey });
+    return true;
+  } catch (error) {
+    if (getStatus(error) === 400 || getStatus(error) === 404) return false;
+    throw error;
+  }
+};
+
+/**
+ * Writes the post and its gates in one applyWrites call so a failure never
+ * leaves a post without the reply or quote restrictions it was scheduled with.
+ */
+const publishPost = async (agent: Agent, post: ScheduledPost, store: ScheduledPostStore) => {
+  const repo = agent.did;
+  if (!repo || !post.rkey) throw new ScheduledPostError('Chat session is missing an account.', 401);
+  const uri = `at://${repo}/app.bsky.feed.post/${post.rkey}`;
+  if (await postExists(agent, repo, post.rkey)) return uri;
+
+  const upload = async (image: ScheduledPostImage) =>
+    (await agent.uploadBlob(await store.readMedia(post.id, image.file), { encoding: image.mimeType })).data.blob;
+
+  const richText = new RichText({ text: post.text });
+  await richText.detectFacets(agent);
+  const createdAt = new Date().toISOString();
+  const record: Record<string, unknown> = {
+    $type: 'app.bsky.feed.post',
+    text: richText.text,
+    facets: richText.facets,
+    createdAt,
+    ...(post.langs?.length ? { langs: post.langs } : {}),
+  };
+
+  if (post.images.length) {
+    record.embed = {
+      $type: 'app.bsky.embed.images',
+      images: await Promise.all(
+        post.images.map(async (image) => ({
+          image: await upload(image),
+          alt: image.alt,
+          ...(image.aspectRatio ? { aspectRatio: image.aspectRatio } : {}),
+        }))
+      ),
+    };
+  } else if (post.external) {
+    const thumb = post.external.thumb ? await upload(post.external.thumb) : undefined;
+    record.embed = {
+      $type: 'app.bsky.embed.external',
+      external: {
+        uri: post.external.uri,
+        title: post.external.title,
+        description: post.external.description,
+        ...(thumb ? { thumb } : {}),
+      },
+    };
+  }
+
+  const { threadgate, postgate } = buildGateRecords(uri, post.interaction ?? {}, createdAt);
+  const create = (collection: string, value: Record<string, unknown>) => ({
+    $type: 'com.atproto.repo.applyWrites#create' as const,
+    collection,
+    rkey: post.rkey,
+    value,
+  });
+  await agent.com.atproto.repo.applyWrites({
+    repo,
+    validate: true,
+    writes: [
+      create('app.bsky.feed.post', record),
+      ...(threadgate ? [create('app.bsky.feed.threadgate', threadgate)] : []),
+      ...(postgate ? [create('app.bsky.feed.postgate', postgate)] : []),
+    ],
+  });
+  return uri;
+};
+
+export type ScheduledPostOutcome = 'published' | 'retry' | 'failed';
+
+export interface PostSchedulerOptions {
+  store: ScheduledPostStore;
+  intervalMs: number;
+  /** An agent signed in as `did`, or null when the account has no live session. */
+  getAgent: (did: string) => Promise<Agent | null>;
+  maxAttempts?: number;
+  /** How long published entries stay listed before they are pruned. */
+  retentionMs?: number;
+  onOutcome?: (outcome: ScheduledPostOutcome, error?: unknown) => void;
+}
+
+/**
+ * Publishes due posts one at a time. Failed attempts back off and are retried
+ * until `maxAttempts`; rejected records (400) fail straight away.
+ */
+export const createPostScheduler = ({
+  store,
+  intervalMs,
+  getAgent,
+  maxAttempts = 5,
+  retentionMs = 7 * 24 * 60 * 60 * 1000,
+  onOutcome,
+}: PostSchedulerOptions) => {
+  let timer: NodeJS.Timeout | undefined;
+  let stopped = true;
+  let running: Promise<void> | null = null;
+
+  const attempt = async (post: ScheduledPost) => {
+    const publishing: ScheduledPost = {
+      ...post,
+      status: 'publishing',
+      rkey: post.rkey ?? createTid(),
+      updatedAt: Date.now(),
+    };
+    await store.set(publishing);
+    try {
+      const agent = await getAgent(post.did);
+      if (!agent) {
+        throw new ScheduledPostError('No active session for this account. Sign in again to publish.', 401);
+      }
+      const uri = await publishPost(agent, publishing, store);
+      const now = Date.now();
+      await store.set({
+        ...publishing,
+        status: 'published',
+        publishedUri: uri,
+        publishedAt: now,
+        updatedAt: now,
+        lastError: undefined,
+        nextAttemptAt: undefined,
+      });
+      await store.deleteMedia(post.id);
+      onOutcome?.('published');
+    } catch (error) {
+      const attempts = publishing.attempts + 1;
+      const permanent = getStatus(error) === 400 || attempts >= maxAttempts;
+      const now = Date.now();
+      await store.set({
+        ...publishing,
+        status: permanent ? 'failed' : 'pending',
+        attempts,
+        lastError: error instanceof Error ? error.message : 'Failed to publish.',
+        nextAttemptAt: permanent ? undefined : now + RETRY_DELAYS_MS[Math.min(attempts, RETRY_DELAYS_MS.length) - 1],
+        updatedAt: now,
+      });
+      onOutcome?.(permanent ? 'failed' : 'retry', error);
+      logger.warn('Scheduled post failed to publish', { postId: post.id, did: post.did, attempts, permanent, error });
+    }
+  };
+
+  const tick = async () => {
+    const now = Date.now();
+    const posts = await store.list();
+    for (const post of posts) {
+      if (post.status === 'published' && now - (post.publishedAt ?? post.updatedAt) > retentionMs) {
+        await store.delete(post.id);
+      }
+    }
+    const due = posts
+      .filter((post) => post.status === 'pending' && post.scheduledAt <= now && (post.nextAttemptAt ?? 0) <= now)
+      .sort((a, b) => a.scheduledAt - b.scheduledAt);
+    for (const candidate of due) {
+      if (stopped) return;
+      // The user may have edited or cancelled it since the list was read.
+      const post = await store.get(candidate.id);
+      if (post?.status === 'pending' && post.scheduledAt <= Date.now()) {
+        await attempt(post);
+      }
+    }
+  };
+
+  const schedule = () => {
+    if (stopped) return;
+    timer = setTimeout(() => {
+      running = tick()
+        .catch((error) => logger.error('Scheduled post run failed', { error }))
+        .finally(() => {
+          running = null;
+          schedule();
+        });
+    }, intervalMs);
+    timer.unref();
+  };
+
+  return {
+    async start() {
+      if (!stopped) return;
+      stopped = false;
+      // A crash mid-publish leaves posts marked as publishing; the saved rkey makes retrying them safe.
+      for (const post of await store.list()) {
+        if (post.status === 'publishing') await store.set({ ...post, status: 'pending' });
+      }
+      schedule();
+    },
+    async stop() {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      await running;
+    },
+  };
+};
@@ -0,0 +1,232 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { AtpSessionData } from '@atproto/api';
+import { logger } from './logger';
+import type { OAuthSessionData } from './oauth';
+
+export interface StoredSession {
+  id: string;
+  did: string;
+  handle?: string;
+  service: string;
+  /** App-password sessions; OAuth sessions carry `oauth` instead. */
+  session?: AtpSessionData;
+  oauth?: OAuthSessionData;
+  csrfToken?: string;
+  createdAt: number;
+  lastSeenAt: number;
+}
+
+export interface SessionStore {
+  get(id: string): Promise<StoredSession | null>;
+  set(record: StoredSession): Promise<void>;
+  delete(id: string): Promise<void>;
+  list(): Promise<StoredSession[]>;
+  close?(): Promise<void>;
+}
+
+export interface SessionTtl {
+  idleMs: number;
+  absoluteMs: number;
+}
+
+export const isSessionExpired = (record: StoredSession, ttl: SessionTtl, now = Date.now()) => {
+  if (ttl.absoluteMs > 0 && now - record.createdAt > ttl.absoluteMs) return true;
+  if (ttl.idleMs > 0 && now - record.lastSeenAt > ttl.idleMs) return true;
+  return false;
+};
+
+export const createMemorySessionStore = (): SessionStore => {
+  const records = new Map<string, StoredSession>();
+  return {
+    async get(id) {
+      return records.get(id) ?? null;
+    },
+    async set(record) {
+      records.set(record.id, record);
+    },
+    async delete(id) {
+      records.delete(id);
+    },
+    async list() {
+      return Array.from(records.values());
+    },
+  };
+};
+
+export const createFileSessionStore = (filePath: string): SessionStore => {
+  const records = new Map<string, StoredSession>();
+  let loaded: Promise<void> | null = null;
+  let writeQueue: Promise<void> = Promise.resolve();
+
+  const load = () => {
+    if (!loaded) {
+      loaded = (async () => {
+        try {
+          const raw = await readFile(filePath, 'utf8');
+          const parsed = JSON.parse(raw) as StoredSession[];
+          if (Array.isArray(parsed)) {
+            parsed.forEach((record) => {
+              if (record?.id && (record?.session?.refreshJwt || record?.oauth?.accessToken)) {
+                records.set(record.id, record);
+              }
+            });
+          }
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException)?.code !== 'ENOENT') {
+            logger.error('Failed to read chat session file', { filePath, error });
+          }
+        }
+      })();
+    }
+    return loaded;
+  };
+
+  // Writes go to a temp file first and are renamed into place so a crash
+  // mid-write never leaves a truncated session file behind.
+  const flush = () => {
+    writeQueue = writeQueue
+      .then(async () => {
+        await mkdir(path.dirname(filePath), { recursive: true });
+        const tmpPath = `${filePath}.tmp`;
+        await writeFile(tmpPath, JSON.stringify(Array.from(records.values())), { mode: 0o600 });
+        await rename(tmpPath, filePath);
+      })
+      .catch((error) => {
+        logger.error('Failed to write chat session file', { filePath, error });
+      });
+    return writeQueue;
+  };
+
+  return {
+    async get(id) {
+      await load();
+      return records.get(id) ?? null;
+    },
+    async set(record) {
+      await load();
+      records.set(record.id, record);
+      await flush();
+    },
+    async delete(id) {
+      await load();
+      if (!records.delete(id)) return;
+      await flush();
+    },
+    async list() {
+      await load();
+      return Array.from(records.values());
+    },
+    async close() {
+      await writeQueue;
+    },
+  };
+};
+
+// Backed by the built-in node:sqlite module (Node 22.5+), loaded lazily so the
+// memory and file stores keep working on older runtimes.
+export const createSqliteSessionStore = (filePath: string): SessionStore => {
+  let dbPromise: Promise<import('node:sqlite').DatabaseSync> | null = null;
+
+  const getDb = () => {
+    if (!dbPromise) {
+      dbPromise = (async () => {
+        await mkdir(path.dirname(filePath), { recursive: true });
+        const { DatabaseSync } = await import('node:sqlite');
+        const db = new DatabaseSync(filePath);
+        db.exec(`
+          CREATE TABLE IF NOT EXISTS chat_sessions (
+            id TEXT PRIMARY KEY,
+            did TEXT NOT NULL,
+            handle TEXT,
+            service TEXT NOT NULL,
+            session TEXT NOT NULL,
+            csrf_token TEXT,
+            created_at INTEGER NOT NULL,
+            last_seen_at INTEGER NOT NULL
+          )
+        `);
+        const columns = db.prepare('PRAGMA table_info(chat_sessions)').all();
+        if (!columns.some((column) => column.name === 'oauth')) {
+          db.exec('ALTER TABLE chat_sessions ADD COLUMN oauth TEXT');
+        }
+        return db;
+      })();
+    }
+    return dbPromise;
+  };
+
+  const toRecord = (row: Record<string, unknown>): StoredSession => ({
+    id: String(row.id),
+    did: String(row.did),
+    handle: row.handle ? String(row.handle) : undefined,
+    service: String(row.service),
+    session: JSON.parse(String(row.session)) ?? undefined,
+    oauth: row.oauth ? JSON.parse(String(row.oauth)) : undefined,
+    csrfToken: row.csrf_token ? String(row.csrf_token) : undefined,
+    createdAt: Number(row.created_at),
+    lastSeenAt: Number(row.last_seen_at),
+  });
+
+  return {
+    async get(id) {
+      const db = await getDb();
+      const row = db.prepare('SELECT * FROM chat_sessions WHERE id = ?').get(id);
+      return row ? toRecord(row) : null;
+    },
+    async set(record) {
+      const db = await getDb();
+      db.prepare(
+        `INSERT INTO chat_sessions (id, did, handle, service, session, oauth, csrf_token, created_at, last_seen_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET
+           did = excluded.did,
+           handle = excluded.handle,
+           service = excluded.service,
+           session = excluded.session,
+           oauth = excluded.oauth,
+           csrf_token = excluded.csrf_token,
+           last_seen_at = excluded.last_seen_at`
+      ).run(
+        record.id,
+        record.did,
+        record.handle ?? null,
+        record.service,
+        JSON.stringify(record.session ?? null),
+        record.oauth ? JSON.stringify(record.oauth) : null,
+        record.csrfToken ?? null,
+        record.createdAt,
+        record.lastSeenAt
+      );
+    },
+    async delete(id) {
+      const db = await getDb();
+      db.prepare('DELETE FROM chat_sessions WHERE id = ?').run(id);
+    },
+    async list() {
+      const db = await getDb();
+      return db.prepare('SELECT * FROM chat_sessions').all().map(toRecord);
+    },
+    async close() {
+      if (!dbPromise) return;
+      const db = await dbPromise;
+      db.close();
+    },
+  };
+};
+
+export const createSessionStoreFromEnv = (env: NodeJS.ProcessEnv = process.env): SessionStore => {
+  const kind = (env.CHAT_SESSION_STORE ?? 'memory').toLowerCase();
+  const dataDir = path.resolve(process.cwd(), env.CHAT_DATA_DIR ?? '.data');
+  switch (kind) {
+    case 'file':
+    case 'json':
+      return createFileSessionStore(env.CHAT_SESSION_FILE ?? path.join(dataDir, 'chat-sessions.json'));
+    case 'sqlite':
+      return createSqliteSessionStore(env.CHAT_SESSION_DB ?? path.join(dataDir, 'chat-sessions.db'));
+    case 'memory':
+      return createMemorySessionStore();
+    default:
+      throw new Error(`Unknown CHAT_SESSION_STORE "${kind}". Use memory, file or sqlite.`);
+  }
+};
@@ -0,0 +1,124 @@
+// Static snapshots of public post and profile pages. The markup is rendered
+// into #root so crawlers and no-JS clients get real content; React replaces it
+// on mount and seeds its state from the JSON payload written next to it.
+
+import {
+  escapeHtml,
+  formatCount,
+  postStyles,
+  profileHref,
+  renderAvatar,
+  renderPostArticle,
+  serializeForScript,
+} from './html';
+
+type View = Record<string, any>;
+
+export const SSR_DATA_ELEMENT_ID = '__HILLSIDE_SSR__';
+
+export type SsrPayload =
+  | { kind: 'post'; path: string; data: { thread: View } }
+  | { kind: 'profile'; path: string; data: { profile: View; feed: View[]; cursor?: string } };
+
+const MAX_REPLY_DEPTH = 3;
+
+const pageStyles = `
+.hs-page{max-width:640px;margin:0 auto;padding:0 0 48px;font-family:"IBM Plex Sans",system-ui,sans-serif}
+.hs-page *{box-sizing:border-box}
+.hs-header{display:flex;justify-content:space-between;align-items:center;padding:14px 16px;font-weight:600}
+.hs-header a{text-decoration:none}
+.hs-page .hs-post{margin:12px 16px 0}
+.hs-parent .hs-post{opacity:.85}
+.hs-replies{margin-left:24px;border-left:2px solid #dfe3df}
+.hs-section{margin:24px 16px 0;font-size:15px;font-weight:600;color:#66706a}
+.hs-reason{margin:16px 16px -4px;font-size:13px;color:#66706a}
+.hs-banner{width:100%;height:180px;object-fit:cover;display:block;background:#224f3a}
+.hs-profile{padding:0 16px}
+.hs-profile .hs-avatar-lg{width:96px;height:96px;border-radius:50%;object-fit:cover;border:4px solid #fff;margin-top:-48px;background:#224f3a}
+.hs-profile h1{margin:8px 0 0;font-size:24px}
+.hs-profile .hs-handle{color:#66706a}
+.hs-profile p{white-space:pre-wrap;line-height:1.45}
+.hs-counts{display:flex;gap:16px;font-size:14px;color:#66706a}
+.hs-counts b{color:inherit;font-weight:700}
+${postStyles}`;
+
+const renderShell = (content: string, siteUrl: string) => `<style>${pageStyles}</style>
+<div class="hs-page">
+<header class="hs-header"><a href="${escapeHtml(siteUrl.replace(/\/$/, '') || '/')}">HillSide</a><a href="/auth">Sign in</a></header>
+${content}
+</div>`;
+
+const isThreadPost = (node: View | undefined) =>
+  node?.$type === 'app.bsky.feed.defs#threadViewPost' || Boolean(node?.post?.uri);
+
+const renderReplies = (replies: View[] | undefined, siteUrl: string, depth: number): string => {
+  const visible = (replies ?? []).filter(isThreadPost);
+  if (!visible.length || depth > MAX_REPLY_DEPTH) return '';
+  return `<div class="${depth > 1 ? 'hs-replies' : ''}">${visible
+    .map((reply) => `${renderPostArticle(reply.post, siteUrl)}${renderReplies(reply.replies, siteUrl, depth + 1)}`)
+    .join('\n')}</div>`;
+};
+
+export const renderPostSnapshot = (thread: View, siteUrl: string) => {
+  const parents: View[] = [];
+  let parent = thread.parent;
+  while (isThreadPost(parent)) {
+    parents.unshift(parent.post);
+    parent = parent.parent;
+  }
+  const replies = renderReplies(thread.replies, siteUrl, 1);
+  return renderShell(
+    [
+      parents.length
+        ? `<div class="hs-parent">${parents.map((post) => renderPostArticle(post, siteUrl)).join('\n')}</div>`
+        : '',
+      `<main>${renderPostArticle(thread.post, siteUrl)}</main>`,
+      replies ? `<h2 class="hs-section">Replies</h2>${replies}` : '',
+    ].join('\n'),
+    siteUrl
+  );
+};
+
+export const renderProfileSnapshot = (profile: View, feed: View[], siteUrl: string) => {
+  const handle = String(profile.handle ?? profile.did ?? '');
+  const header = `<section>
+${profile.banner ? `<img class="hs-banner" src="${escapeHtml(profile.banner)}" alt="" />` : '<div class="hs-banner"></div>'}
+<div class="hs-profile">
+${renderAvatar(profile.avatar, 'hs-avatar-lg')}
+<h1>${escapeHtml(String(profile.displayName || `@${handle}`))}</h1>
+<div class="hs-handle">@${escapeHtml(handle)}</div>
+${profile.description ? `<p>${escapeHtml(String(profile.description))}</p>` : ''}
+<div class="hs-counts"><span><b>${formatCount(profile.followersCount ?? 0)}</b> followers</span><span><b>${formatCount(
+    profile.followsCount ?? 0
+  )}</b> following</span><span><b>${formatCount(profile.postsCount ?? 0)}</b> posts</span></div>
+</div>
+</section>`;
+
+  const posts = feed
+    .filter((item) => item?.post?.uri)
+    .map((item) => {
+      const reason =
+        item.reason?.$type === 'app.bsky.feed.defs#reasonRepost'
+          ? `<div class="hs-reason">Reposted by <a href="${escapeHtml(profileHref(siteUrl, handle))}">@${escapeHtml(handle)}</a></div>`
+          : '';
+      return `${reason}${renderPostArticle(item.post, siteUrl)}`;
+    })
+    .join('\n');
+
+  return renderShell(
+    `${header}\n<h2 class="hs-section">Posts</h2>\n<main>${posts || '<p class="hs-section">No posts yet.</p>'}</main>`,
+    siteUrl
+  );
+};
+
+export const renderSsrSnapshot = (payload: SsrPayload, siteUrl: string) =>
+  payload.kind === 'post'
+    ? renderPostSnapshot(payload.data.thread, siteUrl)
+    : renderProfileSnapshot(payload.data.profile, payload.data.feed, siteUrl);
+
+/** Fills the empty #root with the snapshot and appends the payload the client seeds from. */
+export const injectSsrSnapshot = (html: string, payload: SsrPayload, siteUrl: string) => {
+  const markup = renderSsrSnapshot(payload, siteUrl);
+  const script = `<script type="application/json" id="${SSR_DATA_ELEMENT_ID}">${serializeForScript(payload)}</script>`;
+  return html.replace(/<div id="root">\s*<\/div>/, () => `<div id="root">${markup}</div>\n    ${script}`);
+};
@@ -0,0 +1,313 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { createHash } from 'node:crypto';
+import { createReadStream, type Stats } from 'node:fs';
+import { stat } from 'node:fs/promises';
+import path from 'node:path';
+import { pipeline } from 'node:stream/promises';
+import type { Transform } from 'node:stream';
+import { constants as zlibConstants, createBrotliCompress, createGzip } from 'node:zlib';
+import { logger } from './logger';
+
+type Encoding = 'br' | 'gzip';
+
+const COMPRESSIBLE_EXTENSIONS = new Set([
+  '.html',
+  '.js',
+  '.mjs',
+  '.css',
+  '.json',
+  '.map',
+  '.svg',
+  '.txt',
+  '.xml',
+  '.webmanifest',
+  '.ico',
+]);
+
+// Below this size compression costs more than it saves.
+const MIN_COMPRESS_BYTES = 1024;
+
+const HASHED_ASSET = /^assets\/.+-[A-Za-z0-9_-]{8,}\.[a-z0-9]+$/;
+
+/** First match wins; paths are relative to the static root, without a leading slash. */
+const CACHE_POLICIES: { match: (relativePath: string) => boolean; cacheControl: string }[] = [
+  // The service worker and manifest keep stable URLs, so browsers must revalidate them.
+  { match: (file) => file === 'sw.js', cacheControl: 'no-cache' },
+  { match: (file) => file.endsWith('.webmanifest'), cacheControl: 'no-cache' },
+  { match: (file) => file.endsWith('.html'), cacheControl: 'no-cache' },
+  { match: (file) => HASHED_ASSET.test(file), cacheControl: 'public, max-age=31536000, immutable' },
+  { match: (file) => file === 'robots.txt' || file === 'sitemap.xml', cacheControl: 'public, max-age=3600' },
+  { match: () => true, cacheControl: 'public, max-age=86400, must-revalidate' },
+];
+
+export const getCacheControl = (relativePath: string) =>
+  CACHE_POLICIES.find((policy) => policy.match(relativePath))?.cacheControl ?? 'no-cache';
+
+export const getContentType = (ext: string) => {
+  switch (ext) {
+    case '.html':
+      return 'text/html; charset=utf-8';
+    case '.js':
+    case '.mjs':
+      return 'text/javascript; charset=utf-8';
+    case '.css':
+      return 'text/css; charset=utf-8';
+    case '.svg':
+      return 'image/svg+xml';
+    case '.json':
+    case '.map':
+      return 'application/json; charset=utf-8';
+    case '.webmanifest':
+      return 'application/manifest+json; charset=utf-8';
+    case '.png':
+      return 'image/png';
+    case '.jpg':
+    case '.jpeg':
+      return 'image/jpeg';
+    case '.gif':
+      return 'image/gif';
+    case '.webp':
+      return 'image/webp';
+    case '.avif':
+      return 'image/avif';
+    case '.ico':
+      return 'image/x-icon';
+    case '.txt':
+      return 'text/plain; charset=utf-8';
+    case '.xml':
+      return 'application/xml; charset=utf-8';
+    case '.woff':
+      return 'font/woff';
+    case '.woff2':
+      return 'font/woff2';
+    case '.mp4':
+      return 'video/mp4';
+    case '.webm':
+      return 'video/webm';
+    case '.mp3':
+      return 'audio/mpeg';
+    case '.wasm':
+      return 'application/wasm';
+    default:
+      return 'application/octet-stream';
+  }
+};
+
+export const resolveStaticPath = (root: string, pathname: string) => {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch {
+    return null;
+  }
+  if (decoded.includes('\0')) return null;
+  const resolved = path.resolve(root, decoded.replace(/^\/+/, ''));
+  if (resolved !== root && !resolved.startsWith(`${root}${path.sep}`)) return null;
+  return resolved;
+};
+
+const statFile = async (filePath: string) => {
+  try {
+    const stats = await stat(filePath);
+    return stats.isFile() ? stats : null;
+  } catch {
+    return null;
+  }
+};
+
+// Strong ETags are content hashes, memoized per size and mtime so each file is
+// only hashed once per deploy.
+const etagCache = new Map<string, string>();
+
+const getEtag = async (filePath: string, stats: Stats) => {
+  const key = `${filePath}:${stats.size}:${stats.mtimeMs}`;
+  const cached = etagCache.get(key);
+  if (cached) return cached;
+  const hash = createHash('sha1');
+  await pipeline(createReadStream(filePath), hash);
+  const etag = `"${hash.digest('base64url').slice(0, 27)}"`;
+  etagCache.set(key, etag);
+  return etag;
+};
+
+const withEncoding = (etag: string, encoding: Encoding | null) =>
+  encoding ? `${etag.slice(0, -1)}-${encoding === 'br' ? 'br' : 'gz'}"` : etag;
+
+const parseAcceptEncoding = (header: string | undefined) => {
+  const accepted = new Set<string>();
+  (header ?? '').split(',').forEach((part) => {
+    const [name, ...params] = part.trim().toLowerCase().split(';');
+    const q = params.find((param) => param.trim().startsWith('q='));
+    if (name && (!q || Number(q.trim().slice(2)) > 0)) accepted.add(name);
+  });
+  return accepted;
+};
+
+const matchesEtag = (header: string | undefined, etag: string) => {
+  if (!header) return false;
+  if (header.trim() === '*') return true;
+  return header.split(',').some((candidate) => candidate.trim().replace(/^W\//, '') === etag);
+};
+
+const isNotModified = (req: IncomingMessage, etag: string, stats: Stats) => {
+  const ifNoneMatch = req.headers['if-none-match'];
+  if (ifNoneMatch) return matchesEtag(ifNoneMatch, etag);
+  const ifModifiedSince = req.headers['if-modified-since'];
+  if (!ifModifiedSince) return false;
+  const since = Date.parse(ifModifiedSince);
+  return Number.isFinite(since) && Math.floor(stats.mtimeMs / 1000) * 1000 <= since;
+};
+
+/** Parses a single `bytes=` range. Multi-range requests are served as a full 200. */
+const parseRange = (header: string, size: number): { start: number; end: number } | 'invalid' | null => {
+  const match = header.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match) return header.startsWith('bytes=') && !header.includes(',') ? 'invalid' : null;
+  const [, rawStart, rawEnd] = match;
+  if (!rawStart && !rawEnd) return 'invalid';
+  if (!rawStart) {
+    const suffix = Number(rawEnd);
+    if (suffix === 0) return 'invalid';
+    return { start: Math.max(0, size - suffix), end: size - 1 };
+  }
+  const start = Number(rawStart);
+  const end = rawEnd ? Math.min(Number(rawEnd), size - 1) : size - 1;
+  if (start >= size || start > end) return 'invalid';
+  return { start, end };
+};
+
+const findPrecompressed = async (filePath: string, accepted: Set<string>) => {
+  if (accepted.has('br')) {
+    const stats = await statFile(`${filePath}.br`);
+    if (stats) return { encoding: 'br' as const, filePath: `${filePath}.br`, stats };
+  }
+  if (accepted.has('gzip')) {
+    const stats = await statFile(`${filePath}.gz`);
+    if (stats) return { encoding: 'gzip' as const, filePath: `${filePath}.gz`, stats };
+  }
+  return null;
+};
+
+const createCompressor = (encoding: Encoding): Transform =>
+  encoding === 'br'
+    ? createBrotliCompress({
+        // Fast settings for on-the-fly work; precompressed files can use max quality.
+        params: { [zlibConstants.BROTLI_PARAM_QUALITY]: 5 },
+      })
+    : createGzip({ level: 6 });
+
+const sendStream = async (res: ServerResponse, source: NodeJS.ReadableStream, transform?: Transform) => {
+  try {
+    if (transform) {
+      await pipeline(source, transform, res);
+    } else {
+      await pipeline(source, res);
+    }
+  } catch (error) {
+    // Clients aborting mid-download are routine; anything else is worth a log line.
+    if ((error as NodeJS.ErrnoException)?.code !== 'ERR_STREAM_PREMATURE_CLOSE') {
+      logger.warn('Static file stream failed', { error });
+    }
+    res.destroy();
+  }
+};
+
+export interface StaticFile {
+  filePath: string;
+  /** Relative to the static root, with forward slashes. */
+  relativePath: string;
+  stats: Stats;
+}
+
+/**
+ * Looks up `pathname` under `root`. Returns null when it doesn't name a file so
+ * the caller can fall through to the next root or the SPA shell.
+ */
+export const findStaticFile = async (root: string, pathname: string): Promise<StaticFile | null> => {
+  const filePath = resolveStaticPath(root, pathname);
+  if (!filePath) return null;
+  const stats = await statFile(filePath);
+  if (!stats) return null;
+  return { filePath, relativePath: path.relative(root, filePath).split(path.sep).join('/'), stats };
+};
+
+/** Sends a file found by `findStaticFile`, honouring conditional, range and encoding headers. */
+export const serveStaticFile = async (req: IncomingMessage, res: ServerResponse, file: StaticFile) => {
+  const { filePath, relativePath, stats } = file;
+  const method = req.method ?? 'GET';
+  const ext = path.extname(filePath).toLowerCase();
+  const baseEtag = await getEtag(filePath, stats);
+  const compressible = COMPRESSIBLE_EXTENSIONS.has(ext);
+  const accepted = compressible ? parseAcceptEncoding(req.headers['accept-encoding']) : new Set<string>();
+
+  const precompressed = compressible ? await findPrecompressed(filePath, accepted) : null;
+  let encoding: Encoding | null = precompressed?.encoding ?? null;
+  if (!encoding && compressible && stats.size >= MIN_COMPRESS_BYTES) {
+    if (accepted.has('br')) encoding = 'br';
+    else if (accepted.has('gzip')) encoding = 'gzip';
+  }
+  const etag = withEncoding(baseEtag, encoding);
+
+  const headers: Record<string, string> = {
+    'Content-Type': getContentType(ext),
+    'Cache-Control': getCacheControl(relativePath),
+    ETag: etag,
+    'Last-Modified': stats.mtime.toUTCString(),
+  };
+  if (compressible) headers.Vary = 'Accept-Encoding';
+  if (!encoding) headers['Accept-Ranges'] = 'bytes';
+
+  if (isNotModified(req, etag, stats)) {
+    res.writeHead(304, headers);
+    res.end();
+    return;
+  }
+
+  if (encoding) {
+    headers['Content-Encoding'] = encoding;
+    if (precompressed) headers['Content-Length'] = String(precompressed.stats.size);
+    res.writeHead(200, headers);
+    if (method === 'HEAD') {
+      res.end();
+      return;
+    }
+    if (precompressed) {
+      await sendStream(res, createReadStream(precompressed.filePath));
+    } else {
+      await sendStream(res, createReadStream(filePath), createCompressor(encoding));
+    }
+    return;
+  }
+
+  const rangeHeader = req.headers.range;
+  const ifRange = req.headers['if-range'];
+  // A stale If-Range means the client's partial copy is outdated: send everything.
+  const rangeAllowed = !ifRange || ifRange === etag;
+  const range = rangeHeader && rangeAllowed ? parseRange(rangeHeader, stats.size) : null;
+
+  if (range === 'invalid') {
+    res.writeHead(416, { ...headers, 'Content-Range': `bytes */${stats.size}` });
+    res.end();
+    return;
+  }
+
+  if (range) {
+    res.writeHead(206, {
+      ...headers,
+      'Content-Range': `bytes ${range.start}-${range.end}/${stats.size}`,
+      'Content-Length': String(range.end - range.start + 1),
+    });
+    if (method === 'HEAD') {
+      res.end();
+      return;
+    }
+    await sendStream(res, createReadStream(filePath, { start: range.start, end: range.end }));
+    return;
+  }
+
+  res.writeHead(200, { ...headers, 'Content-Length': String(stats.size) });
+  if (method === 'HEAD') {
+    res.end();
+    return;
+  }
+  await sendStream(res, createReadStream(filePath));
+};
@@ -0,0 +1,92 @@
+import { logger } from './logger';
+
+export interface SwrCacheOptions<T> {
+  /** Entries beyond this count are evicted least-recently-used first. */
+  maxEntries: number;
+  /** How long a value is served without revalidating. */
+  ttlMs: number;
+  /** How long past `ttlMs` a value may still be served while it refreshes in the background. */
+  staleMs: number;
+  /** Lets callers skip caching fallback values produced when the upstream failed. */
+  shouldCache?: (value: T) => boolean;
+}
+
+export interface SwrCacheStats {
+  hits: number;
+  /** Served from an expired entry while a refresh ran in the background. */
+  staleHits: number;
+  misses: number;
+}
+
+interface Entry<T> {
+  value: T;
+  storedAt: number;
+}
+
+/**
+ * In-memory LRU with stale-while-revalidate semantics. Concurrent lookups of
+ * the same key share a single load, whether it is a miss or a background refresh.
+ */
+export const createSwrCache = <T>({ maxEntries, ttlMs, staleMs, shouldCache = () => true }: SwrCacheOptions<T>) => {
+  const entries = new Map<string, Entry<T>>();
+  const inFlight = new Map<string, Promise<T>>();
+  const stats: SwrCacheStats = { hits: 0, staleHits: 0, misses: 0 };
+
+  const store = (key: string, value: T) => {
+    if (!shouldCache(value)) return;
+    entries.delete(key);
+    entries.set(key, { value, storedAt: Date.now() });
+    while (entries.size > maxEntries) {
+      const oldest = entries.keys().next().value;
+      if (oldest === undefined) break;
+      entries.delete(oldest);
+    }
+  };
+
+  const load = (key: string, loader: () => Promise<T>) => {
+    const pending = inFlight.get(key);
+    if (pending) return pending;
+    const task = loader()
+      .then((value) => {
+        store(key, value);
+        return value;
+      })
+      .finally(() => inFlight.delete(key));
+    inFlight.set(key, task);
+    return task;
+  };
+
+  const get = async (key: string, loader: () => Promise<T>) => {
+    const entry = entries.get(key);
+    if (entry) {
+      const age = Date.now() - entry.storedAt;
+      if (age <= ttlMs + staleMs) {
+        // Re-insert so Map order tracks recency.
+        entries.delete(key);
+        entries.set(key, entry);
+        if (age > ttlMs) {
+          stats.staleHits += 1;
+          load(key, loader).catch((error) => logger.error('Cache revalidation failed', { key, error }));
+        } else {
+          stats.hits += 1;
+        }
+        return entry.value;
+      }
+      entries.delete(key);
+    }
+    stats.misses += 1;
+    return load(key, loader);
+  };
+
+  return {
+    get,
+    delete: (key: string) => entries.delete(key),
+    clear: () => entries.clear(),
+    get size() {
+      return entries.size;
+    },
+    get stats(): SwrCacheStats {
+      return { ...stats };
+    },
+  };
+};
@@ -0,0 +1,180 @@
+// RSS 2.0 and Atom 1.0 renderers for profile and hashtag feeds.
+
+export interface FeedEnclosure {
+  url: string;
+  type: string;
+}
+
+export interface FeedItem {
+  id: string;
+  url: string;
+  title: string;
+  text: string;
+  authorName: string;
+  publishedAt: string;
+  enclosures: FeedEnclosure[];
+}
+
+export interface FeedChannel {
+  title: string;
+  description: string;
+  /** HTML page the feed belongs to. */
+  url: string;
+  /** URL the feed itself is served from. */
+  selfUrl: string;
+  image?: string;
+  items: FeedItem[];
+}
+
+const TITLE_MAX_LENGTH = 80;
+
+// Control characters other than tab and newlines are not allowed anywhere in XML 1.0.
+const isXmlChar = (char: string) => {
+  const code = char.charCodeAt(0);
+  return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+};
+
+const escapeXml = (value: string) =>
+  Array.from(value)
+    .filter(isXmlChar)
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const getRkey = (uri?: string) => uri?.split('/').pop() ?? '';
+
+// Bluesky's CDN serves images as JPEG unless another format is requested.
+const guessImageType = (url: string) => {
+  if (/@png$|\.png(\?|$)/i.test(url)) return 'image/png';
+  if (/@webp$|\.webp(\?|$)/i.test(url)) return 'image/webp';
+  if (/\.gif(\?|$)/i.test(url)) return 'image/gif';
+  return 'image/jpeg';
+};
+
+const getEmbedEnclosures = (embed: any): FeedEnclosure[] => {
+  switch (embed?.$type) {
+    case 'app.bsky.embed.images#view':
+      return (embed.images ?? [])
+        .map((image: any) => image.fullsize ?? image.thumb)
+        .filter(Boolean)
+        .map((url: string) => ({ url, type: guessImageType(url) }));
+    case 'app.bsky.embed.video#view':
+      return embed.thumbnail ? [{ url: embed.thumbnail, type: guessImageType(embed.thumbnail) }] : [];
+    case 'app.bsky.embed.external#view':
+      return embed.external?.thumb ? [{ url: embed.external.thumb, type: guessImageType(embed.external.thumb) }] : [];
+    case 'app.bsky.embed.recordWithMedia#view':
+      return getEmbedEnclosures(embed.media);
+    default:
+      return [];
+  }
+};
+
+const toTitle = (text: string, fallback: string) => {
+  const firstLine = text.split('\n').find((line) => line.trim())?.trim();
+  if (!firstLine) return fallback;
+  return firstLine.length <= TITLE_MAX_LENGTH ? firstLine : `${firstLine.slice(0, TITLE_MAX_LENGTH - 3)}...`;
+};
+
+export const postsToFeedItems = (posts: any[], siteUrl: string): FeedItem[] => {
+  const site = siteUrl.replace(/\/$/, '');
+  return posts
+    .filter((post) => post?.uri && post?.author)
+    .map((post) => {
+      const handle = String(post.author.handle ?? post.author.did);
+      const authorName = String(post.author.displayName || `@${handle}`);
+      const text = String(post.record?.text ?? '');
+      return {
+        id: String(post.uri),
+        url: `${site}/profile/${encodeURIComponent(handle)}/post/${encodeURIComponent(getRkey(post.uri))}`,
+        title: toTitle(text, `Post by ${authorName}`),
+        text,
+        authorName,
+        publishedAt: String(post.record?.createdAt ?? post.indexedAt ?? new Date().toISOString()),
+        enclosures: getEmbedEnclosures(post.embed),
+      };
+    });
+};
+
+const itemHtml = (item: FeedItem) =>
+  [
+    item.text ? `<p>${escapeHtml(item.text).replace(/\r?\n/g, '<br />')}</p>` : '',
+    ...item.enclosures
+      .filter((enclosure) => enclosure.type.startsWith('image/'))
+      .map((enclosure) => `<p><img src="${escapeHtml(enclosure.url)}" alt="" /></p>`),
+  ].join('');
+
+const toDate = (value: string) => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? new Date() : date;
+};
+
+export const renderRssFeed = (channel: FeedChannel) => {
+  const lastBuild = channel.items[0] ? toDate(channel.items[0].publishedAt) : new Date();
+  const items = channel.items
+    .map(
+      (item) => `    <item>
+      <title>${escapeXml(item.title)}</title>
+      <link>${escapeXml(item.url)}</link>
+      <guid isPermaLink="false">${escapeXml(item.id)}</guid>
+      <dc:creator>${escapeXml(item.authorName)}</dc:creator>
+      <pubDate>${toDate(item.publishedAt).toUTCString()}</pubDate>
+      <description>${escapeXml(itemHtml(item))}</description>
+${item.enclosures
+  .slice(0, 1)
+  .map((enclosure) => `      <enclosure url="${escapeXml(enclosure.url)}" type="${enclosure.type}" length="0" />\n`)
+  .join('')}${item.enclosures
+  .map((enclosure) => `      <media:content url="${escapeXml(enclosure.url)}" type="${enclosure.type}" medium="image" />\n`)
+  .join('')}    </item>`
+    )
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:media="http://search.yahoo.com/mrss/">
+  <channel>
+    <title>${escapeXml(channel.title)}</title>
+    <link>${escapeXml(channel.url)}</link>
+    <description>${escapeXml(channel.description)}</description>
+    <atom:link href="${escapeXml(channel.selfUrl)}" rel="self" type="application/rss+xml" />
+    <lastBuildDate>${lastBuild.toUTCString()}</lastBuildDate>
+${channel.image ? `    <image>\n      <url>${escapeXml(channel.image)}</url>\n      <title>${escapeXml(channel.title)}</title>\n      <link>${escapeXml(channel.url)}</link>\n    </image>\n` : ''}${items}
+  </channel>
+</rss>
+`;
+};
+
+export const renderAtomFeed = (channel: FeedChannel) => {
+  const updated = channel.items[0] ? toDate(channel.items[0].publishedAt) : new Date();
+  const entries = channel.items
+    .map(
+      (item) => `  <entry>
+    <id>${escapeXml(item.id)}</id>
+    <title>${escapeXml(item.title)}</title>
+    <link rel="alternate" type="text/html" href="${escapeXml(item.url)}" />
+${item.enclosures
+  .map((enclosure) => `    <link rel="enclosure" type="${enclosure.type}" href="${escapeXml(enclosure.url)}" />\n`)
+  .join('')}    <author><name>${escapeXml(item.authorName)}</name></author>
+    <published>${toDate(item.publishedAt).toISOString()}</published>
+    <updated>${toDate(item.publishedAt).toISOString()}</updated>
+    <content type="html">${escapeXml(itemHtml(item))}</content>
+  </entry>`
+    )
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${escapeXml(channel.url)}</id>
+  <title>${escapeXml(channel.title)}</title>
+  <subtitle>${escapeXml(channel.description)}</subtitle>
+  <link rel="alternate" type="text/html" href="${escapeXml(channel.url)}" />
+  <link rel="self" type="application/atom+xml" href="${escapeXml(channel.selfUrl)}" />
+  <updated>${updated.toISOString()}</updated>
+${channel.image ? `  <icon>${escapeXml(channel.image)}</icon>\n` : ''}${entries}
+</feed>
+`;
+};
@@ -0,0 +1,517 @@
+// Fetches arbitrary URLs on behalf of the composer and of sign-in. Every hop
+// is resolved and checked against private and reserved ranges at connect time
+// (so DNS rebinding can't slip past the check), and bodies are capped in size
+// and time.
+
+import { lookup as dnsLookup, type LookupAddress } from 'node:dns';
+import http, { type IncomingMessage } from 'node:http';
+import https from 'node:https';
+import { BlockList, isIP } from 'node:net';
+
+export interface LinkPreview {
+  url: string;
+  title: string;
+  description: string;
+  image?: string;
+  siteName?: string;
+}
+
+export interface FetchedResource {
+  url: string;
+  contentType: string;
+  body: Buffer;
+}
+
+export interface UnfurlerOptions {
+  timeoutMs?: number;
+  maxHtmlBytes?: number;
+  maxImageBytes?: number;
+  maxRedirects?: number;
+  userAgent?: string;
+}
+
+/** Rejections the caller should pass on to the client with `status`. */
+export class UnfurlError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+    this.name = 'UnfurlError';
+  }
+}
+
+const blockedAddresses = new BlockList();
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.88.99.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+].forEach(([network, prefix]) => blockedAddresses.addSubnet(network as string, prefix as number, 'ipv4'));
+[
+  ['::', 128],
+  ['::1', 128],
+  // NAT64 and 6to4 addresses can smuggle a private IPv4 address.
+  ['64:ff9b::', 96],
+  ['2002::', 16],
+  ['2001:db8::', 32],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+].forEach(([network, prefix]) => blockedAddresses.addSubnet(network as string, prefix as number, 'ipv6'));
+
+// IPv4-mapped IPv6 addresses are unwrapped and checked against the IPv4 rules.
+// A ::ffff:0:0/96 rule can't be used instead: BlockList would match every
+// plain IPv4 address against it.
+const unwrapMappedIpv4 = (address: string) => {
+  const match = address.toLowerCase().match(/^::ffff:(?:0:)?(.+)$/);
+  if (!match) return null;
+  if (isIP(match[1]) === 4) return match[1];
+  const groups = match[1].split(':');
+  if (groups.length !== 2 || !groups.every((group) => /^[0-9a-f]{1,4}$/.test(group))) return null;
+  const [high, low] = groups.map((group) => parseInt(group, 16));
+  return [high >> 8, high & 255, low >> 8, low & 255].join('.');
+};
+
+export const isPublicAddress = (address: string): boolean => {
+  const family = isIP(address);
+  if (family === 0) return false;
+  if (family === 6) {
+    const mapped = unwrapMappedIpv4(address);
+    if (mapped) return isPublicAddress(mapped);
+  }
+  return !blockedAddresses.check(address, family === 6 ? 'ipv6' : 'ipv4');
+};
+
+const IMAGE_ACCEPT = 'image/avif,image/webp,image/png,image/jpeg,image/*;q=0.8';
+
+const ALLOWED_PORTS = new Set(['', '80', '443']);
+
+export const parsePublicUrl = (input: string) => {
+  let url: URL;
+  try {
+    url = new URL(input);
+  } catch {
+    throw new UnfurlError('That is not a valid URL.', 400);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new UnfurlError('Only http and https links can be previewed.', 400);
+  }
+  if (url.username || url.password || !ALLOWED_PORTS.has(url.port)) {
+    throw new UnfurlError('That URL cannot be previewed.', 403);
+  }
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(hostname) && !isPublicAddress(hostname)) {
+    throw new UnfurlError('That URL cannot be previewed.', 403);
+  }
+  if (hostname === 'localhost' || hostname.endsWith('.localhost') || hostname.endsWith('.internal')) {
+    throw new UnfurlError('That URL cannot be previewed.', 403);
+  }
+  return url;
+};
+
+// Used as the socket's lookup so the address we vet is the one we connect to.
+const guardedLookup = (
+  hostname: string,
+  options: { all?: boolean; family?: number },
+  callback: (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void
+) => {
+  dnsLookup(hostname, { all: true, family: options.family }, (error, addresses) => {
+    if (error) {
+      callback(error, []);
+      return;
+    }
+    const blocked = addresses.find((entry) => !isPublicAddress(entry.address));
+    if (blocked || !addresses.length) {
+      callback(Object.assign(new Error(`Refusing to connect to ${hostname}`), { code: 'EBLOCKED' }), []);
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+const fromCodePoint = (codePoint: number, fallback: string) => {
+  try {
+    return String.fromCodePoint(codePoint);
+  } catch {
+    return fallback;
+  }
+};
+
+const decodeEntities = (value: string) =>
+  value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    const lower = code.toLowerCase();
+    if (lower.startsWith('#x')) return fromCodePoint(parseInt(lower.slice(2), 16), entity);
+    if (lower.startsWith('#')) return fromCodePoint(Number(lower.slice(1)), entity);
+    return NAMED_ENTITIES[lower] ?? entity;
+  });
+
+const cleanText = (value: string | undefined, maxLength: number) => {
+  if (!value) return '';
+  const text = decodeEntities(value).replace(/\s+/g, ' ').trim();
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text;
+};
+
+const parseAttributes = (tag: string) => {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/([a-zA-Z_:.-]+)\s*=\s*("([^"]*)"|'([^']*)'|([^\s"'>]+))/g)) {
+    attributes[match[1].toLowerCase()] = match[3] ?? match[4] ?? match[5] ?? '';
+  }
+  return attributes;
+};
+
+interface PageMetadata {
+  meta: Map<string, string>;
+  title?: string;
+  oembedUrl?: string;
+}
+
+/** Pulls OG, Twitter and plain meta tags plus the oEmbed discovery link out of the document head. */
+export const parsePageMetadata = (html: string): PageMetadata => {
+  const headEnd = html.search(/<\/head>|<body[\s>]/i);
+  const head = headEnd > 0 ? html.slice(0, headEnd) : html;
+  const meta = new Map<string, string>();
+  for (const [tag] of head.matchAll(/<meta\b[^>]*>/gi)) {
+    const attributes = parseAttributes(tag);
+    const key = (attributes.property ?? attributes.name ?? '').toLowerCase();
+    if (key && attributes.content !== undefined && !meta.has(key)) {
+      meta.set(key, attributes.content);
+    }
+  }
+  let oembedUrl: string | undefined;
+  for (const [tag] of head.matchAll(/<link\b[^>]*>/gi)) {
+    const attributes = parseAttributes(tag);
+    if (attributes.type?.toLowerCase() === 'application/json+oembed' && attributes.href) {
+      oembedUrl = attributes.href;
+      break;
+    }
+  }
+  const title = head.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  return { meta, title, oembedUrl };
+};
+
+const detectCharset = (contentType: string, body: Buffer) => {
+  const fromHeader = contentType.match(/charset=["']?([\w-]+)/i)?.[1];
+  if (fromHeader) return fromHeader;
+  return body.subarray(0, 2048).toString('latin1').match(/<meta[^>]+charset=["']?([\w-]+)/i)?.[1] ?? 'utf-8';
+};
+
+const decodeBody = (contentType: string, body: Buffer) => {
+  try {
+    return new TextDecoder(detectCharset(contentType, body)).decode(body);
+  } catch {
+    return body.toString('utf8');
+  }
+};
+
+const resolveHttpUrl = (value: string | undefined, base: string) => {
+  if (!value) return undefined;
+  try {
+    const url = new URL(decodeEntities(value.trim()), base);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export const createUnfurler = ({
+  timeoutMs = 5000,
+  maxHtmlBytes = 512 * 1024,
+  maxImageBytes = 1_000_000,
+  maxRedirects = 5,
+  userAgent = 'HillSideBot/1.0 (+https://hillside.micorp.pro)',
+}: UnfurlerOptions = {}) => {
+  const request = (url: URL, accept: string, signal: AbortSignal) =>
+    new Promise<IncomingMessage>((resolve, reject) => {
+      const client = url.protocol === 'https:' ? https : http;
+      const req = client.get(
+        url,
+        {
+          headers: { 'User-Agent': userAgent, Accept: accept, 'Accept-Encoding': 'identity' },
+          lookup: guardedLookup as unknown as typeof dnsLookup,
+          signal,
+        },
+        resolve
+      );
+      req.on('error', reject);
+    });
+
+  const readBody = (response: IncomingMessage, limit: number, truncate: boolean) =>
+    new Promise<Buffer>((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      const declared = Number(response.headers['content-length']);
+      if (!truncate && Number.isFinite(declared) && declared > limit) {
+        response.destroy();
+        reject(new UnfurlError('The linked file is too large.', 413));
+        return;
+      }
+      response.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > limit) {
+          response.destroy();
+          if (truncate) {
+            // Everything a preview needs lives in <head>, so a cut-off page is fine.
+            chunks.push(chunk.subarray(0, chunk.length - (size - limit)));
+            resolve(Buffer.concat(chunks));
+          } else {
+            reject(new UnfurlError('The linked file is too large.', 413));
+          }
+          return;
+        }
+        chunks.push(chunk);
+      });
+      response.on('end', () => resolve(Buffer.concat(chunks)));
+      response.on('error', reject);
+      // A timeout abort may tear the socket down without an error event.
+      response.on('close', () => reject(new Error('Response closed early')));
+    });
+
+  /** GETs `input`, following redirects, with every hop checked against private ranges. */
+  const fetchPublic = async (input: string, accept: string, limit: number, truncate: boolean) => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      let url = parsePublicUrl(input);
+      for (let hop = 0; hop <= maxRedirects; hop += 1) {
+        const response = await request(url, accept, controller.signal);
+        const status = response.statusCode ?? 0;
+        if (status >= 300 && status < 400 && response.headers.location) {
+          response.resume();
+          url = parsePublicUrl(new URL(response.headers.location, url).toString());
+          continue;
+        }
+        if (status < 200 || status >= 300) {
+          response.resume();
+          throw new UnfurlError(`The site answered with status ${status}.`, 502);
+        }
+        const body = await readBody(response, limit, truncate);
+        return { url: url.toString(), contentType: String(response.headers['content-type'] ?? ''), body };
+      }
+      throw new UnfurlError('The link redirects too many times.', 502);
+    } catch (error) {
+      if (error instanceof UnfurlError) throw error;
+      if ((error as NodeJS.ErrnoException)?.code === 'EBLOCKED') {
+        throw new UnfurlError('That URL cannot be previewed.', 403);
+      }
+      if (controller.signal.aborted) {
+        throw new UnfurlError('The site took too long to respond.', 504);
+      }
+      throw new UnfurlError('The site could not be reached.', 502);
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  const fetchOembed = async (oembedUrl: string) => {
+    try {
+      const { body } = await fetchPublic(oembedUrl, 'application/json', 128 * 1024, false);
+      return JSON.parse(body.toString('utf8')) as Record<string, unknown>;
+    } catch {
+      return null;
+    }
+  };
+
+  const unfurl = async (input: string): Promise<LinkPreview> => {
+    const page = await fetchPublic(input, 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.5', maxHtmlBytes, true);
+    const fallbackTitle = new URL(page.url).hostname.replace(/^www\./, '');
+
+    if (!/^(text\/html|application\/xhtml\+xml)/i.test(page.contentType)) {
+      const isImage = /^image\//i.test(page.contentType);
+      return { url: input, title: fallbackTitle, description: '', ...(isImage ? { image: page.url } : {}) };
+    }
+
+    const { meta, title, oembedUrl } = parsePageMetadata(decodeBody(page.contentType, page.body));
+    const pick = (...keys: string[]) => keys.map((key) => meta.get(key)).find((value) => value?.trim());
+
+    let preview: LinkPreview = {
+      url: input,
+      title: cleanText(pick('og:title', 'twitter:title') ?? title, 300),
+      description: cleanText(pick('og:description', 'twitter:description', 'description'), 1000),
+      image: resolveHttpUrl(
+        pick('og:image:secure_url', 'og:image', 'og:image:url', 'twitter:image', 'twitter:image:src'),
+        page.url
+      ),
+      siteName: cleanText(pick('og:site_name', 'application-name'), 100) || undefined,
+    };
+
+    // Only pay for the oEmbed round trip when the page's own tags left gaps.
+    const discoveredOembed = resolveHttpUrl(oembedUrl, page.url);
+    if (discoveredOembed && (!preview.title || !preview.image)) {
+      const oembed = await fetchOembed(discoveredOembed);
+      if (oembed) {
+        preview = {
+          ...preview,
+          title: preview.title || cleanText(String(oembed.title ?? ''), 300),
+          image: preview.image ?? resolveHttpUrl(String(oembed.thumbnail_url ?? ''), page.url),
+          siteName: preview.siteName ?? (cleanText(String(oembed.provider_name ?? ''), 100) || undefined),
+        };
+      }
+    }
+
+    return { ...preview, title: preview.title || fallbackTitle };
+  };
+
+  /** Fetches a preview thumbnail for upload; only images within the blob size limit are returned. */
+  const fetchImage = async (input: string): Promise<FetchedResource> => {
+    const resource = await fetchPublic(input, IMAGE_ACCEPT, maxImageBytes, false);
+    if (!/^image\/(png|jpe?g|gif|webp|avif)/i.test(resource.contentType)) {
+      throw new UnfurlError('The link thumbnail is not a supported image.', 415);
+    }
+    return resource;
+  };
+
+  return { unfurl, fetchImage };
+};
+
+const requestBody = (body: RequestInit['body']) => {
+  if (body === undefined || body === null) return undefined;
+  if (typeof body === 'string') return body;
+  if (body instanceof URLSearchParams) return body.toString();
+  if (body instanceof ArrayBuffer) return Buffer.from(body);
+  if (ArrayBuffer.isView(body)) return Buffer.from(body.buffer, body.byteOffset, body.byteLength);
+  throw new TypeError('Unsupported request body for a guarded fetch.');
+};
+
+const toResponseBody = (response: IncomingMessage, maxBytes: number, host: string) => {
+  let size = 0;
+  let done = false;
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      const fail = (error: Error) => {
+        if (done) return;
+        done = true;
+        controller.error(error);
+      };
+      response.on('data', (chunk: Buffer) => {
+        if (done) return;
+        size += chunk.length;
+        if (size > maxBytes) {
+          response.destroy();
+          fail(new TypeError(`Response from ${host} is too large`));
+          return;
+        }
+        controller.enqueue(new Uint8Array(chunk));
+        if ((controller.desiredSize ?? 1) <= 0) response.pause();
+      });
+      response.on('end', () => {
+        if (done) return;
+        done = true;
+        controller.close();
+      });
+      response.on('error', fail);
+    },
+    pull() {
+      response.resume();
+    },
+    cancel() {
+      done = true;
+      response.destroy();
+    },
+  });
+};
+
+export interface GuardedFetchOptions {
+  /** Deadline for the whole exchange, body included, on top of any signal the caller passes. */
+  timeoutMs?: number;
+  maxBytes?: number;
+}
+
+/**
+ * A `fetch` for URLs that come from users, DID documents or other servers'
+ * metadata: private and reserved addresses are refused at connect time, like
+ * previews are. Redirects are never followed, and response bodies are
+ * streamed up to `maxBytes`.
+ */
+export const createGuardedFetch = ({
+  timeoutMs = 60_000,
+  maxBytes = 10 * 1024 * 1024,
+}: GuardedFetchOptions = {}): typeof fetch => {
+  const guardedFetch = async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+    if (input instanceof Request) {
+      const request = new Request(input, init);
+      return guardedFetch(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body: request.body ? await request.arrayBuffer() : undefined,
+        signal: request.signal,
+        redirect: request.redirect,
+      });
+    }
+
+    const target = input.toString();
+    let url: URL;
+    try {
+      url = parsePublicUrl(target);
+    } catch {
+      throw Object.assign(new TypeError(`Refusing to connect to ${target}`), { code: 'EBLOCKED' });
+    }
+    const body = requestBody(init.body);
+    const headers: Record<string, string> = {};
+    new Headers(init.headers).forEach((value, name) => {
+      headers[name] = value;
+    });
+    if (body !== undefined) headers['content-length'] = String(Buffer.byteLength(body));
+    const deadline = AbortSignal.timeout(timeoutMs);
+    const signal = init.signal ? AbortSignal.any([init.signal, deadline]) : deadline;
+
+    const response = await new Promise<IncomingMessage>((resolve, reject) => {
+      const client = url.protocol === 'https:' ? https : http;
+      const req = client.request(
+        url,
+        {
+          method: init.method ?? 'GET',
+          headers,
+          lookup: guardedLookup as unknown as typeof dnsLookup,
+          signal,
+        },
+        resolve
+      );
+      req.on('error', reject);
+      req.end(body);
+    });
+
+    const status = response.statusCode ?? 502;
+    if (status >= 300 && status < 400 && init.redirect === 'error') {
+      response.destroy();
+      throw new TypeError(`Unexpected redirect from ${url.host}`);
+    }
+    const responseHeaders = new Headers();
+    for (const [name, value] of Object.entries(response.headers)) {
+      if (Array.isArray(value)) value.forEach((entry) => responseHeaders.append(name, entry));
+      else if (value !== undefined) responseHeaders.set(name, value);
+    }
+    const hasBody = status !== 204 && status !== 304 && init.method !== 'HEAD';
+    if (!hasBody) response.resume();
+    return new Response(hasBody ? toResponseBody(response, maxBytes, url.host) : null, {
+      status,
+      statusText: response.statusMessage,
+      headers: responseHeaders,
+    });
+  };
+  return guardedFetch;
+};
@@ -0,0 +1,206 @@
+// Web Push delivery without a third-party library: VAPID (RFC 8292) request
+// signing and aes128gcm payload encryption (RFC 8188 / RFC 8291).
+import {
+  createCipheriv,
+  createECDH,
+  createPrivateKey,
+  generateKeyPairSync,
+  hkdfSync,
+  KeyObject,
+  randomBytes,
+  sign,
+} from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { logger } from './logger';
+
+export interface VapidKeys {
+  /** Uncompressed P-256 public key, base64url; browsers take it as applicationServerKey. */
+  publicKey: string;
+  /** Raw private scalar, base64url. */
+  privateKey: string;
+  /** mailto: or https: contact the push service can reach us at. */
+  subject: string;
+}
+
+export interface WebPushTarget {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+}
+
+export interface WebPushOptions {
+  ttlSeconds?: number;
+  urgency?: 'very-low' | 'low' | 'normal' | 'high';
+}
+
+export class WebPushError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'WebPushError';
+    this.status = status;
+  }
+}
+
+// Push services accept at least 4096 bytes per record; we send a single record.
+const RECORD_SIZE = 4096;
+const MAX_PAYLOAD_BYTES = RECORD_SIZE - 16 - 1 - 86;
+const VAPID_TOKEN_TTL_SECONDS = 12 * 60 * 60;
+const SEND_TIMEOUT_MS = 10_000;
+
+const toBase64Url = (buffer: Buffer) => buffer.toString('base64url');
+const fromBase64Url = (value: string) => Buffer.from(value, 'base64url');
+
+/** Push subscriptions whose endpoint answers with these are gone for good. */
+export const isExpiredSubscriptionError = (error: unknown) =>
+  error instanceof WebPushError && (error.status === 404 || error.status === 410);
+
+export const generateVapidKeys = (subject: string): VapidKeys => {
+  const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+  const jwk = privateKey.export({ format: 'jwk' });
+  const publicKey = Buffer.concat([Buffer.from([0x04]), fromBase64Url(jwk.x ?? ''), fromBase64Url(jwk.y ?? '')]);
+  return { publicKey: toBase64Url(publicKey), privateKey: jwk.d ?? '', subject };
+};
+
+/**
+ * Keys from the environment win. Otherwise a pair is generated once and kept
+ * in `filePath`, since rotating them silently invalidates every subscription.
+ */
+export const loadVapidKeys = async ({
+  publicKey,
+  privateKey,
+  subject,
+  filePath,
+}: {
+  publicKey?: string;
+  privateKey?: string;
+  subject: string;
+  filePath: string;
+}): Promise<VapidKeys> => {
+  if (publicKey && privateKey) return { publicKey, privateKey, subject };
+
+  try {
+    const stored = JSON.parse(await readFile(filePath, 'utf8')) as Partial<VapidKeys>;
+    if (stored.publicKey && stored.privateKey) {
+      return { publicKey: stored.publicKey, privateKey: stored.privateKey, subject };
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException)?.code !== 'ENOENT') {
+      logger.error('Failed to read VAPID key file', { filePath, error });
+    }
+  }
+
+  const keys = generateVapidKeys(subject);
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFile(filePath, JSON.stringify({ publicKey: keys.publicKey, privateKey: keys.privateKey }), {
+    mode: 0o600,
+  });
+  logger.warn('Generated new VAPID keys; set VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY to pin them', { filePath });
+  return keys;
+};
+
+const privateKeyCache = new Map<string, KeyObject>();
+
+const getSigningKey = ({ publicKey, privateKey }: VapidKeys) => {
+  let key = privateKeyCache.get(privateKey);
+  if (!key) {
+    const point = fromBase64Url(publicKey);
+    key = createPrivateKey({
+      key: {
+        kty: 'EC',
+        crv: 'P-256',
+        x: toBase64Url(point.subarray(1, 33)),
+        y: toBase64Url(point.subarray(33, 65)),
+        d: privateKey,
+      },
+      format: 'jwk',
+    });
+    privateKeyCache.set(privateKey, key);
+  }
+  return key;
+};
+
+const createVapidAuthorization = (endpoint: string, vapid: VapidKeys) => {
+  const header = toBase64Url(Buffer.from(JSON.stringify({ typ: 'JWT', alg: 'ES256' })));
+  const claims = toBase64Url(
+    Buffer.from(
+      JSON.stringify({
+        aud: new URL(endpoint).origin,
+        exp: Math.floor(Date.now() / 1000) + VAPID_TOKEN_TTL_SECONDS,
+        sub: vapid.subject,
+      })
+    )
+  );
+  const signature = sign('sha256', Buffer.from(`${header}.${claims}`), {
+    key: getSigningKey(vapid),
+    dsaEncoding: 'ieee-p1363',
+  });
+  return `vapid t=${header}.${claims}.${toBase64Url(signature)}, k=${vapid.publicKey}`;
+};
+
+const hkdf = (salt: Buffer, ikm: Buffer, info: Buffer, length: number) =>
+  Buffer.from(hkdfSync('sha256', ikm, salt, info, length));
+
+/** Encrypts `payload` for one subscription as a single aes128gcm record. */
+export const encryptPayload = (target: WebPushTarget, payload: Buffer) => {
+  if (payload.length > MAX_PAYLOAD_BYTES) {
+    throw new Error(`Push payload exceeds ${MAX_PAYLOAD_BYTES} bytes.`);
+  }
+  const userAgentPublicKey = fromBase64Url(target.keys.p256dh);
+  const authSecret = fromBase64Url(target.keys.auth);
+  if (userAgentPublicKey.length !== 65 || authSecret.length < 16) {
+    throw new Error('Invalid push subscription keys.');
+  }
+
+  const ecdh = createECDH('prime256v1');
+  const serverPublicKey = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(userAgentPublicKey);
+
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), userAgentPublicKey, serverPublicKey]);
+  const ikm = hkdf(authSecret, sharedSecret, keyInfo, 32);
+  const salt = randomBytes(16);
+  const contentKey = hkdf(salt, ikm, Buffer.from('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = hkdf(salt, ikm, Buffer.from('Content-Encoding: nonce\0'), 12);
+
+  const cipher = createCipheriv('aes-128-gcm', contentKey, nonce);
+  // 0x02 marks the last (and only) record; no padding follows.
+  const ciphertext = Buffer.concat([cipher.update(Buffer.concat([payload, Buffer.from([0x02])])), cipher.final()]);
+
+  const header = Buffer.alloc(16 + 4 + 1);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(serverPublicKey.length, 20);
+  return Buffer.concat([header, serverPublicKey, ciphertext, cipher.getAuthTag()]);
+};
+
+export const sendWebPush = async (
+  target: WebPushTarget,
+  payload: unknown,
+  vapid: VapidKeys,
+  { ttlSeconds = 24 * 60 * 60, urgency = 'normal' }: WebPushOptions = {}
+) => {
+  const body = encryptPayload(target, Buffer.from(JSON.stringify(payload)));
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), SEND_TIMEOUT_MS);
+  try {
+    const response = await fetch(target.endpoint, {
+      method: 'POST',
+      headers: {
+        Authorization: createVapidAuthorization(target.endpoint, vapid),
+        'Content-Encoding': 'aes128gcm',
+        'Content-Type': 'application/octet-stream',
+        TTL: String(ttlSeconds),
+        Urgency: urgency,
+      },
+      body,
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new WebPushError(`Push service rejected the message (${response.status}) ${detail}`.trim(), response.status);
+    }
+  } finally {
+    clearTimeout(timer);
+  }
+};
@@ -18,12 +18,19 @@ import ChatThread from "./pages/chat/thread";
 import Feeds from "./pages/feeds";
 import Lists from "./pages/lists";
 import Saved from "./pages/saved";
+import Scheduled from "./pages/scheduled";
 import Hashtag from "./pages/hashtag";
+import Search from "./pages/search";
 import PostDetail from "./pages/post/detail";
 import ProfileRedirect from "./pages/profile/redirect";
 import FeedDetail from "./pages/feed/detail";
 
-const queryClient = new QueryClient();
+// ATProtoClient already retries transient failures, and feeds should not reshuffle on window focus.
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: { retry: false, refetchOnWindowFocus: false },
+  },
+});
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
@@ -48,7 +55,9 @@ const App = () => (
               <Route path="/profile/:handle/feed/:feedId" element={<FeedDetail />} />
               <Route path="/lists" element={<Lists />} />
               <Route path="/saved" element={<Saved />} />
+              <Route path="/scheduled" element={<Scheduled />} />
               <Route path="/hashtag/:tag" element={<Hashtag />} />
+              <Route path="/search" element={<Search />} />
               <Route path="/profile/:handle/post/:postId" element={<PostDetail />} />
               <Route path="*" element={<NotFound />} />
             </Routes>
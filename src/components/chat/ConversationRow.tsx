@@ -27,7 +27,13 @@ const formatTime = (dateString?: string) => {
 
 export function ConversationRow({ convo, isActive, currentUserDid }: ConversationRowProps) {
   const other = convo.members.find((member) => member.did !== currentUserDid) ?? convo.members[0];
-  const preview = convo.lastMessage?.text || (convo.lastMessage?.isDeleted ? 'Message deleted' : 'Start the conversation');
+  const preview =
+    convo.lastMessage?.text ||
+    (convo.lastMessage?.embed
+      ? 'Shared a post'
+      : convo.lastMessage?.isDeleted
+        ? 'Message deleted'
+        : 'Start the conversation');
 
   return (
     <Link
@@ -1,4 +1,6 @@
-import { ChatMessage } from '@/lib/chat';
+import { Link } from 'react-router-dom';
+import { RichText } from '@atproto/api';
+import { ChatMessage, ChatMessageEmbed } from '@/lib/chat';
 import { cn } from '@/lib/utils';
 
 interface MessageBubbleProps {
@@ -12,6 +14,84 @@ const formatTime = (dateString?: string) => {
   return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
 };
 
+const postPath = (embed: ChatMessageEmbed) => {
+  const [, , did, , rkey] = embed.uri.split('/');
+  if (!did || !rkey) return null;
+  return `/profile/${embed.author?.handle ?? did}/post/${rkey}`;
+};
+
+function MessageText({ text, facets }: Pick<ChatMessage, 'text' | 'facets'>) {
+  if (!text) return null;
+  if (!facets?.length) return <>{text}</>;
+
+  const segments = Array.from(new RichText({ text, facets }).segments());
+  return (
+    <>
+      {segments.map((segment, index) => {
+        const key = `${index}-${segment.text}`;
+        const link = segment.link?.uri;
+        if (link && /^https?:\/\//i.test(link)) {
+          return (
+            <a
+              key={key}
+              href={link}
+              target="_blank"
+              rel="noopener noreferrer nofollow"
+              className="underline underline-offset-2 break-all"
+            >
+              {segment.text}
+            </a>
+          );
+        }
+        if (segment.mention) {
+          return (
+            <Link key={key} to={`/profile/${segment.mention.did}`} className="font-semibold hover:underline">
+              {segment.text}
+            </Link>
+          );
+        }
+        if (segment.tag) {
+          return (
+            <Link key={key} to={`/hashtag/${encodeURIComponent(segment.tag.tag)}`} className="font-semibold hover:underline">
+              {segment.text}
+            </Link>
+          );
+        }
+        return <span key={key}>{segment.text}</span>;
+      })}
+    </>
+  );
+}
+
+function QuotedPost({ embed, isOwn }: { embed: ChatMessageEmbed; isOwn: boolean }) {
+  const path = postPath(embed);
+  const frame = cn(
+    'block w-full rounded-xl border px-3 py-2 text-left',
+    isOwn ? 'border-primary-foreground/30 bg-primary-foreground/10' : 'border-border bg-background'
+  );
+
+  if (embed.isUnavailable || !path) {
+    return <div className={cn(frame, 'text-xs italic opacity-80')}>This post is unavailable.</div>;
+  }
+
+  return (
+    <Link to={path} className={cn(frame, 'hover:opacity-90 transition-opacity')}>
+      {embed.author && (
+        <div className="flex items-center gap-2 min-w-0">
+          {embed.author.avatar && (
+            <img src={embed.author.avatar} alt="" className="w-5 h-5 rounded-full object-cover" />
+          )}
+          <span className="text-xs font-semibold truncate">
+            {embed.author.displayName || embed.author.handle}
+          </span>
+          <span className="text-xs opacity-70 truncate">@{embed.author.handle}</span>
+        </div>
+      )}
+      {embed.text && <p className="mt-1 text-sm line-clamp-4 whitespace-pre-wrap break-words">{embed.text}</p>}
+    </Link>
+  );
+}
+
 export function MessageBubble({ message, isOwn }: MessageBubbleProps) {
   return (
     <div
@@ -22,14 +102,25 @@ export function MessageBubble({ message, isOwn }: MessageBubbleProps) {
     >
       <div
         className={cn(
-          'px-4 py-2.5 rounded-2xl text-sm leading-relaxed shadow-sm',
+          'px-4 py-2.5 rounded-2xl text-sm leading-relaxed shadow-sm whitespace-pre-wrap break-words',
           isOwn
             ? 'bg-primary text-primary-foreground rounded-br-md'
             : 'bg-muted text-foreground rounded-bl-md',
           message.isPending && 'opacity-70'
         )}
       >
-        {message.isDeleted ? 'Message deleted' : message.text}
+        {message.isDeleted ? (
+          'Message deleted'
+        ) : (
+          <div className="space-y-2">
+            {message.text && (
+              <div>
+                <MessageText text={message.text} facets={message.facets} />
+              </div>
+            )}
+            {message.embed && <QuotedPost embed={message.embed} isOwn={isOwn} />}
+          </div>
+        )}
       </div>
       <span className="text-[11px] text-muted-foreground">
         {message.isPending ? 'Sending...' : formatTime(message.sentAt)}
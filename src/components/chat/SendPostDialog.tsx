@@ -0,0 +1,174 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from '@/components/ui/sonner';
+import { ChatConvo, ChatPostRef, chatApi } from '@/lib/chat';
+import { useAuth } from '@/contexts/AuthContext';
+import { cn } from '@/lib/utils';
+import { Loader2, Search } from 'lucide-react';
+
+interface SendPostDialogProps {
+  post: ChatPostRef;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const otherMembers = (convo: ChatConvo, currentUserDid?: string) => {
+  const others = convo.members.filter((member) => member.did !== currentUserDid);
+  return others.length > 0 ? others : convo.members;
+};
+
+const convoLabel = (convo: ChatConvo, currentUserDid?: string) =>
+  otherMembers(convo, currentUserDid)
+    .map((member) => member.displayName || member.handle)
+    .join(', ');
+
+export function SendPostDialog({ post, open, onOpenChange }: SendPostDialogProps) {
+  const { user } = useAuth();
+  const [convos, setConvos] = useState<ChatConvo[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [message, setMessage] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    chatApi
+      .listConvos({ limit: 50, status: 'accepted' })
+      .then((data) => {
+        if (!cancelled) setConvos(data.convos);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load conversations.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  const filtered = useMemo(() => {
+    const needle = query.trim().toLowerCase().replace(/^@/, '');
+    if (!needle) return convos;
+    return convos.filter((convo) =>
+      otherMembers(convo, user?.did).some(
+        (member) =>
+          member.handle.toLowerCase().includes(needle) || member.displayName?.toLowerCase().includes(needle)
+      )
+    );
+  }, [convos, query, user?.did]);
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setQuery('');
+      setSelectedId(null);
+      setMessage('');
+    }
+    onOpenChange(next);
+  };
+
+  const handleSend = async () => {
+    if (!selectedId) return;
+    setIsSending(true);
+    try {
+      await chatApi.sendMessage(selectedId, message, { uri: post.uri, cid: post.cid });
+      toast.success('Post sent');
+      handleOpenChange(false);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to send the post.');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      {/* Opened from inside clickable post cards, so keep events from reaching them. */}
+      <DialogContent
+        className="max-w-md"
+        onClick={(event) => event.stopPropagation()}
+        onKeyDown={(event) => event.stopPropagation()}
+      >
+        <DialogHeader>
+          <DialogTitle>Send via Direct Message</DialogTitle>
+        </DialogHeader>
+        <DialogDescription className="sr-only">Pick a conversation to share this post with.</DialogDescription>
+        <div className="space-y-3">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={query}
+              onChange={(event) => setQuery(event.target.value)}
+              placeholder="Search conversations"
+              className="pl-9"
+            />
+          </div>
+
+          <div className="max-h-64 overflow-y-auto rounded-lg border border-border">
+            {isLoading ? (
+              <div className="p-6 flex justify-center">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : error ? (
+              <p className="p-4 text-sm text-destructive">{error}</p>
+            ) : filtered.length === 0 ? (
+              <p className="p-4 text-sm text-muted-foreground text-center">No conversations found.</p>
+            ) : (
+              filtered.map((convo) => {
+                const [first] = otherMembers(convo, user?.did);
+                return (
+                  <button
+                    key={convo.id}
+                    type="button"
+                    onClick={() => setSelectedId(convo.id)}
+                    aria-pressed={selectedId === convo.id}
+                    className={cn(
+                      'w-full flex items-center gap-3 px-3 py-2 text-left border-b border-border last:border-b-0 transition-colors',
+                      selectedId === convo.id ? 'bg-primary/10' : 'hover:bg-muted/40'
+                    )}
+                  >
+                    <Avatar className="h-9 w-9 shrink-0">
+                      <AvatarImage src={first?.avatar} alt={first?.displayName || first?.handle} />
+                      <AvatarFallback>{first?.handle?.[0]?.toUpperCase() ?? 'C'}</AvatarFallback>
+                    </Avatar>
+                    <div className="min-w-0">
+                      <p className="text-sm font-semibold text-foreground truncate">{convoLabel(convo, user?.did)}</p>
+                      {first && <p className="text-xs text-muted-foreground truncate">@{first.handle}</p>}
+                    </div>
+                  </button>
+                );
+              })
+            )}
+          </div>
+
+          <Textarea
+            value={message}
+            onChange={(event) => setMessage(event.target.value)}
+            placeholder="Add a message (optional)"
+            maxLength={1000}
+            className="min-h-[72px]"
+          />
+
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" type="button" onClick={() => handleOpenChange(false)} disabled={isSending}>
+              Cancel
+            </Button>
+            <Button type="button" onClick={handleSend} disabled={!selectedId || isSending}>
+              {isSending ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Send'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
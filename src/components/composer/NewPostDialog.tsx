@@ -14,9 +14,14 @@ import { Input } from '@/components/ui/input';
 import { Switch } from '@/components/ui/switch';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Image as ImageIcon, Video, SmilePlus, X, Loader2 } from 'lucide-react';
+import { toast } from '@/components/ui/sonner';
+import { Image as ImageIcon, Video, SmilePlus, X, Loader2, CalendarClock } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
+import { describeAtpError } from '@/lib/atpResult';
 import { atprotoClient } from '@/lib/atproto';
+import { fetchLinkPreview, fetchLinkThumbnail, findFirstUrl, LinkPreview, linkThumbnailUrl } from '@/lib/linkPreview';
+import { formatScheduleTime, getDefaultScheduleTime, scheduledPostsApi } from '@/lib/scheduledPosts';
+import { ScheduleTimePicker } from './ScheduleTimePicker';
 
 interface ImageAttachment {
   file: File;
@@ -137,11 +142,22 @@ export function NewPostDialog({ trigger }: { trigger: React.ReactNode }) {
   const [emojiError, setEmojiError] = useState<string | null>(null);
   const [emojiOffset, setEmojiOffset] = useState(0);
   const [emojiHasMore, setEmojiHasMore] = useState(false);
+  const [linkPreview, setLinkPreview] = useState<LinkPreview | null>(null);
+  const [isLinkPreviewLoading, setIsLinkPreviewLoading] = useState(false);
+  const [dismissedLinkUrl, setDismissedLinkUrl] = useState<string | null>(null);
+  const [scheduledAt, setScheduledAt] = useState<Date | null>(null);
+  const [isScheduleOpen, setIsScheduleOpen] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement | null>(null);
   const imageInputRef = useRef<HTMLInputElement | null>(null);
   const videoInputRef = useRef<HTMLInputElement | null>(null);
 
   const remainingChars = useMemo(() => MAX_CHARS - text.length, [text.length]);
+  const detectedUrl = useMemo(() => findFirstUrl(text), [text]);
+  const hasMedia = images.length > 0 || Boolean(video);
+  // The last preview may belong to a link that has since been edited out.
+  const currentLinkPreview = linkPreview && linkPreview.url === detectedUrl ? linkPreview : null;
+  // Posts carry a single embed, so attached media replaces the link card.
+  const showLinkPreview = !hasMedia && (Boolean(currentLinkPreview) || isLinkPreviewLoading);
   const canSubmit = (text.trim().length > 0 || images.length > 0 || video) && remainingChars >= 0;
 
   useEffect(() => {
@@ -188,6 +204,33 @@ export function NewPostDialog({ trigger }: { trigger: React.ReactNode }) {
       .finally(() => setIsListsLoading(false));
   }, [open, user?.did, user?.handle]);
 
+  useEffect(() => {
+    if (!open || hasMedia) return;
+    if (!detectedUrl || detectedUrl === dismissedLinkUrl) {
+      setLinkPreview(null);
+      setIsLinkPreviewLoading(false);
+      return;
+    }
+    if (linkPreview?.url === detectedUrl) return;
+
+    const controller = new AbortController();
+    const timeout = window.setTimeout(() => {
+      setIsLinkPreviewLoading(true);
+      fetchLinkPreview(detectedUrl, controller.signal)
+        .then((preview) => setLinkPreview(preview))
+        .catch(() => {
+          if (!controller.signal.aborted) setLinkPreview(null);
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) setIsLinkPreviewLoading(false);
+        });
+    }, 600);
+    return () => {
+      controller.abort();
+      window.clearTimeout(timeout);
+    };
+  }, [open, hasMedia, detectedUrl, dismissedLinkUrl, linkPreview?.url]);
+
   const fetchEmojis = async (nextOffset: number, append: boolean) => {
     const apiKey = import.meta.env.VITE_API_NINJAS_KEY;
     if (!apiKey) {
@@ -329,9 +372,47 @@ export function NewPostDialog({ trigger }: { trigger: React.ReactNode }) {
     setError(null);
     setIsSubmitting(true);
     try {
+      const external =
+        currentLinkPreview && !hasMedia
+          ? {
+              uri: currentLinkPreview.url,
+              title: currentLinkPreview.title,
+              description: currentLinkPreview.description,
+              thumb: currentLinkPreview.image ? await fetchLinkThumbnail(currentLinkPreview.image) : null,
+            }
+          : undefined;
+      const langs = language === 'auto' ? undefined : [language];
+      const interaction = { reply: replySetting, allowQuotePosts, listUris };
+
+      if (scheduledAt) {
+        // Scheduled posts are published by the server, which keeps a copy of the images until then.
+        if (video) {
+          setError('Videos cannot be scheduled yet. Remove the video or post now.');
+          return;
+        }
+        if (scheduledAt.getTime() <= Date.now()) {
+          setError('Pick a time in the future.');
+          return;
+        }
+        await scheduledPostsApi.create({
+          text,
+          scheduledAt,
+          langs,
+          interaction,
+          images: images.map((image) => ({ file: image.file, aspectRatio: image.aspectRatio })),
+          external,
+        });
+        toast.success(`Post scheduled for ${formatScheduleTime(scheduledAt)}`, {
+          description: 'Manage it from the Scheduled page.',
+        });
+        resetComposer();
+        setOpen(false);
+        return;
+      }
+
       const result = await atprotoClient.createPost({
         text,
-        langs: language === 'auto' ? undefined : [language],
+        langs,
         images:
           images.length > 0
             ? images.map((image) => ({
@@ -345,31 +426,35 @@ export function NewPostDialog({ trigger }: { trigger: React.ReactNode }) {
               aspectRatio: video.aspectRatio,
             }
           : undefined,
-        interaction: {
-          reply: replySetting,
-          allowQuotePosts,
-          listUris,
-        },
+        external,
+        interaction,
       });
 
       if (!result.success) {
-        setError(result.error || 'Failed to post.');
+        setError(describeAtpError(result.error, 'Failed to post.'));
         return;
       }
 
-      setText('');
-      setImages([]);
-      setVideo(null);
-      setGifQuery('');
-      setGifResults([]);
+      resetComposer();
       setOpen(false);
     } catch (err) {
-      setError('Failed to post.');
+      setError(scheduledAt && err instanceof Error ? err.message : 'Failed to post.');
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  const resetComposer = () => {
+    setText('');
+    setImages([]);
+    setVideo(null);
+    setLinkPreview(null);
+    setDismissedLinkUrl(null);
+    setScheduledAt(null);
+    setGifQuery('');
+    setGifResults([]);
+  };
+
   const handleSaveDefaults = () => {
     const payload: InteractionDefaults = {
       replySetting,
@@ -391,11 +476,7 @@ export function NewPostDialog({ trigger }: { trigger: React.ReactNode }) {
   };
 
   const discardDraft = () => {
-    setText('');
-    setImages([]);
-    setVideo(null);
-    setGifQuery('');
-    setGifResults([]);
+    resetComposer();
     setError(null);
     setConfirmCloseOpen(false);
     setOpen(false);
@@ -640,6 +721,44 @@ export function NewPostDialog({ trigger }: { trigger: React.ReactNode }) {
             </div>
           )}
 
+          {showLinkPreview && (
+            <div className="relative rounded-xl overflow-hidden border border-border">
+              {currentLinkPreview ? (
+                <>
+                  {currentLinkPreview.image && (
+                    <img src={linkThumbnailUrl(currentLinkPreview.image)} alt="" className="w-full h-40 object-cover" />
+                  )}
+                  <div className="p-3 pr-12">
+                    <p className="text-sm font-semibold text-foreground line-clamp-2">{currentLinkPreview.title}</p>
+                    {currentLinkPreview.description && (
+                      <p className="text-xs text-muted-foreground line-clamp-2 mt-1">{currentLinkPreview.description}</p>
+                    )}
+                    <p className="text-xs text-muted-foreground mt-2 truncate">
+                      {currentLinkPreview.siteName ? `${currentLinkPreview.siteName} · ` : ''}
+                      {currentLinkPreview.url}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    aria-label="Remove link preview"
+                    onClick={() => {
+                      setDismissedLinkUrl(currentLinkPreview.url);
+                      setLinkPreview(null);
+                    }}
+                    className="absolute top-2 right-2 w-7 h-7 rounded-full bg-black/60 text-white flex items-center justify-center"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </>
+              ) : (
+                <div className="flex items-center gap-2 p-3 text-xs text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Loading link preview...
+                </div>
+              )}
+            </div>
+          )}
+
           <Dialog open={interactionOpen} onOpenChange={setInteractionOpen}>
             <DialogContent className="max-w-lg">
               <DialogHeader>
@@ -730,14 +849,65 @@ export function NewPostDialog({ trigger }: { trigger: React.ReactNode }) {
             </div>
           )}
 
-          <div className="flex items-center justify-between">
-            <p className="text-xs text-muted-foreground">
-              300 characters · Bluesky embeds supported
-            </p>
-            <Button type="button" onClick={handleSubmit} disabled={!canSubmit || isSubmitting}>
-              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-              Post
-            </Button>
+          <div className="flex items-center justify-between gap-3">
+            {scheduledAt ? (
+              <div className="flex items-center gap-2 rounded-full bg-primary/10 px-3 py-1 text-xs font-medium text-primary">
+                <CalendarClock className="h-3.5 w-3.5" />
+                {formatScheduleTime(scheduledAt)}
+                <button type="button" aria-label="Post now instead" onClick={() => setScheduledAt(null)}>
+                  <X className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                300 characters · Bluesky embeds supported
+              </p>
+            )}
+            <div className="flex items-center gap-2">
+              <Popover open={isScheduleOpen} onOpenChange={setIsScheduleOpen}>
+                <PopoverTrigger asChild>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    disabled={Boolean(video) || isSubmitting}
+                    title={video ? 'Videos cannot be scheduled' : undefined}
+                  >
+                    <CalendarClock className="mr-2 h-4 w-4" />
+                    Schedule
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="end">
+                  <ScheduleTimePicker value={scheduledAt ?? getDefaultScheduleTime()} onChange={setScheduledAt} />
+                  <div className="flex justify-end gap-2 border-t border-border p-3">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        setScheduledAt(null);
+                        setIsScheduleOpen(false);
+                      }}
+                    >
+                      Clear
+                    </Button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      onClick={() => {
+                        setScheduledAt((current) => current ?? getDefaultScheduleTime());
+                        setIsScheduleOpen(false);
+                      }}
+                    >
+                      Done
+                    </Button>
+                  </div>
+                </PopoverContent>
+              </Popover>
+              <Button type="button" onClick={handleSubmit} disabled={!canSubmit || isSubmitting}>
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {scheduledAt ? 'Schedule' : 'Post'}
+              </Button>
+            </div>
           </div>
         </div>
       </DialogContent>
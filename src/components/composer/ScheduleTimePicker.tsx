@@ -0,0 +1,43 @@
+import { format, isBefore, set, startOfDay } from 'date-fns';
+import { Calendar } from '@/components/ui/calendar';
+import { Input } from '@/components/ui/input';
+
+interface ScheduleTimePickerProps {
+  value: Date;
+  onChange: (value: Date) => void;
+}
+
+export function ScheduleTimePicker({ value, onChange }: ScheduleTimePickerProps) {
+  const today = startOfDay(new Date());
+
+  return (
+    <div className="space-y-3">
+      <Calendar
+        mode="single"
+        selected={value}
+        onSelect={(day) => {
+          if (!day) return;
+          onChange(set(day, { hours: value.getHours(), minutes: value.getMinutes(), seconds: 0, milliseconds: 0 }));
+        }}
+        disabled={(day) => isBefore(day, today)}
+        initialFocus
+      />
+      <div className="flex items-center gap-2 px-3 pb-3">
+        <label htmlFor="schedule-time" className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">
+          Time
+        </label>
+        <Input
+          id="schedule-time"
+          type="time"
+          value={format(value, 'HH:mm')}
+          onChange={(event) => {
+            const [hours, minutes] = event.target.value.split(':').map(Number);
+            if (Number.isNaN(hours) || Number.isNaN(minutes)) return;
+            onChange(set(value, { hours, minutes, seconds: 0, milliseconds: 0 }));
+          }}
+          className="h-8 w-32 text-sm"
+        />
+      </div>
+    </div>
+  );
+}
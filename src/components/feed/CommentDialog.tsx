@@ -2,6 +2,7 @@ import { useEffect, useState } from 'react';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
+import { describeAtpError } from '@/lib/atpResult';
 import { atprotoClient } from '@/lib/atproto';
 import { toast } from '@/components/ui/sonner';
 import type { FeedPost } from '@/components/feed/PostCard';
@@ -51,7 +52,7 @@ export function CommentDialog({
         onOpenChange(false);
         onSubmitted?.();
       } else {
-        toast(result.error || 'Failed to send reply');
+        toast(describeAtpError(result.error, 'Failed to send reply'));
       }
     } catch {
       toast('Failed to send reply');
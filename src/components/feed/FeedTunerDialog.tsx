@@ -0,0 +1,108 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { toast } from '@/components/ui/sonner';
+import { describeAtpError, toAtpClientError } from '@/lib/atpResult';
+import { FeedViewSettings } from '@/lib/feedTuner';
+import { useFeedViewSettings } from '@/hooks/use-feed-view-settings';
+import { Loader2 } from 'lucide-react';
+
+interface FeedTunerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function TunerRow({
+  title,
+  description,
+  checked,
+  disabled,
+  onCheckedChange,
+}: {
+  title: string;
+  description: string;
+  checked: boolean;
+  disabled?: boolean;
+  onCheckedChange: (checked: boolean) => void;
+}) {
+  return (
+    <div className={`flex items-center justify-between gap-4 ${disabled ? 'opacity-50' : ''}`}>
+      <div>
+        <p className="text-sm font-medium text-foreground">{title}</p>
+        <p className="text-xs text-muted-foreground">{description}</p>
+      </div>
+      <Switch checked={checked} disabled={disabled} onCheckedChange={onCheckedChange} />
+    </div>
+  );
+}
+
+export function FeedTunerDialog({ open, onOpenChange }: FeedTunerDialogProps) {
+  const { settings, save, isSaving } = useFeedViewSettings();
+  const [draft, setDraft] = useState<FeedViewSettings>(settings);
+
+  useEffect(() => {
+    if (open) setDraft(settings);
+  }, [open, settings]);
+
+  const update = (patch: Partial<FeedViewSettings>) => setDraft((prev) => ({ ...prev, ...patch }));
+
+  const handleSave = async () => {
+    try {
+      await save(draft);
+      onOpenChange(false);
+      toast('Following feed updated');
+    } catch (err) {
+      toast(describeAtpError(toAtpClientError(err), 'Failed to save feed preferences'));
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Following feed preferences</DialogTitle>
+        </DialogHeader>
+        <DialogDescription className="sr-only">Choose what shows up in your Following feed.</DialogDescription>
+
+        <div className="space-y-4">
+          <TunerRow
+            title="Show replies"
+            description="Replies appear under the post they answer."
+            checked={!draft.hideReplies}
+            onCheckedChange={(checked) => update({ hideReplies: !checked })}
+          />
+          <TunerRow
+            title="Only replies to people I follow"
+            description="Hide replies in conversations started by accounts you don't follow."
+            checked={draft.hideRepliesByUnfollowed}
+            disabled={draft.hideReplies}
+            onCheckedChange={(checked) => update({ hideRepliesByUnfollowed: checked })}
+          />
+          <TunerRow
+            title="Show reposts"
+            description="Posts shared by the accounts you follow."
+            checked={!draft.hideReposts}
+            onCheckedChange={(checked) => update({ hideReposts: !checked })}
+          />
+          <TunerRow
+            title="Show quote posts"
+            description="Posts that quote another post."
+            checked={!draft.hideQuotePosts}
+            onCheckedChange={(checked) => update({ hideQuotePosts: !checked })}
+          />
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" type="button" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="button" onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
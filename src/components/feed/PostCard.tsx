@@ -17,6 +17,8 @@ import {
   Languages,
   Pin,
   SlidersHorizontal,
+  Code2,
+  Send,
 } from 'lucide-react';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import {
@@ -32,33 +34,15 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useAuth } from '@/contexts/AuthContext';
 import { atprotoClient } from '@/lib/atproto';
+import { describeAtpError, Result } from '@/lib/atpResult';
 import { toast } from '@/components/ui/sonner';
 import { CommentDialog } from '@/components/feed/CommentDialog';
+import { SendPostDialog } from '@/components/chat/SendPostDialog';
 import { VerifiedBadge } from '@/components/VerifiedBadge';
+import { useCachedPost, useCachedProfile, usePostInteractions } from '@/hooks/use-post-cache';
+import type { CachedProfile, FeedPost } from '@/lib/postCache';
 
-export interface FeedPost {
-  uri: string;
-  cid: string;
-  author: {
-    did: string;
-    handle: string;
-    displayName?: string;
-    avatar?: string;
-    verified?: boolean;
-  };
-  record: {
-    text: string;
-    createdAt: string;
-  };
-  replyCount: number;
-  repostCount: number;
-  likeCount: number;
-  embed?: any;
-  viewer?: {
-    like?: string;
-    repost?: string;
-  };
-}
+export type { FeedPost } from '@/lib/postCache';
 
 const hashtagRegex = /#[A-Za-z0-9_]+/g;
 
@@ -402,6 +386,13 @@ type ReplySetting = 'anyone' | 'nobody' | 'followers' | 'following' | 'mentioned
 const translateUrl = (text: string) =>
   `https://translate.google.com/?sl=auto&tl=en&text=${encodeURIComponent(text)}&op=translate`;
 
+const buildEmbedSnippet = (post: FeedPost) => {
+  const rkey = post.uri.split('/').pop() ?? '';
+  const src = `${window.location.origin}/embed/${encodeURIComponent(post.author.handle)}/${encodeURIComponent(rkey)}`;
+  const title = `Post by @${post.author.handle}`.replace(/"/g, '&quot;');
+  return `<iframe src="${src}" title="${title}" width="550" height="420" style="border:0;max-width:100%" loading="lazy"></iframe>`;
+};
+
 function VideoPlayer({ src, poster }: { src: string; poster?: string }) {
   const videoRef = useRef<HTMLVideoElement | null>(null);
   const [isMuted, setIsMuted] = useState(false);
@@ -541,16 +532,25 @@ function VideoPlayer({ src, poster }: { src: string; poster?: string }) {
 }
 
 export function PostCard({
-  post,
+  post: seed,
   isSaved,
   onToggleSave,
+  repostedBy,
+  hasReplyBelow = false,
 }: {
   post: FeedPost;
   isSaved: boolean;
   onToggleSave: (post: FeedPost) => void;
+  repostedBy?: CachedProfile;
+  /** Draws a thread line down to the next card, which replies to this one. */
+  hasReplyBelow?: boolean;
 }) {
   const navigate = useNavigate();
-  const { user } = useAuth();
+  const { user, hasChatSession } = useAuth();
+  const cachedPost = useCachedPost(seed);
+  const author = useCachedProfile(cachedPost.author);
+  const post = { ...cachedPost, author };
+  const interactions = usePostInteractions(post.uri);
   const [interactionOpen, setInteractionOpen] = useState(false);
   const [replySetting, setReplySetting] = useState<ReplySetting>('anyone');
   const [allowQuotePosts, setAllowQuotePosts] = useState(true);
@@ -560,13 +560,7 @@ export function PostCard({
   const [listsError, setListsError] = useState<string | null>(null);
   const [isActionLoading, setIsActionLoading] = useState(false);
   const [commentOpen, setCommentOpen] = useState(false);
-  const [likeCount, setLikeCount] = useState(post.likeCount);
-  const [repostCount, setRepostCount] = useState(post.repostCount);
-  const [replyCount, setReplyCount] = useState(post.replyCount);
-  const [isLiked, setIsLiked] = useState(Boolean(post.viewer?.like));
-  const [isReposted, setIsReposted] = useState(Boolean(post.viewer?.repost));
-  const [likeUri, setLikeUri] = useState(post.viewer?.like);
-  const [repostUri, setRepostUri] = useState(post.viewer?.repost);
+  const [sendOpen, setSendOpen] = useState(false);
   const timeAgo = (dateString: string) => {
     const date = new Date(dateString);
     const now = new Date();
@@ -587,15 +581,8 @@ export function PostCard({
   const postId = post.uri.split('/').pop() ?? '';
   const isOwnPost = Boolean(user?.did && user.did === post.author.did);
 
-  useEffect(() => {
-    setLikeCount(post.likeCount);
-    setRepostCount(post.repostCount);
-    setReplyCount(post.replyCount);
-    setIsLiked(Boolean(post.viewer?.like));
-    setIsReposted(Boolean(post.viewer?.repost));
-    setLikeUri(post.viewer?.like);
-    setRepostUri(post.viewer?.repost);
-  }, [post.uri, post.likeCount, post.repostCount, post.replyCount, post.viewer?.like, post.viewer?.repost]);
+  const isLiked = Boolean(post.viewer?.like);
+  const isReposted = Boolean(post.viewer?.repost);
 
   useEffect(() => {
     if (!interactionOpen) return;
@@ -641,7 +628,7 @@ export function PostCard({
       .finally(() => setIsListsLoading(false));
   }, [interactionOpen, user?.did, user?.handle]);
 
-  const runAction = async (action: () => Promise<{ success: boolean; error?: string }>, message: string) => {
+  const runAction = async (action: () => Promise<Result>, message: string) => {
     if (isActionLoading) return;
     setIsActionLoading(true);
     try {
@@ -649,7 +636,7 @@ export function PostCard({
       if (result.success) {
         toast(message);
       } else {
-        toast(result.error || 'Action failed');
+        toast(describeAtpError(result.error, 'Action failed'));
       }
     } catch (err) {
       toast('Action failed');
@@ -667,6 +654,23 @@ export function PostCard({
     }
   };
 
+  const handleCopyEmbed = async () => {
+    try {
+      await navigator.clipboard.writeText(buildEmbedSnippet(post));
+      toast('Embed code copied');
+    } catch {
+      toast('Copy failed');
+    }
+  };
+
+  const handleSendViaDm = () => {
+    if (!hasChatSession) {
+      toast('Sign in again to use direct messages');
+      return;
+    }
+    setSendOpen(true);
+  };
+
   const handleTranslate = () => {
     window.open(translateUrl(post.record.text || ''), '_blank', 'noopener,noreferrer');
   };
@@ -691,74 +695,47 @@ export function PostCard({
     toast(isSaved ? 'Removed from saved posts' : 'Post saved');
   };
 
-  const handleLike = async (event: React.MouseEvent<HTMLButtonElement>) => {
+  const toggleInteraction = async (
+    kind: 'like' | 'repost',
+    messages: { done: string; undone: string; failed: string; undoFailed: string }
+  ) => {
+    if (interactions.isPending) return;
+    const wasActive = kind === 'like' ? isLiked : isReposted;
+    const result = await interactions.toggle(kind);
+    if (!result) return;
+    if (result.success) {
+      toast(wasActive ? messages.undone : messages.done);
+    } else {
+      toast(describeAtpError(result.error, wasActive ? messages.undoFailed : messages.failed));
+    }
+  };
+
+  const handleLike = (event: React.MouseEvent<HTMLButtonElement>) => {
     event.stopPropagation();
     if (!user) {
       toast('Sign in to like posts');
       return;
     }
-    if (isActionLoading) return;
-    setIsActionLoading(true);
-    try {
-      if (isLiked && likeUri) {
-        const result = await atprotoClient.deleteLike(likeUri);
-        if (result.success) {
-          setIsLiked(false);
-          setLikeUri(undefined);
-          setLikeCount((prev) => Math.max(0, prev - 1));
-          toast('Like removed');
-        } else {
-          toast(result.error || 'Failed to remove like');
-        }
-      } else {
-        const result = await atprotoClient.likePost(post.uri, post.cid);
-        if (result.success && result.uri) {
-          setIsLiked(true);
-          setLikeUri(result.uri);
-          setLikeCount((prev) => prev + 1);
-          toast('Post liked');
-        } else {
-          toast(result.error || 'Failed to like post');
-        }
-      }
-    } finally {
-      setIsActionLoading(false);
-    }
+    toggleInteraction('like', {
+      done: 'Post liked',
+      undone: 'Like removed',
+      failed: 'Failed to like post',
+      undoFailed: 'Failed to remove like',
+    });
   };
 
-  const handleRepost = async (event: React.MouseEvent<HTMLButtonElement>) => {
+  const handleRepost = (event: React.MouseEvent<HTMLButtonElement>) => {
     event.stopPropagation();
     if (!user) {
       toast('Sign in to repost');
       return;
     }
-    if (isActionLoading) return;
-    setIsActionLoading(true);
-    try {
-      if (isReposted && repostUri) {
-        const result = await atprotoClient.deleteRepost(repostUri);
-        if (result.success) {
-          setIsReposted(false);
-          setRepostUri(undefined);
-          setRepostCount((prev) => Math.max(0, prev - 1));
-          toast('Repost removed');
-        } else {
-          toast(result.error || 'Failed to remove repost');
-        }
-      } else {
-        const result = await atprotoClient.repostPost(post.uri, post.cid);
-        if (result.success && result.uri) {
-          setIsReposted(true);
-          setRepostUri(result.uri);
-          setRepostCount((prev) => prev + 1);
-          toast('Post reposted');
-        } else {
-          toast(result.error || 'Failed to repost');
-        }
-      }
-    } finally {
-      setIsActionLoading(false);
-    }
+    toggleInteraction('repost', {
+      done: 'Post reposted',
+      undone: 'Repost removed',
+      failed: 'Failed to repost',
+      undoFailed: 'Failed to remove repost',
+    });
   };
 
   const handleOpenReply = (event: React.MouseEvent<HTMLButtonElement>) => {
@@ -775,7 +752,7 @@ export function PostCard({
 
   return (
     <article
-      className="p-4 border-b border-border hover:bg-muted/30 transition-colors duration-200"
+      className={`p-4 ${hasReplyBelow ? '' : 'border-b border-border'} hover:bg-muted/30 transition-colors duration-200`}
       onClick={handleCardClick}
       role="button"
       tabIndex={0}
@@ -783,23 +760,35 @@ export function PostCard({
         if (event.key === 'Enter') handleCardClick(event as unknown as React.MouseEvent<HTMLDivElement>);
       }}
     >
+      {repostedBy && (
+        <Link
+          to={`/profile/${repostedBy.handle}`}
+          className="ml-8 mb-2 flex items-center gap-2 text-xs font-medium text-muted-foreground hover:underline"
+        >
+          <Repeat2 className="w-3.5 h-3.5" />
+          <span className="truncate">Reposted by {repostedBy.displayName || repostedBy.handle}</span>
+        </Link>
+      )}
       <div className="flex gap-3">
         {/* Avatar */}
-        <Link to={`/profile/${post.author.handle}`} className="shrink-0">
-          <div className="w-11 h-11 rounded-full overflow-hidden bg-muted">
-            {post.author.avatar ? (
-              <img
-                src={post.author.avatar}
-                alt={post.author.displayName || post.author.handle}
-                className="w-full h-full object-cover"
-              />
-            ) : (
-              <div className="w-full h-full flex items-center justify-center text-sm font-semibold text-muted-foreground">
-                {post.author.handle[0]?.toUpperCase()}
-              </div>
-            )}
-          </div>
-        </Link>
+        <div className="shrink-0 flex flex-col items-center">
+          <Link to={`/profile/${post.author.handle}`}>
+            <div className="w-11 h-11 rounded-full overflow-hidden bg-muted">
+              {post.author.avatar ? (
+                <img
+                  src={post.author.avatar}
+                  alt={post.author.displayName || post.author.handle}
+                  className="w-full h-full object-cover"
+                />
+              ) : (
+                <div className="w-full h-full flex items-center justify-center text-sm font-semibold text-muted-foreground">
+                  {post.author.handle[0]?.toUpperCase()}
+                </div>
+              )}
+            </div>
+          </Link>
+          {hasReplyBelow && <div className="w-0.5 flex-1 mt-2 -mb-4 bg-border" />}
+        </div>
 
         {/* Content */}
         <div className="flex-1 min-w-0">
@@ -878,6 +867,14 @@ export function PostCard({
                         <Languages className="w-4 h-4 mr-2" />
                         Translate
                       </DropdownMenuItem>
+                      <DropdownMenuItem onClick={handleCopyEmbed}>
+                        <Code2 className="w-4 h-4 mr-2" />
+                        Embed post
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={handleSendViaDm}>
+                        <Send className="w-4 h-4 mr-2" />
+                        Send via Direct Message
+                      </DropdownMenuItem>
                     </>
                   )}
 
@@ -906,6 +903,14 @@ export function PostCard({
                         <Languages className="w-4 h-4 mr-2" />
                         Translate
                       </DropdownMenuItem>
+                      <DropdownMenuItem onClick={handleCopyEmbed}>
+                        <Code2 className="w-4 h-4 mr-2" />
+                        Embed post
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={handleSendViaDm}>
+                        <Send className="w-4 h-4 mr-2" />
+                        Send via Direct Message
+                      </DropdownMenuItem>
                       <DropdownMenuItem
                         onClick={() =>
                           runAction(() => atprotoClient.pinPostToProfile(post.uri, post.cid), 'Post pinned to profile')
@@ -1035,7 +1040,7 @@ export function PostCard({
               className="flex items-center gap-2 text-muted-foreground hover:text-primary transition-colors p-2 rounded-full hover:bg-primary/10"
             >
               <MessageSquare className="w-4 h-4" />
-              <span className="text-sm">{replyCount || ''}</span>
+              <span className="text-sm">{post.replyCount || ''}</span>
             </button>
             <button
               type="button"
@@ -1047,7 +1052,7 @@ export function PostCard({
               }`}
             >
               <Repeat2 className="w-4 h-4" />
-              <span className="text-sm">{repostCount || ''}</span>
+              <span className="text-sm">{post.repostCount || ''}</span>
             </button>
             <button
               type="button"
@@ -1059,7 +1064,7 @@ export function PostCard({
               }`}
             >
               <Heart className="w-4 h-4" fill={isLiked ? 'currentColor' : 'none'} />
-              <span className="text-sm">{likeCount || ''}</span>
+              <span className="text-sm">{post.likeCount || ''}</span>
             </button>
             <button
               type="button"
@@ -1080,8 +1085,9 @@ export function PostCard({
         open={commentOpen}
         onOpenChange={setCommentOpen}
         post={post}
-        onSubmitted={() => setReplyCount((prev) => prev + 1)}
+        onSubmitted={interactions.bumpReplyCount}
       />
+      {hasChatSession && <SendPostDialog open={sendOpen} onOpenChange={setSendOpen} post={post} />}
     </article>
   );
 }
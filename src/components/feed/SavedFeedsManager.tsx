@@ -0,0 +1,142 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { GripVertical, List, Pin, PinOff, Star, Trash2, Users } from 'lucide-react';
+import { moveSavedFeed, SavedFeedItem } from '@/lib/savedFeeds';
+
+interface SavedFeedLabel {
+  name: string;
+  creatorHandle?: string;
+  avatar?: string;
+}
+
+interface SavedFeedsManagerProps {
+  items: SavedFeedItem[];
+  labels: Record<string, SavedFeedLabel>;
+  onChange: (items: SavedFeedItem[]) => void;
+}
+
+const feedRoute = (item: SavedFeedItem, label?: SavedFeedLabel) => {
+  if (item.type === 'timeline') return '/feed';
+  if (item.type === 'feed' && label?.creatorHandle) {
+    return `/profile/${label.creatorHandle}/feed/${item.value.split('/').pop()}`;
+  }
+  return null;
+};
+
+/**
+ * Saved feeds in tab order. Rows reorder by dragging the grip, or with the
+ * arrow keys while it has focus, since native drag and drop has no touch or
+ * keyboard support.
+ */
+export function SavedFeedsManager({ items, labels, onChange }: SavedFeedsManagerProps) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+
+  const move = (from: number, to: number) => {
+    const next = moveSavedFeed(items, from, to);
+    if (next !== items) onChange(next);
+  };
+
+  const endDrag = () => {
+    setDragIndex(null);
+    setOverIndex(null);
+  };
+
+  return (
+    <ul className="space-y-2">
+      {items.map((item, index) => {
+        const label = labels[item.value];
+        const title =
+          item.type === 'timeline' ? 'Following' : label?.name ?? (item.type === 'list' ? 'List' : 'Feed');
+        const description =
+          item.type === 'timeline'
+            ? 'Posts from people you follow'
+            : label?.creatorHandle
+              ? `${item.type === 'list' ? 'List' : 'Feed'} by @${label.creatorHandle}`
+              : item.value;
+        const route = feedRoute(item, label);
+        const Icon = item.type === 'timeline' ? Users : item.type === 'list' ? List : Star;
+
+        return (
+          <li
+            key={item.id}
+            draggable
+            onDragStart={(event) => {
+              event.dataTransfer.effectAllowed = 'move';
+              setDragIndex(index);
+            }}
+            onDragOver={(event) => {
+              if (dragIndex === null) return;
+              event.preventDefault();
+              setOverIndex(index);
+            }}
+            onDrop={(event) => {
+              event.preventDefault();
+              if (dragIndex !== null) move(dragIndex, index);
+              endDrag();
+            }}
+            onDragEnd={endDrag}
+            className={`flex items-center gap-3 rounded-lg border px-3 py-3 bg-background transition-colors ${
+              overIndex === index && dragIndex !== index ? 'border-primary' : 'border-border/70'
+            } ${dragIndex === index ? 'opacity-50' : ''}`}
+          >
+            <button
+              type="button"
+              className="cursor-grab text-muted-foreground hover:text-foreground rounded p-1"
+              aria-label={`Reorder ${title}`}
+              onKeyDown={(event) => {
+                if (event.key === 'ArrowUp') {
+                  event.preventDefault();
+                  move(index, index - 1);
+                } else if (event.key === 'ArrowDown') {
+                  event.preventDefault();
+                  move(index, index + 1);
+                }
+              }}
+            >
+              <GripVertical className="h-4 w-4" />
+            </button>
+            <div className="h-9 w-9 rounded-lg overflow-hidden bg-primary/10 text-primary flex items-center justify-center shrink-0">
+              {label?.avatar ? (
+                <img src={label.avatar} alt={title} className="h-full w-full object-cover" />
+              ) : (
+                <Icon className="h-4 w-4" />
+              )}
+            </div>
+            <div className="flex-1 min-w-0">
+              {route ? (
+                <Link to={route} className="font-semibold text-foreground hover:underline truncate block">
+                  {title}
+                </Link>
+              ) : (
+                <p className="font-semibold text-foreground truncate">{title}</p>
+              )}
+              <p className="text-xs text-muted-foreground truncate">{description}</p>
+            </div>
+            <button
+              type="button"
+              onClick={() =>
+                onChange(items.map((entry) => (entry.id === item.id ? { ...entry, pinned: !entry.pinned } : entry)))
+              }
+              className={`p-2 rounded-full transition-colors ${
+                item.pinned ? 'text-primary bg-primary/10' : 'text-muted-foreground hover:text-foreground'
+              }`}
+              aria-label={item.pinned ? `Unpin ${title}` : `Pin ${title}`}
+              aria-pressed={item.pinned}
+            >
+              {item.pinned ? <Pin className="h-4 w-4" /> : <PinOff className="h-4 w-4" />}
+            </button>
+            <button
+              type="button"
+              onClick={() => onChange(items.filter((entry) => entry.id !== item.id))}
+              className="p-2 rounded-full text-muted-foreground hover:text-destructive hover:bg-destructive/10 transition-colors"
+              aria-label={`Remove ${title}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
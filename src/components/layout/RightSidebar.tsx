@@ -8,9 +8,10 @@ import { useAuth } from '@/contexts/AuthContext';
 import { atprotoClient } from '@/lib/atproto';
 import { VerifiedBadge } from '@/components/VerifiedBadge';
 
-const consolidatedMessage = (message?: { text?: string; isDeleted?: boolean }) => {
+const consolidatedMessage = (message?: { text?: string; embed?: unknown; isDeleted?: boolean }) => {
   if (!message) return 'Start chatting';
   if (message.text) return message.text;
+  if (message.embed) return 'Shared a post';
   if (message.isDeleted) return 'Message deleted';
   return 'Start chatting';
 };
@@ -8,6 +8,7 @@ import {
   Hash,
   List,
   Bookmark,
+  CalendarClock,
 } from 'lucide-react';
 
 export const navItems = [
@@ -18,6 +19,7 @@ export const navItems = [
   { icon: Hash, label: 'Feeds', path: '/feeds' },
   { icon: List, label: 'Lists', path: '/lists' },
   { icon: Bookmark, label: 'Saved', path: '/saved' },
+  { icon: CalendarClock, label: 'Scheduled', path: '/scheduled' },
   { icon: User, label: 'Profile', path: '/profile' },
   { icon: Settings, label: 'Settings', path: '/settings' },
 ];
@@ -0,0 +1,106 @@
+import { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { EMPTY_POST_SEARCH_FILTERS, PostSearchFilters } from '@/lib/postSearch';
+
+type TextFilter = 'from' | 'mentions' | 'lang' | 'since' | 'until' | 'domain';
+
+const TEXT_FIELDS: { key: TextFilter; label: string; placeholder?: string; type?: string }[] = [
+  { key: 'from', label: 'From', placeholder: 'handle.bsky.social' },
+  { key: 'mentions', label: 'Mentions', placeholder: 'handle.bsky.social' },
+  { key: 'lang', label: 'Language', placeholder: 'en' },
+  { key: 'domain', label: 'Links to domain', placeholder: 'example.com' },
+  { key: 'since', label: 'Since', type: 'date' },
+  { key: 'until', label: 'Until', type: 'date' },
+];
+
+interface PostSearchFilterBuilderProps {
+  filters: PostSearchFilters;
+  onApply: (filters: PostSearchFilters) => void;
+}
+
+/** Edits the operators of a search query; the free text is left to the search box. */
+export function PostSearchFilterBuilder({ filters, onApply }: PostSearchFilterBuilderProps) {
+  const [draft, setDraft] = useState<PostSearchFilters>(filters);
+
+  useEffect(() => {
+    setDraft(filters);
+  }, [filters]);
+
+  const update = (patch: Partial<PostSearchFilters>) => setDraft((prev) => ({ ...prev, ...patch }));
+
+  return (
+    <form
+      className="space-y-4 px-4 py-4 border-b border-border"
+      onSubmit={(event) => {
+        event.preventDefault();
+        onApply(draft);
+      }}
+    >
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {TEXT_FIELDS.map((field) => (
+          <div key={field.key} className="space-y-1.5">
+            <Label htmlFor={`post-search-${field.key}`}>{field.label}</Label>
+            <Input
+              id={`post-search-${field.key}`}
+              type={field.type ?? 'text'}
+              placeholder={field.placeholder}
+              value={draft[field.key]}
+              onChange={(event) => update({ [field.key]: event.target.value })}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center justify-between gap-4">
+        <Label htmlFor="post-search-has-media">Only posts with images or video</Label>
+        <Switch
+          id="post-search-has-media"
+          checked={draft.hasMedia}
+          onCheckedChange={(checked) => update({ hasMedia: checked })}
+        />
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => onApply({ ...EMPTY_POST_SEARCH_FILTERS, text: filters.text })}
+        >
+          Clear filters
+        </Button>
+        <Button type="submit">Apply</Button>
+      </div>
+    </form>
+  );
+}
+
+const chipLabel = (key: TextFilter | 'hasMedia', filters: PostSearchFilters) =>
+  key === 'hasMedia' ? 'has:media' : `${key}:${filters[key]}`;
+
+/** The active operators as removable chips. */
+export function PostSearchFilterChips({ filters, onApply }: PostSearchFilterBuilderProps) {
+  const active = [
+    ...TEXT_FIELDS.map((field) => field.key).filter((key) => filters[key]),
+    ...(filters.hasMedia ? (['hasMedia'] as const) : []),
+  ];
+  if (active.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2 px-4 pb-3">
+      {active.map((key) => (
+        <button
+          key={key}
+          type="button"
+          onClick={() => onApply({ ...filters, [key]: key === 'hasMedia' ? false : '' })}
+          className="inline-flex items-center gap-1 rounded-full bg-primary/10 text-primary text-xs font-medium px-3 py-1 hover:bg-primary/20 transition-colors"
+          aria-label={`Remove ${chipLabel(key, filters)}`}
+        >
+          {chipLabel(key, filters)}
+          <X className="h-3 w-3" />
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { FeedPost, PostCard } from '@/components/feed/PostCard';
+import { atprotoClient } from '@/lib/atproto';
+import { describeAtpError } from '@/lib/atpResult';
+import { getSavedPosts, removeSavedPost, savePost, SavedPost } from '@/lib/savedPosts';
+import { parsePostSearchQuery, postHasMedia, PostSearchSort, toServerPostSearchQuery } from '@/lib/postSearch';
+import { usePostList } from '@/hooks/use-post-cache';
+
+const SORT_OPTIONS: { value: PostSearchSort; label: string }[] = [
+  { value: 'top', label: 'Top' },
+  { value: 'latest', label: 'Latest' },
+];
+
+export function PostSearchSortToggle({
+  sort,
+  onChange,
+}: {
+  sort: PostSearchSort;
+  onChange: (sort: PostSearchSort) => void;
+}) {
+  return (
+    <div className="flex border-b border-border" role="tablist" aria-label="Sort results">
+      {SORT_OPTIONS.map((option) => (
+        <button
+          key={option.value}
+          type="button"
+          role="tab"
+          aria-selected={sort === option.value}
+          onClick={() => onChange(option.value)}
+          className={`flex-1 px-4 py-3 text-sm font-medium transition-colors relative ${
+            sort === option.value ? 'text-primary' : 'text-muted-foreground hover:text-foreground'
+          }`}
+        >
+          {option.label}
+          {sort === option.value && <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-primary" />}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+interface PostSearchResultsProps {
+  query: string;
+  sort: PostSearchSort;
+}
+
+export function PostSearchResults({ query, sort }: PostSearchResultsProps) {
+  const filters = parsePostSearchQuery(query);
+  const serverQuery = toServerPostSearchQuery(filters);
+  const { posts, error, isLoading, isLoadingMore, hasMore, loadMore, refresh } = usePostList(
+    ['searchPosts', serverQuery, sort, filters.hasMedia],
+    async (cursor) => {
+      const result = await atprotoClient.searchPosts(serverQuery, { sort, cursor });
+      if (!result.success || !filters.hasMedia) return result;
+      return { ...result, data: (result.data ?? []).filter(postHasMedia) };
+    },
+    { enabled: Boolean(serverQuery), shape: 'posts' }
+  );
+  const [savedUris, setSavedUris] = useState<Set<string>>(new Set());
+  const loadMoreRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    setSavedUris(new Set(getSavedPosts().map((post) => post.uri)));
+  }, []);
+
+  const toggleSave = useCallback((post: FeedPost) => {
+    setSavedUris((prev) => {
+      const next = new Set(prev);
+      if (next.has(post.uri)) {
+        next.delete(post.uri);
+        removeSavedPost(post.uri);
+      } else {
+        savePost(post as SavedPost);
+        next.add(post.uri);
+      }
+      return next;
+    });
+  }, []);
+
+  // has:media can filter a whole page away, so keep loading while the sentinel stays in view.
+  useEffect(() => {
+    const node = loadMoreRef.current;
+    if (!node || !hasMore) return;
+    if (isLoading || isLoadingMore) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) {
+          loadMore();
+        }
+      },
+      { rootMargin: '200px' }
+    );
+
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [hasMore, isLoading, isLoadingMore, loadMore]);
+
+  if (!serverQuery) {
+    return (
+      <div className="p-8 text-center">
+        <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center mx-auto mb-4">
+          <Search className="w-8 h-8 text-muted-foreground" />
+        </div>
+        <h2 className="text-lg font-semibold text-foreground mb-2">Search posts</h2>
+        <p className="text-muted-foreground">
+          {filters.hasMedia ? 'Add some words or a filter to go with has:media' : 'Find posts by keyword, author, language or date'}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {error && (
+        <div className="p-4 m-4 rounded-lg bg-destructive/10 border border-destructive/20 text-destructive text-sm">
+          {describeAtpError(error, 'Search failed')}
+          <Button variant="ghost" size="sm" onClick={refresh} className="ml-2">
+            Retry
+          </Button>
+        </div>
+      )}
+
+      {isLoading ? (
+        [...Array(4)].map((_, i) => (
+          <div key={i} className="p-4 border-b border-border">
+            <div className="flex gap-3">
+              <Skeleton className="w-11 h-11 rounded-full" />
+              <div className="flex-1 space-y-3">
+                <div className="flex items-center gap-2">
+                  <Skeleton className="h-4 w-24" />
+                  <Skeleton className="h-4 w-32" />
+                </div>
+                <Skeleton className="h-4 w-full" />
+                <Skeleton className="h-4 w-3/4" />
+              </div>
+            </div>
+          </div>
+        ))
+      ) : posts.length === 0 && !hasMore ? (
+        !error && <div className="p-8 text-center text-muted-foreground">No posts match this search.</div>
+      ) : (
+        posts.map((post) => (
+          <PostCard key={post.uri} post={post} isSaved={savedUris.has(post.uri)} onToggleSave={toggleSave} />
+        ))
+      )}
+
+      {hasMore && !isLoading && (
+        <div className="flex justify-center py-6">
+          <Button variant="outline" onClick={() => loadMore()} disabled={isLoadingMore}>
+            {isLoadingMore ? 'Loading...' : 'Load more'}
+          </Button>
+        </div>
+      )}
+
+      {hasMore && <div ref={loadMoreRef} className="h-6" />}
+    </div>
+  );
+}
@@ -1,4 +1,6 @@
 import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import type { Result } from '@/lib/atpResult';
 import { atprotoClient } from '@/lib/atproto';
 import { chatApi } from '@/lib/chat';
 
@@ -16,7 +18,9 @@ interface AuthContextType {
   isAuthenticated: boolean;
   hasChatSession: boolean;
   isChatSessionLoading: boolean;
-  login: (identifier: string, password: string) => Promise<{ success: boolean; error?: string }>;
+  login: (identifier: string, password: string, hostingProvider?: string) => Promise<Result>;
+  /** Leaves for the authorization server on success; only failures resolve. */
+  loginWithOAuth: (identifier: string, hostingProvider?: string) => Promise<{ success: boolean; error?: string }>;
   logout: () => Promise<void>;
   refreshUser: () => Promise<void>;
   initChatSession: (identifier: string, password: string) => Promise<boolean>;
@@ -30,6 +34,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [isLoading, setIsLoading] = useState(true);
   const [hasChatSession, setHasChatSession] = useState(false);
   const [isChatSessionLoading, setIsChatSessionLoading] = useState(false);
+  // Cached posts carry the signed-in account's like/repost state, so they are reset whenever the account changes.
+  const queryClient = useQueryClient();
 
   const refreshUser = useCallback(async () => {
     if (!atprotoClient.isAuthenticated()) {
@@ -57,6 +63,20 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     const initAuth = async () => {
       setIsLoading(true);
       try {
+        if (atprotoClient.hasOAuthLogin()) {
+          const resumed = await atprotoClient.resumeOAuthSession();
+          if (resumed) {
+            await refreshUser();
+            setHasChatSession(true);
+            return;
+          }
+          const account = atprotoClient.getStoredOAuthAccount();
+          if (account) {
+            setUser({ did: account.did, handle: account.handle ?? account.did });
+            return;
+          }
+        }
+
         const resumed = await atprotoClient.resumeSession();
         if (resumed) {
           await refreshUser();
@@ -64,7 +84,11 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           try {
             const sessionData = atprotoClient.getSession();
             if (sessionData) {
-              await chatApi.restoreSession(sessionData);
+              // Reuse a live server session instead of sending the tokens again.
+              const existing = await chatApi.checkSession().catch(() => null);
+              if (existing?.did !== sessionData.did) {
+                await chatApi.restoreSession(sessionData, atprotoClient.getServiceUrl());
+              }
               setHasChatSession(true);
             } else {
               setHasChatSession(false);
@@ -96,7 +120,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const initChatSession = useCallback(async (identifier: string, password: string) => {
     setIsChatSessionLoading(true);
     try {
-      await chatApi.createSession(identifier, password);
+      await chatApi.createSession(identifier, password, atprotoClient.getServiceUrl());
       setHasChatSession(true);
       return true;
     } catch (error) {
@@ -114,9 +138,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       try {
         const ok = await atprotoClient.switchSession(session);
         if (!ok) return false;
+        queryClient.resetQueries();
         await refreshUser();
         try {
-          await chatApi.restoreSession(session);
+          await chatApi.restoreSession(session, atprotoClient.getServiceUrl());
           setHasChatSession(true);
         } catch {
           setHasChatSession(false);
@@ -129,20 +154,37 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         setIsChatSessionLoading(false);
       }
     },
-    [refreshUser]
+    [refreshUser, queryClient]
   );
 
-  const login = async (identifier: string, password: string) => {
-    const result = await atprotoClient.login(identifier, password);
+  const login = async (identifier: string, password: string, hostingProvider?: string) => {
+    const result = await atprotoClient.login(identifier, password, hostingProvider);
     if (result.success) {
+      queryClient.resetQueries();
       await refreshUser();
       await initChatSession(identifier, password);
     }
     return result;
   };
 
+  const loginWithOAuth = async (identifier: string, hostingProvider?: string) => {
+    try {
+      const { url } = await chatApi.startOAuth(identifier.trim() || undefined, hostingProvider);
+      atprotoClient.beginOAuthLogin();
+      window.location.assign(url);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Could not start sign-in.' };
+    }
+  };
+
   const logout = async () => {
+    if (atprotoClient.isOAuthSession()) {
+      // The server holds the OAuth tokens; ending its session revokes them.
+      await chatApi.deleteSession().catch((error) => console.error('Failed to end OAuth session:', error));
+    }
     await atprotoClient.logout();
+    queryClient.resetQueries();
     setUser(null);
     setHasChatSession(false);
   };
@@ -156,6 +198,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         hasChatSession,
         isChatSessionLoading,
         login,
+        loginWithOAuth,
         logout,
         refreshUser,
         initChatSession,
@@ -0,0 +1,94 @@
+import { useEffect, useRef } from 'react';
+import { chatApi, ChatLogEntry, normalizeChatLogEntry } from '@/lib/chat';
+
+const LOG_EVENTS = [
+  'message',
+  'message-delete',
+  'read',
+  'convo-begin',
+  'convo-accept',
+  'convo-leave',
+  'convo-mute',
+  'convo-unmute',
+  'reaction-add',
+  'reaction-remove',
+];
+const MIN_RETRY_MS = 1000;
+const MAX_RETRY_MS = 30000;
+
+interface UseChatEventsOptions {
+  enabled: boolean;
+  onEvent: (entry: ChatLogEntry) => void;
+  onSessionExpired?: () => void;
+}
+
+export function useChatEvents({ enabled, onEvent, onSessionExpired }: UseChatEventsOptions) {
+  const onEventRef = useRef(onEvent);
+  const onSessionExpiredRef = useRef(onSessionExpired);
+  onEventRef.current = onEvent;
+  onSessionExpiredRef.current = onSessionExpired;
+
+  useEffect(() => {
+    if (!enabled || typeof EventSource === 'undefined') return;
+
+    let source: EventSource | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempt = 0;
+    let lastEventId: string | undefined;
+    let disposed = false;
+
+    const handleLogEvent = (event: MessageEvent) => {
+      if (event.lastEventId) lastEventId = event.lastEventId;
+      try {
+        const entry = normalizeChatLogEntry(JSON.parse(event.data));
+        if (entry) onEventRef.current(entry);
+      } catch {
+        // ignore malformed frames
+      }
+    };
+
+    const scheduleReconnect = () => {
+      if (disposed) return;
+      const delay = Math.min(MAX_RETRY_MS, MIN_RETRY_MS * 2 ** attempt);
+      attempt += 1;
+      retryTimer = setTimeout(connect, delay / 2 + Math.random() * (delay / 2));
+    };
+
+    const connect = () => {
+      if (disposed) return;
+      source = new EventSource(chatApi.eventsUrl(lastEventId), { withCredentials: true });
+      source.addEventListener('ready', () => {
+        attempt = 0;
+      });
+      LOG_EVENTS.forEach((name) => source?.addEventListener(name, handleLogEvent as EventListener));
+      source.addEventListener('session-expired', () => {
+        disposed = true;
+        source?.close();
+        source = null;
+        onSessionExpiredRef.current?.();
+      });
+      source.onerror = () => {
+        source?.close();
+        source = null;
+        scheduleReconnect();
+      };
+    };
+
+    const handleOnline = () => {
+      if (source || disposed) return;
+      clearTimeout(retryTimer);
+      attempt = 0;
+      connect();
+    };
+
+    connect();
+    window.addEventListener('online', handleOnline);
+
+    return () => {
+      disposed = true;
+      clearTimeout(retryTimer);
+      window.removeEventListener('online', handleOnline);
+      source?.close();
+    };
+  }, [enabled]);
+}
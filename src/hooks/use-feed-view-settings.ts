@@ -0,0 +1,47 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { atprotoClient } from '@/lib/atproto';
+import { AtpClientError } from '@/lib/atpResult';
+import { DEFAULT_FEED_VIEW_SETTINGS, FeedViewSettings, HOME_FEED, toFeedViewSettings } from '@/lib/feedTuner';
+
+export const feedViewKeys = {
+  detail: (feed: string) => ['preferences', 'feedView', feed] as const,
+};
+
+/** Reads and saves the account's feed view preference, applying a save to the cache before it lands. */
+export function useFeedViewSettings(feed: string = HOME_FEED, enabled: boolean = true) {
+  const queryClient = useQueryClient();
+  const queryKey = feedViewKeys.detail(feed);
+
+  const query = useQuery<FeedViewSettings, AtpClientError>({
+    queryKey,
+    enabled,
+    staleTime: Infinity,
+    queryFn: async () => {
+      const result = await atprotoClient.getFeedViewPref(feed);
+      if (!result.success) throw result.error;
+      return toFeedViewSettings(result.data);
+    },
+  });
+
+  const mutation = useMutation<void, AtpClientError, FeedViewSettings, { previous?: FeedViewSettings }>({
+    mutationFn: async (settings) => {
+      const result = await atprotoClient.updateFeedViewPref({ feed, ...settings });
+      if (!result.success) throw result.error;
+    },
+    onMutate: (settings) => {
+      const previous = queryClient.getQueryData<FeedViewSettings>(queryKey);
+      queryClient.setQueryData(queryKey, settings);
+      return { previous };
+    },
+    onError: (_error, _settings, context) => {
+      queryClient.setQueryData(queryKey, context?.previous);
+    },
+  });
+
+  return {
+    settings: query.data ?? DEFAULT_FEED_VIEW_SETTINGS,
+    error: query.error,
+    save: mutation.mutateAsync,
+    isSaving: mutation.isPending,
+  };
+}
@@ -0,0 +1,216 @@
+import { useCallback, useMemo } from 'react';
+import { InfiniteData, useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { AppBskyFeedDefs } from '@atproto/api';
+import { atprotoClient } from '@/lib/atproto';
+import { AtpClientError, Result } from '@/lib/atpResult';
+import {
+  CachedProfile,
+  cacheFeedItems,
+  cachePostViews,
+  cacheThread,
+  FeedPost,
+  postKeys,
+  profileKeys,
+  ThreadNode,
+  updateCachedPost,
+} from '@/lib/postCache';
+
+/**
+ * Subscribes a card to the cache entry for its post. The prop is only the
+ * seed: once a list or thread has written the entry, every card rendering
+ * that URI shows the same counts and viewer state.
+ */
+export function useCachedPost(post: FeedPost): FeedPost {
+  const { data } = useQuery({
+    queryKey: postKeys.detail(post.uri),
+    queryFn: () => post,
+    initialData: post,
+    enabled: false,
+    staleTime: Infinity,
+  });
+  return data ?? post;
+}
+
+export function useCachedProfile<T extends CachedProfile>(profile: T): T {
+  const { data } = useQuery({
+    queryKey: profileKeys.detail(profile.did),
+    queryFn: () => profile as CachedProfile,
+    initialData: profile,
+    enabled: false,
+    staleTime: Infinity,
+  });
+  return { ...profile, ...data };
+}
+
+type Interaction = 'like' | 'repost';
+
+const countField = { like: 'likeCount', repost: 'repostCount' } as const;
+
+// Stands in for the record URI until the write returns it.
+const PENDING_RECORD = 'pending';
+
+/**
+ * Likes/reposts (or undoes them) with an optimistic cache update, rolling
+ * back if the write fails. Resolves with the write's result so the caller
+ * can report it.
+ */
+export function usePostInteractions(uri: string) {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: async ({ kind, post }: { kind: Interaction; post: FeedPost }): Promise<Result<{ uri?: string }>> => {
+      const recordUri = post.viewer?.[kind];
+      if (kind === 'like') {
+        return recordUri ? atprotoClient.deleteLike(recordUri) : atprotoClient.likePost(post.uri, post.cid);
+      }
+      return recordUri ? atprotoClient.deleteRepost(recordUri) : atprotoClient.repostPost(post.uri, post.cid);
+    },
+    onMutate: ({ kind, post }) => {
+      const active = Boolean(post.viewer?.[kind]);
+      updateCachedPost(queryClient, uri, (current) => ({
+        ...current,
+        [countField[kind]]: Math.max(0, current[countField[kind]] + (active ? -1 : 1)),
+        viewer: { ...current.viewer, [kind]: active ? undefined : PENDING_RECORD },
+      }));
+      return { previous: post };
+    },
+    onSuccess: (result, { kind, post }) => {
+      if (!result.success) {
+        queryClient.setQueryData(postKeys.detail(uri), post);
+        return;
+      }
+      if (!post.viewer?.[kind]) {
+        updateCachedPost(queryClient, uri, (current) => ({
+          ...current,
+          viewer: { ...current.viewer, [kind]: result.uri },
+        }));
+      }
+    },
+    onError: (_error, _variables, context) => {
+      if (context) queryClient.setQueryData(postKeys.detail(uri), context.previous);
+    },
+  });
+
+  const { mutateAsync } = mutation;
+  const toggle = useCallback(
+    (kind: Interaction) => {
+      const post = queryClient.getQueryData<FeedPost>(postKeys.detail(uri));
+      if (!post || post.viewer?.[kind] === PENDING_RECORD) return undefined;
+      return mutateAsync({ kind, post });
+    },
+    [queryClient, uri, mutateAsync]
+  );
+
+  const bumpReplyCount = useCallback(
+    () => updateCachedPost(queryClient, uri, (post) => ({ ...post, replyCount: post.replyCount + 1 })),
+    [queryClient, uri]
+  );
+
+  return { toggle, bumpReplyCount, isPending: mutation.isPending };
+}
+
+interface PostPage {
+  posts: FeedPost[];
+  /** The page as returned, for views that need more than the posts (reply refs, repost reasons). */
+  items: unknown[];
+  cursor?: string;
+}
+
+interface PostListOptions {
+  enabled?: boolean;
+  /** `feed` for feed view items that wrap a post, `posts` for bare post views. */
+  shape?: 'feed' | 'posts';
+}
+
+/**
+ * Paginates a cursor-based post list. Each page is written through the
+ * normalized cache, so the snapshot kept here is only the list's order.
+ */
+export function usePostList(
+  queryKey: readonly unknown[],
+  fetchPage: (cursor?: string) => Promise<Result<{ data?: unknown[]; cursor?: string }>>,
+  { enabled = true, shape = 'feed' }: PostListOptions = {}
+) {
+  const queryClient = useQueryClient();
+  const query = useInfiniteQuery<PostPage, AtpClientError, InfiniteData<PostPage>, readonly unknown[], string | undefined>({
+    queryKey,
+    enabled,
+    initialPageParam: undefined,
+    getNextPageParam: (lastPage) => lastPage.cursor || undefined,
+    queryFn: async ({ pageParam }) => {
+      const result = await fetchPage(pageParam);
+      if (!result.success) throw result.error;
+      const items = result.data ?? [];
+      return {
+        posts:
+          shape === 'feed'
+            ? cacheFeedItems(queryClient, items as AppBskyFeedDefs.FeedViewPost[])
+            : cachePostViews(queryClient, items as AppBskyFeedDefs.PostView[]),
+        items,
+        cursor: result.cursor,
+      };
+    },
+  });
+
+  const posts = useMemo(() => {
+    const seen = new Set<string>();
+    return (query.data?.pages ?? [])
+      .flatMap((page) => page.posts)
+      .filter((post) => !seen.has(post.uri) && Boolean(seen.add(post.uri)));
+  }, [query.data]);
+
+  const items = useMemo(() => (query.data?.pages ?? []).flatMap((page) => page.items), [query.data]);
+
+  // A refresh starts over from the first page instead of refetching every page loaded so far.
+  const refresh = async () => {
+    queryClient.setQueryData<InfiniteData<PostPage>>(queryKey, (data) =>
+      data ? { pages: data.pages.slice(0, 1), pageParams: data.pageParams.slice(0, 1) } : data
+    );
+    await query.refetch();
+  };
+
+  return {
+    posts,
+    items,
+    error: query.error,
+    isLoading: query.isPending && enabled,
+    isLoadingMore: query.isFetchingNextPage,
+    isRefreshing: query.isRefetching && !query.isFetchingNextPage,
+    hasMore: query.hasNextPage,
+    loadMore: query.fetchNextPage,
+    refresh,
+  };
+}
+
+export const threadKeys = {
+  detail: (handle: string, postId: string) => ['thread', handle, postId] as const,
+};
+
+/**
+ * Loads a post thread by handle and record key. A `seed` (the server-rendered
+ * thread) is shown straight away and treated as stale, so it is replaced as
+ * soon as the caller enables the query.
+ */
+export function usePostThread(
+  handle: string | undefined,
+  postId: string | undefined,
+  { seed, enabled = true }: { seed?: ThreadNode; enabled?: boolean } = {}
+) {
+  const queryClient = useQueryClient();
+  return useQuery<ThreadNode, AtpClientError>({
+    queryKey: threadKeys.detail(handle ?? '', postId ?? ''),
+    enabled: enabled && Boolean(handle && postId),
+    initialData: seed ?? undefined,
+    initialDataUpdatedAt: 0,
+    queryFn: async () => {
+      const resolved = await atprotoClient.resolveHandle(handle!);
+      if (!resolved.success) throw resolved.error;
+      if (!resolved.data?.did) throw new AtpClientError('notFound', 'Unable to resolve handle.');
+      const result = await atprotoClient.getPostThread(`at://${resolved.data.did}/app.bsky.feed.post/${postId}`);
+      if (!result.success) throw result.error;
+      if (!result.data?.post) throw new AtpClientError('notFound', 'Post not found.');
+      cacheThread(queryClient, result.data);
+      return result.data;
+    },
+  });
+}
@@ -0,0 +1,82 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { atprotoClient } from '@/lib/atproto';
+import { AtpClientError } from '@/lib/atpResult';
+import { SavedFeedItem } from '@/lib/savedFeeds';
+
+export const savedFeedKeys = {
+  all: ['preferences', 'savedFeeds'] as const,
+  labels: (values: string[]) => ['preferences', 'savedFeeds', 'labels', ...values] as const,
+};
+
+/** The account's saved feeds in their saved order, with an optimistic `save` for reordering and removal. */
+export function useSavedFeeds(enabled: boolean = true) {
+  const queryClient = useQueryClient();
+
+  const query = useQuery<SavedFeedItem[], AtpClientError>({
+    queryKey: savedFeedKeys.all,
+    enabled,
+    staleTime: 60_000,
+    queryFn: async () => {
+      const result = await atprotoClient.getSavedFeeds();
+      if (!result.success) throw result.error;
+      return result.data;
+    },
+  });
+
+  const mutation = useMutation<void, AtpClientError, SavedFeedItem[], { previous?: SavedFeedItem[] }>({
+    mutationFn: async (items) => {
+      const result = await atprotoClient.updateSavedFeeds(items);
+      if (!result.success) throw result.error;
+    },
+    onMutate: async (items) => {
+      await queryClient.cancelQueries({ queryKey: savedFeedKeys.all, exact: true });
+      const previous = queryClient.getQueryData<SavedFeedItem[]>(savedFeedKeys.all);
+      queryClient.setQueryData(savedFeedKeys.all, items);
+      return { previous };
+    },
+    onError: (_error, _items, context) => {
+      queryClient.setQueryData(savedFeedKeys.all, context?.previous);
+    },
+  });
+
+  return {
+    items: query.data ?? [],
+    isLoading: query.isLoading,
+    error: query.error,
+    save: mutation.mutateAsync,
+    refetch: query.refetch,
+  };
+}
+
+/** Display names for saved feeds and lists, keyed by URI. */
+export function useSavedFeedLabels(items: SavedFeedItem[]) {
+  const feedUris = items.filter((item) => item.type === 'feed').map((item) => item.value);
+  const listUris = items.filter((item) => item.type === 'list').map((item) => item.value);
+  const values = [...feedUris, ...listUris].sort();
+
+  const query = useQuery({
+    queryKey: savedFeedKeys.labels(values),
+    enabled: values.length > 0,
+    staleTime: Infinity,
+    queryFn: async () => {
+      const labels: Record<string, { name: string; creatorHandle?: string; avatar?: string }> = {};
+      if (feedUris.length > 0) {
+        const result = await atprotoClient.getFeedGenerators(feedUris);
+        if (result.success) {
+          result.data?.forEach((feed: { uri: string; displayName: string; avatar?: string; creator: { handle: string } }) => {
+            labels[feed.uri] = { name: feed.displayName, creatorHandle: feed.creator.handle, avatar: feed.avatar };
+          });
+        }
+      }
+      const lists = await Promise.all(listUris.map((uri) => atprotoClient.getList(uri)));
+      lists.forEach((result, index) => {
+        if (result.success && result.data) {
+          labels[listUris[index]] = { name: result.data.name, creatorHandle: result.data.creator.handle, avatar: result.data.avatar };
+        }
+      });
+      return labels;
+    },
+  });
+
+  return query.data ?? {};
+}
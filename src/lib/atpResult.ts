@@ -0,0 +1,158 @@
+// Typed results for ATProtoClient: failures are classified into a small set of
+// kinds so pages can react to a rate limit differently from a missing record.
+
+export type AtpErrorKind = 'auth' | 'rateLimited' | 'notFound' | 'blocked' | 'network' | 'upstream';
+
+// `error?: undefined` keeps `result.error` readable without narrowing, which
+// the app's non-strict compiler settings can't do on a boolean discriminant.
+export type Result<T extends object = object, E = AtpClientError> =
+  | ({ success: true; error?: undefined } & T)
+  | { success: false; error: E };
+
+const AUTH_ERRORS = new Set(['AuthenticationRequired', 'AuthMissing', 'ExpiredToken', 'InvalidToken']);
+const NOT_FOUND_ERRORS = new Set(['NotFound', 'RecordNotFound', 'ActorNotFound', 'UnknownFeed', 'UnknownList']);
+const BLOCKED_ERRORS = new Set(['BlockedActor', 'BlockedByActor']);
+
+export class AtpClientError extends Error {
+  kind: AtpErrorKind;
+  /** HTTP status of the failed response, when there was one. */
+  status?: number;
+  /** The XRPC error name, e.g. `RecordNotFound`. */
+  code?: string;
+  /** When a rate limit lifts, from the `ratelimit-reset` header. */
+  resetAt?: Date;
+
+  constructor(
+    kind: AtpErrorKind,
+    message: string,
+    options: { status?: number; code?: string; resetAt?: Date } = {}
+  ) {
+    super(message);
+    this.name = 'AtpClientError';
+    this.kind = kind;
+    this.status = options.status;
+    this.code = options.code;
+    this.resetAt = options.resetAt;
+  }
+
+  get isRetryable() {
+    return (
+      this.kind === 'network' ||
+      this.kind === 'rateLimited' ||
+      (this.kind === 'upstream' && (this.status === undefined || this.status >= 500))
+    );
+  }
+}
+
+const parseResetHeader = (value: string | null | undefined) => {
+  const seconds = Number(value);
+  return value && Number.isFinite(seconds) ? new Date(seconds * 1000) : undefined;
+};
+
+const classify = (status: number | undefined, code: string | undefined, message: string): AtpErrorKind => {
+  if (status === 401 || (code && AUTH_ERRORS.has(code))) return 'auth';
+  if (status === 429) return 'rateLimited';
+  if (code && BLOCKED_ERRORS.has(code)) return 'blocked';
+  if (status === 404 || (code && NOT_FOUND_ERRORS.has(code)) || /\bnot found\b/i.test(message)) return 'notFound';
+  return 'upstream';
+};
+
+const isNetworkFailure = (error: { message?: unknown; cause?: { message?: unknown } }) => {
+  const message = `${error.message ?? ''} ${error.cause?.message ?? ''}`.toLowerCase();
+  return (
+    message.includes('failed to fetch') ||
+    message.includes('network') ||
+    message.includes('load failed') ||
+    message.includes('err_network_changed')
+  );
+};
+
+/**
+ * Classifies anything an agent call can throw. XRPC errors carry the HTTP
+ * status (1 when the request never completed), the error name and headers.
+ */
+export const toAtpClientError = (error: unknown): AtpClientError => {
+  if (error instanceof AtpClientError) return error;
+  const source = (error ?? {}) as {
+    status?: unknown;
+    error?: unknown;
+    message?: unknown;
+    headers?: Record<string, string>;
+    cause?: { message?: unknown };
+  };
+  const message = typeof source.message === 'string' && source.message ? source.message : 'Request failed';
+  const status = typeof source.status === 'number' && source.status >= 100 ? source.status : undefined;
+  const code = typeof source.error === 'string' ? source.error : undefined;
+
+  if (status === undefined && (source.status === 1 || error instanceof TypeError || isNetworkFailure(source))) {
+    return new AtpClientError('network', message);
+  }
+  return new AtpClientError(classify(status, code, message), message, {
+    status,
+    code,
+    resetAt: status === 429 ? parseResetHeader(source.headers?.['ratelimit-reset']) : undefined,
+  });
+};
+
+/** Builds the error for a non-OK response from a plain `fetch` of an XRPC endpoint. */
+export const atpErrorFromResponse = async (response: Response): Promise<AtpClientError> => {
+  const body = (await response.json().catch(() => null)) as { error?: unknown; message?: unknown } | null;
+  const code = typeof body?.error === 'string' ? body.error : undefined;
+  const message =
+    typeof body?.message === 'string' && body.message ? body.message : code ?? `Request failed (${response.status}).`;
+  return new AtpClientError(classify(response.status, code, message), message, {
+    status: response.status,
+    code,
+    resetAt: response.status === 429 ? parseResetHeader(response.headers.get('ratelimit-reset')) : undefined,
+  });
+};
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  /** Longest single wait, including waiting out a rate limit; anything longer fails straight away. */
+  maxDelayMs?: number;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Runs an idempotent request, retrying transient failures with jittered
+ * exponential backoff. Rate limits wait until `ratelimit-reset` instead.
+ */
+export const withRetry = async <T>(
+  action: () => Promise<T>,
+  { retries = 3, baseDelayMs = 500, maxDelayMs = 15_000 }: RetryOptions = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      return await action();
+    } catch (error) {
+      const clientError = toAtpClientError(error);
+      if (attempt >= retries || !clientError.isRetryable) throw clientError;
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt) * (0.5 + Math.random() / 2);
+      const delay = clientError.resetAt ? clientError.resetAt.getTime() - Date.now() : backoff;
+      if (delay > maxDelayMs) throw clientError;
+      await sleep(Math.max(delay, 0));
+    }
+  }
+};
+
+export const describeAtpError = (error: AtpClientError, fallback = 'Something went wrong.') => {
+  switch (error.kind) {
+    case 'auth':
+      return 'Your session has expired. Sign in again.';
+    case 'rateLimited':
+      return error.resetAt
+        ? `Too many requests. Try again after ${error.resetAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}.`
+        : 'Too many requests. Try again in a moment.';
+    case 'notFound':
+      return 'This could not be found. It may have been deleted.';
+    case 'blocked':
+      return 'This is unavailable because of a block.';
+    case 'network':
+      return 'Network error. Check your connection and try again.';
+    default:
+      return error.message || fallback;
+  }
+};
@@ -1,22 +1,46 @@
-import { BskyAgent, AtpSessionData, AtpSessionEvent, RichText, AtUri } from '@atproto/api';
+import { Agent, AppBskyActorDefs, BskyAgent, AtpSessionData, AtpSessionEvent, RichText, AtUri } from '@atproto/api';
+import { AtpClientError, atpErrorFromResponse, Result, toAtpClientError, withRetry } from '@/lib/atpResult';
+import { ChatApiError, chatApi, fetchChatServer } from '@/lib/chat';
+import { DEFAULT_PDS_SERVICE, normalizeIdentifier, normalizeServiceUrl, resolveIdentity } from '@/lib/identity';
+import { buildGateRecords, PostInteraction } from '@/lib/postInteraction';
+import { readSavedFeeds } from '@/lib/savedFeeds';
 
 const PUBLIC_API = 'https://public.api.bsky.app';
-const BSKY_SERVICE = 'https://bsky.social';
 const SESSIONS_KEY = 'atproto_sessions';
+// Maps each stored account's DID to the PDS it signed in against.
+const SESSION_SERVICES_KEY = 'atproto_session_services';
+const PLC_DIRECTORY = import.meta.env.VITE_PLC_DIRECTORY as string | undefined;
+const AUTH_MODE_KEY = 'atproto_auth_mode';
+const OAUTH_ACCOUNT_KEY = 'atproto_oauth_account';
+
+export interface OAuthAccount {
+  did: string;
+  handle?: string;
+}
 
 class ATProtoClient {
-  private agent: BskyAgent;
+  // A BskyAgent for app-password sessions; a plain Agent over the server's
+  // XRPC proxy for OAuth sessions, whose tokens never reach the browser.
+  private agent: Agent;
   private session: AtpSessionData | null = null;
+  private oauthAccount: OAuthAccount | null = null;
 
   constructor() {
-    this.agent = new BskyAgent({
-      service: BSKY_SERVICE,
+    this.agent = this.createAgent(DEFAULT_PDS_SERVICE);
+  }
+
+  private createAgent(service: string): BskyAgent {
+    const agent: BskyAgent = new BskyAgent({
+      service,
       persistSession: (evt: AtpSessionEvent, sess?: AtpSessionData) => {
+        // An agent replaced by a login on another PDS may still refresh in the background.
+        if (agent !== this.agent) return;
         if (evt === 'create' || evt === 'update') {
           this.session = sess || null;
           if (sess) {
             localStorage.setItem('atproto_session', JSON.stringify(sess));
             this.storeSession(sess);
+            this.setSessionService(sess.did, service);
           }
         } else if (evt === 'expired') {
           this.session = null;
@@ -24,20 +48,154 @@ class ATProtoClient {
         }
       },
     });
+    return agent;
   }
 
-  private isTransientNetworkError(error: any): boolean {
-    const message = `${error?.message || ''} ${error?.cause?.message || ''}`.toLowerCase();
-    return (
-      message.includes('failed to fetch') ||
-      message.includes('network') ||
-      message.includes('err_network_changed')
-    );
+  private useService(service: string): BskyAgent {
+    const current = this.agent;
+    if (current instanceof BskyAgent && current.serviceUrl.origin === new URL(service).origin) {
+      return current;
+    }
+    const agent = this.createAgent(service);
+    this.agent = agent;
+    return agent;
+  }
+
+  private getSessionServices(): Record<string, string> {
+    try {
+      const stored = localStorage.getItem(SESSION_SERVICES_KEY);
+      const parsed = stored ? JSON.parse(stored) : {};
+      return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private setSessionService(did: string, service: string) {
+    const services = this.getSessionServices();
+    if (services[did] === service) return;
+    localStorage.setItem(SESSION_SERVICES_KEY, JSON.stringify({ ...services, [did]: service }));
+  }
+
+  /** The PDS a stored account signed in against; accounts from before this was tracked used bsky.social. */
+  getSessionService(did: string): string {
+    return this.getSessionServices()[did] ?? DEFAULT_PDS_SERVICE;
+  }
+
+  getServiceUrl(): string {
+    return this.agent instanceof BskyAgent ? this.agent.serviceUrl.origin : DEFAULT_PDS_SERVICE;
+  }
+
+  isOAuthSession(): boolean {
+    return this.oauthAccount !== null;
+  }
+
+  /** Set before leaving for the authorization server so the return trip resumes over OAuth. */
+  beginOAuthLogin() {
+    localStorage.setItem(AUTH_MODE_KEY, 'oauth');
+  }
+
+  getStoredOAuthAccount(): OAuthAccount | null {
+    if (localStorage.getItem(AUTH_MODE_KEY) !== 'oauth') return null;
+    try {
+      const stored = localStorage.getItem(OAUTH_ACCOUNT_KEY);
+      return stored ? (JSON.parse(stored) as OAuthAccount) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  hasOAuthLogin(): boolean {
+    return localStorage.getItem(AUTH_MODE_KEY) === 'oauth';
+  }
+
+  private clearOAuthSession() {
+    this.oauthAccount = null;
+    localStorage.removeItem(AUTH_MODE_KEY);
+    localStorage.removeItem(OAUTH_ACCOUNT_KEY);
+  }
+
+  /**
+   * Picks up the server's OAuth session. Only a missing session ends OAuth
+   * mode; network failures keep it so the next load can try again.
+   */
+  async resumeOAuthSession(): Promise<boolean> {
+    try {
+      const session = await chatApi.checkSession();
+      if (!session.active || session.authMethod !== 'oauth') {
+        this.clearOAuthSession();
+        return false;
+      }
+      const account = { did: session.did, handle: session.handle };
+      this.oauthAccount = account;
+      this.session = null;
+      this.agent = new Agent({
+        did: account.did,
+        fetchHandler: (path, init) => fetchChatServer(path, init),
+      });
+      localStorage.setItem(OAUTH_ACCOUNT_KEY, JSON.stringify(account));
+      return true;
+    } catch (error) {
+      console.error('Failed to resume OAuth session:', error);
+      if (error instanceof ChatApiError && error.status === 401) {
+        this.clearOAuthSession();
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Picks the service to sign in against: an explicit hosting provider wins,
+   * otherwise the PDS listed in the account's DID document, otherwise bsky.social.
+   */
+  async resolveLoginService(identifier: string, hostingProvider?: string): Promise<string | null> {
+    if (hostingProvider?.trim()) {
+      return normalizeServiceUrl(hostingProvider, { allowInsecure: import.meta.env.DEV });
+    }
+    const identity = await resolveIdentity(identifier, {
+      plcDirectory: PLC_DIRECTORY,
+      handleResolver: PUBLIC_API,
+      allowInsecure: import.meta.env.DEV,
+    });
+    return identity?.pds ?? DEFAULT_PDS_SERVICE;
+  }
+
+  /** Runs one request and turns whatever it throws into a classified failure. */
+  private async run<T extends object>(
+    label: string,
+    action: () => Promise<T>,
+    options: { retry?: boolean; publicFallback?: () => Promise<Result<T>> } = {}
+  ): Promise<Result<T>> {
+    try {
+      const value = options.retry ? await withRetry(action) : await action();
+      return { success: true as const, ...value };
+    } catch (error) {
+      const clientError = toAtpClientError(error);
+      if (clientError.kind === 'auth' && options.publicFallback) {
+        return options.publicFallback();
+      }
+      console.error(`${label} error:`, clientError);
+      return { success: false, error: clientError };
+    }
   }
 
-  private isAuthError(error: any): boolean {
-    const message = `${error?.message || ''}`.toLowerCase();
-    return error?.status === 401 || message.includes('authentication required');
+  /** Reads are idempotent, so they retry; signed-out reads can fall back to the public AppView. */
+  private read<T extends object>(label: string, action: () => Promise<T>, publicFallback?: () => Promise<Result<T>>) {
+    return this.run(label, action, { retry: true, publicFallback });
+  }
+
+  private async fetchPublic(nsid: string, params: URLSearchParams) {
+    const response = await fetch(`${PUBLIC_API}/xrpc/${nsid}?${params.toString()}`);
+    if (!response.ok) {
+      throw await atpErrorFromResponse(response);
+    }
+    return response.json();
+  }
+
+  private requireDid(): string {
+    const did = this.getDid();
+    if (!did) throw new AtpClientError('auth', 'No session');
+    return did;
   }
 
   getStoredSession(): AtpSessionData | null {
@@ -56,12 +214,13 @@ class ATProtoClient {
       const sessionData = this.getStoredSession();
       if (!sessionData) return false;
 
-      await this.agent.resumeSession(sessionData);
+      const agent = this.useService(this.getSessionService(sessionData.did));
+      await agent.resumeSession(sessionData);
       this.session = sessionData;
       return true;
     } catch (error) {
       console.error('Failed to resume session:', error);
-      if (!this.isTransientNetworkError(error) && this.isAuthError(error)) {
+      if (toAtpClientError(error).kind === 'auth') {
         this.session = null;
         localStorage.removeItem('atproto_session');
       }
@@ -71,8 +230,10 @@ class ATProtoClient {
 
   async switchSession(sessionData: AtpSessionData): Promise<boolean> {
     try {
-      await this.agent.resumeSession(sessionData);
+      const agent = this.useService(this.getSessionService(sessionData.did));
+      await agent.resumeSession(sessionData);
       this.session = sessionData;
+      this.clearOAuthSession();
       localStorage.setItem('atproto_session', JSON.stringify(sessionData));
       this.storeSession(sessionData);
       return true;
@@ -82,37 +243,59 @@ class ATProtoClient {
     }
   }
 
-  async login(identifier: string, password: string): Promise<{ success: boolean; error?: string }> {
+  async login(identifier: string, password: string, hostingProvider?: string): Promise<Result> {
+    const service = await this.resolveLoginService(identifier, hostingProvider);
+    if (!service) {
+      return {
+        success: false,
+        error: new AtpClientError(
+          'upstream',
+          'Enter a valid hosting provider address, e.g. https://pds.example.com.',
+          { status: 400 }
+        ),
+      };
+    }
     try {
-      const response = await this.agent.login({
-        identifier: identifier.startsWith('@') ? identifier.slice(1) : identifier,
+      // A fresh agent per attempt, bound to the PDS the account lives on.
+      const agent = this.createAgent(service);
+      this.agent = agent;
+      await agent.login({
+        identifier: normalizeIdentifier(identifier),
         password,
       });
-      
-      if (response.success) {
-        return { success: true };
-      }
-      return { success: false, error: 'Login failed' };
-    } catch (error: any) {
+      this.clearOAuthSession();
+      return { success: true };
+    } catch (error) {
       console.error('Login error:', error);
-      
-      if (error.status === 401) {
-        return { success: false, error: 'Invalid handle or password. Please check your credentials.' };
-      }
-      if (error.status === 400) {
-        return { success: false, error: 'Invalid request. Please check your handle format.' };
-      }
-      if (error.message?.includes('network')) {
-        return { success: false, error: 'Network error. Please check your connection.' };
-      }
-      
-      return { success: false, error: error.message || 'Authentication failed. Please try again.' };
+      const clientError = toAtpClientError(error);
+      const message =
+        clientError.kind === 'auth'
+          ? 'Invalid handle or password. Please check your credentials.'
+          : clientError.kind === 'network'
+            ? 'Network error. Please check your connection.'
+            : clientError.status === 400
+              ? 'Invalid request. Please check your handle format.'
+              : clientError.kind === 'rateLimited'
+                ? 'Too many sign-in attempts. Please wait and try again.'
+                : clientError.message || 'Authentication failed. Please try again.';
+      return {
+        success: false,
+        error: new AtpClientError(clientError.kind, message, {
+          status: clientError.status,
+          code: clientError.code,
+          resetAt: clientError.resetAt,
+        }),
+      };
     }
   }
 
   async logout(): Promise<void> {
     this.session = null;
     localStorage.removeItem('atproto_session');
+    if (this.oauthAccount) {
+      this.agent = this.createAgent(DEFAULT_PDS_SERVICE);
+    }
+    this.clearOAuthSession();
   }
 
   getStoredSessions(): AtpSessionData[] {
@@ -141,10 +324,12 @@ class ATProtoClient {
   removeStoredSession(did: string) {
     const sessions = this.getStoredSessions().filter((sess) => sess.did !== did);
     localStorage.setItem(SESSIONS_KEY, JSON.stringify(sessions));
+    const { [did]: _removed, ...services } = this.getSessionServices();
+    localStorage.setItem(SESSION_SERVICES_KEY, JSON.stringify(services));
   }
 
   isAuthenticated(): boolean {
-    return this.agent.hasSession;
+    return Boolean(this.agent.did);
   }
 
   getSession(): AtpSessionData | null {
@@ -152,40 +337,25 @@ class ATProtoClient {
   }
 
   getDid(): string | undefined {
-    return this.agent.session?.did;
+    return this.agent.did;
   }
 
   getHandle(): string | undefined {
-    return this.agent.session?.handle;
+    return this.agent instanceof BskyAgent ? this.agent.session?.handle : this.oauthAccount?.handle;
   }
 
   async getProfile(actor?: string) {
-    try {
-      const targetActor = actor || this.getDid();
-      if (!targetActor) throw new Error('No actor specified');
-      
-      const response = await this.agent.getProfile({ actor: targetActor });
-      return { success: true, data: response.data };
-    } catch (error: any) {
-      console.error('Get profile error:', error);
-      return { success: false, error: error.message };
-    }
+    return this.read('Get profile', async () => {
+      const response = await this.agent.getProfile({ actor: actor || this.requireDid() });
+      return { data: response.data };
+    });
   }
 
   async getProfilePublic(actor: string) {
-    try {
-      const response = await fetch(
-        `${PUBLIC_API}/xrpc/app.bsky.actor.getProfile?actor=${encodeURIComponent(actor)}`
-      );
-      if (!response.ok) {
-        throw new Error('Failed to fetch');
-      }
-      const data = await response.json();
-      return { success: true, data };
-    } catch (error: any) {
-      console.error('Get profile public error:', error);
-      return { success: false, error: error.message };
-    }
+    return this.read('Get profile public', async () => {
+      const data = await this.fetchPublic('app.bsky.actor.getProfile', new URLSearchParams({ actor }));
+      return { data };
+    });
   }
 
   async createPost({
@@ -193,6 +363,7 @@ class ATProtoClient {
     langs,
     images,
     video,
+    external,
     interaction,
   }: {
     text: string;
@@ -206,13 +377,15 @@ class ATProtoClient {
       file: Blob;
       aspectRatio?: { width: number; height: number };
     };
-    interaction?: {
-      reply?: 'anyone' | 'nobody' | 'followers' | 'following' | 'mentioned' | 'list';
-      listUris?: string[];
-      allowQuotePosts?: boolean;
+    external?: {
+      uri: string;
+      title: string;
+      description: string;
+      thumb?: Blob | null;
     };
+    interaction?: PostInteraction;
   }) {
-    try {
+    return this.run('Create post', async () => {
       const richText = new RichText({ text });
       await richText.detectFacets(this.agent);
 
@@ -253,81 +426,53 @@ class ATProtoClient {
           video: response.data.blob,
           ...(video.aspectRatio ? { aspectRatio: video.aspectRatio } : {}),
         };
+      } else if (external) {
+        const thumb = external.thumb
+          ? (await this.agent.uploadBlob(external.thumb, { encoding: external.thumb.type })).data.blob
+          : undefined;
+        record.embed = {
+          $type: 'app.bsky.embed.external',
+          external: {
+            uri: external.uri,
+            title: external.title,
+            description: external.description,
+            ...(thumb ? { thumb } : {}),
+          },
+        };
       }
 
       const response = await this.agent.post(record);
-      const postUri = response.data?.uri;
-      const repo = this.agent.session?.did;
+      const postUri = response.uri;
+      const repo = this.getDid();
       const rkey = postUri ? postUri.split('/').pop() : undefined;
 
       if (interaction && repo && rkey && postUri) {
-        const allowQuotePosts = interaction.allowQuotePosts ?? true;
-        const replySetting = interaction.reply ?? 'anyone';
-
-        let allowRules:
-          | Array<
-              | { $type: 'app.bsky.feed.threadgate#mentionRule' }
-              | { $type: 'app.bsky.feed.threadgate#followerRule' }
-              | { $type: 'app.bsky.feed.threadgate#followingRule' }
-              | { $type: 'app.bsky.feed.threadgate#listRule'; list: string }
-            >
-          | undefined;
-
-        if (replySetting === 'nobody') {
-          allowRules = [];
-        } else if (replySetting === 'followers') {
-          allowRules = [{ $type: 'app.bsky.feed.threadgate#followerRule' }];
-        } else if (replySetting === 'following') {
-          allowRules = [{ $type: 'app.bsky.feed.threadgate#followingRule' }];
-        } else if (replySetting === 'mentioned') {
-          allowRules = [{ $type: 'app.bsky.feed.threadgate#mentionRule' }];
-        } else if (replySetting === 'list') {
-          allowRules =
-            interaction.listUris?.length && interaction.listUris.length > 0
-              ? interaction.listUris.map((list) => ({
-                  $type: 'app.bsky.feed.threadgate#listRule' as const,
-                  list,
-                }))
-              : [];
-        }
+        const { threadgate, postgate } = buildGateRecords(postUri, interaction, new Date().toISOString());
 
-        if (replySetting !== 'anyone') {
+        if (threadgate) {
           await this.agent.com.atproto.repo.createRecord({
             repo,
             collection: 'app.bsky.feed.threadgate',
             rkey,
-            record: {
-              $type: 'app.bsky.feed.threadgate',
-              post: postUri,
-              allow: allowRules,
-              createdAt: new Date().toISOString(),
-            },
+            record: threadgate,
           });
         }
 
-        if (!allowQuotePosts) {
+        if (postgate) {
           await this.agent.com.atproto.repo.createRecord({
             repo,
             collection: 'app.bsky.feed.postgate',
             rkey,
-            record: {
-              $type: 'app.bsky.feed.postgate',
-              post: postUri,
-              embeddingRules: [{ $type: 'app.bsky.feed.postgate#disableRule' }],
-              createdAt: new Date().toISOString(),
-            },
+            record: postgate,
           });
         }
       }
 
       if (!postUri) {
-        return { success: false, error: 'Post created without a URI response.' };
+        throw new AtpClientError('upstream', 'Post created without a URI response.');
       }
-      return { success: true, data: response.data };
-    } catch (error: any) {
-      console.error('Create post error:', error);
-      return { success: false, error: error.message };
-    }
+      return { data: response };
+    });
   }
 
   async createReply({
@@ -345,7 +490,7 @@ class ATProtoClient {
     rootCid?: string;
     langs?: string[];
   }) {
-    try {
+    return this.run('Create reply', async () => {
       const richText = new RichText({ text });
       await richText.detectFacets(this.agent);
       const record: any = {
@@ -362,117 +507,83 @@ class ATProtoClient {
         record.langs = langs;
       }
       const response = await this.agent.post(record);
-      return { success: true, uri: response.uri, cid: response.cid };
-    } catch (error: any) {
-      console.error('Create reply error:', error);
-      return { success: false, error: error.message };
-    }
+      return { uri: response.uri, cid: response.cid };
+    });
   }
 
   async deletePost(uri: string) {
-    try {
-      const repo = this.agent.session?.did;
-      if (!repo) throw new Error('No session');
+    return this.run('Delete post', async () => {
       const parts = uri.split('/');
       const rkey = parts[parts.length - 1];
       await this.agent.com.atproto.repo.deleteRecord({
-        repo,
+        repo: this.requireDid(),
         collection: 'app.bsky.feed.post',
         rkey,
       });
-      return { success: true };
-    } catch (error: any) {
-      console.error('Delete post error:', error);
-      return { success: false, error: error.message };
-    }
+      return {};
+    });
   }
 
   async likePost(uri: string, cid: string) {
-    try {
+    return this.run('Like post', async () => {
       const response = await this.agent.like(uri, cid);
-      return { success: true, uri: response.uri };
-    } catch (error: any) {
-      console.error('Like post error:', error);
-      return { success: false, error: error.message };
-    }
+      return { uri: response.uri };
+    });
   }
 
   async deleteLike(likeUri: string) {
-    try {
+    return this.run('Delete like', async () => {
       await this.agent.deleteLike(likeUri);
-      return { success: true };
-    } catch (error: any) {
-      console.error('Delete like error:', error);
-      return { success: false, error: error.message };
-    }
+      return {};
+    });
   }
 
   async repostPost(uri: string, cid: string) {
-    try {
+    return this.run('Repost', async () => {
       const response = await this.agent.repost(uri, cid);
-      return { success: true, uri: response.uri };
-    } catch (error: any) {
-      console.error('Repost error:', error);
-      return { success: false, error: error.message };
-    }
+      return { uri: response.uri };
+    });
   }
 
   async deleteRepost(repostUri: string) {
-    try {
+    return this.run('Delete repost', async () => {
       await this.agent.deleteRepost(repostUri);
-      return { success: true };
-    } catch (error: any) {
-      console.error('Delete repost error:', error);
-      return { success: false, error: error.message };
-    }
+      return {};
+    });
   }
 
   async followActor(did: string) {
-    try {
+    return this.run('Follow actor', async () => {
       const response = await this.agent.follow(did);
-      return { success: true, uri: response.uri };
-    } catch (error: any) {
-      console.error('Follow actor error:', error);
-      return { success: false, error: error.message };
-    }
+      return { uri: response.uri };
+    });
   }
 
   async unfollowActor(followUri: string) {
-    try {
+    return this.run('Unfollow actor', async () => {
       await this.agent.deleteFollow(followUri);
-      return { success: true };
-    } catch (error: any) {
-      console.error('Unfollow actor error:', error);
-      return { success: false, error: error.message };
-    }
+      return {};
+    });
   }
 
   async muteActor(actor: string) {
-    try {
+    return this.run('Mute actor', async () => {
       await this.agent.app.bsky.graph.muteActor({ actor });
-      return { success: true };
-    } catch (error: any) {
-      console.error('Mute actor error:', error);
-      return { success: false, error: error.message };
-    }
+      return {};
+    });
   }
 
   async unmuteActor(actor: string) {
-    try {
+    return this.run('Unmute actor', async () => {
       await this.agent.app.bsky.graph.unmuteActor({ actor });
-      return { success: true };
-    } catch (error: any) {
-      console.error('Unmute actor error:', error);
-      return { success: false, error: error.message };
-    }
+      return {};
+    });
   }
 
   async blockActor(actor: string) {
-    try {
-      const repo = this.agent.session?.did;
-      if (!repo) throw new Error('No session');
+    return this.run('Block actor', async () => {
       await this.agent.com.atproto.repo.createRecord({
-        repo,
+        repo: this.requireDid(),
         collection: 'app.bsky.graph.block',
         record: {
           $type: 'app.bsky.graph.block',
@@ -480,39 +591,30 @@ class ATProtoClient {
           createdAt: new Date().toISOString(),
         },
       });
-      return { success: true };
-    } catch (error: any) {
-      console.error('Block actor error:', error);
-      return { success: false, error: error.message };
-    }
+      return {};
+    });
   }
 
   async unblockActor(blockUri: string) {
-    try {
+    return this.run('Unblock actor', async () => {
       const blockUrip = new AtUri(blockUri);
       await this.agent.app.bsky.graph.block.delete({
         repo: blockUrip.hostname,
         rkey: blockUrip.rkey,
       });
-      return { success: true };
-    } catch (error: any) {
-      console.error('Unblock actor error:', error);
-      return { success: false, error: error.message };
-    }
+      return {};
+    });
   }
 
   async muteThread(uri: string) {
-    try {
+    return this.run('Mute thread', async () => {
       await this.agent.app.bsky.graph.muteThread({ root: uri });
-      return { success: true };
-    } catch (error: any) {
-      console.error('Mute thread error:', error);
-      return { success: false, error: error.message };
-    }
+      return {};
+    });
   }
 
   async reportPost(uri: string, cid: string, reason: string = 'Reported from Hillside') {
-    try {
+    return this.run('Report post', async () => {
       await this.agent.com.atproto.moderation.createReport({
         reasonType: 'com.atproto.moderation.defs#reasonOther',
         reason,
@@ -522,15 +624,12 @@ class ATProtoClient {
           cid,
         },
       });
-      return { success: true };
-    } catch (error: any) {
-      console.error('Report post error:', error);
-      return { success: false, error: error.message };
-    }
+      return {};
+    });
   }
 
   async reportAccount(did: string, reason: string = 'Reported from Hillside') {
-    try {
+    return this.run('Report account', async () => {
       await this.agent.com.atproto.moderation.createReport({
         reasonType: 'com.atproto.moderation.defs#reasonOther',
         reason,
@@ -539,15 +638,12 @@ class ATProtoClient {
           did,
         },
       });
-      return { success: true };
-    } catch (error: any) {
-      console.error('Report account error:', error);
-      return { success: false, error: error.message };
-    }
+      return {};
+    });
   }
 
   async putActivitySubscription(subject: string, activity: { post: boolean; reply: boolean }) {
-    try {
+    return this.run('Put activity subscription', async () => {
       const response = await this.agent.app.bsky.notification.putActivitySubscription({
         subject,
         activitySubscription: {
@@ -556,11 +652,8 @@ class ATProtoClient {
           reply: activity.reply,
         },
       });
-      return { success: true, data: response.data.activitySubscription };
-    } catch (error: any) {
-      console.error('Put activity subscription error:', error);
-      return { success: false, error: error.message };
-    }
+      return { data: response.data.activitySubscription };
+    });
   }
 
   async updatePostInteraction({
@@ -574,11 +667,10 @@ class ATProtoClient {
     listUris?: string[];
     allowQuotePosts: boolean;
   }) {
-    try {
-      const repo = this.agent.session?.did;
-      if (!repo) throw new Error('No session');
+    return this.run('Update post interaction', async () => {
+      const repo = this.requireDid();
       const rkey = postUri.split('/').pop();
-      if (!rkey) throw new Error('Invalid post URI');
+      if (!rkey) throw new AtpClientError('notFound', 'Invalid post URI');
 
       let allowRules:
         | Array<
@@ -655,17 +747,13 @@ class ATProtoClient {
         }
       }
 
-      return { success: true };
-    } catch (error: any) {
-      console.error('Update post interaction error:', error);
-      return { success: false, error: error.message };
-    }
+      return {};
+    });
   }
 
   async pinPostToProfile(postUri: string, postCid: string) {
-    try {
-      const repo = this.agent.session?.did;
-      if (!repo) throw new Error('No session');
+    return this.run('Pin post', async () => {
+      const repo = this.requireDid();
       const record = await this.agent.com.atproto.repo.getRecord({
         repo,
         collection: 'app.bsky.actor.profile',
@@ -689,173 +777,145 @@ class ATProtoClient {
           ...updated,
         },
       });
-      return { success: true };
-    } catch (error: any) {
-      console.error('Pin post error:', error);
-      return { success: false, error: error.message };
-    }
+      return {};
+    });
   }
 
   async getTimeline(cursor?: string, limit: number = 30) {
-    try {
+    return this.read('Get timeline', async () => {
       const response = await this.agent.getTimeline({ cursor, limit });
-      return { 
-        success: true, 
-        data: response.data.feed,
-        cursor: response.data.cursor 
-      };
-    } catch (error: any) {
-      console.error('Get timeline error:', error);
-      return { success: false, error: error.message };
-    }
+      return { data: response.data.feed, cursor: response.data.cursor };
+    });
   }
 
   async getFeed(feed: string, cursor?: string, limit: number = 30) {
-    try {
-      const response = await this.agent.app.bsky.feed.getFeed({ feed, cursor, limit });
-      return {
-        success: true,
-        data: response.data.feed,
-        cursor: response.data.cursor,
-      };
-    } catch (error: any) {
-      if (error?.status === 401 || error?.message?.includes('Authentication Required')) {
-        return await this.getFeedPublic(feed, cursor, limit);
-      }
-      console.error('Get feed error:', error);
-      return { success: false, error: error.message };
-    }
+    return this.read(
+      'Get feed',
+      async () => {
+        const response = await this.agent.app.bsky.feed.getFeed({ feed, cursor, limit });
+        return { data: response.data.feed, cursor: response.data.cursor };
+      },
+      () => this.getFeedPublic(feed, cursor, limit)
+    );
   }
 
   async getFeedPublic(feed: string, cursor?: string, limit: number = 30) {
-    try {
+    return this.read('Get feed public', async () => {
       const params = new URLSearchParams();
       params.set('feed', feed);
       params.set('limit', String(limit));
       if (cursor) params.set('cursor', cursor);
-      const response = await fetch(`${PUBLIC_API}/xrpc/app.bsky.feed.getFeed?${params.toString()}`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch');
-      }
-      const data = await response.json();
-      return {
-        success: true,
-        data: data.feed,
-        cursor: data.cursor,
-      };
-    } catch (error: any) {
-      console.error('Get feed public error:', error);
-      return { success: false, error: error.message };
-    }
+      const data = await this.fetchPublic('app.bsky.feed.getFeed', params);
+      return { data: data.feed, cursor: data.cursor };
+    });
+  }
+
+  async getListFeed(list: string, cursor?: string, limit: number = 30) {
+    return this.read('Get list feed', async () => {
+      const response = await this.agent.app.bsky.feed.getListFeed({ list, cursor, limit });
+      return { data: response.data.feed, cursor: response.data.cursor };
+    });
   }
 
   async searchPostsByTag(tag: string, cursor?: string, limit: number = 30) {
-    try {
-      const response = await this.agent.app.bsky.feed.searchPosts({
-        q: `#${tag}`,
-        tag: [tag],
-        cursor,
-        limit,
-      });
-      return {
-        success: true,
-        data: response.data.posts,
-        cursor: response.data.cursor,
-      };
-    } catch (error: any) {
-      if (error?.status === 401 || error?.message?.includes('Authentication Required')) {
-        return await this.searchPostsByTagPublic(tag, cursor, limit);
-      }
-      console.error('Search posts error:', error);
-      return { success: false, error: error.message };
-    }
+    return this.read(
+      'Search posts',
+      async () => {
+        const response = await this.agent.app.bsky.feed.searchPosts({
+          q: `#${tag}`,
+          tag: [tag],
+          cursor,
+          limit,
+        });
+        return { data: response.data.posts, cursor: response.data.cursor };
+      },
+      () => this.searchPostsByTagPublic(tag, cursor, limit)
+    );
   }
 
   async searchPostsByTagPublic(tag: string, cursor?: string, limit: number = 30) {
-    try {
+    return this.read('Search posts public', async () => {
       const params = new URLSearchParams();
       params.set('q', `#${tag}`);
       params.set('tag', tag);
       params.set('limit', String(limit));
       if (cursor) params.set('cursor', cursor);
-      const response = await fetch(`${PUBLIC_API}/xrpc/app.bsky.feed.searchPosts?${params.toString()}`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch');
-      }
-      const data = await response.json();
-      return {
-        success: true,
-        data: data.posts,
-        cursor: data.cursor,
-      };
-    } catch (error: any) {
-      console.error('Search posts public error:', error);
-      return { success: false, error: error.message };
-    }
+      const data = await this.fetchPublic('app.bsky.feed.searchPosts', params);
+      return { data: data.posts, cursor: data.cursor };
+    });
+  }
+
+  async searchPosts(
+    query: string,
+    { sort = 'top', cursor, limit = 25 }: { sort?: 'top' | 'latest'; cursor?: string; limit?: number } = {}
+  ) {
+    return this.read(
+      'Search posts',
+      async () => {
+        const response = await this.agent.app.bsky.feed.searchPosts({ q: query, sort, cursor, limit });
+        return { data: response.data.posts, cursor: response.data.cursor };
+      },
+      () => this.searchPostsPublic(query, { sort, cursor, limit })
+    );
+  }
+
+  async searchPostsPublic(
+    query: string,
+    { sort = 'top', cursor, limit = 25 }: { sort?: 'top' | 'latest'; cursor?: string; limit?: number } = {}
+  ) {
+    return this.read('Search posts public', async () => {
+      const params = new URLSearchParams();
+      params.set('q', query);
+      params.set('sort', sort);
+      params.set('limit', String(limit));
+      if (cursor) params.set('cursor', cursor);
+      const data = await this.fetchPublic('app.bsky.feed.searchPosts', params);
+      return { data: data.posts, cursor: data.cursor };
+    });
   }
 
   async getPostThread(uri: string, depth: number = 3, parentHeight: number = 2) {
-    try {
-      const response = await this.agent.app.bsky.feed.getPostThread({
-        uri,
-        depth,
-        parentHeight,
-      });
-      return { success: true, data: response.data.thread };
-    } catch (error: any) {
-      if (error?.status === 401 || error?.message?.includes('Authentication Required')) {
-        return await this.getPostThreadPublic(uri, depth, parentHeight);
-      }
-      console.error('Get post thread error:', error);
-      return { success: false, error: error.message };
-    }
+    return this.read(
+      'Get post thread',
+      async () => {
+        const response = await this.agent.app.bsky.feed.getPostThread({
+          uri,
+          depth,
+          parentHeight,
+        });
+        return { data: response.data.thread };
+      },
+      () => this.getPostThreadPublic(uri, depth, parentHeight)
+    );
   }
 
   async getPostThreadPublic(uri: string, depth: number = 3, parentHeight: number = 2) {
-    try {
+    return this.read('Get post thread public', async () => {
       const params = new URLSearchParams();
       params.set('uri', uri);
       params.set('depth', String(depth));
       params.set('parentHeight', String(parentHeight));
-      const response = await fetch(`${PUBLIC_API}/xrpc/app.bsky.feed.getPostThread?${params.toString()}`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch');
-      }
-      const data = await response.json();
-      return { success: true, data: data.thread };
-    } catch (error: any) {
-      console.error('Get post thread public error:', error);
-      return { success: false, error: error.message };
-    }
+      const data = await this.fetchPublic('app.bsky.feed.getPostThread', params);
+      return { data: data.thread };
+    });
   }
 
   async resolveHandle(handle: string) {
-    try {
-      const response = await this.agent.com.atproto.identity.resolveHandle({ handle });
-      return { success: true, data: response.data };
-    } catch (error: any) {
-      if (error?.status === 401 || error?.message?.includes('Authentication Required')) {
-        return await this.resolveHandlePublic(handle);
-      }
-      console.error('Resolve handle error:', error);
-      return { success: false, error: error.message };
-    }
+    return this.read(
+      'Resolve handle',
+      async () => {
+        const response = await this.agent.com.atproto.identity.resolveHandle({ handle });
+        return { data: response.data };
+      },
+      () => this.resolveHandlePublic(handle)
+    );
   }
 
   async resolveHandlePublic(handle: string) {
-    try {
-      const url = new URL('https://public.api.bsky.app/xrpc/com.atproto.identity.resolveHandle');
-      url.searchParams.set('handle', handle);
-      const response = await fetch(url.toString());
-      if (!response.ok) {
-        throw new Error('Failed to fetch');
-      }
-      const data = await response.json();
-      return { success: true, data };
-    } catch (error: any) {
-      console.error('Resolve handle public error:', error);
-      return { success: false, error: error.message };
-    }
+    return this.read('Resolve handle public', async () => {
+      const data = await this.fetchPublic('com.atproto.identity.resolveHandle', new URLSearchParams({ handle }));
+      return { data };
+    });
   }
 
   async getAuthorFeed(
@@ -868,21 +928,19 @@ class ATProtoClient {
     cursor?: string,
     limit: number = 30
   ) {
-    try {
-      const response = await this.agent.app.bsky.feed.getAuthorFeed({
-        actor,
-        filter,
-        cursor,
-        limit,
-      });
-      return { success: true, data: response.data.feed, cursor: response.data.cursor };
-    } catch (error: any) {
-      if (error?.status === 401 || error?.message?.includes('Authentication Required')) {
-        return await this.getAuthorFeedPublic(actor, filter, cursor, limit);
-      }
-      console.error('Get author feed error:', error);
-      return { success: false, error: error.message };
-    }
+    return this.read(
+      'Get author feed',
+      async () => {
+        const response = await this.agent.app.bsky.feed.getAuthorFeed({
+          actor,
+          filter,
+          cursor,
+          limit,
+        });
+        return { data: response.data.feed, cursor: response.data.cursor };
+      },
+      () => this.getAuthorFeedPublic(actor, filter, cursor, limit)
+    );
   }
 
   async getAuthorFeedPublic(
@@ -895,91 +953,69 @@ class ATProtoClient {
     cursor?: string,
     limit: number = 30
   ) {
-    try {
+    return this.read('Get author feed public', async () => {
       const params = new URLSearchParams();
       params.set('actor', actor);
       params.set('limit', String(limit));
       if (filter) params.set('filter', filter);
       if (cursor) params.set('cursor', cursor);
-      const response = await fetch(`${PUBLIC_API}/xrpc/app.bsky.feed.getAuthorFeed?${params.toString()}`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch');
-      }
-      const data = await response.json();
-      return { success: true, data: data.feed, cursor: data.cursor };
-    } catch (error: any) {
-      console.error('Get author feed public error:', error);
-      return { success: false, error: error.message };
-    }
+      const data = await this.fetchPublic('app.bsky.feed.getAuthorFeed', params);
+      return { data: data.feed, cursor: data.cursor };
+    });
   }
 
   async getActorLikes(actor: string, cursor?: string, limit: number = 30) {
-    try {
+    return this.read('Get actor likes', async () => {
       const response = await this.agent.app.bsky.feed.getActorLikes({ actor, cursor, limit });
-      return { success: true, data: response.data.feed, cursor: response.data.cursor };
-    } catch (error: any) {
-      console.error('Get actor likes error:', error);
-      return { success: false, error: error.message };
-    }
+      return { data: response.data.feed, cursor: response.data.cursor };
+    });
   }
 
   async getActorFeeds(actor: string, cursor?: string, limit: number = 30) {
-    try {
+    return this.read('Get actor feeds', async () => {
       const response = await this.agent.app.bsky.feed.getActorFeeds({ actor, cursor, limit });
-      return { success: true, data: response.data.feeds, cursor: response.data.cursor };
-    } catch (error: any) {
-      console.error('Get actor feeds error:', error);
-      return { success: false, error: error.message };
-    }
+      return { data: response.data.feeds, cursor: response.data.cursor };
+    });
   }
 
   async getActorStarterPacks(actor: string, cursor?: string, limit: number = 30) {
-    try {
+    return this.read('Get actor starter packs', async () => {
       const response = await this.agent.app.bsky.graph.getActorStarterPacks({ actor, cursor, limit });
-      return { success: true, data: response.data.starterPacks, cursor: response.data.cursor };
-    } catch (error: any) {
-      console.error('Get actor starter packs error:', error);
-      return { success: false, error: error.message };
-    }
+      return { data: response.data.starterPacks, cursor: response.data.cursor };
+    });
   }
 
   async getActorLists(actor: string, cursor?: string, limit: number = 30) {
-    try {
+    return this.read('Get actor lists', async () => {
       const response = await this.agent.app.bsky.graph.getLists({ actor, cursor, limit });
-      return { success: true, data: response.data.lists, cursor: response.data.cursor };
-    } catch (error: any) {
-      console.error('Get actor lists error:', error);
-      return { success: false, error: error.message };
-    }
+      return { data: response.data.lists, cursor: response.data.cursor };
+    });
+  }
+
+  async getList(list: string) {
+    return this.read('Get list', async () => {
+      const response = await this.agent.app.bsky.graph.getList({ list, limit: 1 });
+      return { data: response.data.list };
+    });
   }
 
   // Fetch notifications using AT Protocol listNotifications endpoint
   async getNotifications(cursor?: string, limit: number = 30) {
-    try {
+    return this.read('Get notifications', async () => {
       const response = await this.agent.listNotifications({ cursor, limit });
-      return {
-        success: true,
-        data: response.data.notifications,
-        cursor: response.data.cursor,
-      };
-    } catch (error: any) {
-      console.error('Get notifications error:', error);
-      return { success: false, error: error.message };
-    }
+      return { data: response.data.notifications, cursor: response.data.cursor };
+    });
   }
 
   async getUnreadNotificationsCount() {
-    try {
+    return this.read('Get unread notifications count', async () => {
       const response = await this.agent.app.bsky.notification.getUnreadCount({});
-      return { success: true, count: response.data.count ?? 0 };
-    } catch (error: any) {
-      console.error('Get unread notifications count error:', error);
-      return { success: false, error: error.message };
-    }
+      return { count: response.data.count ?? 0 };
+    });
   }
 
   async updateNotificationsSeen(seenAt?: string) {
-    try {
+    return this.run('Update notifications seen', async () => {
       const timestamp = seenAt || new Date().toISOString();
       const agentAny = this.agent as unknown as { updateSeenNotifications?: (value?: string) => Promise<void> };
       if (typeof agentAny.updateSeenNotifications === 'function') {
@@ -987,66 +1023,83 @@ class ATProtoClient {
       } else {
         await this.agent.app.bsky.notification.updateSeen({ seenAt: timestamp });
       }
-      return { success: true };
-    } catch (error: any) {
-      console.error('Update notifications seen error:', error);
-      return { success: false, error: error.message };
-    }
+      return {};
+    });
   }
 
   async getPreferences() {
-    try {
+    return this.read('Get preferences', async () => {
       const response = await this.agent.app.bsky.actor.getPreferences();
-      return { success: true, data: response.data.preferences };
-    } catch (error: any) {
-      console.error('Get preferences error:', error);
-      return { success: false, error: error.message };
-    }
+      return { data: response.data.preferences };
+    });
   }
 
   async putPreferences(preferences: any[]) {
-    try {
+    return this.run('Put preferences', async () => {
       await this.agent.app.bsky.actor.putPreferences({ preferences });
-      return { success: true };
-    } catch (error: any) {
-      console.error('Put preferences error:', error);
-      return { success: false, error: error.message };
-    }
+      return {};
+    });
   }
 
   async getFeedGenerators(uris: string[]) {
-    try {
-      const response = await this.agent.app.bsky.feed.getFeedGenerators({ feeds: uris });
-      return { success: true, data: response.data.feeds };
-    } catch (error: any) {
-      if (error?.status === 401 || error?.message?.includes('Authentication Required')) {
-        return await this.getFeedGeneratorsPublic(uris);
-      }
-      console.error('Get feed generators error:', error);
-      return { success: false, error: error.message };
-    }
+    return this.read(
+      'Get feed generators',
+      async () => {
+        const response = await this.agent.app.bsky.feed.getFeedGenerators({ feeds: uris });
+        return { data: response.data.feeds };
+      },
+      () => this.getFeedGeneratorsPublic(uris)
+    );
   }
 
   async getFeedGeneratorsPublic(uris: string[]) {
-    try {
+    return this.read('Get feed generators public', async () => {
       const params = new URLSearchParams();
       uris.forEach((uri) => params.append('feeds', uri));
-      const response = await fetch(`${PUBLIC_API}/xrpc/app.bsky.feed.getFeedGenerators?${params.toString()}`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch');
-      }
-      const data = await response.json();
-      return { success: true, data: data.feeds };
-    } catch (error: any) {
-      console.error('Get feed generators public error:', error);
-      return { success: false, error: error.message };
-    }
+      const data = await this.fetchPublic('app.bsky.feed.getFeedGenerators', params);
+      return { data: data.feeds };
+    });
+  }
+
+  /** Fails without writing when the current preferences can't be read, so nothing else is dropped. */
+  private async loadPreferences() {
+    const result = await this.getPreferences();
+    if (!result.success) throw result.error;
+    return result.data;
+  }
+
+  async getFeedViewPref(feed: string = 'home') {
+    return this.read('Get feed view preferences', async () => {
+      const preferences = await this.loadPreferences();
+      const pref = preferences.find((item) => AppBskyActorDefs.isFeedViewPref(item) && item.feed === feed);
+      return { data: pref as AppBskyActorDefs.FeedViewPref | undefined };
+    });
+  }
+
+  /** Merges into the stored preference for `pref.feed`, keeping fields this app doesn't edit. */
+  async updateFeedViewPref(pref: AppBskyActorDefs.FeedViewPref) {
+    return this.run('Update feed view preferences', async () => {
+      const existingPrefs = await this.loadPreferences();
+      const isTarget = (item: (typeof existingPrefs)[number]) =>
+        AppBskyActorDefs.isFeedViewPref(item) && item.feed === pref.feed;
+      const current = existingPrefs.find(isTarget);
+      const nextPrefs = existingPrefs.filter((item) => !isTarget(item));
+      nextPrefs.push({ ...current, ...pref, $type: 'app.bsky.actor.defs#feedViewPref' });
+      await this.agent.app.bsky.actor.putPreferences({ preferences: nextPrefs });
+      return {};
+    });
+  }
+
+  async getSavedFeeds() {
+    return this.read('Get saved feeds', async () => {
+      const preferences = await this.loadPreferences();
+      return { data: readSavedFeeds(preferences) };
+    });
   }
 
   async updateSavedFeeds(items: Array<{ id: string; type: string; value: string; pinned: boolean }>) {
-    try {
-      const prefsResult = await this.getPreferences();
-      const existingPrefs = prefsResult.success && prefsResult.data ? prefsResult.data : [];
+    return this.run('Update saved feeds', async () => {
+      const existingPrefs = await this.loadPreferences();
       const nextPrefs = existingPrefs.filter(
         (pref: any) =>
           pref?.$type !== 'app.bsky.actor.defs#savedFeedsPref' &&
@@ -1056,24 +1109,15 @@ class ATProtoClient {
         $type: 'app.bsky.actor.defs#savedFeedsPrefV2',
         items,
       });
-      await this.putPreferences(nextPrefs);
-      return { success: true };
-    } catch (error: any) {
-      console.error('Update saved feeds error:', error);
-      return { success: false, error: error.message };
-    }
+      await this.agent.app.bsky.actor.putPreferences({ preferences: nextPrefs });
+      return {};
+    });
   }
 
   async pinFeed(value: string, type: 'feed' | 'list' | 'timeline' = 'feed') {
-    try {
-      const prefsResult = await this.getPreferences();
-      const existingPrefs = prefsResult.success && prefsResult.data ? prefsResult.data : [];
-      const savedPref = existingPrefs.find(
-        (pref: any) =>
-          pref?.$type === 'app.bsky.actor.defs#savedFeedsPrefV2' ||
-          pref?.$type === 'app.bsky.actor.defs#savedFeedsPref'
-      );
-      const items: Array<{ id: string; type: string; value: string; pinned: boolean }> = savedPref?.items || [];
+    return this.run('Pin feed', async () => {
+      // Goes through readSavedFeeds so a legacy savedFeedsPref is migrated, not dropped.
+      const items = readSavedFeeds(await this.loadPreferences());
       const existing = items.find((item) => item.value === value && item.type === type);
       const nextItems = existing
         ? items.map((item) =>
@@ -1088,178 +1132,105 @@ class ATProtoClient {
               pinned: true,
             },
           ];
-      await this.updateSavedFeeds(nextItems);
-      return { success: true };
-    } catch (error: any) {
-      console.error('Pin feed error:', error);
-      return { success: false, error: error.message };
-    }
+      const result = await this.updateSavedFeeds(nextItems);
+      if (!result.success) throw result.error;
+      return {};
+    });
   }
 
   async unpinFeed(value: string, type: 'feed' | 'list' | 'timeline' = 'feed') {
-    try {
-      const prefsResult = await this.getPreferences();
-      const existingPrefs = prefsResult.success && prefsResult.data ? prefsResult.data : [];
-      const savedPref = existingPrefs.find(
-        (pref: any) =>
-          pref?.$type === 'app.bsky.actor.defs#savedFeedsPrefV2' ||
-          pref?.$type === 'app.bsky.actor.defs#savedFeedsPref'
-      );
-      const items: Array<{ id: string; type: string; value: string; pinned: boolean }> = savedPref?.items || [];
+    return this.run('Unpin feed', async () => {
+      const items = readSavedFeeds(await this.loadPreferences());
       const nextItems = items.map((item) =>
         item.value === value && item.type === type ? { ...item, pinned: false } : item
       );
-      await this.updateSavedFeeds(nextItems);
-      return { success: true };
-    } catch (error: any) {
-      console.error('Unpin feed error:', error);
-      return { success: false, error: error.message };
-    }
+      const result = await this.updateSavedFeeds(nextItems);
+      if (!result.success) throw result.error;
+      return {};
+    });
   }
 
   // Get popular/suggested feed for explore (using getSuggestedFeeds as documented)
   async getSuggestedFeeds(cursor?: string, limit: number = 30) {
-    try {
-      const response = await this.agent.app.bsky.feed.getSuggestedFeeds({ cursor, limit });
-      return {
-        success: true,
-        data: response.data.feeds,
-        cursor: response.data.cursor,
-      };
-    } catch (error: any) {
-      if (error?.status === 401 || error?.message?.includes('Authentication Required')) {
-        return await this.getSuggestedFeedsPublic(cursor, limit);
-      }
-      console.error('Get suggested feeds error:', error);
-      return { success: false, error: error.message };
-    }
+    return this.read(
+      'Get suggested feeds',
+      async () => {
+        const response = await this.agent.app.bsky.feed.getSuggestedFeeds({ cursor, limit });
+        return { data: response.data.feeds, cursor: response.data.cursor };
+      },
+      () => this.getSuggestedFeedsPublic(cursor, limit)
+    );
   }
 
   async getSuggestedFeedsPublic(cursor?: string, limit: number = 30) {
-    try {
+    return this.read('Get suggested feeds public', async () => {
       const params = new URLSearchParams();
       params.set('limit', String(limit));
       if (cursor) params.set('cursor', cursor);
-      const response = await fetch(`${PUBLIC_API}/xrpc/app.bsky.feed.getSuggestedFeeds?${params.toString()}`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch');
-      }
-      const data = await response.json();
-      return {
-        success: true,
-        data: data.feeds,
-        cursor: data.cursor,
-      };
-    } catch (error: any) {
-      console.error('Get suggested feeds public error:', error);
-      return { success: false, error: error.message };
-    }
+      const data = await this.fetchPublic('app.bsky.feed.getSuggestedFeeds', params);
+      return { data: data.feeds, cursor: data.cursor };
+    });
   }
 
   // Get popular feed generator posts for explore
   async getPopularFeedGenerators(cursor?: string, limit: number = 30) {
-    try {
+    return this.read('Get popular feed generators', async () => {
       const response = await this.agent.app.bsky.unspecced.getPopularFeedGenerators({ cursor, limit });
-      return {
-        success: true,
-        data: response.data.feeds,
-        cursor: response.data.cursor,
-      };
-    } catch (error: any) {
-      console.error('Get popular feed generators error:', error);
-      return { success: false, error: error.message };
-    }
+      return { data: response.data.feeds, cursor: response.data.cursor };
+    });
   }
 
   // Get trending topics for right sidebar
   async getTrendingTopics(limit: number = 10) {
-    try {
-      const response = await this.agent.app.bsky.unspecced.getTrendingTopics({ limit });
-      return {
-        success: true,
-        data: response.data.topics,
-      };
-    } catch (error: any) {
-      if (error?.status === 401 || error?.message?.includes('Authentication Required')) {
-        return await this.getTrendingTopicsPublic(limit);
-      }
-      console.error('Get trending topics error:', error);
-      return { success: false, error: error.message };
-    }
+    return this.read(
+      'Get trending topics',
+      async () => {
+        const response = await this.agent.app.bsky.unspecced.getTrendingTopics({ limit });
+        return { data: response.data.topics };
+      },
+      () => this.getTrendingTopicsPublic(limit)
+    );
   }
 
   async getTrendingTopicsPublic(limit: number = 10) {
-    try {
-      const params = new URLSearchParams();
-      params.set('limit', String(limit));
-      const response = await fetch(`${PUBLIC_API}/xrpc/app.bsky.unspecced.getTrendingTopics?${params.toString()}`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch');
-      }
-      const data = await response.json();
-      return {
-        success: true,
-        data: data.topics || [],
-      };
-    } catch (error: any) {
-      console.error('Get trending topics public error:', error);
-      return { success: false, error: error.message };
-    }
+    return this.read('Get trending topics public', async () => {
+      const data = await this.fetchPublic(
+        'app.bsky.unspecced.getTrendingTopics',
+        new URLSearchParams({ limit: String(limit) })
+      );
+      return { data: data.topics || [] };
+    });
   }
 
   // Search actors (users) for explore
   async searchActors(query: string, cursor?: string, limit: number = 25) {
-    try {
-      const response = await this.agent.searchActors({ term: query, cursor, limit });
-      return {
-        success: true,
-        data: response.data.actors,
-        cursor: response.data.cursor,
-      };
-    } catch (error: any) {
-      if (error?.status === 401 || error?.message?.includes('Authentication Required')) {
-        return await this.searchActorsPublic(query, cursor, limit);
-      }
-      console.error('Search actors error:', error);
-      return { success: false, error: error.message };
-    }
+    return this.read(
+      'Search actors',
+      async () => {
+        const response = await this.agent.searchActors({ term: query, cursor, limit });
+        return { data: response.data.actors, cursor: response.data.cursor };
+      },
+      () => this.searchActorsPublic(query, cursor, limit)
+    );
   }
 
   async searchActorsPublic(query: string, cursor?: string, limit: number = 25) {
-    try {
+    return this.read('Search actors public', async () => {
       const params = new URLSearchParams();
       params.set('term', query);
       params.set('limit', String(limit));
       if (cursor) params.set('cursor', cursor);
-      const response = await fetch(`${PUBLIC_API}/xrpc/app.bsky.actor.searchActors?${params.toString()}`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch');
-      }
-      const data = await response.json();
-      return {
-        success: true,
-        data: data.actors || [],
-        cursor: data.cursor,
-      };
-    } catch (error: any) {
-      console.error('Search actors public error:', error);
-      return { success: false, error: error.message };
-    }
+      const data = await this.fetchPublic('app.bsky.actor.searchActors', params);
+      return { data: data.actors || [], cursor: data.cursor };
+    });
   }
 
   // Get suggested actors to follow
   async getSuggestions(cursor?: string, limit: number = 10) {
-    try {
+    return this.read('Get suggestions', async () => {
       const response = await this.agent.getSuggestions({ cursor, limit });
-      return {
-        success: true,
-        data: response.data.actors,
-        cursor: response.data.cursor,
-      };
-    } catch (error: any) {
-      console.error('Get suggestions error:', error);
-      return { success: false, error: error.message };
-    }
+      return { data: response.data.actors, cursor: response.data.cursor };
+    });
   }
 }
 
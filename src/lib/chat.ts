@@ -1,3 +1,5 @@
+import type { Facet } from '@atproto/api';
+
 export interface ChatProfile {
   did: string;
   handle: string;
@@ -6,21 +8,46 @@ export interface ChatProfile {
   verified?: boolean;
 }
 
+export interface ChatReaction {
+  value: string;
+  senderDid: string;
+  createdAt: string;
+}
+
 export interface ChatMessage {
   id: string;
+  rev?: string;
   text?: string;
   sentAt: string;
   senderDid: string;
+  facets?: Facet[];
+  embed?: ChatMessageEmbed;
+  reactions?: ChatReaction[];
   isDeleted?: boolean;
   isPending?: boolean;
 }
 
+/** A post quoted into a message through an `app.bsky.embed.record` embed. */
+export interface ChatMessageEmbed {
+  uri: string;
+  author?: ChatProfile;
+  text?: string;
+  createdAt?: string;
+  isUnavailable?: boolean;
+}
+
+export interface ChatPostRef {
+  uri: string;
+  cid: string;
+}
+
 export interface ChatConvo {
   id: string;
   rev: string;
   members: ChatProfile[];
   lastMessage?: ChatMessage;
   unreadCount: number;
+  muted: boolean;
   status?: 'request' | 'accepted' | string;
 }
 
@@ -34,21 +61,93 @@ export interface ChatMessagesResponse {
   cursor?: string;
 }
 
+export type ChatLogEntry =
+  | {
+      type: 'beginConvo' | 'acceptConvo' | 'leaveConvo' | 'muteConvo' | 'unmuteConvo';
+      rev: string;
+      convoId: string;
+    }
+  | {
+      type: 'createMessage' | 'deleteMessage' | 'readMessage';
+      rev: string;
+      convoId: string;
+      message: ChatMessage;
+    }
+  | {
+      type: 'addReaction' | 'removeReaction';
+      rev: string;
+      convoId: string;
+      message: ChatMessage;
+      reaction: ChatReaction;
+    };
+
+export interface ChatLogResponse {
+  logs: ChatLogEntry[];
+  cursor?: string;
+}
+
 class ChatApiError extends Error {
   status: number;
+  /** Seconds the server asked us to wait before retrying (429 responses). */
+  retryAfter?: number;
 
-  constructor(message: string, status: number) {
+  constructor(message: string, status: number, retryAfter?: number) {
     super(message);
     this.name = 'ChatApiError';
     this.status = status;
+    this.retryAfter = retryAfter;
+  }
+
+  get retryAt(): Date | undefined {
+    return this.retryAfter !== undefined ? new Date(Date.now() + this.retryAfter * 1000) : undefined;
+  }
+
+  get isRateLimited() {
+    return this.status === 429;
   }
 }
 
-const CHAT_API_BASE = import.meta.env.VITE_CHAT_API_BASE ?? '/api/chat';
+export const CHAT_API_BASE = import.meta.env.VITE_CHAT_API_BASE ?? '/api/chat';
+
+const normalizeReaction = (reaction: any): ChatReaction => ({
+  value: reaction?.value ?? '',
+  senderDid: reaction?.sender?.did ?? '',
+  createdAt: reaction?.createdAt ?? new Date().toISOString(),
+});
+
+interface RawEmbedRecord {
+  $type?: string;
+  uri?: string;
+  author?: ChatProfile;
+  value?: { text?: unknown; createdAt?: string };
+  indexedAt?: string;
+}
+
+const normalizeMessageEmbed = (embed?: { $type?: string; record?: RawEmbedRecord }): ChatMessageEmbed | undefined => {
+  const record = embed?.$type === 'app.bsky.embed.record#view' ? embed.record : undefined;
+  if (!record || typeof record.uri !== 'string') return undefined;
+  if (record.$type !== 'app.bsky.embed.record#viewRecord') {
+    return { uri: record.uri, isUnavailable: true };
+  }
+  return {
+    uri: record.uri,
+    author: record.author
+      ? {
+          did: record.author.did,
+          handle: record.author.handle,
+          displayName: record.author.displayName,
+          avatar: record.author.avatar,
+        }
+      : undefined,
+    text: typeof record.value?.text === 'string' ? record.value.text : undefined,
+    createdAt: record.value?.createdAt ?? record.indexedAt,
+  };
+};
 
 const normalizeMessage = (message: any): ChatMessage | undefined => {
   if (!message || typeof message !== 'object') return undefined;
-  const hasText = typeof message.text === 'string';
+  const hasText =
+    typeof message.text === 'string' && message.$type !== 'chat.bsky.convo.defs#deletedMessageView';
   const senderDid =
     typeof message.sender === 'string'
       ? message.sender
@@ -57,9 +156,13 @@ const normalizeMessage = (message: any): ChatMessage | undefined => {
     message.id ?? globalThis.crypto?.randomUUID?.() ?? `temp-${Math.random().toString(36).slice(2)}`;
   return {
     id: fallbackId,
+    rev: message.rev,
     text: hasText ? message.text : undefined,
     sentAt: message.sentAt ?? new Date().toISOString(),
     senderDid,
+    facets: hasText && Array.isArray(message.facets) ? message.facets : undefined,
+    embed: hasText ? normalizeMessageEmbed(message.embed) : undefined,
+    reactions: Array.isArray(message.reactions) ? message.reactions.map(normalizeReaction) : undefined,
     isDeleted: !hasText,
   };
 };
@@ -76,9 +179,43 @@ const normalizeConvo = (convo: any): ChatConvo => ({
   })),
   lastMessage: normalizeMessage(convo.lastMessage),
   unreadCount: convo.unreadCount ?? 0,
+  muted: Boolean(convo.muted),
   status: convo.status,
 });
 
+const LOG_TYPE_PREFIX = 'chat.bsky.convo.defs#log';
+
+export const normalizeChatLogEntry = (entry: any): ChatLogEntry | undefined => {
+  const rawType = typeof entry?.$type === 'string' ? entry.$type : '';
+  if (!rawType.startsWith(LOG_TYPE_PREFIX)) return undefined;
+  const suffix = rawType.slice(LOG_TYPE_PREFIX.length);
+  const type = `${suffix.charAt(0).toLowerCase()}${suffix.slice(1)}`;
+  const base = { rev: entry.rev as string, convoId: entry.convoId as string };
+
+  switch (type) {
+    case 'beginConvo':
+    case 'acceptConvo':
+    case 'leaveConvo':
+    case 'muteConvo':
+    case 'unmuteConvo':
+      return { type, ...base };
+    case 'createMessage':
+    case 'deleteMessage':
+    case 'readMessage': {
+      const message = normalizeMessage(entry.message);
+      return message ? { type, ...base, message } : undefined;
+    }
+    case 'addReaction':
+    case 'removeReaction': {
+      const message = normalizeMessage(entry.message);
+      if (!message || !entry.reaction) return undefined;
+      return { type, ...base, message, reaction: normalizeReaction(entry.reaction) };
+    }
+    default:
+      return undefined;
+  }
+};
+
 const safeJson = async (response: Response) => {
   try {
     return await response.json();
@@ -87,43 +224,108 @@ const safeJson = async (response: Response) => {
   }
 };
 
-const request = async <T>(path: string, options: RequestInit = {}): Promise<T> => {
+const parseRetryAfter = (response: Response, data: any): number | undefined => {
+  const header = response.headers.get('retry-after');
+  if (header) {
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds);
+    const date = Date.parse(header);
+    if (!Number.isNaN(date)) return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+  }
+  return typeof data?.retryAfter === 'number' ? data.retryAfter : undefined;
+};
+
+const CSRF_COOKIE = 'chat_csrf';
+let csrfToken: string | null = null;
+
+const readCsrfCookie = () => {
+  if (typeof document === 'undefined') return null;
+  const match = document.cookie.match(new RegExp(`(?:^|; )${CSRF_COOKIE}=([^;]*)`));
+  return match ? decodeURIComponent(match[1]) : null;
+};
+
+const rememberCsrfToken = (data: any) => {
+  if (typeof data?.csrfToken === 'string') {
+    csrfToken = data.csrfToken;
+  }
+};
+
+// The server pairs an HttpOnly session cookie with a readable CSRF token that
+// must be echoed back on every mutating request.
+const csrfHeader = (method = 'GET'): Record<string, string> => {
+  const normalized = method.toUpperCase();
+  const token = normalized === 'GET' || normalized === 'HEAD' ? null : csrfToken ?? readCsrfCookie();
+  return token ? { 'X-CSRF-Token': token } : {};
+};
+
+const request = async <T>(path: string, options: RequestInit = {}, retryOnCsrf = true): Promise<T> => {
   const response = await fetch(`${CHAT_API_BASE}${path}`, {
     credentials: 'include',
     ...options,
     headers: {
       'Content-Type': 'application/json',
+      ...csrfHeader(options.method),
       ...(options.headers ?? {}),
     },
   });
 
   if (!response.ok) {
     const data = await safeJson(response);
+    if (response.status === 403 && data?.code === 'csrf' && retryOnCsrf) {
+      await request(`/session`);
+      return request<T>(path, options, false);
+    }
     const message = data?.error || `Chat request failed (${response.status}).`;
-    throw new ChatApiError(message, response.status);
+    throw new ChatApiError(message, response.status, parseRetryAfter(response, data));
   }
 
   const data = await safeJson(response);
+  rememberCsrfToken(data);
   return data as T;
 };
 
+/** Raw access to the server for callers that read the response themselves, like the XRPC proxy. */
+const fetchChatServer = (path: string, init: RequestInit = {}) => {
+  const headers = new Headers(init.headers);
+  Object.entries(csrfHeader(init.method)).forEach(([name, value]) => headers.set(name, value));
+  return fetch(`${CHAT_API_BASE}${path}`, { ...init, credentials: 'include', headers });
+};
+
 export const chatApi = {
-  async createSession(identifier: string, appPassword: string) {
-    return request<{ success: boolean; did: string; handle?: string }>(`/session`, {
+  async createSession(identifier: string, appPassword: string, service?: string) {
+    return request<{ success: boolean; did: string; handle?: string; csrfToken?: string }>(`/session`, {
       method: 'POST',
-      body: JSON.stringify({ identifier, appPassword }),
+      body: JSON.stringify({ identifier, appPassword, service }),
     });
   },
 
-  async restoreSession(session: any) {
-    return request<{ success: boolean; did: string; handle?: string }>(`/session/restore`, {
+  async restoreSession(session: any, service?: string) {
+    return request<{ success: boolean; did: string; handle?: string; csrfToken?: string }>(`/session/restore`, {
       method: 'POST',
-      body: JSON.stringify({ session }),
+      body: JSON.stringify({ session, service }),
     });
   },
 
   async checkSession() {
-    return request<{ active: boolean; did: string; handle?: string }>(`/session`);
+    return request<{
+      active: boolean;
+      did: string;
+      handle?: string;
+      authMethod?: 'password' | 'oauth';
+      csrfToken?: string;
+    }>(`/session`);
+  },
+
+  /** Returns the authorization server URL to send the browser to. */
+  async startOAuth(identifier?: string, service?: string) {
+    return request<{ url: string }>(`/oauth/authorize`, {
+      method: 'POST',
+      body: JSON.stringify({ identifier, service }),
+    });
+  },
+
+  async deleteSession() {
+    return request<{ success: boolean }>(`/delete-session`, { method: 'POST' });
   },
 
   async listConvos(params: {
@@ -164,26 +366,105 @@ export const chatApi = {
     } as ChatMessagesResponse;
   },
 
-  async sendMessage(convoId: string, text: string) {
-    const data = await request<any>(`/send`, {
+  async getConvo(convoId: string) {
+    const query = new URLSearchParams({ convoId });
+    const data = await request<any>(`/convo?${query.toString()}`);
+    return { convo: normalizeConvo(data.convo) } as { convo: ChatConvo };
+  },
+
+  async sendMessage(convoId: string, text: string, embed?: ChatPostRef) {
+    const data = await request<any>(`/message`, {
       method: 'POST',
-      body: JSON.stringify({ convoId, text }),
+      body: JSON.stringify({ convoId, text, embed }),
     });
     return normalizeMessage(data) as ChatMessage;
   },
 
-  async updateRead(convoId?: string, messageId?: string, status?: 'request' | 'accepted') {
-    return request<{ updatedCount?: number; convo?: ChatConvo }>(`/read`, {
+  async deleteMessageForSelf(convoId: string, messageId: string) {
+    const data = await request<any>(`/delete-message`, {
       method: 'POST',
-      body: JSON.stringify({ convoId, messageId, status }),
+      body: JSON.stringify({ convoId, messageId }),
+    });
+    return normalizeMessage(data) as ChatMessage;
+  },
+
+  async updateRead(convoId: string, messageId?: string) {
+    const data = await request<any>(`/mark-read`, {
+      method: 'POST',
+      body: JSON.stringify({ convoId, messageId }),
+    });
+    return { convo: normalizeConvo(data.convo) } as { convo: ChatConvo };
+  },
+
+  async updateAllRead(status?: 'request' | 'accepted') {
+    return request<{ updatedCount: number }>(`/mark-all-read`, {
+      method: 'POST',
+      body: JSON.stringify({ status }),
     });
   },
 
   async acceptConvo(convoId: string) {
-    return request<{ convo: ChatConvo }>(`/accept`, {
+    const data = await request<{ rev?: string }>(`/accept-convo`, {
+      method: 'POST',
+      body: JSON.stringify({ convoId }),
+    });
+    return { rev: data?.rev };
+  },
+
+  async muteConvo(convoId: string) {
+    const data = await request<any>(`/mute-convo`, {
       method: 'POST',
       body: JSON.stringify({ convoId }),
     });
+    return { convo: normalizeConvo(data.convo) } as { convo: ChatConvo };
+  },
+
+  async unmuteConvo(convoId: string) {
+    const data = await request<any>(`/unmute-convo`, {
+      method: 'POST',
+      body: JSON.stringify({ convoId }),
+    });
+    return { convo: normalizeConvo(data.convo) } as { convo: ChatConvo };
+  },
+
+  async leaveConvo(convoId: string) {
+    return request<{ convoId: string; rev: string }>(`/leave-convo`, {
+      method: 'POST',
+      body: JSON.stringify({ convoId }),
+    });
+  },
+
+  async addReaction(convoId: string, messageId: string, value: string) {
+    const data = await request<any>(`/add-reaction`, {
+      method: 'POST',
+      body: JSON.stringify({ convoId, messageId, value }),
+    });
+    return { message: normalizeMessage(data.message) } as { message: ChatMessage };
+  },
+
+  async removeReaction(convoId: string, messageId: string, value: string) {
+    const data = await request<any>(`/remove-reaction`, {
+      method: 'POST',
+      body: JSON.stringify({ convoId, messageId, value }),
+    });
+    return { message: normalizeMessage(data.message) } as { message: ChatMessage };
+  },
+
+  eventsUrl(cursor?: string) {
+    const query = new URLSearchParams();
+    if (cursor) query.set('cursor', cursor);
+    const suffix = query.toString();
+    return `${CHAT_API_BASE}/events${suffix ? `?${suffix}` : ''}`;
+  },
+
+  async getLog(cursor?: string) {
+    const query = new URLSearchParams();
+    if (cursor) query.set('cursor', cursor);
+    const data = await request<any>(`/log?${query.toString()}`);
+    return {
+      logs: (data.logs ?? []).map(normalizeChatLogEntry).filter(Boolean),
+      cursor: data.cursor,
+    } as ChatLogResponse;
   },
 
   async getConvoAvailability(members: string[]) {
@@ -203,6 +484,100 @@ export const chatApi = {
       throw error;
     }
   },
+
+  async getPushPublicKey() {
+    const data = await request<{ publicKey: string }>(`/push/key`);
+    return data.publicKey;
+  },
+
+  async subscribePush(subscription: PushSubscriptionJSON) {
+    return request<{ success: boolean }>(`/push/subscribe`, {
+      method: 'POST',
+      body: JSON.stringify({ subscription }),
+    });
+  },
+
+  async unsubscribePush(endpoint: string) {
+    return request<{ success: boolean }>(`/push/unsubscribe`, {
+      method: 'POST',
+      body: JSON.stringify({ endpoint }),
+    });
+  },
+};
+
+const sortMessages = (messages: ChatMessage[]) =>
+  [...messages].sort((a, b) => a.sentAt.localeCompare(b.sentAt));
+
+export const applyChatLogToMessages = (
+  messages: ChatMessage[],
+  entry: ChatLogEntry,
+  convoId: string
+): ChatMessage[] => {
+  if (entry.convoId !== convoId || !('message' in entry)) return messages;
+  const incoming = entry.message;
+
+  switch (entry.type) {
+    case 'createMessage':
+      if (messages.some((message) => message.id === incoming.id)) {
+        return messages.map((message) => (message.id === incoming.id ? incoming : message));
+      }
+      return sortMessages([...messages, incoming]);
+    case 'deleteMessage':
+      return messages.map((message) =>
+        message.id === incoming.id
+          ? { ...message, text: undefined, reactions: undefined, isDeleted: true }
+          : message
+      );
+    case 'addReaction':
+    case 'removeReaction':
+      return messages.map((message) =>
+        message.id === incoming.id ? { ...message, reactions: incoming.reactions ?? [] } : message
+      );
+    default:
+      return messages;
+  }
+};
+
+export const applyChatLogToConvos = (
+  convos: ChatConvo[],
+  entry: ChatLogEntry,
+  currentUserDid?: string
+): ChatConvo[] => {
+  const index = convos.findIndex((convo) => convo.id === entry.convoId);
+  if (index === -1) return convos;
+  const convo = convos[index];
+  const replace = (next: ChatConvo) => convos.map((item, i) => (i === index ? next : item));
+
+  switch (entry.type) {
+    case 'createMessage': {
+      const isOwn = entry.message.senderDid === currentUserDid;
+      const next = {
+        ...convo,
+        rev: entry.rev,
+        lastMessage: entry.message,
+        unreadCount: isOwn ? convo.unreadCount : convo.unreadCount + 1,
+      };
+      return [next, ...convos.filter((_, i) => i !== index)];
+    }
+    case 'deleteMessage':
+      if (convo.lastMessage?.id !== entry.message.id) return convos;
+      return replace({
+        ...convo,
+        lastMessage: { ...convo.lastMessage, text: undefined, isDeleted: true },
+      });
+    case 'readMessage':
+      return replace({ ...convo, unreadCount: 0 });
+    case 'acceptConvo':
+      return replace({ ...convo, status: 'accepted' });
+    case 'muteConvo':
+      return replace({ ...convo, muted: true });
+    case 'unmuteConvo':
+      return replace({ ...convo, muted: false });
+    case 'leaveConvo':
+      return convos.filter((_, i) => i !== index);
+    default:
+      return convos;
+  }
 };
 
 export const resolveHandleToDid = async (handle: string) => {
@@ -225,4 +600,4 @@ export const resolveHandleToDid = async (handle: string) => {
   return data?.did as string;
 };
 
-export { ChatApiError };
+export { ChatApiError, fetchChatServer, request as chatServerRequest };
@@ -0,0 +1,111 @@
+// Client-side tuning for the Following timeline, driven by the account's
+// `app.bsky.actor.defs#feedViewPref` for the `home` feed.
+import type { AppBskyActorDefs, AppBskyFeedDefs } from '@atproto/api';
+import { CachedProfile, FeedPost, mapPostView, mapProfileBasic } from '@/lib/postCache';
+
+export const HOME_FEED = 'home';
+
+export interface FeedViewSettings {
+  hideReplies: boolean;
+  /** Only show replies when the viewer follows everyone in the conversation so far. */
+  hideRepliesByUnfollowed: boolean;
+  hideReposts: boolean;
+  hideQuotePosts: boolean;
+}
+
+// Matches the defaults other atproto clients apply when no preference is stored.
+export const DEFAULT_FEED_VIEW_SETTINGS: FeedViewSettings = {
+  hideReplies: false,
+  hideRepliesByUnfollowed: true,
+  hideReposts: false,
+  hideQuotePosts: false,
+};
+
+export const toFeedViewSettings = (pref?: AppBskyActorDefs.FeedViewPref): FeedViewSettings => ({
+  hideReplies: pref?.hideReplies ?? DEFAULT_FEED_VIEW_SETTINGS.hideReplies,
+  hideRepliesByUnfollowed: pref?.hideRepliesByUnfollowed ?? DEFAULT_FEED_VIEW_SETTINGS.hideRepliesByUnfollowed,
+  hideReposts: pref?.hideReposts ?? DEFAULT_FEED_VIEW_SETTINGS.hideReposts,
+  hideQuotePosts: pref?.hideQuotePosts ?? DEFAULT_FEED_VIEW_SETTINGS.hideQuotePosts,
+});
+
+/** One timeline entry: the post itself, preceded by the posts it replies to. */
+export interface FeedSlice {
+  key: string;
+  /** Root and parent of a reply (when loaded), then the post itself. */
+  posts: FeedPost[];
+  repostedBy?: CachedProfile;
+}
+
+type ReplyRefPost = AppBskyFeedDefs.ReplyRef['parent'];
+
+const asPostView = (value: ReplyRefPost | undefined): AppBskyFeedDefs.PostView | null =>
+  value && value.$type === 'app.bsky.feed.defs#postView' ? (value as AppBskyFeedDefs.PostView) : null;
+
+const isRepost = (item: AppBskyFeedDefs.FeedViewPost) => item.reason?.$type === 'app.bsky.feed.defs#reasonRepost';
+
+const isQuotePost = (post: AppBskyFeedDefs.PostView) => {
+  const embed = post.embed as { $type?: string; record?: { $type?: string; record?: { $type?: string } } } | undefined;
+  if (embed?.$type === 'app.bsky.embed.record#view') {
+    return embed.record?.$type === 'app.bsky.embed.record#viewRecord';
+  }
+  if (embed?.$type === 'app.bsky.embed.recordWithMedia#view') {
+    return embed.record?.record?.$type === 'app.bsky.embed.record#viewRecord';
+  }
+  return false;
+};
+
+const isFollowedOrSelf = (author: AppBskyActorDefs.ProfileViewBasic, viewerDid?: string) =>
+  author.did === viewerDid || Boolean(author.viewer?.following);
+
+/**
+ * Filters and groups timeline items. Each post appears at most once: a post
+ * already shown, either on its own or as reply context, is dropped when it
+ * comes round again (a second repost, or the next page overlapping).
+ */
+export const tuneFeed = (
+  items: AppBskyFeedDefs.FeedViewPost[],
+  settings: FeedViewSettings,
+  viewerDid?: string
+): FeedSlice[] => {
+  const seen = new Set<string>();
+  const slices: FeedSlice[] = [];
+
+  for (const item of items) {
+    const post = item.post;
+    if (!post?.uri || seen.has(post.uri)) continue;
+    const repost = isRepost(item);
+    if (repost && settings.hideReposts) continue;
+    if (settings.hideQuotePosts && isQuotePost(post)) continue;
+
+    const context: AppBskyFeedDefs.PostView[] = [];
+    // Reposted replies are shown on their own: the reposter chose the post, not the conversation.
+    if (item.reply && !repost) {
+      if (settings.hideReplies) continue;
+      const parent = asPostView(item.reply.parent);
+      const root = asPostView(item.reply.root);
+      // A reply whose parent is deleted or blocked has no context worth showing.
+      if (!parent) continue;
+      if (
+        settings.hideRepliesByUnfollowed &&
+        ![parent, root].every((ref) => !ref || isFollowedOrSelf(ref.author, viewerDid))
+      ) {
+        continue;
+      }
+      if (root && root.uri !== parent.uri && !seen.has(root.uri)) context.push(root);
+      if (!seen.has(parent.uri)) context.push(parent);
+    }
+
+    const slicePosts = [...context, post];
+    slicePosts.forEach((view) => seen.add(view.uri));
+    slices.push({
+      key: repost ? `${post.uri}:repost` : post.uri,
+      posts: slicePosts.map(mapPostView),
+      repostedBy:
+        repost && item.reason && 'by' in item.reason
+          ? mapProfileBasic(item.reason.by as AppBskyActorDefs.ProfileViewBasic)
+          : undefined,
+    });
+  }
+
+  return slices;
+};
@@ -0,0 +1,152 @@
+// Resolves an atproto identifier (handle or DID) to the PDS that hosts the
+// account. Kept free of DOM and alias imports so the chat server can share it.
+
+export const DEFAULT_PDS_SERVICE = 'https://bsky.social';
+export const DEFAULT_PLC_DIRECTORY = 'https://plc.directory';
+const DEFAULT_HANDLE_RESOLVER = 'https://public.api.bsky.app';
+
+const RESOLVE_TIMEOUT_MS = 8000;
+
+export interface DidService {
+  id: string;
+  type: string;
+  serviceEndpoint: string | Record<string, unknown>;
+}
+
+export interface DidDocument {
+  id: string;
+  alsoKnownAs?: string[];
+  service?: DidService[];
+}
+
+export interface ResolvedIdentity {
+  did: string;
+  pds: string;
+}
+
+export interface IdentityResolverOptions {
+  plcDirectory?: string;
+  /** AppView (or PDS) used for com.atproto.identity.resolveHandle. */
+  handleResolver?: string;
+  /** Replaces the built-in handle lookup, e.g. with a cached one. */
+  resolveHandle?: (handle: string) => Promise<string | null>;
+  /** Only https endpoints are accepted unless this is set (local development). */
+  allowInsecure?: boolean;
+  /** Used for every lookup; the server passes one that refuses private addresses. */
+  fetch?: typeof fetch;
+}
+
+export const isDid = (value: string) => /^did:[a-z]+:[a-zA-Z0-9._:%-]+$/.test(value);
+
+export const normalizeIdentifier = (identifier: string) => {
+  const trimmed = identifier.trim().replace(/^@/, '');
+  return isDid(trimmed) ? trimmed : trimmed.toLowerCase();
+};
+
+/**
+ * Turns user input such as `pds.example.com` into an origin URL. Returns null
+ * for anything that isn't a plain http(s) origin.
+ */
+export const normalizeServiceUrl = (input: string, { allowInsecure = false } = {}) => {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+  const withScheme = /^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+  let url: URL;
+  try {
+    url = new URL(withScheme);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'https:' && !(allowInsecure && url.protocol === 'http:')) return null;
+  if (url.username || url.password) return null;
+  if (!url.hostname.includes('.') && url.hostname !== 'localhost') return null;
+  return url.origin;
+};
+
+const fetchWithTimeout = async <T>(
+  url: string,
+  read: (response: Response) => Promise<T>,
+  fetchImpl: typeof fetch = fetch
+): Promise<T | null> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), RESOLVE_TIMEOUT_MS);
+  try {
+    const response = await fetchImpl(url, { signal: controller.signal });
+    if (!response.ok) return null;
+    return await read(response);
+  } catch {
+    return null;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+const fetchJsonWithTimeout = <T>(url: string, fetchImpl?: typeof fetch) =>
+  fetchWithTimeout(url, (response) => response.json() as Promise<T>, fetchImpl);
+
+export const resolveHandle = async (handle: string, options: IdentityResolverOptions = {}) => {
+  const resolver = (options.handleResolver ?? DEFAULT_HANDLE_RESOLVER).replace(/\/$/, '');
+  const resolved = await fetchJsonWithTimeout<{ did?: string }>(
+    `${resolver}/xrpc/com.atproto.identity.resolveHandle?handle=${encodeURIComponent(handle)}`,
+    options.fetch
+  );
+  if (resolved?.did && isDid(resolved.did)) return resolved.did;
+
+  // Handles verified over HTTPS can still be read directly from the well-known file.
+  const did = await fetchWithTimeout(
+    `https://${handle}/.well-known/atproto-did`,
+    (response) => response.text(),
+    options.fetch
+  );
+  return did && isDid(did.trim()) ? did.trim() : null;
+};
+
+/** Only host-level did:web identifiers are valid for atproto accounts. */
+const didWebDocumentUrl = (did: string) => {
+  const host = decodeURIComponent(did.slice('did:web:'.length));
+  if (!host || host.includes('/')) return null;
+  if (host.includes(':') && !/^localhost:\d+$/.test(host)) return null;
+  const scheme = host.startsWith('localhost') ? 'http' : 'https';
+  return `${scheme}://${host}/.well-known/did.json`;
+};
+
+export const resolveDidDocument = async (did: string, options: IdentityResolverOptions = {}) => {
+  let url: string | null = null;
+  if (did.startsWith('did:plc:')) {
+    url = `${(options.plcDirectory || DEFAULT_PLC_DIRECTORY).replace(/\/$/, '')}/${encodeURIComponent(did)}`;
+  } else if (did.startsWith('did:web:')) {
+    url = didWebDocumentUrl(did);
+  }
+  if (!url) return null;
+  const document = await fetchJsonWithTimeout<DidDocument>(url, options.fetch);
+  return document?.id === did ? document : null;
+};
+
+export const getPdsEndpoint = (document: DidDocument, { allowInsecure = false } = {}) => {
+  const service = document.service?.find(
+    (entry) =>
+      (entry.id === '#atproto_pds' || entry.id === `${document.id}#atproto_pds`) &&
+      entry.type === 'AtprotoPersonalDataServer'
+  );
+  if (!service || typeof service.serviceEndpoint !== 'string') return null;
+  return normalizeServiceUrl(service.serviceEndpoint, { allowInsecure });
+};
+
+/**
+ * Handle or DID → DID document → `#atproto_pds` endpoint. Email addresses
+ * can't be resolved, so callers fall back to a default service for those.
+ */
+export const resolveIdentity = async (
+  identifier: string,
+  options: IdentityResolverOptions = {}
+): Promise<ResolvedIdentity | null> => {
+  const normalized = normalizeIdentifier(identifier);
+  if (!normalized || normalized.includes('@')) return null;
+  const did = isDid(normalized)
+    ? normalized
+    : await (options.resolveHandle ?? ((handle: string) => resolveHandle(handle, options)))(normalized);
+  if (!did) return null;
+  const document = await resolveDidDocument(did, options);
+  const pds = document ? getPdsEndpoint(document, options) : null;
+  return pds ? { did, pds } : null;
+};
@@ -0,0 +1,58 @@
+// Link cards for the composer. Pages and thumbnails are fetched through the
+// server's /api/unfurl proxy since browsers can't read other sites directly.
+
+export interface LinkPreview {
+  url: string;
+  title: string;
+  description: string;
+  image?: string;
+  siteName?: string;
+}
+
+const UNFURL_API_BASE = import.meta.env.VITE_UNFURL_API_BASE ?? '/api/unfurl';
+
+// External thumbnails are stored as blobs, which the PDS caps at about 1MB.
+const MAX_THUMB_BYTES = 1_000_000;
+
+/** First http(s) link in the text, without trailing punctuation that usually ends a sentence. */
+export function findFirstUrl(text: string): string | null {
+  const match = text.match(/https?:\/\/[^\s<>"']+/i);
+  if (!match) return null;
+  let url = match[0].replace(/[.,;:!?'"]+$/, '');
+  // Keep a closing paren only when the URL itself opened one, as Wikipedia links do.
+  while (url.endsWith(')') && (url.match(/\(/g)?.length ?? 0) < (url.match(/\)/g)?.length ?? 0)) {
+    url = url.slice(0, -1);
+  }
+  try {
+    return new URL(url).toString();
+  } catch {
+    return null;
+  }
+}
+
+export async function fetchLinkPreview(url: string, signal?: AbortSignal): Promise<LinkPreview> {
+  const response = await fetch(`${UNFURL_API_BASE}?url=${encodeURIComponent(url)}`, { signal });
+  const payload = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(payload?.error || 'Failed to load link preview.');
+  }
+  return payload as LinkPreview;
+}
+
+/** The proxied thumbnail, so showing a card doesn't load the image from the linked site. */
+export function linkThumbnailUrl(imageUrl: string) {
+  return `${UNFURL_API_BASE}/image?url=${encodeURIComponent(imageUrl)}`;
+}
+
+/** Downloads a preview thumbnail for upload; returns null when it is missing or unusable. */
+export async function fetchLinkThumbnail(imageUrl: string): Promise<Blob | null> {
+  try {
+    const response = await fetch(linkThumbnailUrl(imageUrl));
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    if (!blob.type.startsWith('image/') || blob.size > MAX_THUMB_BYTES) return null;
+    return blob;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,127 @@
+// Normalized react-query cache for posts and profiles. Every list, thread and
+// card reads a post from one entry keyed by its URI, so a like on the feed is
+// already reflected when the thread opens.
+import type { AppBskyActorDefs, AppBskyFeedDefs } from '@atproto/api';
+import type { QueryClient } from '@tanstack/react-query';
+
+export interface CachedProfile {
+  did: string;
+  handle: string;
+  displayName?: string;
+  avatar?: string;
+  verified?: boolean;
+}
+
+export interface FeedPost {
+  uri: string;
+  cid: string;
+  author: CachedProfile;
+  record: {
+    text: string;
+    createdAt: string;
+  };
+  replyCount: number;
+  repostCount: number;
+  likeCount: number;
+  embed?: any;
+  viewer?: {
+    like?: string;
+    repost?: string;
+  };
+}
+
+/** A thread node as walked here; blocked and missing posts simply have no `post`. */
+export interface ThreadNode {
+  post?: AppBskyFeedDefs.PostView;
+  parent?: ThreadNode;
+  replies?: ThreadNode[];
+}
+
+export const postKeys = {
+  all: ['post'] as const,
+  detail: (uri: string) => ['post', uri] as const,
+};
+
+export const profileKeys = {
+  all: ['profile'] as const,
+  detail: (did: string) => ['profile', did] as const,
+};
+
+export const mapProfileBasic = (author: AppBskyActorDefs.ProfileViewBasic): CachedProfile => ({
+  did: author.did,
+  handle: author.handle,
+  displayName: author.displayName,
+  avatar: author.avatar,
+  verified: author.verification?.verifiedStatus === 'valid',
+});
+
+/** Maps an `app.bsky.feed.defs#postView` into the shape cards render. */
+export const mapPostView = (post: AppBskyFeedDefs.PostView): FeedPost => {
+  const record = (post.record ?? {}) as { text?: string; createdAt?: string };
+  return {
+    uri: post.uri,
+    cid: post.cid,
+    author: mapProfileBasic(post.author),
+    record: {
+      text: record.text ?? '',
+      createdAt: record.createdAt ?? post.indexedAt,
+    },
+    replyCount: post.replyCount ?? 0,
+    repostCount: post.repostCount ?? 0,
+    likeCount: post.likeCount ?? 0,
+    embed: post.embed,
+    viewer: {
+      like: post.viewer?.like,
+      repost: post.viewer?.repost,
+    },
+  };
+};
+
+/** Writes post views (and their authors) into the cache and returns the mapped posts in order. */
+export const cachePostViews = (queryClient: QueryClient, views: AppBskyFeedDefs.PostView[]): FeedPost[] =>
+  views
+    .filter((view) => view?.uri && view?.author)
+    .map((view) => {
+      const post = mapPostView(view);
+      queryClient.setQueryData(postKeys.detail(post.uri), post);
+      cacheProfile(queryClient, post.author);
+      return post;
+    });
+
+/** Same as `cachePostViews` for feed items, which wrap each post view. Reply parents and roots are cached too. */
+export const cacheFeedItems = (queryClient: QueryClient, items: AppBskyFeedDefs.FeedViewPost[]): FeedPost[] => {
+  const replyContext = items
+    .flatMap((item) => [item?.reply?.root, item?.reply?.parent])
+    .filter((view) => view?.$type === 'app.bsky.feed.defs#postView') as AppBskyFeedDefs.PostView[];
+  cachePostViews(queryClient, replyContext);
+  return cachePostViews(queryClient, items.map((item) => item?.post));
+};
+
+/** Collects every post view in a thread: the root, its parents and all loaded replies. */
+export const cacheThread = (queryClient: QueryClient, thread: ThreadNode) => {
+  const views: AppBskyFeedDefs.PostView[] = [];
+  const walkReplies = (node: ThreadNode) => {
+    if (!node?.post) return;
+    views.push(node.post);
+    (node.replies ?? []).forEach(walkReplies);
+  };
+  for (let parent = thread?.parent; parent?.post; parent = parent.parent) {
+    views.push(parent.post);
+  }
+  walkReplies(thread);
+  cachePostViews(queryClient, views);
+};
+
+/** Merges into the cached profile so a partial author view never drops fields a full profile load set. */
+export const cacheProfile = <T extends CachedProfile>(queryClient: QueryClient, profile: T) => {
+  const defined = Object.fromEntries(Object.entries(profile).filter(([, value]) => value !== undefined));
+  queryClient.setQueryData<CachedProfile>(profileKeys.detail(profile.did), (prev) => ({ ...prev, ...defined }) as T);
+};
+
+export const updateCachedPost = (
+  queryClient: QueryClient,
+  uri: string,
+  update: (post: FeedPost) => FeedPost
+) => {
+  queryClient.setQueryData<FeedPost>(postKeys.detail(uri), (prev) => (prev ? update(prev) : prev));
+};
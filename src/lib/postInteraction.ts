@@ -0,0 +1,55 @@
+// Threadgate and postgate records for a new post. Shared with the server,
+// which publishes scheduled posts, so keep this free of DOM and alias imports.
+
+export type ReplySetting = 'anyone' | 'nobody' | 'followers' | 'following' | 'mentioned' | 'list';
+
+export interface PostInteraction {
+  reply?: ReplySetting;
+  listUris?: string[];
+  allowQuotePosts?: boolean;
+}
+
+export type ThreadgateRule =
+  | { $type: 'app.bsky.feed.threadgate#mentionRule' }
+  | { $type: 'app.bsky.feed.threadgate#followerRule' }
+  | { $type: 'app.bsky.feed.threadgate#followingRule' }
+  | { $type: 'app.bsky.feed.threadgate#listRule'; list: string };
+
+export const REPLY_SETTINGS: ReplySetting[] = ['anyone', 'nobody', 'followers', 'following', 'mentioned', 'list'];
+
+/** `undefined` means anyone can reply, so no threadgate is written at all. */
+export const getThreadgateRules = (interaction: PostInteraction): ThreadgateRule[] | undefined => {
+  switch (interaction.reply ?? 'anyone') {
+    case 'nobody':
+      return [];
+    case 'followers':
+      return [{ $type: 'app.bsky.feed.threadgate#followerRule' }];
+    case 'following':
+      return [{ $type: 'app.bsky.feed.threadgate#followingRule' }];
+    case 'mentioned':
+      return [{ $type: 'app.bsky.feed.threadgate#mentionRule' }];
+    case 'list':
+      return (interaction.listUris ?? []).map((list) => ({ $type: 'app.bsky.feed.threadgate#listRule', list }));
+    default:
+      return undefined;
+  }
+};
+
+/** Gate records share the post's rkey, as the app view expects. */
+export const buildGateRecords = (postUri: string, interaction: PostInteraction, createdAt: string) => {
+  const allow = getThreadgateRules(interaction);
+  return {
+    threadgate: allow
+      ? { $type: 'app.bsky.feed.threadgate', post: postUri, allow, createdAt }
+      : undefined,
+    postgate:
+      interaction.allowQuotePosts ?? true
+        ? undefined
+        : {
+            $type: 'app.bsky.feed.postgate',
+            post: postUri,
+            embeddingRules: [{ $type: 'app.bsky.feed.postgate#disableRule' }],
+            createdAt,
+          },
+  };
+};
@@ -0,0 +1,117 @@
+// Post search queries in the `from:alice lang:en some words` syntax used by
+// `app.bsky.feed.searchPosts`. The raw query string is what goes in the URL, so
+// a shared link rebuilds the same filters.
+import type { AppBskyFeedDefs } from '@atproto/api';
+
+export type PostSearchSort = 'top' | 'latest';
+
+export interface PostSearchFilters {
+  /** Free text, including hashtags, quoted phrases and operators we don't model. */
+  text: string;
+  from: string;
+  mentions: string;
+  lang: string;
+  /** ISO dates (YYYY-MM-DD), inclusive. */
+  since: string;
+  until: string;
+  domain: string;
+  hasMedia: boolean;
+}
+
+export const EMPTY_POST_SEARCH_FILTERS: PostSearchFilters = {
+  text: '',
+  from: '',
+  mentions: '',
+  lang: '',
+  since: '',
+  until: '',
+  domain: '',
+  hasMedia: false,
+};
+
+type ValueOperator = 'from' | 'mentions' | 'lang' | 'since' | 'until' | 'domain';
+
+const VALUE_OPERATORS: ValueOperator[] = ['from', 'mentions', 'lang', 'since', 'until', 'domain'];
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const TOKEN_PATTERN = /[^\s"]*"[^"]*"?|\S+/g;
+
+const normalizeOperatorValue = (operator: ValueOperator, value: string) => {
+  switch (operator) {
+    case 'from':
+    case 'mentions':
+      return value.replace(/^@/, '').toLowerCase();
+    case 'lang':
+    case 'domain':
+      return value.toLowerCase();
+    default:
+      return ISO_DATE.test(value) ? value : '';
+  }
+};
+
+export const parsePostSearchQuery = (query: string): PostSearchFilters => {
+  const filters: PostSearchFilters = { ...EMPTY_POST_SEARCH_FILTERS };
+  const text: string[] = [];
+
+  for (const token of query.match(TOKEN_PATTERN) ?? []) {
+    if (token.toLowerCase() === 'has:media') {
+      filters.hasMedia = true;
+      continue;
+    }
+    const separator = token.indexOf(':');
+    const operator = token.slice(0, separator).toLowerCase() as ValueOperator;
+    const value = separator > 0 && VALUE_OPERATORS.includes(operator)
+      ? normalizeOperatorValue(operator, token.slice(separator + 1))
+      : '';
+    if (value) {
+      filters[operator] = value;
+    } else {
+      text.push(token);
+    }
+  }
+
+  filters.text = text.join(' ');
+  return filters;
+};
+
+export const buildPostSearchQuery = (filters: PostSearchFilters) => {
+  const parts = [filters.text.trim()];
+  VALUE_OPERATORS.forEach((operator) => {
+    const value = normalizeOperatorValue(operator, filters[operator].trim());
+    if (value) parts.push(`${operator}:${value}`);
+  });
+  if (filters.hasMedia) parts.push('has:media');
+  return parts.filter(Boolean).join(' ');
+};
+
+export const hasPostSearchFilters = (filters: PostSearchFilters) =>
+  filters.hasMedia || VALUE_OPERATORS.some((operator) => Boolean(filters[operator]));
+
+/**
+ * The query as sent to the AppView. It understands every operator except
+ * `has:media`, which is applied to each page of results instead.
+ */
+export const toServerPostSearchQuery = (filters: PostSearchFilters) =>
+  buildPostSearchQuery({ ...filters, hasMedia: false });
+
+export const postHasMedia = (post: AppBskyFeedDefs.PostView) => {
+  const type = (post.embed as { $type?: string } | undefined)?.$type;
+  return (
+    type === 'app.bsky.embed.images#view' ||
+    type === 'app.bsky.embed.video#view' ||
+    type === 'app.bsky.embed.recordWithMedia#view'
+  );
+};
+
+export const readPostSearchParams = (params: URLSearchParams) => ({
+  query: params.get('q')?.trim() ?? '',
+  sort: (params.get('sort') === 'latest' ? 'latest' : 'top') as PostSearchSort,
+});
+
+export const toPostSearchParams = (query: string, sort: PostSearchSort) => {
+  const params = new URLSearchParams();
+  if (query) params.set('q', query);
+  if (sort !== 'top') params.set('sort', sort);
+  return params;
+};
@@ -0,0 +1,61 @@
+// Browser side of Web Push. Subscriptions are registered with the chat server,
+// which polls notifications and DMs for the signed-in account and pushes them.
+import { chatApi } from './chat';
+
+export const isPushSupported = () =>
+  typeof window !== 'undefined' &&
+  'serviceWorker' in navigator &&
+  'PushManager' in window &&
+  'Notification' in window;
+
+const base64UrlToBytes = (value: string) => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+};
+
+const sameKey = (current: ArrayBuffer | null | undefined, expected: Uint8Array) => {
+  if (!current || current.byteLength !== expected.length) return false;
+  const bytes = new Uint8Array(current);
+  return bytes.every((byte, index) => byte === expected[index]);
+};
+
+export async function getPushSubscription() {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.ready;
+  return registration.pushManager.getSubscription();
+}
+
+export async function enablePushNotifications() {
+  if (!isPushSupported()) {
+    throw new Error('This browser does not support push notifications.');
+  }
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    throw new Error('Notifications are blocked for this site. Allow them in your browser settings.');
+  }
+
+  const registration = await navigator.serviceWorker.ready;
+  const serverKey = base64UrlToBytes(await chatApi.getPushPublicKey());
+  let subscription = await registration.pushManager.getSubscription();
+  // A subscription made for another server key can't receive our messages.
+  if (subscription && !sameKey(subscription.options.applicationServerKey, serverKey)) {
+    await subscription.unsubscribe();
+    subscription = null;
+  }
+  if (!subscription) {
+    subscription = await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: serverKey,
+    });
+  }
+
+  await chatApi.subscribePush(subscription.toJSON());
+  return subscription;
+}
+
+export async function disablePushNotifications() {
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+  await chatApi.unsubscribePush(subscription.endpoint).catch(() => undefined);
+  await subscription.unsubscribe();
+}
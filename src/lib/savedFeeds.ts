@@ -0,0 +1,51 @@
+// The account's saved and pinned feeds, from `savedFeedsPrefV2` (or the older
+// `savedFeedsPref`, which only stored URIs).
+import { AppBskyActorDefs } from '@atproto/api';
+
+export type SavedFeedType = 'feed' | 'list' | 'timeline';
+
+export interface SavedFeedItem {
+  id: string;
+  type: SavedFeedType;
+  value: string;
+  pinned: boolean;
+}
+
+export const TIMELINE_FEED: SavedFeedItem = { id: 'timeline:following', type: 'timeline', value: 'following', pinned: true };
+
+const SAVED_FEED_TYPES = new Set<string>(['feed', 'list', 'timeline']);
+
+const typeFromUri = (uri: string): SavedFeedType => (uri.includes('/app.bsky.graph.list/') ? 'list' : 'feed');
+
+export const readSavedFeeds = (preferences: AppBskyActorDefs.Preferences): SavedFeedItem[] => {
+  const v2 = preferences.find((pref) => AppBskyActorDefs.isSavedFeedsPrefV2(pref)) as
+    | AppBskyActorDefs.SavedFeedsPrefV2
+    | undefined;
+  if (v2) {
+    return v2.items
+      .filter((item) => SAVED_FEED_TYPES.has(item.type))
+      .map((item) => ({ id: item.id, type: item.type as SavedFeedType, value: item.value, pinned: Boolean(item.pinned) }));
+  }
+
+  const v1 = preferences.find((pref) => AppBskyActorDefs.isSavedFeedsPref(pref)) as
+    | AppBskyActorDefs.SavedFeedsPref
+    | undefined;
+  if (!v1) return [];
+  const pinned = new Set(v1.pinned ?? []);
+  const uris = [...(v1.pinned ?? []), ...(v1.saved ?? []).filter((uri) => !pinned.has(uri))];
+  const items = uris.map((uri) => {
+    const type = typeFromUri(uri);
+    return { id: `${type}:${uri}`, type, value: uri, pinned: pinned.has(uri) };
+  });
+  // v1 kept the timeline out of the list; put it back where it was shown.
+  items.splice(Math.min(v1.timelineIndex ?? 0, items.length), 0, TIMELINE_FEED);
+  return items;
+};
+
+export const moveSavedFeed = (items: SavedFeedItem[], from: number, to: number) => {
+  if (from === to || from < 0 || to < 0 || from >= items.length || to >= items.length) return items;
+  const next = [...items];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
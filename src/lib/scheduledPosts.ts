@@ -0,0 +1,123 @@
+// Client for the server-side scheduled post queue. Posts are published by the
+// server through the account's chat session, so a session must exist.
+import { format, set } from 'date-fns';
+import { CHAT_API_BASE, chatServerRequest } from './chat';
+import type { PostInteraction } from './postInteraction';
+
+export type ScheduledPostStatus = 'pending' | 'publishing' | 'published' | 'failed';
+
+export interface ScheduledPost {
+  id: string;
+  text: string;
+  langs: string[];
+  interaction: PostInteraction;
+  images: Array<{ index: number; alt: string; aspectRatio?: { width: number; height: number } }>;
+  external?: { uri: string; title: string; description: string; hasThumb: boolean };
+  scheduledAt: string;
+  createdAt: string;
+  status: ScheduledPostStatus;
+  attempts: number;
+  nextAttemptAt?: string;
+  lastError?: string;
+  publishedUri?: string;
+}
+
+export interface ScheduledPostDraft {
+  text: string;
+  scheduledAt: Date;
+  langs?: string[];
+  interaction?: PostInteraction;
+  images?: Array<{ file: Blob; alt?: string; aspectRatio?: { width: number; height: number } }>;
+  external?: { uri: string; title: string; description: string; thumb?: Blob | null };
+}
+
+export interface ScheduledPostChanges {
+  text?: string;
+  scheduledAt?: Date;
+  langs?: string[];
+  interaction?: PostInteraction;
+}
+
+const ROUTE = '/scheduled-posts';
+
+const toBase64 = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1] ?? '');
+    reader.onerror = () => reject(reader.error ?? new Error('Failed to read file.'));
+    reader.readAsDataURL(blob);
+  });
+
+const encodeMedia = async (file: Blob, alt = '', aspectRatio?: { width: number; height: number }) => ({
+  data: await toBase64(file),
+  mimeType: file.type,
+  alt,
+  ...(aspectRatio ? { aspectRatio } : {}),
+});
+
+/** The earliest slot worth offering: a few minutes out, rounded up to five. */
+export const getDefaultScheduleTime = () => {
+  const date = new Date(Date.now() + 15 * 60 * 1000);
+  return set(date, { minutes: Math.ceil(date.getMinutes() / 5) * 5, seconds: 0, milliseconds: 0 });
+};
+
+export const formatScheduleTime = (date: Date) => format(date, "EEE, MMM d 'at' HH:mm");
+
+export const getScheduledMediaUrl = (post: ScheduledPost, index: number | 'thumb') =>
+  `${CHAT_API_BASE}${ROUTE}/media?id=${encodeURIComponent(post.id)}&index=${index}`;
+
+export const scheduledPostsApi = {
+  async list() {
+    const data = await chatServerRequest<{ posts: ScheduledPost[] }>(ROUTE);
+    return data.posts ?? [];
+  },
+
+  async create(draft: ScheduledPostDraft) {
+    const images = await Promise.all(
+      (draft.images ?? []).map((image) => encodeMedia(image.file, image.alt, image.aspectRatio))
+    );
+    const external = draft.external
+      ? {
+          uri: draft.external.uri,
+          title: draft.external.title,
+          description: draft.external.description,
+          thumb: draft.external.thumb ? await encodeMedia(draft.external.thumb) : undefined,
+        }
+      : undefined;
+    const data = await chatServerRequest<{ post: ScheduledPost }>(ROUTE, {
+      method: 'POST',
+      body: JSON.stringify({
+        text: draft.text,
+        scheduledAt: draft.scheduledAt.toISOString(),
+        langs: draft.langs,
+        interaction: draft.interaction,
+        images,
+        external,
+      }),
+    });
+    return data.post;
+  },
+
+  async update(id: string, changes: ScheduledPostChanges) {
+    const data = await chatServerRequest<{ post: ScheduledPost }>(`${ROUTE}/update`, {
+      method: 'POST',
+      body: JSON.stringify({ ...changes, id, scheduledAt: changes.scheduledAt?.toISOString() }),
+    });
+    return data.post;
+  },
+
+  async retry(id: string) {
+    const data = await chatServerRequest<{ post: ScheduledPost }>(`${ROUTE}/retry`, {
+      method: 'POST',
+      body: JSON.stringify({ id }),
+    });
+    return data.post;
+  },
+
+  async cancel(id: string) {
+    await chatServerRequest<{ success: boolean }>(`${ROUTE}/cancel`, {
+      method: 'POST',
+      body: JSON.stringify({ id }),
+    });
+  },
+};
@@ -1,4 +1,5 @@
 import { useEffect } from 'react';
+import { JsonLd, serializeJsonLd } from '@/lib/structuredData';
 
 const SITE_NAME = 'HillSide';
 const TITLE_SUFFIX = `— ${SITE_NAME}`;
@@ -29,6 +30,27 @@ const setLinkTag = (rel: string, href: string) => {
   tag.setAttribute('href', href);
 };
 
+const STRUCTURED_DATA_ID = 'structured-data';
+
+// The server injects the same script for SSR'd pages; replace it on client
+// navigation and drop it on pages that have no structured data.
+const setStructuredData = (json: string | null) => {
+  let tag = document.getElementById(STRUCTURED_DATA_ID);
+  if (!json) {
+    tag?.remove();
+    return;
+  }
+  if (!tag) {
+    tag = document.createElement('script');
+    tag.id = STRUCTURED_DATA_ID;
+    tag.setAttribute('type', 'application/ld+json');
+    document.head.appendChild(tag);
+  }
+  if (tag.textContent !== json) {
+    tag.textContent = json;
+  }
+};
+
 const withSuffix = (title?: string) => {
   if (!title) return SITE_NAME;
   return title.includes(TITLE_SUFFIX) ? title : `${title} ${TITLE_SUFFIX}`;
@@ -39,12 +61,20 @@ export function usePageMeta({
   description,
   image,
   url,
+  jsonLd,
 }: {
   title?: string;
   description?: string;
   image?: string;
   url?: string;
+  jsonLd?: JsonLd | null;
 }) {
+  const structuredData = jsonLd ? serializeJsonLd(jsonLd) : null;
+
+  useEffect(() => {
+    setStructuredData(structuredData);
+  }, [structuredData]);
+
   useEffect(() => {
     const pageTitle = withSuffix(title);
     document.title = pageTitle;
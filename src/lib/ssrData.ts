@@ -0,0 +1,45 @@
+// Reads the JSON payload the server writes next to its static snapshot of
+// public post and profile pages (see server/ssrPage.ts).
+
+const SSR_DATA_ELEMENT_ID = '__HILLSIDE_SSR__';
+
+interface SsrPayload {
+  kind: 'post' | 'profile';
+  path: string;
+  data: unknown;
+}
+
+let cached: SsrPayload | null | undefined;
+
+const normalizePath = (pathname: string) => pathname.replace(/\/+$/, '') || '/';
+
+const readPayload = () => {
+  if (cached !== undefined) return cached;
+  cached = null;
+  const element = typeof document !== 'undefined' ? document.getElementById(SSR_DATA_ELEMENT_ID) : null;
+  if (element?.textContent) {
+    try {
+      cached = JSON.parse(element.textContent) as SsrPayload;
+    } catch {
+      cached = null;
+    }
+  }
+  return cached;
+};
+
+/**
+ * Returns the server-rendered data for `kind` when it was rendered for the
+ * current URL. Only valid until `clearSsrData` runs after the first mount.
+ */
+export function getSsrData<T>(kind: SsrPayload['kind']): T | null {
+  const payload = readPayload();
+  if (!payload || payload.kind !== kind) return null;
+  if (normalizePath(payload.path) !== normalizePath(window.location.pathname)) return null;
+  return payload.data as T;
+}
+
+/** Drops the payload so later client-side navigations always fetch fresh data. */
+export function clearSsrData() {
+  cached = null;
+  document.getElementById(SSR_DATA_ELEMENT_ID)?.remove();
+}
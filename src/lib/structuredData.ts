@@ -0,0 +1,174 @@
+// schema.org JSON-LD builders shared by the SSR meta layer (server/index.ts)
+// and usePageMeta. Keep this file free of DOM and path-alias imports so the
+// server can load it directly.
+
+export type JsonLd = Record<string, unknown>;
+
+interface StructuredAuthor {
+  did?: string;
+  handle: string;
+  displayName?: string;
+  avatar?: string;
+}
+
+export interface StructuredPost {
+  uri: string;
+  author: StructuredAuthor;
+  record?: { text?: string; createdAt?: string };
+  embed?: any;
+  indexedAt?: string;
+  likeCount?: number;
+  repostCount?: number;
+  replyCount?: number;
+  quoteCount?: number;
+}
+
+export interface StructuredProfile extends StructuredAuthor {
+  description?: string;
+  banner?: string;
+  followersCount?: number;
+  followsCount?: number;
+  postsCount?: number;
+  createdAt?: string;
+}
+
+const HEADLINE_MAX_LENGTH = 110;
+
+const trimSlash = (siteUrl: string) => siteUrl.replace(/\/$/, '');
+
+export const profileUrl = (siteUrl: string, handle: string) =>
+  `${trimSlash(siteUrl)}/profile/${encodeURIComponent(handle)}`;
+
+export const postUrl = (siteUrl: string, post: Pick<StructuredPost, 'uri' | 'author'>) =>
+  `${profileUrl(siteUrl, post.author.handle)}/post/${encodeURIComponent(post.uri.split('/').pop() ?? '')}`;
+
+const counter = (interactionType: string, count?: number) => ({
+  '@type': 'InteractionCounter',
+  interactionType: `https://schema.org/${interactionType}`,
+  userInteractionCount: count ?? 0,
+});
+
+const personNode = (author: StructuredAuthor, siteUrl: string): JsonLd => ({
+  '@type': 'Person',
+  name: author.displayName || `@${author.handle}`,
+  alternateName: `@${author.handle}`,
+  ...(author.did ? { identifier: author.did } : {}),
+  url: profileUrl(siteUrl, author.handle),
+  ...(author.avatar ? { image: author.avatar } : {}),
+});
+
+const getMedia = (embed: any): { images: string[]; video?: JsonLd } => {
+  switch (embed?.$type) {
+    case 'app.bsky.embed.images#view':
+      return {
+        images: (embed.images ?? []).map((image: any) => image.fullsize ?? image.thumb).filter(Boolean),
+      };
+    case 'app.bsky.embed.video#view':
+      return {
+        images: embed.thumbnail ? [embed.thumbnail] : [],
+        video: {
+          '@type': 'VideoObject',
+          name: embed.alt || 'Video',
+          ...(embed.thumbnail ? { thumbnailUrl: embed.thumbnail } : {}),
+          contentUrl: embed.playlist,
+        },
+      };
+    case 'app.bsky.embed.external#view':
+      return { images: embed.external?.thumb ? [embed.external.thumb] : [] };
+    case 'app.bsky.embed.recordWithMedia#view':
+      return getMedia(embed.media);
+    default:
+      return { images: [] };
+  }
+};
+
+const getQuotedPost = (embed: any) => {
+  let record: any = null;
+  if (embed?.$type === 'app.bsky.embed.record#view') record = embed.record;
+  if (embed?.$type === 'app.bsky.embed.recordWithMedia#view') record = embed.record?.record;
+  return record?.$type === 'app.bsky.embed.record#viewRecord' && record.author?.handle ? record : null;
+};
+
+export const buildPostJsonLd = (post: StructuredPost, siteUrl: string): JsonLd => {
+  const url = postUrl(siteUrl, post);
+  const text = post.record?.text?.trim() ?? '';
+  const firstLine = text.split('\n')[0] ?? '';
+  const { images, video } = getMedia(post.embed);
+  const quoted = getQuotedPost(post.embed);
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'SocialMediaPosting',
+    '@id': url,
+    url,
+    identifier: post.uri,
+    headline:
+      firstLine.length > HEADLINE_MAX_LENGTH
+        ? `${firstLine.slice(0, HEADLINE_MAX_LENGTH - 3)}...`
+        : firstLine || `Post by @${post.author.handle}`,
+    ...(text ? { articleBody: text } : {}),
+    ...(post.record?.createdAt ? { datePublished: post.record.createdAt } : {}),
+    author: personNode(post.author, siteUrl),
+    commentCount: post.replyCount ?? 0,
+    interactionStatistic: [
+      counter('LikeAction', post.likeCount),
+      counter('ShareAction', (post.repostCount ?? 0) + (post.quoteCount ?? 0)),
+      counter('CommentAction', post.replyCount),
+    ],
+    ...(images.length ? { image: images } : {}),
+    ...(video ? { video } : {}),
+    ...(quoted
+      ? {
+          sharedContent: {
+            '@type': 'SocialMediaPosting',
+            url: postUrl(siteUrl, quoted),
+            author: personNode(quoted.author, siteUrl),
+          },
+        }
+      : {}),
+  };
+};
+
+export const buildProfileJsonLd = (profile: StructuredProfile, siteUrl: string): JsonLd => ({
+  '@context': 'https://schema.org',
+  '@type': 'ProfilePage',
+  url: profileUrl(siteUrl, profile.handle),
+  ...(profile.createdAt ? { dateCreated: profile.createdAt } : {}),
+  mainEntity: {
+    ...personNode(profile, siteUrl),
+    ...(profile.description ? { description: profile.description } : {}),
+    interactionStatistic: [counter('FollowAction', profile.followersCount)],
+    agentInteractionStatistic: [
+      counter('WriteAction', profile.postsCount),
+      counter('FollowAction', profile.followsCount),
+    ],
+  },
+});
+
+export const buildHashtagJsonLd = (
+  tag: string,
+  siteUrl: string,
+  posts: Pick<StructuredPost, 'uri' | 'author'>[] = []
+): JsonLd => ({
+  '@context': 'https://schema.org',
+  '@type': 'CollectionPage',
+  name: `#${tag} on HillSide`,
+  description: `Latest posts tagged #${tag} on HillSide.`,
+  url: `${trimSlash(siteUrl)}/hashtag/${encodeURIComponent(tag)}`,
+  keywords: tag,
+  ...(posts.length
+    ? {
+        mainEntity: {
+          '@type': 'ItemList',
+          itemListElement: posts.map((post, index) => ({
+            '@type': 'ListItem',
+            position: index + 1,
+            url: postUrl(siteUrl, post),
+          })),
+        },
+      }
+    : {}),
+});
+
+/** Serializes JSON-LD for a <script> body; `<` is escaped so text can't close the tag. */
+export const serializeJsonLd = (data: JsonLd) => JSON.stringify(data).replace(/</g, '\\u003c');
@@ -4,11 +4,12 @@ import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Skeleton } from '@/components/ui/skeleton';
-import { Loader2, AlertCircle, Lock, AtSign, X } from 'lucide-react';
+import { Loader2, AlertCircle, Lock, AtSign, X, ChevronDown, Server } from 'lucide-react';
 import { z } from 'zod';
 import { atprotoClient } from '@/lib/atproto';
 import { AtpSessionData } from '@atproto/api';
 import { usePageMeta } from '@/lib/seo';
+import { normalizeServiceUrl } from '@/lib/identity';
 
 const loginSchema = z.object({
   identifier: z.string()
@@ -21,25 +22,39 @@ const loginSchema = z.object({
   password: z.string()
     .min(1, 'Password is required')
     .max(256, 'Password is too long'),
+  hostingProvider: z.string()
+    .max(253, 'Hosting provider is too long')
+    .refine(
+      (val) => !val.trim() || normalizeServiceUrl(val, { allowInsecure: import.meta.env.DEV }) !== null,
+      'Enter a valid hosting provider address, e.g. https://pds.example.com'
+    ),
 });
 
+const oauthSchema = loginSchema
+  .pick({ hostingProvider: true })
+  .extend({ identifier: loginSchema.shape.identifier.or(z.literal('')) })
+  .refine((val) => val.identifier || val.hostingProvider.trim(), 'Enter your handle or a hosting provider');
+
 export default function AuthPage() {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
-  const { login, isAuthenticated, isLoading: authLoading, switchAccount, logout } = useAuth();
+  const { login, loginWithOAuth, isAuthenticated, isLoading: authLoading, switchAccount, logout } = useAuth();
   usePageMeta({
     title: 'Sign in',
-    description: 'Sign in to HillSide with your Bluesky handle and app password.',
+    description: 'Sign in to HillSide with your Bluesky account.',
   });
   
   const [identifier, setIdentifier] = useState('');
   const [password, setPassword] = useState('');
+  const [hostingProvider, setHostingProvider] = useState('');
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [useAppPassword, setUseAppPassword] = useState(false);
   const [suggestions, setSuggestions] = useState<Array<{ handle: string; displayName?: string; avatar?: string }>>([]);
   const [isSuggesting, setIsSuggesting] = useState(false);
   const [showSuggestions, setShowSuggestions] = useState(false);
   const [savedAccounts, setSavedAccounts] = useState<Array<AtpSessionData & { avatar?: string }>>([]);
   const [showLoginForm, setShowLoginForm] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(() => searchParams.get('oauthError'));
   const [isLoading, setIsLoading] = useState(false);
   const [isSwitching, setIsSwitching] = useState(false);
   const [switchingDid, setSwitchingDid] = useState<string | null>(null);
@@ -131,7 +146,9 @@ export default function AuthPage() {
     setError(null);
 
     // Validate input
-    const validation = loginSchema.safeParse({ identifier, password });
+    const validation = useAppPassword
+      ? loginSchema.safeParse({ identifier, password, hostingProvider })
+      : oauthSchema.safeParse({ identifier, hostingProvider });
     if (!validation.success) {
       setError(validation.error.errors[0].message);
       return;
@@ -140,17 +157,23 @@ export default function AuthPage() {
     setIsLoading(true);
 
     try {
-      const result = await login(identifier, password);
-      if (result.success) {
-        navigate('/feed', { replace: true });
+      if (!useAppPassword) {
+        const result = await loginWithOAuth(identifier, hostingProvider.trim() || undefined);
+        // On success the browser is already on its way to the authorization server.
+        if (result.success) return;
+        setError(result.error || 'Could not start sign-in');
       } else {
-        setError(result.error || 'Authentication failed');
+        const result = await login(identifier, password, hostingProvider.trim() || undefined);
+        if (result.success) {
+          navigate('/feed', { replace: true });
+        } else {
+          setError(result.error.message || 'Authentication failed');
+        }
       }
     } catch (err) {
       setError('An unexpected error occurred. Please try again.');
-    } finally {
-      setIsLoading(false);
     }
+    setIsLoading(false);
   };
 
   return (
@@ -358,34 +381,75 @@ export default function AuthPage() {
                   </div>
                 </div>
 
-                <div className="space-y-2">
-                  <label htmlFor="password" className="text-sm font-medium text-foreground">
-                    App Password
-                  </label>
-                  <div className="relative">
-                    <Lock className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-                    <Input
-                      id="password"
-                      type="password"
-                      placeholder="xxxx-xxxx-xxxx-xxxx"
-                      value={password}
-                      onChange={(e) => setPassword(e.target.value)}
-                      className="pl-11"
-                      disabled={isLoading}
-                      autoComplete="current-password"
-                    />
+                {useAppPassword && (
+                  <div className="space-y-2">
+                    <label htmlFor="password" className="text-sm font-medium text-foreground">
+                      App Password
+                    </label>
+                    <div className="relative">
+                      <Lock className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                      <Input
+                        id="password"
+                        type="password"
+                        placeholder="xxxx-xxxx-xxxx-xxxx"
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        className="pl-11"
+                        disabled={isLoading}
+                        autoComplete="current-password"
+                      />
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Create an app password at{' '}
+                      <a 
+                        href="https://bsky.app/settings/app-passwords" 
+                        target="_blank" 
+                        rel="noopener noreferrer"
+                        className="text-primary hover:underline"
+                      >
+                        bsky.app/settings
+                      </a>
+                    </p>
                   </div>
-                  <p className="text-xs text-muted-foreground">
-                    Create an app password at{' '}
-                    <a 
-                      href="https://bsky.app/settings/app-passwords" 
-                      target="_blank" 
-                      rel="noopener noreferrer"
-                      className="text-primary hover:underline"
-                    >
-                      bsky.app/settings
-                    </a>
-                  </p>
+                )}
+
+                <div className="space-y-2">
+                  <button
+                    type="button"
+                    onClick={() => setShowAdvanced((prev) => !prev)}
+                    className="flex items-center gap-1 text-xs font-medium text-muted-foreground hover:text-foreground transition-colors"
+                    aria-expanded={showAdvanced}
+                    aria-controls="hosting-provider-section"
+                  >
+                    <ChevronDown className={`w-3.5 h-3.5 transition-transform ${showAdvanced ? 'rotate-180' : ''}`} />
+                    Advanced: hosting provider
+                  </button>
+                  {showAdvanced && (
+                    <div id="hosting-provider-section" className="space-y-2">
+                      <label htmlFor="hosting-provider" className="text-sm font-medium text-foreground">
+                        Hosting provider
+                      </label>
+                      <div className="relative">
+                        <Server className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                        <Input
+                          id="hosting-provider"
+                          type="text"
+                          inputMode="url"
+                          placeholder="https://bsky.social"
+                          value={hostingProvider}
+                          onChange={(e) => setHostingProvider(e.target.value)}
+                          className="pl-11"
+                          disabled={isLoading}
+                          autoComplete="off"
+                          spellCheck={false}
+                        />
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Leave blank to find your server from your handle. Fill it in if your account is on a
+                        self-hosted PDS that can't be discovered automatically.
+                      </p>
+                    </div>
+                  )}
                 </div>
 
                 {error && (
@@ -407,10 +471,24 @@ export default function AuthPage() {
                       <Loader2 className="w-4 h-4 animate-spin" />
                       Signing in...
                     </>
+                  ) : useAppPassword ? (
+                    'Sign in with app password'
                   ) : (
                     'Sign in with Bluesky'
                   )}
                 </Button>
+
+                <button
+                  type="button"
+                  onClick={() => {
+                    setUseAppPassword((prev) => !prev);
+                    setError(null);
+                  }}
+                  className="w-full text-center text-xs font-medium text-muted-foreground hover:text-foreground transition-colors"
+                  disabled={isLoading}
+                >
+                  {useAppPassword ? 'Sign in through your Bluesky account instead' : 'Use an app password instead'}
+                </button>
               </form>
             )}
 
@@ -1,7 +1,8 @@
 import { useEffect, useRef, useState } from 'react';
 import { useLocation, useNavigate, Navigate } from 'react-router-dom';
 import { AppLayout } from '@/components/layout/AppLayout';
-import { chatApi, ChatApiError, ChatConvo } from '@/lib/chat';
+import { applyChatLogToConvos, chatApi, ChatApiError, ChatConvo, ChatLogEntry } from '@/lib/chat';
+import { useChatEvents } from '@/hooks/use-chat-events';
 import { ConversationRow } from '@/components/chat/ConversationRow';
 import { NewChatDialog } from '@/components/chat/NewChatDialog';
 import { Skeleton } from '@/components/ui/skeleton';
@@ -26,6 +27,8 @@ export default function ChatPage() {
   const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const loadMoreRef = useRef<HTMLDivElement | null>(null);
+  const convosRef = useRef<ChatConvo[]>([]);
+  convosRef.current = convos;
 
   const loadConvos = async (reset = false) => {
     if (reset) {
@@ -56,6 +59,26 @@ export default function ChatPage() {
     loadConvos(true);
   }, [isAuthenticated, isChatSessionLoading, hasChatSession]);
 
+  const handleChatEvent = (entry: ChatLogEntry) => {
+    const isKnown = convosRef.current.some((convo) => convo.id === entry.convoId);
+    if (!isKnown && (entry.type === 'beginConvo' || entry.type === 'createMessage')) {
+      chatApi
+        .getConvo(entry.convoId)
+        .then(({ convo }) =>
+          setConvos((prev) => (prev.some((item) => item.id === convo.id) ? prev : [convo, ...prev]))
+        )
+        .catch(() => undefined);
+      return;
+    }
+    setConvos((prev) => applyChatLogToConvos(prev, entry, user?.did));
+  };
+
+  useChatEvents({
+    enabled: isAuthenticated && !isChatSessionLoading && hasChatSession,
+    onEvent: handleChatEvent,
+    onSessionExpired: () => navigate('/auth', { replace: true }),
+  });
+
   useEffect(() => {
     const node = loadMoreRef.current;
     if (!node || !cursor) return;
@@ -2,7 +2,16 @@ import { useEffect, useMemo, useState } from 'react';
 import { Navigate, useNavigate, useParams, Link } from 'react-router-dom';
 import { ArrowLeft } from 'lucide-react';
 import { AppLayout } from '@/components/layout/AppLayout';
-import { chatApi, ChatApiError, ChatConvo, ChatMessage } from '@/lib/chat';
+import {
+  applyChatLogToConvos,
+  applyChatLogToMessages,
+  chatApi,
+  ChatApiError,
+  ChatConvo,
+  ChatLogEntry,
+  ChatMessage,
+} from '@/lib/chat';
+import { useChatEvents } from '@/hooks/use-chat-events';
 import { MessageList } from '@/components/chat/MessageList';
 import { MessageComposer } from '@/components/chat/MessageComposer';
 import { Button } from '@/components/ui/button';
@@ -86,6 +95,24 @@ export default function ChatThreadPage() {
     chatApi.updateRead(convoId).then(() => setReadMarked(true)).catch(() => undefined);
   }, [convoId, readMarked, messages.length]);
 
+  const handleChatEvent = (entry: ChatLogEntry) => {
+    if (!convoId || entry.convoId !== convoId) return;
+    setMessages((prev) => applyChatLogToMessages(prev, entry, convoId));
+    setConvo((prev) => (prev ? applyChatLogToConvos([prev], entry, user?.did)[0] ?? null : prev));
+    if (entry.type === 'createMessage' && entry.message.senderDid !== user?.did) {
+      setReadMarked(false);
+    }
+    if (entry.type === 'leaveConvo') {
+      navigate('/chat', { replace: true });
+    }
+  };
+
+  useChatEvents({
+    enabled: isAuthenticated && !isChatSessionLoading && hasChatSession && Boolean(convoId),
+    onEvent: handleChatEvent,
+    onSessionExpired: () => navigate('/auth', { replace: true }),
+  });
+
   const handleSend = async (text: string) => {
     if (!convoId || !user?.did) return;
     setIsSending(true);
@@ -1,14 +1,16 @@
-import { useEffect, useState, useCallback } from 'react';
+import { FormEvent, useEffect, useState, useCallback } from 'react';
 import { Link } from 'react-router-dom';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { atprotoClient } from '@/lib/atproto';
-import { Compass, Search, TrendingUp, Users, RefreshCw } from 'lucide-react';
+import { Compass, FileText, Search, TrendingUp, Users, RefreshCw } from 'lucide-react';
 import { VerifiedBadge } from '@/components/VerifiedBadge';
 import { usePageMeta } from '@/lib/seo';
 import { MobileMoreMenu } from '@/components/layout/BottomNav';
+import { PostSearchResults, PostSearchSortToggle } from '@/components/search/PostSearchResults';
+import { buildPostSearchQuery, parsePostSearchQuery, PostSearchSort, toPostSearchParams } from '@/lib/postSearch';
 
 interface SuggestedFeed {
   uri: string;
@@ -139,9 +141,9 @@ function ExploreSkeleton() {
 export default function ExplorePage() {
   usePageMeta({
     title: 'Explore',
-    description: 'Discover people and feeds across HillSide.',
+    description: 'Discover people, posts and feeds across HillSide.',
   });
-  const [activeTab, setActiveTab] = useState<'feeds' | 'people'>('feeds');
+  const [activeTab, setActiveTab] = useState<'feeds' | 'people' | 'posts'>('feeds');
   const [feeds, setFeeds] = useState<SuggestedFeed[]>([]);
   const [actors, setActors] = useState<SuggestedActor[]>([]);
   const [defaultActors, setDefaultActors] = useState<SuggestedActor[]>([]);
@@ -150,6 +152,8 @@ export default function ExplorePage() {
   const [isSearching, setIsSearching] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [postQuery, setPostQuery] = useState('');
+  const [postSort, setPostSort] = useState<PostSearchSort>('top');
 
   const fetchExploreData = useCallback(async (refresh = false) => {
     if (refresh) {
@@ -233,7 +237,7 @@ export default function ExplorePage() {
               verified: actor.verification?.verifiedStatus === 'valid',
             }))
           );
-          setActiveTab('people');
+          setActiveTab((prev) => (prev === 'posts' ? prev : 'people'));
         }
       } catch {
         if (active) setError('Search failed');
@@ -247,6 +251,12 @@ export default function ExplorePage() {
     };
   }, [searchQuery, defaultActors]);
 
+  // People results follow the search box as you type; posts wait for a submit.
+  const submitPostSearch = (event?: FormEvent) => {
+    event?.preventDefault();
+    setPostQuery(buildPostSearchQuery(parsePostSearchQuery(searchQuery.trim())));
+  };
+
   return (
     <AppLayout requireAuth={false}>
       {/* Header */}
@@ -268,21 +278,30 @@ export default function ExplorePage() {
 
         {/* Search */}
         <div className="px-4 pb-3">
-          <div className="relative flex gap-2">
+          <form
+            className="relative flex gap-2"
+            onSubmit={(event) => {
+              if (activeTab === 'posts') {
+                submitPostSearch(event);
+              } else {
+                event.preventDefault();
+              }
+            }}
+          >
             <div className="relative flex-1">
               <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
               <Input
                 type="text"
-                placeholder="Search people..."
+                placeholder={activeTab === 'posts' ? 'Search posts...' : 'Search people...'}
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
                 className="pl-10"
               />
             </div>
-            <Button variant="outline" disabled>
+            <Button type="submit" variant="outline" disabled={activeTab !== 'posts'}>
               Search
             </Button>
-          </div>
+          </form>
         </div>
 
         {/* Tabs */}
@@ -315,6 +334,23 @@ export default function ExplorePage() {
               <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-primary" />
             )}
           </button>
+          <button
+            onClick={() => {
+              setActiveTab('posts');
+              submitPostSearch();
+            }}
+            className={`flex-1 px-4 py-3 text-sm font-medium transition-colors relative ${
+              activeTab === 'posts' ? 'text-primary' : 'text-muted-foreground hover:text-foreground'
+            }`}
+          >
+            <div className="flex items-center justify-center gap-2">
+              <FileText className="w-4 h-4" />
+              Posts
+            </div>
+            {activeTab === 'posts' && (
+              <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-primary" />
+            )}
+          </button>
         </div>
       </header>
 
@@ -329,7 +365,20 @@ export default function ExplorePage() {
           </div>
         )}
 
-        {isLoading || isSearching ? (
+        {activeTab === 'posts' ? (
+          <div>
+            <PostSearchSortToggle sort={postSort} onChange={setPostSort} />
+            <div className="px-4 py-2 border-b border-border text-right">
+              <Link
+                to={`/search?${toPostSearchParams(postQuery, postSort).toString()}`}
+                className="text-sm text-primary hover:underline"
+              >
+                Advanced search
+              </Link>
+            </div>
+            <PostSearchResults query={postQuery} sort={postSort} />
+          </div>
+        ) : isLoading || isSearching ? (
           <div>
             {[...Array(6)].map((_, i) => (
               <ExploreSkeleton key={i} />
@@ -1,13 +1,16 @@
-import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { atprotoClient } from '@/lib/atproto';
+import { AtpClientError, describeAtpError, toAtpClientError } from '@/lib/atpResult';
 import { FeedPost, PostCard } from '@/components/feed/PostCard';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
 import { getSavedPosts, removeSavedPost, savePost, SavedPost } from '@/lib/savedPosts';
 import { usePageMeta } from '@/lib/seo';
 import { MobileMoreMenu } from '@/components/layout/BottomNav';
+import { usePostList } from '@/hooks/use-post-cache';
 
 function PostSkeleton() {
   return (
@@ -34,15 +37,36 @@ function PostSkeleton() {
 
 export default function FeedDetailPage() {
   const { handle, feedId } = useParams<{ handle: string; feedId: string }>();
-  const [feedMeta, setFeedMeta] = useState<{ name: string; description?: string } | null>(null);
-  const [posts, setPosts] = useState<FeedPost[]>([]);
   const [savedUris, setSavedUris] = useState<Set<string>>(new Set());
-  const [cursor, setCursor] = useState<string | undefined>();
-  const [isLoading, setIsLoading] = useState(true);
-  const [isLoadingMore, setIsLoadingMore] = useState(false);
-  const [error, setError] = useState<string | null>(null);
   const loadMoreRef = useRef<HTMLDivElement | null>(null);
 
+  const feedQuery = useQuery({
+    queryKey: ['feedGenerator', handle, feedId],
+    enabled: Boolean(handle && feedId),
+    staleTime: Infinity,
+    queryFn: async () => {
+      const resolved = await atprotoClient.resolveHandle(handle!);
+      if (!resolved.success) throw resolved.error;
+      if (!resolved.data?.did) throw new AtpClientError('notFound', 'Failed to resolve feed owner.');
+      const uri = `at://${resolved.data.did}/app.bsky.feed.generator/${feedId}`;
+      const metaResult = await atprotoClient.getFeedGenerators([uri]);
+      const generator = metaResult.success ? metaResult.data?.[0] : undefined;
+      return {
+        uri,
+        name: generator?.displayName as string | undefined,
+        description: generator?.description as string | undefined,
+      };
+    },
+  });
+  const feedUri = feedQuery.data?.uri;
+  const feedMeta = feedQuery.data?.name ? { name: feedQuery.data.name, description: feedQuery.data.description } : null;
+  const { posts, error, isLoading, isLoadingMore, hasMore, loadMore, refresh } = usePostList(
+    ['feed', feedUri],
+    (cursor) => atprotoClient.getFeed(feedUri!, cursor, 30),
+    { enabled: Boolean(feedUri) }
+  );
+  const loadError = feedQuery.error ?? error;
+
   usePageMeta({
     title: feedMeta?.name || 'Feed',
     description: feedMeta?.description || 'Explore a curated feed on HillSide.',
@@ -67,101 +91,22 @@ export default function FeedDetailPage() {
     });
   }, []);
 
-  const feedUri = useMemo(() => {
-    if (!handle || !feedId) return null;
-    return { handle, feedId };
-  }, [handle, feedId]);
-
-  const fetchFeed = useCallback(
-    async (refresh = false) => {
-      if (!feedUri) return;
-      if (refresh) {
-        setIsLoading(true);
-      } else {
-        setIsLoadingMore(true);
-      }
-      setError(null);
-
-      try {
-        const resolved = await atprotoClient.resolveHandle(feedUri.handle);
-        if (!resolved.success || !resolved.data?.did) {
-          setError('Failed to resolve feed owner.');
-          return;
-        }
-        const uri = `at://${resolved.data.did}/app.bsky.feed.generator/${feedUri.feedId}`;
-        const [metaResult, feedResult] = await Promise.all([
-          atprotoClient.getFeedGenerators([uri]),
-          atprotoClient.getFeed(uri, refresh ? undefined : cursor, 30),
-        ]);
-
-        if (metaResult.success && metaResult.data?.[0]) {
-          setFeedMeta({
-            name: metaResult.data[0].displayName,
-            description: metaResult.data[0].description,
-          });
-        }
-
-        if (feedResult.success && feedResult.data) {
-          const mapped: FeedPost[] = feedResult.data.map((item: any) => ({
-            uri: item.post.uri,
-            cid: item.post.cid,
-            author: {
-              did: item.post.author.did,
-              handle: item.post.author.handle,
-              displayName: item.post.author.displayName,
-              avatar: item.post.author.avatar,
-              verified: item.post.author.verification?.verifiedStatus === 'valid',
-            },
-            record: {
-              text: item.post.record.text,
-              createdAt: item.post.record.createdAt,
-            },
-            replyCount: item.post.replyCount ?? 0,
-            repostCount: item.post.repostCount ?? 0,
-            likeCount: item.post.likeCount ?? 0,
-            embed: item.post.embed,
-            viewer: {
-              like: item.post.viewer?.like,
-              repost: item.post.viewer?.repost,
-            },
-          }));
-          setPosts((prev) => (refresh ? mapped : [...prev, ...mapped]));
-          setCursor(feedResult.cursor);
-        }
-      } catch (err) {
-        setError('Failed to load feed.');
-      } finally {
-        setIsLoading(false);
-        setIsLoadingMore(false);
-      }
-    },
-    [feedUri, cursor]
-  );
-
-  useEffect(() => {
-    setPosts([]);
-    setCursor(undefined);
-    if (feedUri) {
-      fetchFeed(true);
-    }
-  }, [feedUri]);
-
   useEffect(() => {
     const node = loadMoreRef.current;
-    if (!node || !cursor) return;
+    if (!node || !hasMore) return;
     if (isLoading || isLoadingMore) return;
 
     const observer = new IntersectionObserver(
       (entries) => {
         if (entries[0]?.isIntersecting) {
-          fetchFeed(false);
+          loadMore();
         }
       },
       { rootMargin: '200px' }
     );
     observer.observe(node);
     return () => observer.disconnect();
-  }, [cursor, isLoading, isLoadingMore, fetchFeed]);
+  }, [hasMore, isLoading, isLoadingMore, loadMore]);
 
   return (
     <AppLayout requireAuth={false}>
@@ -176,20 +121,20 @@ export default function FeedDetailPage() {
               )}
             </div>
           </div>
-          <Button variant="ghost" size="sm" onClick={() => fetchFeed(true)}>
+          <Button variant="ghost" size="sm" onClick={refresh} disabled={!feedUri}>
             Refresh
           </Button>
         </div>
       </header>
 
       <div className="animate-fade-in">
-        {error && (
+        {loadError && (
           <div className="p-4 m-4 rounded-lg bg-destructive/10 border border-destructive/20 text-destructive text-sm">
-            {error}
+            {describeAtpError(toAtpClientError(loadError), 'Failed to load feed.')}
           </div>
         )}
 
-        {isLoading ? (
+        {isLoading || feedQuery.isLoading ? (
           [...Array(4)].map((_, i) => <PostSkeleton key={i} />)
         ) : posts.length === 0 ? (
           <div className="p-8 text-center text-muted-foreground">No posts in this feed.</div>
@@ -210,19 +155,19 @@ export default function FeedDetailPage() {
           <div className="flex justify-center py-6 text-sm text-muted-foreground">Loading more…</div>
         )}
 
-        {cursor && !isLoading && (
+        {hasMore && !isLoading && (
           <div className="flex justify-center py-6">
-            <Button variant="outline" onClick={() => fetchFeed(false)} disabled={isLoadingMore}>
+            <Button variant="outline" onClick={() => loadMore()} disabled={isLoadingMore}>
               {isLoadingMore ? 'Loading...' : 'Load more'}
             </Button>
           </div>
         )}
 
-        {!cursor && !isLoading && posts.length > 0 && (
+        {!hasMore && !isLoading && posts.length > 0 && (
           <div className="flex justify-center py-6 text-xs text-muted-foreground">No more posts.</div>
         )}
 
-        {cursor && <div ref={loadMoreRef} className="h-6" />}
+        {hasMore && <div ref={loadMoreRef} className="h-6" />}
       </div>
     </AppLayout>
   );
@@ -1,15 +1,23 @@
-import { useEffect, useState, useCallback, useRef } from 'react';
+import { useEffect, useLayoutEffect, useMemo, useState, useCallback, useRef } from 'react';
+import type { AppBskyFeedDefs } from '@atproto/api';
 import { Link } from 'react-router-dom';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { atprotoClient } from '@/lib/atproto';
+import { describeAtpError } from '@/lib/atpResult';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Button } from '@/components/ui/button';
-import { RefreshCw } from 'lucide-react';
+import { RefreshCw, SlidersHorizontal } from 'lucide-react';
 import { getSavedPosts, removeSavedPost, savePost, SavedPost } from '@/lib/savedPosts';
 import { FeedPost, PostCard } from '@/components/feed/PostCard';
 import { usePageMeta } from '@/lib/seo';
 import { useAuth } from '@/contexts/AuthContext';
 import { MobileMoreMenu } from '@/components/layout/BottomNav';
+import { usePostList } from '@/hooks/use-post-cache';
+import { useFeedViewSettings } from '@/hooks/use-feed-view-settings';
+import { FeedSlice, HOME_FEED, tuneFeed } from '@/lib/feedTuner';
+import { FeedTunerDialog } from '@/components/feed/FeedTunerDialog';
+import { useSavedFeedLabels, useSavedFeeds } from '@/hooks/use-saved-feeds';
+import { SavedFeedItem, TIMELINE_FEED } from '@/lib/savedFeeds';
 
 function PostSkeleton() {
   return (
@@ -34,24 +42,97 @@ function PostSkeleton() {
   );
 }
 
+const DISCOVER_FEED_URI = 'at://did:plc:z72i7hdynmk6r22z27h6tvur/app.bsky.feed.generator/whats-hot';
+const DISCOVER_FEED: SavedFeedItem = { id: 'feed:discover', type: 'feed', value: DISCOVER_FEED_URI, pinned: true };
+// Horizontal travel a touch needs before it counts as a swipe between tabs.
+const SWIPE_THRESHOLD_PX = 60;
+
+const feedQueryKey = (tab: SavedFeedItem) => (tab.type === 'timeline' ? ['timeline'] : [tab.type, tab.value]);
+
+const fetchFeedPage = (tab: SavedFeedItem, cursor?: string) => {
+  if (tab.type === 'timeline') return atprotoClient.getTimeline(cursor, 30);
+  if (tab.type === 'list') return atprotoClient.getListFeed(tab.value, cursor, 30);
+  return atprotoClient.getFeed(tab.value, cursor, 30);
+};
+
 export default function FeedPage() {
-  const { isAuthenticated } = useAuth();
-  const discoverFeedUri =
-    'at://did:plc:z72i7hdynmk6r22z27h6tvur/app.bsky.feed.generator/whats-hot';
-  const [posts, setPosts] = useState<FeedPost[]>([]);
+  const { user, isAuthenticated } = useAuth();
+  const { items: savedFeeds } = useSavedFeeds(isAuthenticated);
+  // Tabs follow the pinned feeds in saved order. The timeline needs a session,
+  // so signed-out readers (and accounts with nothing pinned) get the defaults.
+  const tabs = useMemo(() => {
+    if (!isAuthenticated) return [DISCOVER_FEED];
+    const pinned = savedFeeds.filter((item) => item.pinned);
+    return pinned.length > 0 ? pinned : [TIMELINE_FEED, DISCOVER_FEED];
+  }, [isAuthenticated, savedFeeds]);
+  const labels = useSavedFeedLabels(tabs);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const activeTab = tabs.find((tab) => tab.id === selectedId) ?? tabs[0];
+  const isTimeline = activeTab.type === 'timeline';
   const [savedUris, setSavedUris] = useState<Set<string>>(new Set());
-  const [isLoading, setIsLoading] = useState(true);
-  const [isLoadingMore, setIsLoadingMore] = useState(false);
-  const [isRefreshing, setIsRefreshing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [cursor, setCursor] = useState<string | undefined>();
+  const [tunerOpen, setTunerOpen] = useState(false);
   const loadMoreRef = useRef<HTMLDivElement | null>(null);
+  const tabRefs = useRef(new Map<string, HTMLButtonElement>());
+  const scrollPositions = useRef(new Map<string, number>());
+  const touchStart = useRef<{ x: number; y: number } | null>(null);
+  // Each tab is its own cached query, so switching back keeps its pages and cursor.
+  const { posts, items, error, isLoading, isLoadingMore, isRefreshing, hasMore, loadMore, refresh } = usePostList(
+    feedQueryKey(activeTab),
+    (cursor) => fetchFeedPage(activeTab, cursor)
+  );
+  const { settings: feedViewSettings } = useFeedViewSettings(HOME_FEED, isAuthenticated);
+
+  const slices = useMemo<FeedSlice[]>(
+    () =>
+      isTimeline
+        ? tuneFeed(items as AppBskyFeedDefs.FeedViewPost[], feedViewSettings, user?.did)
+        : posts.map((post) => ({ key: post.uri, posts: [post] })),
+    [isTimeline, items, posts, feedViewSettings, user?.did]
+  );
+
+  const tabLabel = (tab: SavedFeedItem) => {
+    if (tab.type === 'timeline') return 'Following';
+    if (tab.id === DISCOVER_FEED.id) return 'Discover';
+    return labels[tab.value]?.name ?? (tab.type === 'list' ? 'List' : 'Feed');
+  };
 
   usePageMeta({
-    title: 'Discover',
+    title: tabLabel(activeTab),
     description: 'Discover the latest posts on HillSide.',
   });
 
+  const selectTab = (id: string) => {
+    if (id === activeTab.id) {
+      window.scrollTo({ top: 0, behavior: 'smooth' });
+      return;
+    }
+    scrollPositions.current.set(activeTab.id, window.scrollY);
+    setSelectedId(id);
+  };
+
+  useLayoutEffect(() => {
+    window.scrollTo(0, scrollPositions.current.get(activeTab.id) ?? 0);
+    tabRefs.current.get(activeTab.id)?.scrollIntoView({ block: 'nearest', inline: 'center' });
+  }, [activeTab.id]);
+
+  const handleTouchStart = (event: React.TouchEvent) => {
+    const touch = event.touches[0];
+    touchStart.current = touch ? { x: touch.clientX, y: touch.clientY } : null;
+  };
+
+  const handleTouchEnd = (event: React.TouchEvent) => {
+    const start = touchStart.current;
+    const touch = event.changedTouches[0];
+    touchStart.current = null;
+    if (!start || !touch) return;
+    const dx = touch.clientX - start.x;
+    const dy = touch.clientY - start.y;
+    // Mostly-horizontal movement only, so scrolling the feed never switches tabs.
+    if (Math.abs(dx) < SWIPE_THRESHOLD_PX || Math.abs(dx) < Math.abs(dy) * 2) return;
+    const next = tabs[tabs.indexOf(activeTab) + (dx < 0 ? 1 : -1)];
+    if (next) selectTab(next.id);
+  };
+
   useEffect(() => {
     const saved = getSavedPosts().map((post) => post.uri);
     setSavedUris(new Set(saved));
@@ -71,83 +152,15 @@ export default function FeedPage() {
     });
   }, []);
 
-  const fetchFeed = useCallback(
-    async (refresh = false) => {
-      if (refresh) {
-        setIsRefreshing(true);
-      } else if (posts.length > 0) {
-        setIsLoadingMore(true);
-      } else {
-        setIsLoading(true);
-      }
-      setError(null);
-
-      try {
-        const result = await atprotoClient.getFeed(
-          discoverFeedUri,
-          refresh ? undefined : cursor,
-          30
-        );
-        if (result.success && result.data) {
-          const feedPosts: FeedPost[] = result.data.map((item: any) => ({
-            uri: item.post.uri,
-            cid: item.post.cid,
-            author: {
-              did: item.post.author.did,
-              handle: item.post.author.handle,
-              displayName: item.post.author.displayName,
-              avatar: item.post.author.avatar,
-              verified: item.post.author.verification?.verifiedStatus === 'valid',
-            },
-            record: {
-              text: item.post.record.text,
-              createdAt: item.post.record.createdAt,
-            },
-            replyCount: item.post.replyCount ?? 0,
-            repostCount: item.post.repostCount ?? 0,
-            likeCount: item.post.likeCount ?? 0,
-            embed: item.post.embed,
-            viewer: {
-              like: item.post.viewer?.like,
-              repost: item.post.viewer?.repost,
-            },
-          }));
-
-          if (refresh) {
-            setPosts(feedPosts);
-          } else {
-            setPosts((prev) => [...prev, ...feedPosts]);
-          }
-          setCursor(result.cursor);
-        } else {
-          setError('Failed to load feed');
-        }
-      } catch (err) {
-        setError('Failed to fetch timeline');
-      } finally {
-        setIsLoading(false);
-        setIsLoadingMore(false);
-        setIsRefreshing(false);
-      }
-    },
-    [cursor, posts.length]
-  );
-
-  useEffect(() => {
-    setCursor(undefined);
-    setPosts([]);
-    fetchFeed(true);
-  }, []);
-
   useEffect(() => {
     const node = loadMoreRef.current;
-    if (!node || !cursor) return;
+    if (!node || !hasMore) return;
     if (isLoading || isLoadingMore || isRefreshing) return;
 
     const observer = new IntersectionObserver(
       (entries) => {
         if (entries[0]?.isIntersecting) {
-          fetchFeed(false);
+          loadMore();
         }
       },
       { rootMargin: '200px' }
@@ -155,7 +168,7 @@ export default function FeedPage() {
 
     observer.observe(node);
     return () => observer.disconnect();
-  }, [cursor, isLoading, isLoadingMore, isRefreshing, fetchFeed]);
+  }, [hasMore, isLoading, isLoadingMore, isRefreshing, loadMore]);
 
   return (
     <AppLayout requireAuth={false}>
@@ -173,35 +186,54 @@ export default function FeedPage() {
             />
           </div>
           <div className="flex justify-end">
-            <Button variant="ghost" size="icon" onClick={() => fetchFeed(true)} disabled={isRefreshing}>
+            {isTimeline && (
+              <Button variant="ghost" size="icon" onClick={() => setTunerOpen(true)} aria-label="Feed preferences">
+                <SlidersHorizontal className="w-5 h-5" />
+              </Button>
+            )}
+            <Button variant="ghost" size="icon" onClick={refresh} disabled={isRefreshing}>
               <RefreshCw className={`w-5 h-5 ${isRefreshing ? 'animate-spin' : ''}`} />
             </Button>
           </div>
         </div>
-        <div className="px-6 border-t border-border/60">
-          <div className="grid grid-cols-2 text-sm font-semibold">
-            <button
-              type="button"
-              className="py-3 border-b-2 border-primary text-foreground text-center"
-            >
-              Discover
-            </button>
-            <Link
-              to="/feeds"
-              className="py-3 border-b-2 border-transparent text-muted-foreground hover:text-foreground text-center"
-            >
-              Feeds
-            </Link>
+        <div className="border-t border-border/60 flex items-center">
+          <div className="flex-1 flex overflow-x-auto text-sm font-semibold [scrollbar-width:none]" role="tablist">
+            {tabs.map((tab) => (
+              <button
+                key={tab.id}
+                ref={(node) => {
+                  if (node) tabRefs.current.set(tab.id, node);
+                  else tabRefs.current.delete(tab.id);
+                }}
+                type="button"
+                role="tab"
+                aria-selected={tab.id === activeTab.id}
+                onClick={() => selectTab(tab.id)}
+                className={`shrink-0 px-5 py-3 border-b-2 whitespace-nowrap ${
+                  tab.id === activeTab.id
+                    ? 'border-primary text-foreground'
+                    : 'border-transparent text-muted-foreground hover:text-foreground'
+                }`}
+              >
+                {tabLabel(tab)}
+              </button>
+            ))}
           </div>
+          <Link
+            to="/feeds"
+            className="shrink-0 px-4 py-3 text-sm font-semibold text-muted-foreground hover:text-foreground border-l border-border/60"
+          >
+            Feeds
+          </Link>
         </div>
       </header>
 
       {/* Feed */}
-      <div className="animate-fade-in">
+      <div className="animate-fade-in" onTouchStart={handleTouchStart} onTouchEnd={handleTouchEnd}>
         {error && (
           <div className="p-4 m-4 rounded-lg bg-destructive/10 border border-destructive/20 text-destructive text-sm">
-            {error}
-            <Button variant="ghost" size="sm" onClick={() => fetchFeed(true)} className="ml-2">
+            {describeAtpError(error, 'Failed to load feed')}
+            <Button variant="ghost" size="sm" onClick={refresh} className="ml-2">
               Retry
             </Button>
           </div>
@@ -209,31 +241,43 @@ export default function FeedPage() {
 
         {isLoading ? (
           [...Array(4)].map((_, i) => <PostSkeleton key={i} />)
-        ) : posts.length === 0 ? (
-          <div className="p-8 text-center text-muted-foreground">No posts to show.</div>
+        ) : slices.length === 0 ? (
+          <div className="p-8 text-center text-muted-foreground">
+            {isTimeline
+              ? 'Nothing to show yet. Follow some accounts, or loosen your feed preferences.'
+              : 'No posts to show.'}
+          </div>
         ) : (
           <div>
-            {posts.map((post) => (
-              <PostCard
-                key={post.uri}
-                post={post}
-                isSaved={savedUris.has(post.uri)}
-                onToggleSave={toggleSave}
-              />
+            {slices.map((slice) => (
+              <div key={slice.key}>
+                {slice.posts.map((post, index) => (
+                  <PostCard
+                    key={post.uri}
+                    post={post}
+                    isSaved={savedUris.has(post.uri)}
+                    onToggleSave={toggleSave}
+                    repostedBy={index === 0 ? slice.repostedBy : undefined}
+                    hasReplyBelow={index < slice.posts.length - 1}
+                  />
+                ))}
+              </div>
             ))}
           </div>
         )}
 
-        {cursor && !isLoading && (
+        {hasMore && !isLoading && (
           <div className="flex justify-center py-6">
-            <Button variant="outline" onClick={() => fetchFeed(false)} disabled={isLoadingMore}>
+            <Button variant="outline" onClick={() => loadMore()} disabled={isLoadingMore}>
               {isLoadingMore ? 'Loading...' : 'Load more'}
             </Button>
           </div>
         )}
 
-        {cursor && <div ref={loadMoreRef} className="h-6" />}
+        {hasMore && <div ref={loadMoreRef} className="h-6" />}
       </div>
+
+      {isAuthenticated && <FeedTunerDialog open={tunerOpen} onOpenChange={setTunerOpen} />}
     </AppLayout>
   );
 }
@@ -1,23 +1,21 @@
 import { useEffect, useMemo, useRef, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { AppLayout } from '@/components/layout/AppLayout';
+import { useQueryClient } from '@tanstack/react-query';
 import { atprotoClient } from '@/lib/atproto';
+import { describeAtpError, toAtpClientError } from '@/lib/atpResult';
+import { SavedFeedItem } from '@/lib/savedFeeds';
+import { toast } from '@/components/ui/sonner';
+import { SavedFeedsManager } from '@/components/feed/SavedFeedsManager';
+import { savedFeedKeys, useSavedFeedLabels, useSavedFeeds } from '@/hooks/use-saved-feeds';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Skeleton } from '@/components/ui/skeleton';
-import { Compass, Settings, Star, Users, Search, ChevronRight, Pin } from 'lucide-react';
+import { Compass, Settings, Star, Search, Pin } from 'lucide-react';
 import { usePageMeta } from '@/lib/seo';
 import { useAuth } from '@/contexts/AuthContext';
 import { MobileMoreMenu } from '@/components/layout/BottomNav';
 
-
-type SavedFeedItem = {
-  id: string;
-  type: 'feed' | 'list' | 'timeline';
-  value: string;
-  pinned: boolean;
-};
-
 type FeedGenerator = {
   uri: string;
   displayName: string;
@@ -35,34 +33,6 @@ function getFeedRoute(feed: FeedGenerator) {
   return `/profile/${feed.creator.handle}/feed/${feedId}`;
 }
 
-function MyFeedRow({
-  title,
-  description,
-  icon,
-  to,
-}: {
-  title: string;
-  description: string;
-  icon: React.ReactNode;
-  to: string;
-}) {
-  return (
-    <Link
-      to={to}
-      className="flex items-center gap-3 rounded-lg border border-border/70 px-4 py-3 hover:bg-muted/30 transition-colors"
-    >
-      <div className="h-9 w-9 rounded-lg bg-primary/10 text-primary flex items-center justify-center">
-        {icon}
-      </div>
-      <div className="flex-1 min-w-0">
-        <p className="font-semibold text-foreground">{title}</p>
-        <p className="text-xs text-muted-foreground truncate">{description}</p>
-      </div>
-      <ChevronRight className="h-4 w-4 text-muted-foreground" />
-    </Link>
-  );
-}
-
 function FeedCard({
   feed,
   pinned,
@@ -129,8 +99,9 @@ export default function FeedsPage() {
     title: 'Feeds',
     description: 'Browse and manage your pinned feeds on HillSide.',
   });
-  const [savedFeeds, setSavedFeeds] = useState<SavedFeedItem[]>([]);
-  const [savedFeedDetails, setSavedFeedDetails] = useState<Record<string, FeedGenerator>>({});
+  const queryClient = useQueryClient();
+  const { items: savedFeeds, isLoading: isSavedLoading, save: saveFeeds } = useSavedFeeds(isAuthenticated);
+  const savedFeedLabels = useSavedFeedLabels(savedFeeds);
   const [suggestedFeeds, setSuggestedFeeds] = useState<FeedGenerator[]>([]);
   const [search, setSearch] = useState('');
   const [isLoading, setIsLoading] = useState(true);
@@ -163,44 +134,8 @@ export default function FeedsPage() {
           setSuggestedFeeds((prev) => (refreshSuggested ? mapped : [...prev, ...mapped]));
           setSuggestedCursor(suggested.cursor);
         }
-        setSavedFeeds([]);
-        setSavedFeedDetails({});
         return;
       }
-      const prefsResult = await atprotoClient.getPreferences();
-      const prefs = prefsResult.success && prefsResult.data ? prefsResult.data : [];
-      const savedPref = prefs.find(
-        (pref: any) =>
-          pref?.$type === 'app.bsky.actor.defs#savedFeedsPrefV2' ||
-          pref?.$type === 'app.bsky.actor.defs#savedFeedsPref'
-      );
-      const items: SavedFeedItem[] = (savedPref?.items || []).map((item: any) => ({
-        id: item.id,
-        type: item.type,
-        value: item.value,
-        pinned: Boolean(item.pinned),
-      }));
-      setSavedFeeds(items);
-
-      const feedUris = items.filter((item) => item.type === 'feed').map((item) => item.value);
-      if (feedUris.length > 0) {
-        const details = await atprotoClient.getFeedGenerators(feedUris);
-        if (details.success && details.data) {
-          const map: Record<string, FeedGenerator> = {};
-          details.data.forEach((feed: any) => {
-            map[feed.uri] = {
-              uri: feed.uri,
-              displayName: feed.displayName,
-              description: feed.description,
-              avatar: feed.avatar,
-              likeCount: feed.likeCount,
-              creator: { handle: feed.creator.handle },
-            };
-          });
-          setSavedFeedDetails(map);
-        }
-      }
-
       const suggested = await atprotoClient.getSuggestedFeeds(refreshSuggested ? undefined : suggestedCursor, 20);
       if (suggested.success && suggested.data) {
         const mapped = suggested.data.map((feed: any) => ({
@@ -263,15 +198,20 @@ export default function FeedsPage() {
     setIsPinning(uri);
     const result = await atprotoClient.pinFeed(uri, 'feed');
     if (result.success) {
-      await fetchFeeds();
+      await queryClient.invalidateQueries({ queryKey: savedFeedKeys.all });
+    } else {
+      toast(describeAtpError(result.error, 'Failed to pin feed'));
     }
     setIsPinning(null);
   };
 
-  const myFeeds = savedFeeds
-    .filter((item) => item.type === 'feed')
-    .map((item) => savedFeedDetails[item.value])
-    .filter(Boolean);
+  const handleSavedFeedsChange = async (items: SavedFeedItem[]) => {
+    try {
+      await saveFeeds(items);
+    } catch (err) {
+      toast(describeAtpError(toAtpClientError(err), 'Failed to update your feeds'));
+    }
+  };
 
   return (
     <AppLayout requireAuth={false}>
@@ -302,34 +242,21 @@ export default function FeedsPage() {
             </div>
           </div>
 
-          <div className="space-y-3">
-            <MyFeedRow
-              title="Following"
-              description="Posts from people you follow"
-              icon={<Users className="h-4 w-4" />}
-              to="/feed"
-            />
+          <p className="text-xs text-muted-foreground">
+            Pinned feeds appear as tabs on your home screen, in this order. Drag to reorder.
+          </p>
 
-            {isLoading ? (
-              <div className="space-y-2">
-                {[...Array(2)].map((_, i) => (
-                  <Skeleton key={`feed-skeleton-${i}`} className="h-16 w-full rounded-lg" />
-                ))}
-              </div>
-            ) : myFeeds.length > 0 ? (
-              myFeeds.map((feed) => (
-                <MyFeedRow
-                  key={feed.uri}
-                  title={feed.displayName}
-                  description={`Feed by @${feed.creator.handle}`}
-                  icon={<Star className="h-4 w-4" />}
-                  to={getFeedRoute(feed)}
-                />
-              ))
-            ) : (
-              <p className="text-xs text-muted-foreground">No saved feeds yet.</p>
-            )}
-          </div>
+          {isSavedLoading ? (
+            <div className="space-y-2">
+              {[...Array(2)].map((_, i) => (
+                <Skeleton key={`feed-skeleton-${i}`} className="h-16 w-full rounded-lg" />
+              ))}
+            </div>
+          ) : savedFeeds.length > 0 ? (
+            <SavedFeedsManager items={savedFeeds} labels={savedFeedLabels} onChange={handleSavedFeedsChange} />
+          ) : (
+            <p className="text-xs text-muted-foreground">No saved feeds yet.</p>
+          )}
           </section>
         )}
 
@@ -1,26 +1,34 @@
-import { useEffect, useState, useCallback, useRef } from 'react';
+import { useEffect, useMemo, useState, useCallback, useRef } from 'react';
 import { useParams } from 'react-router-dom';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { atprotoClient } from '@/lib/atproto';
+import { describeAtpError } from '@/lib/atpResult';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
 import { getSavedPosts, removeSavedPost, savePost, SavedPost } from '@/lib/savedPosts';
 import { FeedPost, PostCard } from '@/components/feed/PostCard';
 import { usePageMeta } from '@/lib/seo';
+import { buildHashtagJsonLd } from '@/lib/structuredData';
 import { MobileMoreMenu } from '@/components/layout/BottomNav';
+import { usePostList } from '@/hooks/use-post-cache';
 
 export default function HashtagPage() {
   const { tag } = useParams<{ tag: string }>();
+  const { posts, error, isLoading, isLoadingMore, hasMore, loadMore, refresh } = usePostList(
+    ['hashtag', tag],
+    (cursor) => atprotoClient.searchPostsByTag(tag ?? '', cursor, 30),
+    { enabled: Boolean(tag), shape: 'posts' }
+  );
+  const hashtagJsonLd = useMemo(
+    () => (tag ? buildHashtagJsonLd(tag, window.location.origin, posts.slice(0, 20)) : null),
+    [tag, posts]
+  );
   usePageMeta({
     title: tag ? `#${tag}` : 'Hashtag',
     description: tag ? `Posts tagged #${tag} on HillSide.` : 'Hashtag posts on HillSide.',
+    jsonLd: hashtagJsonLd,
   });
-  const [posts, setPosts] = useState<FeedPost[]>([]);
   const [savedUris, setSavedUris] = useState<Set<string>>(new Set());
-  const [isLoading, setIsLoading] = useState(true);
-  const [isLoadingMore, setIsLoadingMore] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [cursor, setCursor] = useState<string | undefined>();
   const loadMoreRef = useRef<HTMLDivElement | null>(null);
 
   useEffect(() => {
@@ -42,79 +50,15 @@ export default function HashtagPage() {
     });
   }, []);
 
-  const fetchPosts = useCallback(
-    async (refresh = false) => {
-      if (!tag) return;
-      if (refresh) {
-        setIsLoading(true);
-      } else if (posts.length > 0) {
-        setIsLoadingMore(true);
-      } else {
-        setIsLoading(true);
-      }
-      setError(null);
-
-      try {
-        const result = await atprotoClient.searchPostsByTag(tag, refresh ? undefined : cursor, 30);
-        if (result.success && result.data) {
-          const mapped: FeedPost[] = result.data.map((post: any) => ({
-            uri: post.uri,
-            cid: post.cid,
-            author: {
-              did: post.author.did,
-              handle: post.author.handle,
-              displayName: post.author.displayName,
-              avatar: post.author.avatar,
-              verified: post.author.verification?.verifiedStatus === 'valid',
-            },
-            record: {
-              text: post.record.text,
-              createdAt: post.record.createdAt,
-            },
-            replyCount: post.replyCount ?? 0,
-            repostCount: post.repostCount ?? 0,
-            likeCount: post.likeCount ?? 0,
-            embed: post.embed,
-            viewer: {
-              like: post.viewer?.like,
-              repost: post.viewer?.repost,
-            },
-          }));
-
-          if (refresh) {
-            setPosts(mapped);
-          } else {
-            setPosts((prev) => [...prev, ...mapped]);
-          }
-          setCursor(result.cursor);
-        } else {
-          setError('Failed to load hashtag feed');
-        }
-      } catch (err) {
-        setError('Failed to fetch hashtag feed');
-      } finally {
-        setIsLoading(false);
-        setIsLoadingMore(false);
-      }
-    },
-    [tag, cursor, posts.length]
-  );
-
-  useEffect(() => {
-    setCursor(undefined);
-    setPosts([]);
-    fetchPosts(true);
-  }, [tag]);
-
   useEffect(() => {
     const node = loadMoreRef.current;
-    if (!node || !cursor) return;
+    if (!node || !hasMore) return;
     if (isLoading || isLoadingMore) return;
 
     const observer = new IntersectionObserver(
       (entries) => {
         if (entries[0]?.isIntersecting) {
-          fetchPosts(false);
+          loadMore();
         }
       },
       { rootMargin: '200px' }
@@ -122,7 +66,7 @@ export default function HashtagPage() {
 
     observer.observe(node);
     return () => observer.disconnect();
-  }, [cursor, isLoading, isLoadingMore, fetchPosts]);
+  }, [hasMore, isLoading, isLoadingMore, loadMore]);
 
   return (
     <AppLayout requireAuth={false}>
@@ -136,8 +80,8 @@ export default function HashtagPage() {
       <div className="animate-fade-in">
         {error && (
           <div className="p-4 m-4 rounded-lg bg-destructive/10 border border-destructive/20 text-destructive text-sm">
-            {error}
-            <Button variant="ghost" size="sm" onClick={() => fetchPosts(true)} className="ml-2">
+            {describeAtpError(error, 'Failed to load hashtag feed')}
+            <Button variant="ghost" size="sm" onClick={refresh} className="ml-2">
               Retry
             </Button>
           </div>
@@ -174,15 +118,15 @@ export default function HashtagPage() {
           </div>
         )}
 
-        {cursor && !isLoading && (
+        {hasMore && !isLoading && (
           <div className="flex justify-center py-6">
-            <Button variant="outline" onClick={() => fetchPosts(false)} disabled={isLoadingMore}>
+            <Button variant="outline" onClick={() => loadMore()} disabled={isLoadingMore}>
               {isLoadingMore ? 'Loading...' : 'Load more'}
             </Button>
           </div>
         )}
 
-        {cursor && <div ref={loadMoreRef} className="h-6" />}
+        {hasMore && <div ref={loadMoreRef} className="h-6" />}
       </div>
     </AppLayout>
   );
@@ -1,7 +1,8 @@
 import { useEffect, useMemo, useState, useCallback } from 'react';
 import { useParams, Navigate } from 'react-router-dom';
 import { AppLayout } from '@/components/layout/AppLayout';
-import { atprotoClient } from '@/lib/atproto';
+import { describeAtpError } from '@/lib/atpResult';
+import { mapPostView } from '@/lib/postCache';
 import { FeedPost, PostCard } from '@/components/feed/PostCard';
 import { getSavedPosts, removeSavedPost, savePost, SavedPost } from '@/lib/savedPosts';
 import { Skeleton } from '@/components/ui/skeleton';
@@ -9,37 +10,17 @@ import { Button } from '@/components/ui/button';
 import { MessageSquare } from 'lucide-react';
 import { CommentDialog } from '@/components/feed/CommentDialog';
 import { usePageMeta } from '@/lib/seo';
+import { clearSsrData, getSsrData } from '@/lib/ssrData';
+import { useAuth } from '@/contexts/AuthContext';
+import { buildPostJsonLd } from '@/lib/structuredData';
 import { MobileMoreMenu } from '@/components/layout/BottomNav';
+import { usePostThread } from '@/hooks/use-post-cache';
 
 interface ThreadViewPost {
   post: any;
   replies?: ThreadViewPost[];
 }
 
-const mapPostView = (post: any): FeedPost => ({
-  uri: post.uri,
-  cid: post.cid,
-  author: {
-    did: post.author.did,
-    handle: post.author.handle,
-    displayName: post.author.displayName,
-    avatar: post.author.avatar,
-    verified: post.author.verification?.verifiedStatus === 'valid',
-  },
-  record: {
-    text: post.record.text,
-    createdAt: post.record.createdAt,
-  },
-  replyCount: post.replyCount ?? 0,
-  repostCount: post.repostCount ?? 0,
-  likeCount: post.likeCount ?? 0,
-  embed: post.embed,
-  viewer: {
-    like: post.viewer?.like,
-    repost: post.viewer?.repost,
-  },
-});
-
 function ReplyTree({ replies, depth }: { replies: ThreadViewPost[]; depth: number }) {
   if (!replies || replies.length === 0) return null;
   return (
@@ -60,13 +41,28 @@ function ReplyTree({ replies, depth }: { replies: ThreadViewPost[]; depth: numbe
 
 export default function PostDetailPage() {
   const { handle, postId } = useParams<{ handle: string; postId: string }>();
-  const [thread, setThread] = useState<ThreadViewPost | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  // Public post pages ship with a server snapshot of the thread; start from it
+  // instead of showing a skeleton.
+  const [ssrSeed, setSsrSeed] = useState(() => {
+    const data = getSsrData<{ thread: ThreadViewPost }>('post');
+    return data ? { thread: data.thread, handle, postId } : null;
+  });
+  const isSeeded = Boolean(ssrSeed && ssrSeed.handle === handle && ssrSeed.postId === postId);
+  // The snapshot is fetched anonymously, so signed-in readers refresh it once
+  // auth settles to pick up their like and repost state.
+  const threadQuery = usePostThread(handle, postId, {
+    seed: isSeeded ? ssrSeed.thread : undefined,
+    enabled: !isSeeded || (!authLoading && isAuthenticated),
+  });
+  const thread = threadQuery.data as ThreadViewPost | undefined;
+  const isLoading = threadQuery.isLoading;
+  const error = threadQuery.error && !thread ? describeAtpError(threadQuery.error, 'Failed to load post.') : null;
   const [savedUris, setSavedUris] = useState<Set<string>>(new Set());
   const [commentOpen, setCommentOpen] = useState(false);
 
   useEffect(() => {
+    clearSsrData();
     const saved = getSavedPosts().map((post) => post.uri);
     setSavedUris(new Set(saved));
   }, []);
@@ -86,33 +82,8 @@ export default function PostDetailPage() {
   }, []);
 
   useEffect(() => {
-    const fetchThread = async () => {
-      if (!handle || !postId) return;
-      setIsLoading(true);
-      setError(null);
-
-      try {
-        const resolve = await atprotoClient.resolveHandle(handle);
-        if (!resolve.success || !resolve.data?.did) {
-          setError('Unable to resolve handle.');
-          return;
-        }
-        const uri = `at://${resolve.data.did}/app.bsky.feed.post/${postId}`;
-        const result = await atprotoClient.getPostThread(uri, 3, 2);
-        if (result.success && result.data?.post) {
-          setThread(result.data as ThreadViewPost);
-        } else {
-          setError('Post not found.');
-        }
-      } catch (err) {
-        setError('Failed to load post.');
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    fetchThread();
-  }, [handle, postId]);
+    if (!isSeeded) setSsrSeed(null);
+  }, [isSeeded]);
 
   const rootPost = useMemo(() => {
     if (!thread?.post) return null;
@@ -125,9 +96,15 @@ export default function PostDetailPage() {
     return text.length > 140 ? `${text.slice(0, 137)}...` : text;
   }, [rootPost]);
 
+  const postJsonLd = useMemo(
+    () => (thread?.post?.author ? buildPostJsonLd(thread.post, window.location.origin) : null),
+    [thread]
+  );
+
   usePageMeta({
     title: rootPost?.author?.handle ? `Post by @${rootPost.author.handle}` : 'Post',
     description: postDescription,
+    jsonLd: postJsonLd,
   });
 
   if (!handle || !postId) {
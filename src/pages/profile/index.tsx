@@ -1,7 +1,11 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
 import { AppLayout } from '@/components/layout/AppLayout';
+import { describeAtpError } from '@/lib/atpResult';
 import { atprotoClient } from '@/lib/atproto';
+import { cacheFeedItems, cacheProfile, mapPostView } from '@/lib/postCache';
+import { savedFeedKeys } from '@/hooks/use-saved-feeds';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Button } from '@/components/ui/button';
 import {
@@ -36,6 +40,8 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { Switch } from '@/components/ui/switch';
 import { VerifiedBadge } from '@/components/VerifiedBadge';
 import { usePageMeta } from '@/lib/seo';
+import { clearSsrData, getSsrData } from '@/lib/ssrData';
+import { buildProfileJsonLd } from '@/lib/structuredData';
 import { MobileMoreMenu } from '@/components/layout/BottomNav';
 
 interface ProfileData {
@@ -104,27 +110,55 @@ const tabConfig: Array<{ key: TabKey; label: string }> = [
   { key: 'lists', label: 'Lists' },
 ];
 
-const mapFeedItem = (item: any): FeedPost => ({
-  uri: item.post.uri,
-  cid: item.post.cid,
-  author: {
-    did: item.post.author.did,
-    handle: item.post.author.handle,
-    displayName: item.post.author.displayName,
-    avatar: item.post.author.avatar,
-    verified: item.post.author.verification?.verifiedStatus === 'valid',
-  },
-  record: {
-    text: item.post.record.text,
-    createdAt: item.post.record.createdAt,
-  },
-  replyCount: item.post.replyCount ?? 0,
-  repostCount: item.post.repostCount ?? 0,
-  likeCount: item.post.likeCount ?? 0,
-  embed: item.post.embed,
-  viewer: {
-    like: item.post.viewer?.like,
-    repost: item.post.viewer?.repost,
+const mapProfileView = (data: any, includeViewer: boolean): ProfileData => {
+  const verification = data.verification;
+  const verifications = data.verifications;
+  const computedVerified =
+    verification || verifications
+      ? verification?.verifiedStatus === 'valid' ||
+        verification?.trustedVerifierStatus === 'valid' ||
+        Boolean(verifications?.some((entry: { isValid?: boolean }) => entry?.isValid))
+      : undefined;
+  return {
+    did: data.did,
+    handle: data.handle,
+    displayName: data.displayName,
+    description: data.description,
+    avatar: data.avatar,
+    banner: data.banner,
+    followersCount: data.followersCount ?? 0,
+    followsCount: data.followsCount ?? 0,
+    postsCount: data.postsCount ?? 0,
+    createdAt: data.createdAt,
+    chatAllowIncoming: data.associated?.chat?.allowIncoming,
+    verified: computedVerified,
+    viewer: includeViewer
+      ? {
+          blockedBy: data.viewer?.blockedBy,
+          blocking: data.viewer?.blocking,
+          muted: data.viewer?.muted,
+          following: data.viewer?.following,
+          followedBy: data.viewer?.followedBy,
+          activitySubscription: data.viewer?.activitySubscription,
+        }
+      : undefined,
+  };
+};
+
+interface ProfileSsrData {
+  profile: any;
+  feed: any[];
+  cursor?: string;
+}
+
+const createSeededTabState = (seed: ProfileSsrData): Record<TabKey, TabState<any>> => ({
+  ...createInitialTabState(),
+  posts: {
+    items: seed.feed.filter((item) => item?.post).map((item) => mapPostView(item.post)),
+    cursor: seed.cursor,
+    isLoading: false,
+    error: null,
+    hasLoaded: true,
   },
 });
 
@@ -287,8 +321,17 @@ export default function ProfilePage() {
   const { user, isAuthenticated, isLoading: authLoading, hasChatSession, isChatSessionLoading } = useAuth();
   const { handle } = useParams<{ handle: string }>();
   const navigate = useNavigate();
-  const [profile, setProfile] = useState<ProfileData | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
+  const queryClient = useQueryClient();
+  // Public profiles ship with a server snapshot of the header and latest posts.
+  const [ssrSeed, setSsrSeed] = useState(() => {
+    const data = getSsrData<ProfileSsrData>('profile');
+    return data ? { ...data, handle } : null;
+  });
+  const isSeeded = Boolean(ssrSeed && ssrSeed.handle === handle);
+  const [profile, setProfile] = useState<ProfileData | null>(() =>
+    ssrSeed ? mapProfileView(ssrSeed.profile, false) : null
+  );
+  const [isLoading, setIsLoading] = useState(!ssrSeed);
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<TabKey>('posts');
   const [savedUris, setSavedUris] = useState<Set<string>>(new Set());
@@ -313,7 +356,9 @@ export default function ProfilePage() {
     starterPacks: false,
     lists: false,
   });
-  const [tabData, setTabData] = useState<Record<TabKey, TabState<any>>>(createInitialTabState);
+  const [tabData, setTabData] = useState<Record<TabKey, TabState<any>>>(() =>
+    ssrSeed ? createSeededTabState(ssrSeed) : createInitialTabState()
+  );
   const isOwnProfile = profile?.handle && user?.handle && profile.handle === user.handle;
   const isBlocked = Boolean(profile?.viewer?.blocking || profile?.viewer?.blockedBy);
   const isMuted = Boolean(profile?.viewer?.muted);
@@ -326,9 +371,14 @@ export default function ProfilePage() {
       : allowIncoming === 'following'
         ? isFollowedBy
         : false;
+  const profileJsonLd = useMemo(
+    () => (profile ? buildProfileJsonLd(profile, window.location.origin) : null),
+    [profile]
+  );
   usePageMeta({
     title: profile?.displayName || (profile?.handle ? `@${profile.handle}` : 'Profile'),
     description: profile?.description || 'Profile on HillSide.',
+    jsonLd: profileJsonLd,
   });
   const availableTabs = useMemo(
     () => (isBlocked ? [] : tabConfig.filter((tab) => tabVisibility[tab.key])),
@@ -410,7 +460,7 @@ export default function ProfilePage() {
           );
         }
       } else {
-        toast(result.error || 'Failed to unblock');
+        toast(describeAtpError(result.error, 'Failed to unblock'));
       }
       return;
     }
@@ -433,7 +483,7 @@ export default function ProfilePage() {
         );
       }
     } else {
-      toast(result.error || 'Failed to block');
+      toast(describeAtpError(result.error, 'Failed to block'));
     }
   };
 
@@ -445,7 +495,7 @@ export default function ProfilePage() {
         toast('Account unmuted');
         setProfile((prev) => (prev ? { ...prev, viewer: { ...prev.viewer, muted: false } } : prev));
       } else {
-        toast(result.error || 'Failed to unmute');
+        toast(describeAtpError(result.error, 'Failed to unmute'));
       }
       return;
     }
@@ -454,7 +504,7 @@ export default function ProfilePage() {
       toast('Account muted');
       setProfile((prev) => (prev ? { ...prev, viewer: { ...prev.viewer, muted: true } } : prev));
     } else {
-      toast(result.error || 'Failed to mute');
+      toast(describeAtpError(result.error, 'Failed to mute'));
     }
   };
 
@@ -468,7 +518,7 @@ export default function ProfilePage() {
           prev ? { ...prev, viewer: { ...prev.viewer, following: undefined } } : prev
         );
       } else {
-        toast(result.error || 'Failed to unfollow');
+        toast(describeAtpError(result.error, 'Failed to unfollow'));
       }
       return;
     }
@@ -479,7 +529,7 @@ export default function ProfilePage() {
         prev ? { ...prev, viewer: { ...prev.viewer, following: result.uri } } : prev
       );
     } else {
-      toast(result.error || 'Failed to follow');
+      toast(describeAtpError(result.error, 'Failed to follow'));
     }
   };
 
@@ -563,7 +613,7 @@ export default function ProfilePage() {
       );
       setActivityOpen(false);
     } else {
-      toast(result.error || 'Failed to save settings');
+      toast(describeAtpError(result.error, 'Failed to save settings'));
     }
     setActivitySaving(false);
   };
@@ -582,45 +632,16 @@ export default function ProfilePage() {
         setIsLoading(false);
         return;
       }
-      setIsLoading(true);
+      if (isSeeded && !isAuthenticated) return;
+      // Signed-in readers refetch for viewer state, keeping the snapshot on screen meanwhile.
+      if (!isSeeded) setIsLoading(true);
       setError(null);
       try {
         const result = isAuthenticated
           ? await atprotoClient.getProfile(targetHandle)
           : await atprotoClient.getProfilePublic(targetHandle);
         if (result.success && result.data) {
-          const verification = result.data.verification;
-          const verifications = result.data.verifications;
-          const computedVerified =
-            verification || verifications
-              ? verification?.verifiedStatus === 'valid' ||
-                verification?.trustedVerifierStatus === 'valid' ||
-                Boolean(verifications?.some((entry: { isValid?: boolean }) => entry?.isValid))
-              : undefined;
-          setProfile({
-            did: result.data.did,
-            handle: result.data.handle,
-            displayName: result.data.displayName,
-            description: result.data.description,
-            avatar: result.data.avatar,
-            banner: result.data.banner,
-            followersCount: result.data.followersCount ?? 0,
-            followsCount: result.data.followsCount ?? 0,
-            postsCount: result.data.postsCount ?? 0,
-            createdAt: result.data.createdAt,
-            chatAllowIncoming: result.data.associated?.chat?.allowIncoming,
-            verified: computedVerified,
-            viewer: isAuthenticated
-              ? {
-                  blockedBy: result.data.viewer?.blockedBy,
-                  blocking: result.data.viewer?.blocking,
-                  muted: result.data.viewer?.muted,
-                  following: result.data.viewer?.following,
-                  followedBy: result.data.viewer?.followedBy,
-                  activitySubscription: result.data.viewer?.activitySubscription,
-                }
-              : undefined,
-          });
+          setProfile(mapProfileView(result.data, isAuthenticated));
         } else {
           setError('Failed to load profile');
         }
@@ -632,12 +653,27 @@ export default function ProfilePage() {
     };
 
     fetchProfile();
-  }, [authLoading, isAuthenticated, user?.handle, handle]);
+  }, [authLoading, isAuthenticated, user?.handle, handle, isSeeded]);
+
+  useEffect(() => {
+    clearSsrData();
+  }, []);
+
+  // Share the loaded name and avatar with every post card by this author.
+  useEffect(() => {
+    if (!profile) return;
+    const { did, handle: profileHandle, displayName, avatar, verified } = profile;
+    cacheProfile(queryClient, { did, handle: profileHandle, displayName, avatar, verified });
+  }, [profile, queryClient]);
+
+  useEffect(() => {
+    if (!isSeeded) setSsrSeed(null);
+  }, [isSeeded]);
 
   useEffect(() => {
     if (!profile) return;
-    setTabData(createInitialTabState());
-  }, [profile?.did, profile?.handle]);
+    setTabData(isSeeded && !isAuthenticated ? createSeededTabState(ssrSeed) : createInitialTabState());
+  }, [profile?.did, profile?.handle, isAuthenticated]);
 
   useEffect(() => {
     if (!profile || authLoading) return;
@@ -792,9 +828,10 @@ export default function ProfilePage() {
           const mapped =
             tab === 'feeds' || tab === 'starterPacks' || tab === 'lists'
               ? result.data
-              : result.data
-                  .filter((item: any) => (tab === 'videos' ? hasVideoEmbed(item.post?.embed) : true))
-                  .map((item: any) => mapFeedItem(item));
+              : cacheFeedItems(
+                  queryClient,
+                  result.data.filter((item: any) => (tab === 'videos' ? hasVideoEmbed(item.post?.embed) : true))
+                );
           setTabData((prev) => ({
             ...prev,
             [tab]: {
@@ -806,9 +843,10 @@ export default function ProfilePage() {
             },
           }));
         } else {
+          const error = result?.error ? describeAtpError(result.error, 'Failed to load content') : 'Failed to load content';
           setTabData((prev) => ({
             ...prev,
-            [tab]: { ...prev[tab], isLoading: false, error: 'Failed to load content', hasLoaded: true },
+            [tab]: { ...prev[tab], isLoading: false, error, hasLoaded: true },
           }));
         }
       } catch (err) {
@@ -818,7 +856,7 @@ export default function ProfilePage() {
         }));
       }
     },
-    [profile, tabData]
+    [profile, tabData, queryClient]
   );
 
   const handlePinFeed = async (uri: string) => {
@@ -835,6 +873,7 @@ export default function ProfilePage() {
       await atprotoClient.pinFeed(uri, 'feed');
       setPinnedFeedUris((prev) => new Set(prev).add(uri));
     }
+    queryClient.invalidateQueries({ queryKey: savedFeedKeys.all });
     setPinningFeedUri(null);
   };
 
@@ -1002,7 +1041,7 @@ export default function ProfilePage() {
                       onClick={async () => {
                         if (!profile?.did) return;
                         const result = await atprotoClient.reportAccount(profile.did);
-                        toast(result.success ? 'Profile reported' : result.error || 'Report failed');
+                        toast(result.success ? 'Profile reported' : describeAtpError(result.error, 'Report failed'));
                       }}
                     >
                       <TrendingUp className="w-4 h-4 mr-2" />
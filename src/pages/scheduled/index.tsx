@@ -0,0 +1,321 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { MobileMoreMenu } from '@/components/layout/BottomNav';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { toast } from '@/components/ui/sonner';
+import { ScheduleTimePicker } from '@/components/composer/ScheduleTimePicker';
+import { ChatApiError } from '@/lib/chat';
+import {
+  formatScheduleTime,
+  getScheduledMediaUrl,
+  ScheduledPost,
+  ScheduledPostStatus,
+  scheduledPostsApi,
+} from '@/lib/scheduledPosts';
+import { usePageMeta } from '@/lib/seo';
+import { CalendarClock, Loader2, Pencil, RotateCcw, Trash2 } from 'lucide-react';
+
+const MAX_CHARS = 300;
+
+const statusStyles: Record<ScheduledPostStatus, { label: string; className: string }> = {
+  pending: { label: 'Scheduled', className: 'bg-primary/10 text-primary' },
+  publishing: { label: 'Publishing', className: 'bg-amber-500/10 text-amber-600' },
+  published: { label: 'Published', className: 'bg-emerald-500/10 text-emerald-600' },
+  failed: { label: 'Failed', className: 'bg-destructive/10 text-destructive' },
+};
+
+const postPathFromUri = (uri: string) => {
+  const [, , did, , rkey] = uri.split('/');
+  return did && rkey ? `/profile/${did}/post/${rkey}` : null;
+};
+
+const describeError = (error: unknown, fallback: string) => {
+  if (error instanceof ChatApiError && error.status === 401) {
+    return 'Your session has expired. Sign in again to manage scheduled posts.';
+  }
+  return error instanceof Error ? error.message : fallback;
+};
+
+function ScheduledPostItem({
+  post,
+  onEdit,
+  onRetry,
+  onCancel,
+}: {
+  post: ScheduledPost;
+  onEdit: (post: ScheduledPost) => void;
+  onRetry: (post: ScheduledPost) => void;
+  onCancel: (post: ScheduledPost) => void;
+}) {
+  const status = statusStyles[post.status];
+  const publishedPath = post.publishedUri ? postPathFromUri(post.publishedUri) : null;
+  const isEditable = post.status === 'pending' || post.status === 'failed';
+
+  return (
+    <article className="px-6 py-4 border-b border-border space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <CalendarClock className="w-4 h-4" />
+          <span>{formatScheduleTime(new Date(post.scheduledAt))}</span>
+        </div>
+        <span className={`rounded-full px-2 py-0.5 text-xs font-semibold ${status.className}`}>{status.label}</span>
+      </div>
+
+      {post.text && <p className="text-foreground whitespace-pre-wrap break-words">{post.text}</p>}
+
+      {post.images.length > 0 && post.status !== 'published' && (
+        <div className="grid grid-cols-4 gap-2">
+          {post.images.map((image) => (
+            <img
+              key={image.index}
+              src={getScheduledMediaUrl(post, image.index)}
+              alt={image.alt || `Image ${image.index + 1}`}
+              className="w-full h-20 rounded-lg object-cover border border-border"
+            />
+          ))}
+        </div>
+      )}
+
+      {post.external && (
+        <div className="rounded-lg border border-border p-3">
+          <p className="text-sm font-semibold text-foreground line-clamp-1">{post.external.title || post.external.uri}</p>
+          <p className="text-xs text-muted-foreground truncate">{post.external.uri}</p>
+        </div>
+      )}
+
+      {post.lastError && post.status !== 'published' && (
+        <p className="text-xs text-destructive">
+          {post.lastError}
+          {post.status === 'pending' && post.nextAttemptAt
+            ? ` Retrying ${formatScheduleTime(new Date(post.nextAttemptAt))}.`
+            : ''}
+        </p>
+      )}
+
+      <div className="flex items-center gap-2">
+        {publishedPath && (
+          <Button asChild variant="outline" size="sm">
+            <Link to={publishedPath}>View post</Link>
+          </Button>
+        )}
+        {isEditable && (
+          <Button variant="outline" size="sm" onClick={() => onEdit(post)}>
+            <Pencil className="w-4 h-4 mr-2" />
+            Edit
+          </Button>
+        )}
+        {post.status === 'failed' && (
+          <Button variant="outline" size="sm" onClick={() => onRetry(post)}>
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Retry
+          </Button>
+        )}
+        {post.status !== 'publishing' && (
+          <Button variant="ghost" size="sm" className="text-destructive" onClick={() => onCancel(post)}>
+            <Trash2 className="w-4 h-4 mr-2" />
+            {post.status === 'published' ? 'Remove' : 'Cancel'}
+          </Button>
+        )}
+      </div>
+    </article>
+  );
+}
+
+export default function ScheduledPostsPage() {
+  usePageMeta({
+    title: 'Scheduled',
+    description: 'Posts queued to publish later.',
+  });
+  const [posts, setPosts] = useState<ScheduledPost[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<ScheduledPost | null>(null);
+  const [editText, setEditText] = useState('');
+  const [editTime, setEditTime] = useState(new Date());
+  const [isSaving, setIsSaving] = useState(false);
+  const [cancelling, setCancelling] = useState<ScheduledPost | null>(null);
+
+  const loadPosts = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setPosts(await scheduledPostsApi.list());
+    } catch (err) {
+      setError(describeError(err, 'Failed to load scheduled posts.'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPosts();
+  }, [loadPosts]);
+
+  const replacePost = (updated: ScheduledPost) => {
+    setPosts((prev) => prev.map((post) => (post.id === updated.id ? updated : post)));
+  };
+
+  const openEditor = (post: ScheduledPost) => {
+    setEditing(post);
+    setEditText(post.text);
+    setEditTime(new Date(post.scheduledAt));
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    setIsSaving(true);
+    try {
+      replacePost(await scheduledPostsApi.update(editing.id, { text: editText, scheduledAt: editTime }));
+      setEditing(null);
+      toast.success('Scheduled post updated');
+    } catch (err) {
+      toast.error(describeError(err, 'Failed to update the post.'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRetry = async (post: ScheduledPost) => {
+    try {
+      replacePost(await scheduledPostsApi.retry(post.id));
+    } catch (err) {
+      toast.error(describeError(err, 'Failed to retry the post.'));
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!cancelling) return;
+    try {
+      await scheduledPostsApi.cancel(cancelling.id);
+      setPosts((prev) => prev.filter((post) => post.id !== cancelling.id));
+    } catch (err) {
+      toast.error(describeError(err, 'Failed to cancel the post.'));
+    } finally {
+      setCancelling(null);
+    }
+  };
+
+  const upcoming = posts.filter((post) => post.status !== 'published');
+  const published = posts.filter((post) => post.status === 'published').reverse();
+
+  return (
+    <AppLayout>
+      <header className="sticky top-0 z-30 surface-elevated border-b border-border backdrop-blur-lg bg-background/80">
+        <div className="px-6 h-14 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <MobileMoreMenu />
+            <div>
+              <h1 className="font-semibold text-foreground text-lg">Scheduled</h1>
+              <p className="text-xs text-muted-foreground">Posts queued to publish later</p>
+            </div>
+          </div>
+          <Button variant="ghost" size="sm" onClick={loadPosts} disabled={isLoading}>
+            Refresh
+          </Button>
+        </div>
+      </header>
+
+      <div className="animate-fade-in">
+        {isLoading && posts.length === 0 ? (
+          <div className="p-10 flex justify-center">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <div className="p-10 text-center text-sm text-destructive">{error}</div>
+        ) : posts.length === 0 ? (
+          <div className="p-10 text-center text-muted-foreground">
+            <p className="text-sm">No scheduled posts.</p>
+            <p className="text-xs mt-2">Use Schedule in the composer to queue a post for later.</p>
+          </div>
+        ) : (
+          <>
+            {upcoming.map((post) => (
+              <ScheduledPostItem
+                key={post.id}
+                post={post}
+                onEdit={openEditor}
+                onRetry={handleRetry}
+                onCancel={setCancelling}
+              />
+            ))}
+            {published.length > 0 && (
+              <>
+                <h2 className="px-6 py-3 text-xs font-semibold text-muted-foreground uppercase tracking-wider bg-muted/30 border-b border-border">
+                  Recently published
+                </h2>
+                {published.map((post) => (
+                  <ScheduledPostItem
+                    key={post.id}
+                    post={post}
+                    onEdit={openEditor}
+                    onRetry={handleRetry}
+                    onCancel={setCancelling}
+                  />
+                ))}
+              </>
+            )}
+          </>
+        )}
+      </div>
+
+      <Dialog open={Boolean(editing)} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Edit scheduled post</DialogTitle>
+          </DialogHeader>
+          <DialogDescription className="sr-only">Change the text or publish time of this post.</DialogDescription>
+          <div className="space-y-3">
+            <Textarea
+              value={editText}
+              onChange={(event) => setEditText(event.target.value)}
+              maxLength={MAX_CHARS}
+              className="min-h-[120px]"
+            />
+            <div className="flex justify-center rounded-lg border border-border">
+              <ScheduleTimePicker value={editTime} onChange={setEditTime} />
+            </div>
+            <div className="flex items-center justify-between">
+              <p className="text-xs text-muted-foreground">{formatScheduleTime(editTime)}</p>
+              <div className="flex gap-2">
+                <Button variant="outline" type="button" onClick={() => setEditing(null)}>
+                  Cancel
+                </Button>
+                <Button type="button" onClick={handleSave} disabled={isSaving}>
+                  {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Save
+                </Button>
+              </div>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={Boolean(cancelling)} onOpenChange={(open) => !open && setCancelling(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {cancelling?.status === 'published' ? 'Remove from this list?' : 'Cancel scheduled post?'}
+            </DialogTitle>
+          </DialogHeader>
+          <DialogDescription className="sr-only">Confirm whether to remove this scheduled post.</DialogDescription>
+          <p className="text-sm text-muted-foreground">
+            {cancelling?.status === 'published'
+              ? 'The post stays on your profile; it is only removed from this list.'
+              : 'The post will not be published and its attached images are deleted.'}
+          </p>
+          <div className="flex items-center justify-end gap-2">
+            <Button variant="outline" type="button" onClick={() => setCancelling(null)}>
+              Keep
+            </Button>
+            <Button variant="destructive" type="button" onClick={handleCancel}>
+              {cancelling?.status === 'published' ? 'Remove' : 'Cancel post'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </AppLayout>
+  );
+}
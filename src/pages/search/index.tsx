@@ -0,0 +1,96 @@
+import { FormEvent, useEffect, useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Search, SlidersHorizontal } from 'lucide-react';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { MobileMoreMenu } from '@/components/layout/BottomNav';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { PostSearchFilterBuilder, PostSearchFilterChips } from '@/components/search/PostSearchFilterBuilder';
+import { PostSearchResults, PostSearchSortToggle } from '@/components/search/PostSearchResults';
+import {
+  buildPostSearchQuery,
+  hasPostSearchFilters,
+  parsePostSearchQuery,
+  PostSearchFilters,
+  PostSearchSort,
+  readPostSearchParams,
+  toPostSearchParams,
+} from '@/lib/postSearch';
+import { usePageMeta } from '@/lib/seo';
+
+export default function SearchPage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { query, sort } = readPostSearchParams(searchParams);
+  const filters = useMemo(() => parsePostSearchQuery(query), [query]);
+  const [input, setInput] = useState(query);
+  const [showFilters, setShowFilters] = useState(false);
+
+  usePageMeta({
+    title: query ? `${query} - Search` : 'Search',
+    description: 'Search posts across HillSide.',
+  });
+
+  useEffect(() => {
+    setInput(query);
+  }, [query]);
+
+  const navigate = (nextQuery: string, nextSort: PostSearchSort) => {
+    setSearchParams(toPostSearchParams(nextQuery, nextSort));
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    navigate(buildPostSearchQuery(parsePostSearchQuery(input.trim())), sort);
+  };
+
+  // The search box may hold edits that were never submitted; keep them alongside the new filters.
+  const applyFilters = (next: PostSearchFilters) => {
+    navigate(buildPostSearchQuery({ ...next, text: parsePostSearchQuery(input).text }), sort);
+    setShowFilters(false);
+  };
+
+  return (
+    <AppLayout requireAuth={false}>
+      <header className="sticky top-0 z-30 surface-elevated border-b border-border backdrop-blur-lg bg-background/80">
+        <div className="px-4 h-14 flex items-center gap-3">
+          <MobileMoreMenu />
+          <h1 className="font-semibold text-foreground text-lg">Search</h1>
+        </div>
+
+        <form className="px-4 pb-3 flex gap-2" onSubmit={handleSubmit}>
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              type="search"
+              placeholder="Search posts, or try from:handle lang:en"
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              className="pl-10"
+              aria-label="Search posts"
+            />
+          </div>
+          <Button
+            type="button"
+            variant={showFilters || hasPostSearchFilters(filters) ? 'secondary' : 'outline'}
+            size="icon"
+            onClick={() => setShowFilters((prev) => !prev)}
+            aria-label="Search filters"
+            aria-expanded={showFilters}
+          >
+            <SlidersHorizontal className="w-4 h-4" />
+          </Button>
+          <Button type="submit">Search</Button>
+        </form>
+
+        {!showFilters && <PostSearchFilterChips filters={filters} onApply={applyFilters} />}
+        {showFilters && <PostSearchFilterBuilder filters={filters} onApply={applyFilters} />}
+
+        <PostSearchSortToggle sort={sort} onChange={(nextSort) => navigate(query, nextSort)} />
+      </header>
+
+      <div className="animate-fade-in">
+        <PostSearchResults query={query} sort={sort} />
+      </div>
+    </AppLayout>
+  );
+}
@@ -1,10 +1,13 @@
+import { useEffect, useState } from 'react';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { MobileMoreMenu } from '@/components/layout/BottomNav';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
-import { Moon, Sun, Palette, Globe, Shield, User, LogOut, ChevronRight } from 'lucide-react';
+import { toast } from '@/components/ui/sonner';
+import { Moon, Sun, Palette, Globe, Shield, User, LogOut, ChevronRight, Bell } from 'lucide-react';
+import { disablePushNotifications, enablePushNotifications, getPushSubscription, isPushSupported } from '@/lib/push';
 import { usePageMeta } from '@/lib/seo';
 
 interface SettingsSectionProps {
@@ -62,6 +65,40 @@ export default function SettingsPage() {
     description: 'Manage your HillSide preferences and account settings.',
   });
 
+  const pushSupported = isPushSupported();
+  const [pushEnabled, setPushEnabled] = useState(false);
+  const [isPushUpdating, setIsPushUpdating] = useState(false);
+
+  useEffect(() => {
+    if (!pushSupported) return;
+    let cancelled = false;
+    getPushSubscription()
+      .then((subscription) => {
+        if (!cancelled) setPushEnabled(Boolean(subscription) && Notification.permission === 'granted');
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [pushSupported]);
+
+  const handlePushToggle = async (enabled: boolean) => {
+    setIsPushUpdating(true);
+    try {
+      if (enabled) {
+        await enablePushNotifications();
+        toast.success('Push notifications enabled');
+      } else {
+        await disablePushNotifications();
+      }
+      setPushEnabled(enabled);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update push notifications');
+    } finally {
+      setIsPushUpdating(false);
+    }
+  };
+
   const handleLogout = async () => {
     await logout();
   };
@@ -108,6 +145,26 @@ export default function SettingsPage() {
           />
         </SettingsSection>
 
+        {/* Notifications Section */}
+        <SettingsSection title="Notifications">
+          <SettingsRow
+            icon={<Bell className="w-5 h-5 text-primary" />}
+            label="Push Notifications"
+            description={
+              pushSupported
+                ? 'Mentions, replies, quotes and direct messages on this device'
+                : 'Not supported in this browser'
+            }
+            action={
+              <Switch
+                checked={pushEnabled}
+                disabled={!pushSupported || isPushUpdating}
+                onCheckedChange={handlePushToggle}
+              />
+            }
+          />
+        </SettingsSection>
+
         {/* Preferences Section - Future-proof placeholders */}
         <SettingsSection title="Preferences">
           <SettingsRow